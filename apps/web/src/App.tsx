@@ -9,6 +9,8 @@ import { LoginPage } from './pages/LoginPage'
 import { SessionJoinPage } from './pages/SessionJoinPage'
 import { SessionGuestPage } from './pages/SessionGuestPage'
 import { SessionsPage } from './pages/SessionsPage'
+import { CollectionPage } from './pages/CollectionPage'
+import { PlayerProfilePage } from './pages/PlayerProfilePage'
 import { DbGate } from './components/DbGate'
 import { LocalOwnerGate } from './components/gates/LocalOwnerGate'
 import { ErrorBoundary } from './components/ErrorBoundary'
@@ -35,6 +37,24 @@ export default function App() {
                 }
               />
 
+              <Route
+                path="/collection"
+                element={
+                  <DbGate>
+                    <CollectionPage />
+                  </DbGate>
+                }
+              />
+
+              <Route
+                path="/players/:username"
+                element={
+                  <DbGate>
+                    <PlayerProfilePage />
+                  </DbGate>
+                }
+              />
+
               <Route
                 path="/session/:sessionId/preferences"
                 element={
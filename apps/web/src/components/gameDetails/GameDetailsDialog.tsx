@@ -14,6 +14,8 @@ import type { ReactElement } from 'react'
 import type { GameRecord, UserRecord } from '../../db/types'
 import { GameNotesPanel } from '../gameNotes/GameNotesPanel'
 import { GameOwnersPanel } from './GameOwnersPanel'
+import { GameExpansionsPanel } from './GameExpansionsPanel'
+import { GameTagsPanel } from './GameTagsPanel'
 import { GameDetailsSummaryPanel } from './GameDetailsSummaryPanel'
 import { useGameNotesCount } from '../../hooks/useGameNotesCount'
 
@@ -98,6 +100,10 @@ export function GameDetailsDialog({
             onRemoveOwner={onRemoveOwner}
           />
         </Box>
+
+        <GameTagsPanel game={game} />
+
+        {game.expansions?.length ? <GameExpansionsPanel game={game} /> : null}
       </DialogContent>
 
       <DialogActions>
@@ -0,0 +1,70 @@
+import { useState } from 'react'
+import { Box, Checkbox, FormControlLabel, Stack, Typography } from '@mui/material'
+import { useLiveQuery } from 'dexie-react-hooks'
+import type { GameExpansionLink, GameRecord } from '../../db/types'
+import { getOwnedExpansionsForGame, removeOwnedExpansion } from '../../services/db'
+import { markExpansionOwned } from '../../services/bgg/bggExpansions'
+import { getEffectivePlayerRange } from '../../services/expansions/expansionRange'
+
+/** Expansions listed on BGG for a game, with the ones the group owns checked. */
+export function GameExpansionsPanel({ game }: { game: GameRecord }) {
+  const owned = useLiveQuery(() => getOwnedExpansionsForGame(game.bggId), [game.bggId])
+  const [pendingId, setPendingId] = useState<number | null>(null)
+
+  const expansions = game.expansions ?? []
+  const ownedIds = new Set((owned ?? []).map((e) => e.expansionId))
+  const range = getEffectivePlayerRange(game, owned ?? [])
+  const widened = range.expandedBy.length > 0
+
+  const toggle = async (link: GameExpansionLink, checked: boolean) => {
+    setPendingId(link.bggId)
+    try {
+      if (checked) await markExpansionOwned(game.bggId, link)
+      else await removeOwnedExpansion(link.bggId)
+    } catch (err) {
+      console.error('Failed to update owned expansion:', err)
+    } finally {
+      setPendingId(null)
+    }
+  }
+
+  return (
+    <Box
+      sx={{
+        border: '1px solid',
+        borderColor: 'divider',
+        borderRadius: 2,
+        p: 1.25,
+        bgcolor: 'background.paper',
+      }}
+    >
+      <Stack direction="row" alignItems="center" justifyContent="space-between" sx={{ mb: 0.5 }}>
+        <Typography variant="subtitle2" fontWeight={700}>
+          Expansions
+        </Typography>
+        {widened ? (
+          <Typography variant="caption" color="text.secondary">
+            {range.minPlayers}–{range.maxPlayers} players with owned expansions
+          </Typography>
+        ) : null}
+      </Stack>
+
+      <Stack sx={{ maxHeight: 180, overflow: 'auto' }}>
+        {expansions.map((link) => (
+          <FormControlLabel
+            key={link.bggId}
+            label={<Typography variant="body2">{link.name}</Typography>}
+            control={
+              <Checkbox
+                size="small"
+                checked={ownedIds.has(link.bggId)}
+                disabled={owned === undefined || pendingId === link.bggId}
+                onChange={(e) => void toggle(link, e.target.checked)}
+              />
+            }
+          />
+        ))}
+      </Stack>
+    </Box>
+  )
+}
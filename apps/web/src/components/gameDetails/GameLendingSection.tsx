@@ -0,0 +1,160 @@
+import { useState } from 'react'
+import { Autocomplete, Box, Button, Stack, TextField, Typography } from '@mui/material'
+import { useLiveQuery } from 'dexie-react-hooks'
+import type { UserGameRecord, UserRecord } from '../../db/types'
+import {
+  getGameCopies,
+  getGameLocations,
+  getLoansForGame,
+  lendGame,
+  returnGame,
+  setGameLocation,
+} from '../../services/db'
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString()
+}
+
+function CopyRow(props: {
+  copy: UserGameRecord
+  ownerName: string
+  locations: string[]
+  disabled: boolean
+  run: (action: () => Promise<void>) => Promise<void>
+}) {
+  const { copy, ownerName, locations, disabled, run } = props
+  const [borrower, setBorrower] = useState<string | null>(null)
+
+  const saveLocation = (value: string | null) => {
+    if ((value?.trim() || undefined) === copy.location) return
+    void run(() => setGameLocation(copy.username, copy.bggId, value))
+  }
+
+  const confirmLend = () => {
+    if (!borrower?.trim()) return
+    void run(() => lendGame(copy.username, copy.bggId, borrower)).then(() => setBorrower(null))
+  }
+
+  return (
+    <Stack direction={{ xs: 'column', sm: 'row' }} spacing={1} alignItems={{ sm: 'center' }}>
+      <Typography variant="body2" fontWeight={600} sx={{ minWidth: 90 }}>
+        {ownerName}
+      </Typography>
+      <Autocomplete
+        freeSolo
+        size="small"
+        disabled={disabled}
+        options={locations}
+        value={copy.location ?? null}
+        onChange={(_, value) => saveLocation(value)}
+        onBlur={(e) => saveLocation((e.target as HTMLInputElement).value)}
+        sx={{ minWidth: 160, flex: 1 }}
+        renderInput={(params) => <TextField {...params} label="Kept at" placeholder="e.g. Alex's place" />}
+      />
+      {copy.lentTo ? (
+        <Stack direction="row" spacing={1} alignItems="center">
+          <Typography variant="caption" color="warning.main">
+            Lent to {copy.lentTo}
+            {copy.lentSince ? ` since ${formatDate(copy.lentSince)}` : ''}
+          </Typography>
+          <Button size="small" disabled={disabled} onClick={() => void run(() => returnGame(copy.username, copy.bggId))}>
+            Returned
+          </Button>
+        </Stack>
+      ) : borrower !== null ? (
+        <Stack direction="row" spacing={1} alignItems="center">
+          <TextField
+            size="small"
+            autoFocus
+            label="Lent to"
+            value={borrower}
+            disabled={disabled}
+            onChange={(e) => setBorrower(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') confirmLend()
+              if (e.key === 'Escape') setBorrower(null)
+            }}
+          />
+          <Button size="small" disabled={disabled || !borrower.trim()} onClick={confirmLend}>
+            Lend
+          </Button>
+        </Stack>
+      ) : (
+        <Button size="small" disabled={disabled} onClick={() => setBorrower('')}>
+          Lend out
+        </Button>
+      )}
+    </Stack>
+  )
+}
+
+/**
+ * Where each owner keeps their copy, who has borrowed it, and every past loan.
+ */
+export function GameLendingSection({ bggId, users }: { bggId: number; users: UserRecord[] }) {
+  const copies = useLiveQuery(() => getGameCopies(bggId), [bggId])
+  const loans = useLiveQuery(() => getLoansForGame(bggId), [bggId])
+  const locations = useLiveQuery(() => getGameLocations(), [])
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  if (!copies?.length) return null
+
+  const nameOf = (username: string) => {
+    const user = users.find((u) => u.username === username)
+    return user?.displayName || username
+  }
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      await action()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update lending')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Box sx={{ mt: 1.25 }}>
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 0.75 }}>
+        Location & lending
+      </Typography>
+      <Stack spacing={1}>
+        {copies.map((copy) => (
+          <CopyRow
+            key={copy.username}
+            copy={copy}
+            ownerName={nameOf(copy.username)}
+            locations={locations ?? []}
+            disabled={isSaving}
+            run={run}
+          />
+        ))}
+      </Stack>
+      {error ? (
+        <Typography variant="caption" color="error" sx={{ display: 'block', mt: 0.5 }}>
+          {error}
+        </Typography>
+      ) : null}
+
+      {loans?.length ? (
+        <Box sx={{ mt: 1.25 }}>
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 0.5 }}>
+            Lending history
+          </Typography>
+          <Stack spacing={0.25}>
+            {loans.map((loan) => (
+              <Typography key={loan.id} variant="body2">
+                {loan.borrower} borrowed {nameOf(loan.username)}’s copy · {formatDate(loan.lentAt)} –{' '}
+                {loan.returnedAt ? formatDate(loan.returnedAt) : 'still out'}
+              </Typography>
+            ))}
+          </Stack>
+        </Box>
+      ) : null}
+    </Box>
+  )
+}
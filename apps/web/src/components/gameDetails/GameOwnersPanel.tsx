@@ -3,6 +3,7 @@ import { Autocomplete, Box, Chip, Stack, TextField, Typography } from '@mui/mate
 import AddIcon from '@mui/icons-material/Add'
 import DeleteIcon from '@mui/icons-material/Delete'
 import type { GameRecord, UserRecord } from '../../db/types'
+import { GameLendingSection } from './GameLendingSection'
 
 export function GameOwnersPanel(props: {
   game: GameRecord
@@ -85,6 +86,8 @@ export function GameOwnersPanel(props: {
           />
         ) : null}
       </Stack>
+
+      <GameLendingSection bggId={game.bggId} users={users} />
     </Box>
   )
 }
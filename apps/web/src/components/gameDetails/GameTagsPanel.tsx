@@ -0,0 +1,149 @@
+import { useState } from 'react'
+import { Autocomplete, Box, Chip, Stack, TextField, Typography } from '@mui/material'
+import { useLiveQuery } from 'dexie-react-hooks'
+import type { GameRecord } from '../../db/types'
+import {
+  addGamesToList,
+  createGameList,
+  createTag,
+  getGameLists,
+  getTagIdsForGame,
+  getTags,
+  removeGamesFromList,
+  setGameTags,
+} from '../../services/db'
+
+type NamedOption = { id: number; name: string }
+
+/**
+ * Multi-select over named records where typing a new name and pressing
+ * Enter creates it.
+ */
+function NamedRecordPicker(props: {
+  label: string
+  options: NamedOption[]
+  selectedIds: number[]
+  disabled: boolean
+  color: 'primary' | 'secondary'
+  onChange: (selected: Array<NamedOption | string>) => void
+}) {
+  const { label, options, selectedIds, disabled, color, onChange } = props
+  const selected = options.filter((o) => selectedIds.includes(o.id))
+
+  return (
+    <Autocomplete<NamedOption | string, true, false, true>
+      multiple
+      freeSolo
+      size="small"
+      disabled={disabled}
+      options={options}
+      value={selected}
+      getOptionLabel={(o) => (typeof o === 'string' ? o : o.name)}
+      isOptionEqualToValue={(a, b) => typeof a !== 'string' && typeof b !== 'string' && a.id === b.id}
+      onChange={(_, values) => onChange(values)}
+      renderValue={(values, getItemProps) =>
+        values.map((value, index) => (
+          <Chip
+            {...getItemProps({ index })}
+            key={typeof value === 'string' ? value : value.id}
+            label={typeof value === 'string' ? value : value.name}
+            size="small"
+            color={color}
+          />
+        ))
+      }
+      renderInput={(params) => <TextField {...params} label={label} placeholder="Type to add or create" />}
+    />
+  )
+}
+
+/** The game's user tags and the named lists it belongs to. */
+export function GameTagsPanel({ game }: { game: GameRecord }) {
+  const tags = useLiveQuery(() => getTags(), [])
+  const tagIds = useLiveQuery(() => getTagIdsForGame(game.bggId), [game.bggId])
+  const lists = useLiveQuery(() => getGameLists(), [])
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const listIds = (lists ?? []).filter((l) => l.bggIds.includes(game.bggId)).map((l) => l.id!)
+  const isLoading = tags === undefined || tagIds === undefined || lists === undefined
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      await action()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update tags')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleTagsChange = (values: Array<NamedOption | string>) =>
+    run(async () => {
+      const ids: number[] = []
+      for (const value of values) {
+        ids.push(typeof value === 'string' ? (await createTag(value)).id! : value.id)
+      }
+      await setGameTags(game.bggId, ids)
+    })
+
+  const handleListsChange = (values: Array<NamedOption | string>) =>
+    run(async () => {
+      const keep = new Set<number>()
+      for (const value of values) {
+        if (typeof value === 'string') await createGameList(value, [game.bggId])
+        else keep.add(value.id)
+      }
+      for (const id of keep) {
+        if (!listIds.includes(id)) await addGamesToList(id, [game.bggId])
+      }
+      for (const id of listIds) {
+        if (!keep.has(id)) await removeGamesFromList(id, [game.bggId])
+      }
+    })
+
+  return (
+    <Box
+      sx={{
+        border: '1px solid',
+        borderColor: 'divider',
+        borderRadius: 2,
+        p: 1.25,
+        bgcolor: 'background.paper',
+      }}
+    >
+      <Typography variant="subtitle2" fontWeight={700} sx={{ mb: 1 }}>
+        Tags & lists
+      </Typography>
+      <Stack direction={{ xs: 'column', sm: 'row' }} spacing={1.5}>
+        <Box sx={{ flex: 1, minWidth: 0 }}>
+          <NamedRecordPicker
+            label="Tags"
+            options={(tags ?? []).map((t) => ({ id: t.id!, name: t.name }))}
+            selectedIds={tagIds ?? []}
+            disabled={isLoading || isSaving}
+            color="primary"
+            onChange={(values) => void handleTagsChange(values)}
+          />
+        </Box>
+        <Box sx={{ flex: 1, minWidth: 0 }}>
+          <NamedRecordPicker
+            label="Lists"
+            options={(lists ?? []).map((l) => ({ id: l.id!, name: l.name }))}
+            selectedIds={listIds}
+            disabled={isLoading || isSaving}
+            color="secondary"
+            onChange={(values) => void handleListsChange(values)}
+          />
+        </Box>
+      </Stack>
+      {error ? (
+        <Typography variant="caption" color="error" sx={{ display: 'block', mt: 0.5 }}>
+          {error}
+        </Typography>
+      ) : null}
+    </Box>
+  )
+}
@@ -29,6 +29,7 @@ import BoltIcon from '@mui/icons-material/Bolt';
 import TuneIcon from '@mui/icons-material/Tune';
 import { colors } from '../../theme/theme';
 import type { GameRecord, UserRecord, UserPreferenceRecord } from '../../db/types';
+import type { VetoPolicy } from '../../store/wizardTypes';
 import { createSession } from '../../services/session';
 import { SessionViewContent } from './SessionViewContent';
 import { DetailedShareForm } from './createSessionDialog/DetailedShareForm';
@@ -47,6 +48,8 @@ export interface CreateSessionDialogProps {
   users?: UserRecord[];
   /** All preferences by username */
   preferences?: Record<string, UserPreferenceRecord[]>;
+  /** Host's veto policy, stored on the session for guests */
+  vetoPolicy?: VetoPolicy;
   /** Existing session ID (if viewing an existing invite) */
   existingSessionId?: string | null;
   /** Force starting in create mode even if existingSessionId is set */
@@ -69,6 +72,7 @@ export function CreateSessionDialog({
   hostDisplayName,
   users = [],
   preferences = {},
+  vetoPolicy,
   existingSessionId,
   forceCreateNew = false,
   onClose,
@@ -148,6 +152,7 @@ export function CreateSessionDialog({
               .map((p) => ({
                 bggId: p.bggId,
                 rank: p.rank,
+                tier: p.tier,
                 isTopPick: p.isTopPick,
                 isDisliked: p.isDisliked,
               }))
@@ -172,6 +177,7 @@ export function CreateSessionDialog({
       .map((p) => ({
         bggId: p.bggId,
         rank: p.rank,
+        tier: p.tier,
         isTopPick: p.isTopPick,
         isDisliked: p.isDisliked,
       }));
@@ -200,6 +206,7 @@ export function CreateSessionDialog({
         hostDisplayName,
         shareMode,
         showOtherParticipantsPicks: isDetailedShare ? showOtherParticipantsPicks : false,
+        vetoPolicy,
         games: games.map(toSessionGameData),
         namedParticipants,
         hostPreferences,
@@ -10,13 +10,18 @@ import { useState } from 'react';
 import { Alert, Button, CircularProgress, Stack, ToggleButton, ToggleButtonGroup, Typography, useMediaQuery, useTheme } from '@mui/material';
 import ViewAgendaIcon from '@mui/icons-material/ViewAgenda';
 import ViewStreamIcon from '@mui/icons-material/ViewStream';
+import SwipeIcon from '@mui/icons-material/Swipe';
 import type { LayoutMode } from '../../services/storage/uiPreferences';
 
 import { PreferencesStepContent } from '../steps/preferences/PreferencesStepContent';
 import { GUEST_USERNAME, useGuestPreferences } from '../../hooks/useGuestPreferences';
 import { GuestWaitingView } from './GuestWaitingView';
+import { SwipePreferencesDeck } from './SwipePreferencesDeck';
+import { TOP_PICKS_LIMIT } from '../steps/preferences/usePreferencesDragDrop';
+import type { SwipePreference } from '../../services/preferences/swipePreferences';
 import { OtherParticipantsPreferences } from './OtherParticipantsPreferences';
 import { useSessionRealtimeStatus } from '../../hooks/session/useSessionRealtimeStatus';
+import { getVetoLimit } from '../../services/recommendation/vetoPolicy';
 
 /** localStorage key for persisting guest ready state */
 const GUEST_READY_KEY = 'guestIsReady';
@@ -50,6 +55,7 @@ export function GuestPreferencesView({ sessionId }: GuestPreferencesViewProps) {
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
   const realtime = useSessionRealtimeStatus({ sessionId });
   const showOtherPicks = realtime.shareMode === 'detailed' && realtime.showOtherParticipantsPicks === true;
+  const vetoLimit = getVetoLimit(realtime.vetoPolicy);
 
   // Initialize ready state from localStorage (persists across page refreshes)
   const [isReady, setIsReady] = useState(() => getGuestReadyState(sessionId));
@@ -57,6 +63,7 @@ export function GuestPreferencesView({ sessionId }: GuestPreferencesViewProps) {
   const [error, setError] = useState<string | null>(null);
   // Layout mode: simplified by default on mobile for guests
   const [layoutMode, setLayoutMode] = useState<LayoutMode>(() => (isMobile ? 'simplified' : 'standard'));
+  const [isSwipeMode, setIsSwipeMode] = useState(false);
 
   const {
     games,
@@ -68,21 +75,23 @@ export function GuestPreferencesView({ sessionId }: GuestPreferencesViewProps) {
     updatePreference,
     reorderPreferences,
     clearPreference,
+    replacePreferences,
   } = useGuestPreferences();
 
-  // Ready handler
-  const handleReady = async () => {
+  // Ready handler (swipe mode passes its result directly, state may not be updated yet)
+  const handleReady = async (swipePrefs?: SwipePreference[]) => {
     setIsMarking(true);
     setError(null);
 
     try {
       const { submitGuestPreferences, setGuestReady } = await import('../../services/session');
-      const currentPrefs = preferences[GUEST_USERNAME] ?? [];
+      const currentPrefs = swipePrefs ?? preferences[GUEST_USERNAME] ?? [];
       await submitGuestPreferences(
         sessionId,
         currentPrefs.map((p) => ({
           bggId: p.bggId,
           rank: p.rank ?? null,
+          tier: p.tier ?? null,
           isTopPick: p.isTopPick ?? false,
           isDisliked: p.isDisliked ?? false,
         }))
@@ -114,6 +123,28 @@ export function GuestPreferencesView({ sessionId }: GuestPreferencesViewProps) {
     return <GuestWaitingView sessionId={sessionId} realtime={realtime} />;
   }
 
+  const handleSwipeComplete = (swipePrefs: SwipePreference[]) => {
+    replacePreferences(GUEST_USERNAME, swipePrefs);
+    void handleReady(swipePrefs);
+  };
+
+  if (isSwipeMode && games.length > 0) {
+    return (
+      <Stack spacing={2}>
+        <SwipePreferencesDeck
+          games={games}
+          topPicksLimit={TOP_PICKS_LIMIT}
+          vetoLimit={vetoLimit}
+          onComplete={handleSwipeComplete}
+          onCancel={() => setIsSwipeMode(false)}
+          completeLabel={isMarking ? 'Sending...' : "I'm Ready"}
+          disabled={isMarking}
+        />
+        {error && <Alert severity="error">{error}</Alert>}
+      </Stack>
+    );
+  }
+
   return (
     <Stack spacing={3}>
       <Alert severity="info">
@@ -121,6 +152,12 @@ export function GuestPreferencesView({ sessionId }: GuestPreferencesViewProps) {
         click "I'm Ready" to send your choices.
       </Alert>
 
+      {games.length > 1 && (
+        <Button variant="outlined" startIcon={<SwipeIcon />} onClick={() => setIsSwipeMode(true)}>
+          Quick swipe: love / fine / nope
+        </Button>
+      )}
+
       {/* Layout toggle - desktop only with text labels for clarity */}
       {!isMobile && (
         <ToggleButtonGroup
@@ -159,6 +196,7 @@ export function GuestPreferencesView({ sessionId }: GuestPreferencesViewProps) {
           onReorderPreferences={reorderPreferences}
           onClearPreference={clearPreference}
           hideLayoutToggle
+          vetoLimit={vetoLimit}
         />
       ) : (
         <Alert severity="warning">
@@ -171,7 +209,7 @@ export function GuestPreferencesView({ sessionId }: GuestPreferencesViewProps) {
       <Button
         variant="contained"
         size="large"
-        onClick={handleReady}
+        onClick={() => handleReady()}
         disabled={isMarking}
         sx={{ py: 1.5 }}
       >
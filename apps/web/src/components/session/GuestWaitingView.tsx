@@ -14,6 +14,7 @@ import HourglassEmptyIcon from '@mui/icons-material/HourglassEmpty';
 import type { SessionResultInfo } from '../../services/session/types';
 import { useSessionRealtimeStatus, type SessionRealtimeState } from '../../hooks/session/useSessionRealtimeStatus';
 import { TonightsPickResultCard } from './TonightsPickResultCard';
+import { RunoffBallotCard } from './RunoffBallotCard';
 
 /** Fallback poll interval in ms (only used if realtime fails) */
 const POLL_INTERVAL_MS = 10000;
@@ -233,6 +234,15 @@ export function GuestWaitingView({ sessionId, realtime: parentRealtime }: GuestW
         Your choices were sent. Waiting for the host to reveal Tonight's Pick...
       </Typography>
 
+      {/* Runoff ballot when the host's top games are tied */}
+      {realtime.connected && realtime.runoff && (
+        <RunoffBallotCard
+          key={realtime.runoff.startedAt}
+          sessionId={sessionId}
+          runoff={realtime.runoff}
+        />
+      )}
+
       {/* Show connection status */}
       <Stack direction="row" alignItems="center" spacing={1} mt={2}>
         {realtime.connected ? (
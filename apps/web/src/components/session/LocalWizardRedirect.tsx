@@ -82,6 +82,7 @@ export function LocalWizardRedirect({ sessionId }: LocalWizardRedirectProps) {
                   username: localOwner.username,
                   bggId: pref.bggId,
                   rank: pref.rank,
+                  tier: pref.tier,
                   isTopPick: pref.isTopPick,
                   isDisliked: pref.isDisliked,
                   updatedAt: now,
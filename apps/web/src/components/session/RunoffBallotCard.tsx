@@ -0,0 +1,77 @@
+/**
+ * RunoffBallotCard
+ *
+ * Shown to guests while the host runs a runoff between tied games.
+ * Guests rank only the tied games; resubmitting replaces their ballot.
+ */
+
+import { useState } from 'react';
+import { Alert, Button, Card, CardContent, Stack, Typography } from '@mui/material';
+import HowToVoteIcon from '@mui/icons-material/HowToVote';
+import type { SessionRunoffInfo } from '../../services/session/types';
+import { RunoffRankingChips } from '../steps/result/RunoffRankingChips';
+
+export interface RunoffBallotCardProps {
+  sessionId: string;
+  runoff: SessionRunoffInfo;
+}
+
+/**
+ * Runoff ballot for guests.
+ */
+export function RunoffBallotCard({ sessionId, runoff }: RunoffBallotCardProps) {
+  const [ranking, setRanking] = useState<number[]>([]);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const { submitRunoffBallot } = await import('../../services/session');
+      await submitRunoffBallot(sessionId, runoff.startedAt, ranking);
+      setSubmitted(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send your ballot');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card sx={{ width: '100%', maxWidth: 480 }}>
+      <CardContent>
+        <Stack spacing={1.5}>
+          <Stack direction="row" alignItems="center" gap={1}>
+            <HowToVoteIcon color="primary" />
+            <Typography variant="subtitle1" fontWeight={600}>
+              Runoff: help break the tie
+            </Typography>
+          </Stack>
+          <Typography variant="body2" color="text.secondary">
+            Tap the games in the order you'd like to play them.
+          </Typography>
+          <RunoffRankingChips
+            games={runoff.games}
+            ranking={ranking}
+            onChange={(next) => {
+              setRanking(next);
+              setSubmitted(false);
+            }}
+            disabled={isSubmitting}
+          />
+          {submitted && <Alert severity="success">Ballot sent. You can change it until the host decides.</Alert>}
+          {error && <Alert severity="error">{error}</Alert>}
+          <Button
+            variant="contained"
+            onClick={handleSubmit}
+            disabled={isSubmitting || submitted || ranking.length === 0}
+          >
+            {isSubmitting ? 'Sending…' : 'Send my ballot'}
+          </Button>
+        </Stack>
+      </CardContent>
+    </Card>
+  );
+}
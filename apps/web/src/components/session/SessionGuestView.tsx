@@ -16,7 +16,9 @@ import { OtherParticipantsPreferences } from './OtherParticipantsPreferences';
 import { useSessionGuestState } from '../../hooks/session/useSessionGuestState';
 import { useSessionRealtimeStatus } from '../../hooks/session/useSessionRealtimeStatus';
 import { TonightsPickResultCard } from './TonightsPickResultCard';
+import { RunoffBallotCard } from './RunoffBallotCard';
 import { colors } from '../../theme/theme';
+import { getVetoLimit } from '../../services/recommendation/vetoPolicy';
 
 export interface SessionGuestViewProps {
   /** Session ID */
@@ -95,6 +97,14 @@ export function SessionGuestView({ sessionId, sessionTitle }: SessionGuestViewPr
         </Stack>
       )}
 
+      {realtime.status === 'open' && !realtime.selectedGame && realtime.runoff && (
+        <RunoffBallotCard
+          key={realtime.runoff.startedAt}
+          sessionId={sessionId}
+          runoff={realtime.runoff}
+        />
+      )}
+
       {/* Update banner when preferences changed after ready */}
       {isReady && hasChanges && (
         <Box
@@ -169,6 +179,7 @@ export function SessionGuestView({ sessionId, sessionTitle }: SessionGuestViewPr
           onUpdatePreference={updatePreference}
           onReorderPreferences={reorderPreferences}
           onClearPreference={clearPreference}
+          vetoLimit={getVetoLimit(realtime.vetoPolicy)}
         />
       ) : (
         <Alert severity="warning">
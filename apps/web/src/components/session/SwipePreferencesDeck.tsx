@@ -0,0 +1,278 @@
+/**
+ * SwipePreferencesDeck
+ *
+ * Quick preference mode for guests: one game at a time, swiped right (love),
+ * up (fine) or left (nope). Works with touch and mouse via pointer events and
+ * with the arrow keys. Afterwards the guest can put the loves in order before
+ * the result is handed back as preference records.
+ */
+
+import { useMemo, useRef, useState, type KeyboardEvent, type PointerEvent } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  IconButton,
+  LinearProgress,
+  List,
+  ListItem,
+  ListItemText,
+  Stack,
+  Typography,
+} from '@mui/material';
+import FavoriteIcon from '@mui/icons-material/Favorite';
+import ThumbUpAltOutlinedIcon from '@mui/icons-material/ThumbUpAltOutlined';
+import ThumbDownIcon from '@mui/icons-material/ThumbDown';
+import UndoIcon from '@mui/icons-material/Undo';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import type { GameRecord } from '../../db/types';
+import { getGameImageOrPlaceholder } from '../../services/ui/gameImage';
+import {
+  buildSwipePreferences,
+  getLovedOrder,
+  type SwipePreference,
+  type SwipeVerdict,
+} from '../../services/preferences/swipePreferences';
+
+/** Drag distance (px) that counts as a swipe */
+const SWIPE_THRESHOLD = 90;
+
+const VERDICT_KEYS: Record<string, SwipeVerdict> = {
+  ArrowRight: 'love',
+  ArrowUp: 'fine',
+  ArrowDown: 'fine',
+  ArrowLeft: 'nope',
+};
+
+function getSwipeVerdict(dx: number, dy: number): SwipeVerdict | null {
+  if (Math.abs(dx) >= SWIPE_THRESHOLD && Math.abs(dx) >= Math.abs(dy)) return dx > 0 ? 'love' : 'nope';
+  if (dy <= -SWIPE_THRESHOLD) return 'fine';
+  return null;
+}
+
+export interface SwipePreferencesDeckProps {
+  games: GameRecord[];
+  /** How many of the first loves become top picks; the rest are ranked */
+  topPicksLimit: number;
+  /** How many nopes (vetoes) the guest may give (null = no limit) */
+  vetoLimit?: number | null;
+  /** Called with the finished preferences */
+  onComplete: (preferences: SwipePreference[]) => void;
+  onCancel: () => void;
+  /** Label of the final button, e.g. "I'm Ready" */
+  completeLabel?: string;
+  disabled?: boolean;
+}
+
+export function SwipePreferencesDeck({
+  games,
+  topPicksLimit,
+  vetoLimit = null,
+  onComplete,
+  onCancel,
+  completeLabel = 'Done',
+  disabled = false,
+}: SwipePreferencesDeckProps) {
+  const [verdicts, setVerdicts] = useState<Map<number, SwipeVerdict>>(() => new Map());
+  const [lovedOrder, setLovedOrder] = useState<number[] | null>(null);
+  const [drag, setDrag] = useState<{ dx: number; dy: number } | null>(null);
+  const dragStart = useRef<{ x: number; y: number } | null>(null);
+
+  const gameById = useMemo(() => new Map(games.map((g) => [g.bggId, g])), [games]);
+  const current = games.find((g) => !verdicts.has(g.bggId));
+  const lastDecided = [...verdicts.keys()].at(-1);
+  const nopesLeft = vetoLimit === null ? null : vetoLimit - [...verdicts.values()].filter((v) => v === 'nope').length;
+
+  const decide = (verdict: SwipeVerdict) => {
+    if (!current) return;
+    if (verdict === 'nope' && nopesLeft !== null && nopesLeft <= 0) {
+      setDrag(null);
+      return;
+    }
+    setVerdicts((prev) => new Map(prev).set(current.bggId, verdict));
+    setDrag(null);
+  };
+
+  const undo = () => {
+    if (lastDecided === undefined) return;
+    setVerdicts((prev) => {
+      const next = new Map(prev);
+      next.delete(lastDecided);
+      return next;
+    });
+    setLovedOrder(null);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    const verdict = VERDICT_KEYS[event.key];
+    if (verdict) {
+      event.preventDefault();
+      decide(verdict);
+    } else if (event.key === 'Backspace') {
+      event.preventDefault();
+      undo();
+    }
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    dragStart.current = { x: event.clientX, y: event.clientY };
+    event.currentTarget.setPointerCapture?.(event.pointerId);
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (!dragStart.current) return;
+    setDrag({ dx: event.clientX - dragStart.current.x, dy: event.clientY - dragStart.current.y });
+  };
+
+  const handlePointerUp = () => {
+    const verdict = drag ? getSwipeVerdict(drag.dx, drag.dy) : null;
+    dragStart.current = null;
+    if (verdict) decide(verdict);
+    else setDrag(null);
+  };
+
+  const finish = () => onComplete(buildSwipePreferences(verdicts, { lovedOrder: lovedOrder ?? undefined, topPicksLimit }));
+
+  const progress = games.length > 0 ? (verdicts.size / games.length) * 100 : 100;
+  const hint = drag ? getSwipeVerdict(drag.dx, drag.dy) : null;
+
+  if (!current) {
+    const order = getLovedOrder(verdicts, lovedOrder ?? undefined);
+    const move = (index: number, delta: number) => {
+      const next = [...order];
+      [next[index], next[index + delta]] = [next[index + delta]!, next[index]!];
+      setLovedOrder(next);
+    };
+
+    return (
+      <Stack spacing={2}>
+        <Typography variant="h6">
+          {order.length > 1 ? 'Put your loves in order (optional)' : 'All games sorted'}
+        </Typography>
+        {order.length > 1 ? (
+          <List dense aria-label="Loved games">
+            {order.map((bggId, index) => (
+              <ListItem
+                key={bggId}
+                divider
+                secondaryAction={
+                  <>
+                    <IconButton size="small" aria-label="Move up" disabled={index === 0} onClick={() => move(index, -1)}>
+                      <ArrowUpwardIcon fontSize="small" />
+                    </IconButton>
+                    <IconButton size="small" aria-label="Move down" disabled={index === order.length - 1} onClick={() => move(index, 1)}>
+                      <ArrowDownwardIcon fontSize="small" />
+                    </IconButton>
+                  </>
+                }
+              >
+                <ListItemText
+                  primary={`${index + 1}. ${gameById.get(bggId)?.name ?? `#${bggId}`}`}
+                  secondary={index < topPicksLimit ? 'Top pick' : undefined}
+                />
+              </ListItem>
+            ))}
+          </List>
+        ) : null}
+        <Stack direction="row" spacing={1} justifyContent="space-between">
+          <Button startIcon={<UndoIcon />} onClick={undo} disabled={disabled}>
+            Back
+          </Button>
+          <Button variant="contained" size="large" onClick={finish} disabled={disabled}>
+            {completeLabel}
+          </Button>
+        </Stack>
+      </Stack>
+    );
+  }
+
+  return (
+    <Stack spacing={2}>
+      <Box>
+        <LinearProgress variant="determinate" value={progress} sx={{ height: 6, borderRadius: 3 }} />
+        <Typography variant="caption" color="text.secondary">
+          {verdicts.size + 1} of {games.length} · swipe right to love, up for fine, left for nope
+          {nopesLeft !== null ? ` · ${Math.max(0, nopesLeft)} ${nopesLeft === 1 ? 'nope' : 'nopes'} left` : ''}
+        </Typography>
+      </Box>
+
+      <Box
+        role="group"
+        tabIndex={0}
+        aria-label={`${current.name}. Right arrow: love, up arrow: fine, left arrow: nope`}
+        onKeyDown={handleKeyDown}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        sx={{
+          position: 'relative',
+          borderRadius: 4,
+          overflow: 'hidden',
+          boxShadow: 4,
+          touchAction: 'none',
+          userSelect: 'none',
+          cursor: drag ? 'grabbing' : 'grab',
+          outline: 'none',
+          '&:focus-visible': { boxShadow: (t) => `0 0 0 3px ${t.palette.primary.main}` },
+          transform: drag ? `translate(${drag.dx}px, ${Math.min(drag.dy, 0)}px) rotate(${drag.dx / 20}deg)` : 'none',
+          transition: drag ? 'none' : 'transform 0.2s ease',
+        }}
+      >
+        <Box
+          component="img"
+          src={getGameImageOrPlaceholder(current)}
+          alt=""
+          draggable={false}
+          sx={{ width: '100%', height: { xs: '55vh', sm: 420 }, objectFit: 'cover', display: 'block', bgcolor: 'action.hover' }}
+        />
+        <Box sx={{ p: 2, bgcolor: 'background.paper' }}>
+          <Typography variant="h6" fontWeight={700}>
+            {current.name}
+          </Typography>
+          <Stack direction="row" spacing={1} sx={{ mt: 0.5 }}>
+            {current.minPlayers && current.maxPlayers ? (
+              <Chip size="small" label={`${current.minPlayers}-${current.maxPlayers} players`} />
+            ) : null}
+            {current.playingTimeMinutes ? <Chip size="small" label={`${current.playingTimeMinutes} min`} /> : null}
+          </Stack>
+        </Box>
+        {hint ? (
+          <Chip
+            label={hint === 'love' ? 'LOVE' : hint === 'fine' ? 'FINE' : 'NOPE'}
+            color={hint === 'love' ? 'success' : hint === 'fine' ? 'default' : 'error'}
+            sx={{ position: 'absolute', top: 16, left: 16, fontWeight: 800 }}
+          />
+        ) : null}
+      </Box>
+
+      <Stack direction="row" spacing={1} justifyContent="center">
+        <Button
+          variant="outlined"
+          color="error"
+          startIcon={<ThumbDownIcon />}
+          onClick={() => decide('nope')}
+          disabled={nopesLeft !== null && nopesLeft <= 0}
+        >
+          Nope
+        </Button>
+        <Button variant="outlined" startIcon={<ThumbUpAltOutlinedIcon />} onClick={() => decide('fine')}>
+          Fine
+        </Button>
+        <Button variant="contained" color="success" startIcon={<FavoriteIcon />} onClick={() => decide('love')}>
+          Love
+        </Button>
+      </Stack>
+
+      <Stack direction="row" justifyContent="space-between">
+        <Button size="small" startIcon={<UndoIcon />} onClick={undo} disabled={lastDecided === undefined}>
+          Undo
+        </Button>
+        <Button size="small" onClick={onCancel}>
+          Back to list
+        </Button>
+      </Stack>
+    </Stack>
+  );
+}
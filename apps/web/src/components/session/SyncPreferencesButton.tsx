@@ -38,6 +38,7 @@ function toSharedPreferences(
     .map((p) => ({
       bggId: p.bggId,
       rank: p.rank,
+      tier: p.tier,
       isTopPick: p.isTopPick,
       isDisliked: p.isDisliked,
     }));
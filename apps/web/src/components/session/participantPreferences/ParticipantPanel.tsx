@@ -9,6 +9,7 @@ import { colors } from '../../../theme/theme';
 import { PreferenceTile } from './PreferenceTile';
 import type { ParticipantPreferencesInfo, SharedGamePreference } from '../../../services/session/types';
 import type { GameRecord } from '../../../db/types';
+import { getPreferenceSortKey } from '../../../services/preferences/preferenceTiers';
 
 export interface ParticipantPanelProps {
   participant: ParticipantPreferencesInfo;
@@ -16,7 +17,7 @@ export interface ParticipantPanelProps {
   visible: boolean;
 }
 
-/** Sort preferences: disliked first, then top picks, then by rank */
+/** Sort preferences: disliked first, then top picks, then by rank, then by tier */
 function sortPreferences(prefs: SharedGamePreference[]): SharedGamePreference[] {
   return [...prefs].sort((a, b) => {
     // Disliked first
@@ -26,9 +27,8 @@ function sortPreferences(prefs: SharedGamePreference[]): SharedGamePreference[]
     if (a.isTopPick && !b.isTopPick) return -1;
     if (!a.isTopPick && b.isTopPick) return 1;
     // Then by rank (lower rank = higher priority)
-    const rankA = a.rank ?? 999;
-    const rankB = b.rank ?? 999;
-    return rankA - rankB;
+    return getPreferenceSortKey({ rank: a.rank ?? undefined, tier: a.tier ?? undefined })
+      - getPreferenceSortKey({ rank: b.rank ?? undefined, tier: b.tier ?? undefined });
   });
 }
 
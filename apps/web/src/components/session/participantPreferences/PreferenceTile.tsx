@@ -29,8 +29,8 @@ export function PreferenceTile({ game, pref }: PreferenceTileProps) {
     <StarIcon sx={{ fontSize: 16, color: colors.sand }} />
   ) : null;
 
-  // Trailing rank indicator for ranked (non-top-pick, non-disliked)
-  const trailing = pref.rank && !isTopPick && !isDisliked ? (
+  // Trailing rank (or tier) indicator for ranked (non-top-pick, non-disliked)
+  const trailing = (pref.rank || pref.tier) && !isTopPick && !isDisliked ? (
     <Typography
       variant="caption"
       sx={{
@@ -42,7 +42,7 @@ export function PreferenceTile({ game, pref }: PreferenceTileProps) {
         borderRadius: 0.5,
       }}
     >
-      #{pref.rank}
+      {pref.rank ? `#${pref.rank}` : pref.tier}
     </Typography>
   ) : null;
 
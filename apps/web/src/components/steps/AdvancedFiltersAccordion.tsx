@@ -3,19 +3,30 @@ import {
   AccordionDetails,
   AccordionSummary,
   Box,
-  FormControlLabel,
   Slider,
   Stack,
-  Switch,
+  ToggleButton,
+  ToggleButtonGroup,
   Typography,
 } from '@mui/material'
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore'
 import StarIcon from '@mui/icons-material/Star'
+import type { GameRecord, TagRecord, UserRecord } from '../../db/types'
+import type { FacetFilter, GameFacet, WizardFilters } from '../../store/wizardTypes'
+import { FacetFiltersSection } from './filters/FacetFiltersSection'
+import { TagFilterSection } from './filters/TagFilterSection'
+import { AvailabilityFilterSection } from './filters/AvailabilityFilterSection'
+import type { GameTagsByGame } from '../../services/tags/gameTags'
+import type { GameCopiesByGame } from '../../services/lending/gameAvailability'
+import type { PlayerCountFit } from '../../services/filtering/playerCountFit'
 
 export interface AdvancedFiltersAccordionProps {
   playerCount: number
   requireBestWithPlayerCount: boolean
   onRequireBestWithPlayerCountChange: (enabled: boolean) => void
+  requireRecommendedPlayerCount?: boolean
+  /** When provided, also offers "recommended at N" from the BGG poll */
+  onPlayerCountFitChange?: (fit: PlayerCountFit) => void
 
   excludeLowRatedThreshold: number | null
   onExcludeLowRatedChange: (threshold: number | null) => void
@@ -29,6 +40,23 @@ export interface AdvancedFiltersAccordionProps {
   ratingRange: { min: number; max: number }
   onRatingRangeChange: (range: { min: number; max: number }) => void
 
+  /** Session games, for mechanic/category/designer counts */
+  games?: GameRecord[]
+  facets?: WizardFilters['facets']
+  onFacetFilterChange?: (facet: GameFacet, filter: FacetFilter) => void
+
+  /** User tags; the tag filter shows when a change handler is given */
+  tags?: TagRecord[]
+  gameTags?: GameTagsByGame
+  tagIds?: number[]
+  onTagFilterChange?: (tagIds: number[]) => void
+
+  /** Copy locations and loans; the available-tonight filter shows when a change handler is given */
+  users?: UserRecord[]
+  gameCopies?: GameCopiesByGame
+  availableAt?: string | null
+  onAvailableAtChange?: (location: string | null) => void
+
   disabled?: boolean
 }
 
@@ -36,6 +64,8 @@ export function AdvancedFiltersAccordion({
   playerCount,
   requireBestWithPlayerCount,
   onRequireBestWithPlayerCountChange,
+  requireRecommendedPlayerCount = false,
+  onPlayerCountFitChange,
   excludeLowRatedThreshold,
   onExcludeLowRatedChange,
   ageRange,
@@ -44,8 +74,31 @@ export function AdvancedFiltersAccordion({
   onComplexityRangeChange,
   ratingRange,
   onRatingRangeChange,
+  games,
+  facets,
+  onFacetFilterChange,
+  tags,
+  gameTags,
+  tagIds,
+  onTagFilterChange,
+  users,
+  gameCopies,
+  availableAt,
+  onAvailableAtChange,
   disabled = false,
 }: AdvancedFiltersAccordionProps) {
+  const playerCountFit: PlayerCountFit = requireBestWithPlayerCount
+    ? 'best'
+    : requireRecommendedPlayerCount
+      ? 'recommended'
+      : 'any'
+
+  const handlePlayerCountFitChange = (fit: PlayerCountFit | null) => {
+    if (!fit) return
+    if (onPlayerCountFitChange) onPlayerCountFitChange(fit)
+    else onRequireBestWithPlayerCountChange(fit === 'best')
+  }
+
   return (
     <Accordion
       sx={{
@@ -62,21 +115,56 @@ export function AdvancedFiltersAccordion({
         </Stack>
       </AccordionSummary>
       <AccordionDetails>
-        <FormControlLabel
-          control={
-            <Switch
-              checked={requireBestWithPlayerCount}
-              disabled={disabled}
-              onChange={(_, checked) => onRequireBestWithPlayerCountChange(checked)}
-            />
-          }
-          label={`Only games “best with ${playerCount}”`}
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          How well should games play at {playerCount}?
+        </Typography>
+        <ToggleButtonGroup
+          exclusive
+          size="small"
+          value={playerCountFit}
+          disabled={disabled}
+          onChange={(_, fit: PlayerCountFit | null) => handlePlayerCountFitChange(fit)}
           sx={{ mb: 1 }}
-        />
+        >
+          <ToggleButton value="any">Any</ToggleButton>
+          {onPlayerCountFitChange ? <ToggleButton value="recommended">Recommended at {playerCount}</ToggleButton> : null}
+          <ToggleButton value="best">Best with {playerCount}</ToggleButton>
+        </ToggleButtonGroup>
         <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 3 }}>
-          Uses the game’s “Best with” field (BGG poll-summary / import). Games without that info are hidden.
+          Uses BGG’s player-count poll. Games without poll votes only pass if their “Best with” field matches.
         </Typography>
 
+        {games && onFacetFilterChange ? (
+          <FacetFiltersSection
+            games={games}
+            facets={facets}
+            onFacetFilterChange={onFacetFilterChange}
+            disabled={disabled}
+          />
+        ) : null}
+
+        {games && tags && onTagFilterChange ? (
+          <TagFilterSection
+            games={games}
+            tags={tags}
+            gameTags={gameTags ?? {}}
+            tagIds={tagIds ?? []}
+            onTagFilterChange={onTagFilterChange}
+            disabled={disabled}
+          />
+        ) : null}
+
+        {games && onAvailableAtChange ? (
+          <AvailabilityFilterSection
+            games={games}
+            users={users ?? []}
+            gameCopies={gameCopies ?? {}}
+            availableAt={availableAt ?? null}
+            onAvailableAtChange={onAvailableAtChange}
+            disabled={disabled}
+          />
+        ) : null}
+
         {/* Player ratings exclusion */}
         <Typography variant="body2" color="text.secondary" gutterBottom>
           Exclude games rated below this threshold by any player
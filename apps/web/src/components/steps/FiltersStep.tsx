@@ -1,5 +1,6 @@
 import { Stack } from '@mui/material'
-import type { GameRecord, UserRecord } from '../../db/types'
+import type { GameRecord, TagRecord, UserRecord } from '../../db/types'
+import type { FacetFilter, GameFacet, WizardFilters } from '../../store/wizardTypes'
 import { AdvancedFiltersAccordion } from './AdvancedFiltersAccordion'
 import { PlayerCountCard } from './filters/PlayerCountCard'
 import { VibeCard } from './filters/VibeCard'
@@ -7,6 +8,10 @@ import { TimeRangeCard } from './filters/TimeRangeCard'
 import { FiltersResultsSection } from './filters/FiltersResultsSection'
 import type { LayoutMode } from '../../services/storage/uiPreferences'
 import { SectionHeader } from '../ui/SectionHeader'
+import type { PlayerCountFit } from '../../services/filtering/playerCountFit'
+import type { OwnedExpansionsByGame } from '../../services/expansions/expansionRange'
+import type { GameTagsByGame } from '../../services/tags/gameTags'
+import type { GameCopiesByGame } from '../../services/lending/gameAvailability'
 
 export interface FiltersStepProps {
   games: GameRecord[]
@@ -23,6 +28,8 @@ export interface FiltersStepProps {
   onModeChange: (mode: 'coop' | 'competitive' | 'any') => void
   requireBestWithPlayerCount: boolean
   onRequireBestWithPlayerCountChange: (enabled: boolean) => void
+  requireRecommendedPlayerCount?: boolean
+  onPlayerCountFitChange?: (fit: PlayerCountFit) => void
   excludeLowRatedThreshold: number | null
   onExcludeLowRatedChange: (threshold: number | null) => void
   ageRange: { min: number; max: number }
@@ -31,9 +38,23 @@ export interface FiltersStepProps {
   onComplexityRangeChange: (range: { min: number; max: number }) => void
   ratingRange: { min: number; max: number }
   onRatingRangeChange: (range: { min: number; max: number }) => void
+  facets?: WizardFilters['facets']
+  onFacetFilterChange?: (facet: GameFacet, filter: FacetFilter) => void
+  tags?: TagRecord[]
+  gameTags?: GameTagsByGame
+  tagIds?: number[]
+  onTagFilterChange?: (tagIds: number[]) => void
+  gameCopies?: GameCopiesByGame
+  availableAt?: string | null
+  onAvailableAtChange?: (location: string | null) => void
   filteredGames: GameRecord[]
   onExcludeGameFromSession: (bggId: number) => void
   onUndoExcludeGameFromSession: (bggId: number) => void
+  /** Current filters and ratings, for the relax suggestions */
+  filters?: WizardFilters
+  userRatings?: Record<string, Record<number, number | undefined>>
+  onApplyFilters?: (filters: WizardFilters) => void
+  ownedExpansions?: OwnedExpansionsByGame
   /** Whether all filter controls are disabled (e.g., in session guest mode) */
   disabled?: boolean
 }
@@ -53,6 +74,8 @@ export function FiltersStep({
   onModeChange,
   requireBestWithPlayerCount,
   onRequireBestWithPlayerCountChange,
+  requireRecommendedPlayerCount,
+  onPlayerCountFitChange,
   excludeLowRatedThreshold,
   onExcludeLowRatedChange,
   ageRange,
@@ -61,9 +84,22 @@ export function FiltersStep({
   onComplexityRangeChange,
   ratingRange,
   onRatingRangeChange,
+  facets,
+  onFacetFilterChange,
+  tags,
+  gameTags,
+  tagIds,
+  onTagFilterChange,
+  gameCopies,
+  availableAt,
+  onAvailableAtChange,
   filteredGames,
   onExcludeGameFromSession,
   onUndoExcludeGameFromSession,
+  filters,
+  userRatings,
+  onApplyFilters,
+  ownedExpansions,
   disabled = false,
 }: FiltersStepProps) {
   return (
@@ -94,6 +130,8 @@ export function FiltersStep({
         playerCount={playerCount}
         requireBestWithPlayerCount={requireBestWithPlayerCount}
         onRequireBestWithPlayerCountChange={onRequireBestWithPlayerCountChange}
+        requireRecommendedPlayerCount={requireRecommendedPlayerCount}
+        onPlayerCountFitChange={onPlayerCountFitChange}
         excludeLowRatedThreshold={excludeLowRatedThreshold}
         onExcludeLowRatedChange={onExcludeLowRatedChange}
         ageRange={ageRange}
@@ -102,6 +140,17 @@ export function FiltersStep({
         onComplexityRangeChange={onComplexityRangeChange}
         ratingRange={ratingRange}
         onRatingRangeChange={onRatingRangeChange}
+        games={games}
+        facets={facets}
+        onFacetFilterChange={onFacetFilterChange}
+        tags={tags}
+        gameTags={gameTags}
+        tagIds={tagIds}
+        onTagFilterChange={onTagFilterChange}
+        users={users}
+        gameCopies={gameCopies}
+        availableAt={availableAt}
+        onAvailableAtChange={onAvailableAtChange}
         disabled={disabled}
       />
 
@@ -114,6 +163,11 @@ export function FiltersStep({
         filteredGames={filteredGames}
         onExcludeGameFromSession={onExcludeGameFromSession}
         onUndoExcludeGameFromSession={onUndoExcludeGameFromSession}
+        relax={
+          filters && userRatings && onApplyFilters
+            ? { filters, userRatings, onApplyFilters, disabled, ownedExpansions, gameTags, gameCopies }
+            : undefined
+        }
       />
     </Stack>
   )
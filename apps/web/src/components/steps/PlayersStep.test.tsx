@@ -143,6 +143,52 @@ describe('PlayersStep', () => {
     })
   })
 
+  it('reports a failed load from a game list', async () => {
+    const users: UserRecord[] = [{ username: 'Alice', internalId: 'alice-test', isBggUser: false, isOrganizer: true }]
+    const onLoadGamesIntoSession = vi.fn().mockRejectedValue(new Error('Database is closed'))
+
+    renderWithProviders(
+      <PlayersStep
+        users={users}
+        games={[]}
+        sessionGames={[]}
+        gameOwners={{}}
+        layoutMode="standard"
+        onLayoutModeChange={vi.fn()}
+        existingLocalUsers={[]}
+        onSetExistingLocalUsers={vi.fn()}
+        savedNights={[]}
+        pendingBggUserNotFoundUsername={null}
+        onConfirmAddBggUserAnyway={vi.fn().mockResolvedValue(undefined)}
+        onCancelAddBggUserAnyway={vi.fn()}
+        onAddBggUser={vi.fn().mockResolvedValue(undefined)}
+        onAddLocalUser={vi.fn().mockResolvedValue(undefined)}
+        onRemoveUser={vi.fn()}
+        onDeleteUser={vi.fn().mockResolvedValue(undefined)}
+        onSetOrganizer={vi.fn().mockResolvedValue(undefined)}
+        onSearchGame={vi.fn().mockResolvedValue([])}
+        onAddGameToUser={vi.fn().mockResolvedValue(undefined)}
+        onRemoveGameFromUser={vi.fn().mockResolvedValue(undefined)}
+        onAddGameToSession={vi.fn()}
+        onRemoveGameFromSession={vi.fn()}
+        onAddOwnerToGame={vi.fn().mockResolvedValue(undefined)}
+        onLoadSavedNight={vi.fn().mockResolvedValue(undefined)}
+        onFetchGameInfo={vi.fn().mockResolvedValue({ bggId: 1 })}
+        onAddGameManually={vi.fn().mockResolvedValue(undefined)}
+        onEditGame={vi.fn().mockResolvedValue(undefined)}
+        onRefreshGameFromBgg={vi.fn().mockResolvedValue({ bggId: 1, name: 'X', lastFetchedAt: '' })}
+        gameLists={[{ id: 1, name: 'Quick games', bggIds: [1, 2], createdAt: '2025-01-01T00:00:00.000Z', updatedAt: '2025-01-01T00:00:00.000Z' }]}
+        onLoadGamesIntoSession={onLoadGamesIntoSession}
+        isLoading={false}
+      />,
+    )
+
+    fireEvent.click(screen.getByText('Quick games (2)'))
+
+    expect(await screen.findByText('Database is closed')).toBeInTheDocument()
+    expect(onLoadGamesIntoSession).toHaveBeenCalledWith([1, 2])
+  })
+
   it('shows a confirmation dialog when a BGG username cannot be confirmed', async () => {
     const onCancelAddBggUserAnyway = vi.fn()
     const onConfirmAddBggUserAnyway = vi.fn().mockResolvedValue(undefined)
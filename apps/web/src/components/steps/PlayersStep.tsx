@@ -8,12 +8,13 @@ import {
   Stack,
   Typography,
 } from '@mui/material'
-import type { GameRecord, UserRecord, SavedNightRecord } from '../../db/types'
+import type { GameListRecord, GameRecord, UserRecord, SavedNightRecord, TagRecord } from '../../db/types'
 import { DeleteUserDialog, ManualGameDialog, type ManualGameData } from './PlayerDialogs'
 import { GamePreviewGrid } from './GamePreviewGrid'
 import { PlayersListCard } from './PlayersListCard'
 import { LocalAddGamesPanel } from './players/LocalAddGamesPanel'
 import { SavedNightPicker } from './players/SavedNightPicker'
+import { GameSetPicker } from './players/GameSetPicker'
 import { PlayersStepDialogs } from './players/PlayersStepDialogs'
 import { PlayersAddUserControls, type UserMode } from './players/PlayersAddUserControls.tsx'
 import { BggUserMappingDialog } from './players/BggUserMappingDialog'
@@ -21,6 +22,7 @@ import { useToast } from '../../services/toast'
 import type { LayoutMode } from '../../services/storage/uiPreferences'
 import { findUsersWithSameName, extractSuffixFromId } from '../../services/db/userIdService'
 import { usePlayersStepHandlers } from '../../hooks/wizard/usePlayersStepHandlers'
+import type { GameTagsByGame } from '../../services/tags/gameTags'
 
 export type { ManualGameData }
 
@@ -53,6 +55,11 @@ export interface PlayersStepProps {
   onAddGameManually: (usernames: string[], game: ManualGameData) => Promise<void>
   onEditGame: (game: GameRecord) => Promise<void>
   onRefreshGameFromBgg: (bggId: number, options: { keepNotes: boolean }) => Promise<GameRecord>
+  /** Named lists and tags that can fill the session in one click */
+  gameLists?: GameListRecord[]
+  tags?: TagRecord[]
+  gameTags?: GameTagsByGame
+  onLoadGamesIntoSession?: (bggIds: number[]) => Promise<void>
   isLoading: boolean
 }
 
@@ -63,7 +70,7 @@ export function PlayersStep({
   onAddBggUser, onAddLocalUser, onRemoveUser, onDeleteUser, onSetOrganizer, onSearchGame,
   onAddGameToUser, onRemoveGameFromUser, onAddGameToSession, onRemoveGameFromSession,
   onAddOwnerToGame, onLoadSavedNight, onFetchGameInfo, onAddGameManually, onEditGame,
-  onRefreshGameFromBgg, isLoading,
+  onRefreshGameFromBgg, gameLists = [], tags = [], gameTags = {}, onLoadGamesIntoSession, isLoading,
 }: PlayersStepProps) {
   const toast = useToast()
   const [mode, setMode] = useState<UserMode>('local')
@@ -137,6 +144,22 @@ export function PlayersStep({
         onAfterLoad={() => setShowAddGamesPanel(false)}
       />
 
+      {onLoadGamesIntoSession ? (
+        <GameSetPicker
+          gameLists={gameLists}
+          tags={tags}
+          gameTags={gameTags}
+          onLoadGames={async (bggIds, name) => {
+            try {
+              await onLoadGamesIntoSession(bggIds)
+              toast.success(`Tonight's games set from "${name}"`)
+            } catch (err) {
+              toast.error(err instanceof Error ? err.message : `Failed to load the games from "${name}"`)
+            }
+          }}
+        />
+      ) : null}
+
       <PlayersAddUserControls
         mode={mode}
         onModeChange={setMode}
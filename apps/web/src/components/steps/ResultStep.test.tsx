@@ -75,4 +75,30 @@ describe('ResultStep responsive header copy', () => {
     expect(screen.getByText('Your recommendation is ready!')).toBeInTheDocument()
     expect(screen.getByText("Based on your group's preferences and filters")).toBeInTheDocument()
   })
+  it('renders one pick card per table in split mode', () => {
+    setMatchMedia(false)
+    const game = (bggId: number, name: string) => ({ bggId, name, lastFetchedAt: new Date().toISOString() })
+
+    renderWithProviders(
+      <ResultStep
+        {...baseProps}
+        tableCount={2}
+        onTableCountChange={vi.fn()}
+        splitTables={{
+          tables: [
+            { players: ['u1', 'u2'], pick: { game: game(2, 'Azul'), satisfaction: 3, broughtBy: 'u2' } },
+            { players: ['u3', 'u4'], pick: { game: game(3, 'Brass'), satisfaction: 2.5 } },
+          ],
+          totalSatisfaction: 5.5,
+        }}
+      />,
+    )
+
+    expect(screen.getByText('Table 1')).toBeInTheDocument()
+    expect(screen.getByText('Table 2')).toBeInTheDocument()
+    expect(screen.getByText('Azul')).toBeInTheDocument()
+    expect(screen.getByText('Brass')).toBeInTheDocument()
+    expect(screen.getByText('Brought by u2')).toBeInTheDocument()
+    expect(screen.queryByText('Your recommendation is ready!')).not.toBeInTheDocument()
+  })
 })
@@ -1,6 +1,7 @@
 import {
   Alert,
   Box,
+  Button,
   Card,
   CardContent,
   Stack,
@@ -9,11 +10,26 @@ import {
   useTheme,
 } from '@mui/material'
 import { useCallback, useEffect, useRef, useState } from 'react'
-import type { GameRecord, UserRecord } from '../../db/types'
+import CasinoIcon from '@mui/icons-material/Casino'
+import type { GameRecord, PlayRecord, UserRecord } from '../../db/types'
+import type { ScoreBreakdown } from '../../hooks/wizard/types'
 import { colors } from '../../theme/theme'
-import type { WizardFilters } from '../../store/wizardTypes'
+import type { RecommendationMethod, VetoPolicy, WizardFilters } from '../../store/wizardTypes'
 import { TonightsPickCard } from './result/TonightsPickCard'
 import { AlternativesSection } from './result/AlternativesSection'
+import { VotingMethodSelector } from './result/VotingMethodSelector'
+import { VoterWeightsSection, type VoterWeightsSectionProps } from './result/VoterWeightsSection'
+import { RecordPlayDialog } from './result/RecordPlayDialog'
+import { SyncBggPlaysButton } from './result/SyncBggPlaysButton'
+import { SplitTablesSection } from './result/SplitTablesSection'
+import { EveningPlannerSection } from './result/EveningPlannerSection'
+import { SpinWheelSection } from './result/SpinWheelSection'
+import { RunoffSection, type RunoffSectionProps } from './result/RunoffSection'
+import { WhatIfSection, type WhatIfSectionProps } from './result/WhatIfSection'
+import type { PlaysSyncResult } from '../../services/bgg/bggPlaysSync'
+import type { SplitTablesResult } from '../../services/recommendation/splitTables'
+import type { EveningPlan } from '../../services/recommendation/eveningPlan'
+import type { SpinResult } from '../../services/recommendation/spinWheel'
 import { GameDetailsDialog } from '../gameDetails/GameDetailsDialog'
 import type { LayoutMode } from '../../services/storage/uiPreferences'
 import { trackAlternativePromoted, trackTonightsPickReady } from '../../services/analytics/googleAnalytics'
@@ -22,12 +38,47 @@ export interface GameWithScore {
   game: GameRecord
   score: number
   matchReasons: string[]
+  breakdown?: ScoreBreakdown
 }
 
 export interface ResultStepProps {
   topPick: GameWithScore | null
   alternatives: GameWithScore[]
   vetoed?: Array<{ game: GameRecord; vetoedBy: string[] }>
+  /** Voting method that produced the recommendation */
+  method?: RecommendationMethod
+  /** When provided, the host can switch the voting method */
+  onMethodChange?: (method: RecommendationMethod) => void
+  /** Recently-played penalty window in days (0 = off) */
+  recencyPenaltyDays?: number
+  onRecencyPenaltyDaysChange?: (days: number) => void
+  teachAware?: boolean
+  onTeachAwareChange?: (enabled: boolean) => void
+  vetoPolicy?: VetoPolicy
+  onVetoPolicyChange?: (policy: VetoPolicy) => void
+  /** When provided, the host can weight players and turn on the fairness rotation */
+  voterWeights?: Omit<VoterWeightsSectionProps, 'users'>
+  /** When provided, flags ties at the top and offers a runoff */
+  runoff?: Omit<RunoffSectionProps, 'games' | 'players'>
+  /** When provided, simulates the pick for other line-ups */
+  whatIf?: Omit<WhatIfSectionProps, 'users'>
+  /** When provided, shows the "We played this" action for the top pick */
+  onRecordPlay?: (play: Omit<PlayRecord, 'id' | 'createdAt'>) => Promise<void>
+  /** When provided, offers to import plays logged on BGG */
+  onSyncBggPlays?: () => Promise<PlaysSyncResult>
+  /** Split-table mode: number of tables (1 = off) and one pick per table */
+  tableCount?: number
+  onTableCountChange?: (count: number) => void
+  splitTables?: SplitTablesResult | null
+  /** Evening planner: time budget (null = off), ordering and the resulting plan */
+  planBudgetMinutes?: number | null
+  onPlanBudgetChange?: (minutes: number | null) => void
+  planHeavyFirst?: boolean
+  onPlanHeavyFirstChange?: (heavyFirst: boolean) => void
+  eveningPlan?: EveningPlan | null
+  /** When provided, offers a weighted-random spin among the top games */
+  onSpin?: (spin: SpinResult) => void
+  lastSpin?: SpinResult | null
   filters: WizardFilters
   users: UserRecord[]
   gameOwners: Record<number, string[]>
@@ -46,6 +97,29 @@ export function ResultStep({
   topPick,
   alternatives,
   vetoed = [],
+  method = 'borda',
+  onMethodChange,
+  recencyPenaltyDays,
+  onRecencyPenaltyDaysChange,
+  teachAware,
+  onTeachAwareChange,
+  vetoPolicy,
+  onVetoPolicyChange,
+  voterWeights,
+  runoff,
+  whatIf,
+  onRecordPlay,
+  onSyncBggPlays,
+  tableCount = 1,
+  onTableCountChange,
+  splitTables = null,
+  planBudgetMinutes = null,
+  onPlanBudgetChange,
+  planHeavyFirst = false,
+  onPlanHeavyFirstChange,
+  eveningPlan = null,
+  onSpin,
+  lastSpin = null,
   filters,
   users,
   gameOwners,
@@ -57,6 +131,8 @@ export function ResultStep({
   const theme = useTheme()
   const isNarrow = useMediaQuery(theme.breakpoints.down('sm'))
   const [detailsGame, setDetailsGame] = useState<GameRecord | null>(null)
+  const [isRecordPlayOpen, setIsRecordPlayOpen] = useState(false)
+  const [lastRecordedName, setLastRecordedName] = useState<string | null>(null)
   const lastTrackedPickRef = useRef<number | null>(null)
   const maxScore = Math.max(
     topPick?.score ?? 0,
@@ -82,12 +158,13 @@ export function ResultStep({
       yearPublished: topPick.game.yearPublished,
       bestWith: topPick.game.bestWith,
       playingTimeMinutes: topPick.game.playingTimeMinutes,
+      recommendationMethod: method,
       // Session context
       isSessionGame: sessionContext?.isSessionGame,
       guestCount: sessionContext?.guestCount,
     })
     lastTrackedPickRef.current = topPick.game.bggId
-  }, [alternatives.length, filters, topPick, users.length, sessionContext])
+  }, [alternatives.length, filters, topPick, users.length, sessionContext, method])
 
   const handlePromoteAlternative = useCallback(
     (alternative: GameWithScore, index: number) => {
@@ -104,41 +181,76 @@ export function ResultStep({
     [filters, onPromoteAlternative, users.length],
   )
 
+  const isSplit = Boolean(onTableCountChange) && tableCount > 1
+  const splitSection = onTableCountChange ? (
+    <SplitTablesSection
+      tableCount={tableCount}
+      onTableCountChange={onTableCountChange}
+      splitTables={splitTables}
+      users={users}
+      onOpenDetails={(game) => setDetailsGame(game)}
+    />
+  ) : null
+
+  const isPlanning = Boolean(onPlanBudgetChange) && planBudgetMinutes !== null
+
+  const detailsDialog = (
+    <GameDetailsDialog
+      open={!!detailsGame}
+      game={detailsGame}
+      owners={detailsGame ? (gameOwners[detailsGame.bggId] ?? []) : []}
+      users={users}
+      onClose={() => setDetailsGame(null)}
+    />
+  )
+
+  if (isSplit) {
+    return (
+      <Stack spacing={3}>
+        {splitSection}
+        {detailsDialog}
+      </Stack>
+    )
+  }
+
   if (!topPick) {
     return (
-      <Card>
-        <CardContent sx={{ textAlign: 'center', py: 6 }}>
-          <Typography variant="h6" color="text.secondary" gutterBottom>
-            No recommendation available
-          </Typography>
-          {vetoed.length > 0 ? (
-            <Stack spacing={1}>
+      <Stack spacing={3}>
+        <Card>
+          <CardContent sx={{ textAlign: 'center', py: 6 }}>
+            <Typography variant="h6" color="text.secondary" gutterBottom>
+              No recommendation available
+            </Typography>
+            {vetoed.length > 0 ? (
+              <Stack spacing={1}>
+                <Typography color="text.secondary">
+                  All eligible games were vetoed (disliked) by at least one player.
+                </Typography>
+                <Typography color="text.secondary" variant="body2">
+                  Remove dislikes or loosen filters to get a recommendation.
+                </Typography>
+                <Box sx={{ mt: 1 }}>
+                  {vetoed.slice(0, 5).map((v) => (
+                    <Typography key={v.game.bggId} variant="body2" color="text.secondary">
+                      Excluded: {v.game.name} (vetoed by {v.vetoedBy.join(', ') || 'unknown'})
+                    </Typography>
+                  ))}
+                  {vetoed.length > 5 && (
+                    <Typography variant="body2" color="text.secondary">
+                      …and {vetoed.length - 5} more
+                    </Typography>
+                  )}
+                </Box>
+              </Stack>
+            ) : (
               <Typography color="text.secondary">
-                All eligible games were vetoed (disliked) by at least one player.
-              </Typography>
-              <Typography color="text.secondary" variant="body2">
-                Remove dislikes or loosen filters to get a recommendation.
+                Try adjusting your filters or adding more player preferences
               </Typography>
-              <Box sx={{ mt: 1 }}>
-                {vetoed.slice(0, 5).map((v) => (
-                  <Typography key={v.game.bggId} variant="body2" color="text.secondary">
-                    Excluded: {v.game.name} (vetoed by {v.vetoedBy.join(', ') || 'unknown'})
-                  </Typography>
-                ))}
-                {vetoed.length > 5 && (
-                  <Typography variant="body2" color="text.secondary">
-                    …and {vetoed.length - 5} more
-                  </Typography>
-                )}
-              </Box>
-            </Stack>
-          ) : (
-            <Typography color="text.secondary">
-              Try adjusting your filters or adding more player preferences
-            </Typography>
-          )}
-        </CardContent>
-      </Card>
+            )}
+          </CardContent>
+        </Card>
+        {splitSection}
+      </Stack>
     )
   }
 
@@ -156,11 +268,73 @@ export function ResultStep({
         </Box>
       ) : null}
 
-      <TonightsPickCard
-        topPick={topPick}
-        filters={filters}
-        onOpenDetails={() => setDetailsGame(topPick.game)}
-      />
+      {onMethodChange ? (
+        <VotingMethodSelector
+          method={method}
+          onChange={onMethodChange}
+          recencyPenaltyDays={recencyPenaltyDays}
+          onRecencyPenaltyDaysChange={onRecencyPenaltyDaysChange}
+          teachAware={teachAware}
+          onTeachAwareChange={onTeachAwareChange}
+          vetoPolicy={vetoPolicy}
+          onVetoPolicyChange={onVetoPolicyChange}
+        />
+      ) : null}
+
+      {voterWeights ? <VoterWeightsSection users={users} {...voterWeights} /> : null}
+
+      {splitSection}
+
+      {onPlanBudgetChange && onPlanHeavyFirstChange ? (
+        <EveningPlannerSection
+          budgetMinutes={planBudgetMinutes}
+          onBudgetChange={onPlanBudgetChange}
+          heavyFirst={planHeavyFirst}
+          onHeavyFirstChange={onPlanHeavyFirstChange}
+          plan={eveningPlan}
+          onOpenDetails={(game) => setDetailsGame(game)}
+        />
+      ) : null}
+
+      {runoff && !isPlanning ? (
+        <RunoffSection games={[topPick, ...alternatives]} players={users} {...runoff} />
+      ) : null}
+
+      {isPlanning ? null : (
+        <TonightsPickCard
+          topPick={topPick}
+          filters={filters}
+          method={method}
+          onOpenDetails={() => setDetailsGame(topPick.game)}
+        />
+      )}
+
+      {onRecordPlay && !isPlanning ? (
+        <Stack direction="row" alignItems="center" justifyContent="flex-end" gap={1.5}>
+          {lastRecordedName ? (
+            <Typography variant="body2" color="text.secondary">
+              Logged a play of {lastRecordedName}
+            </Typography>
+          ) : null}
+          {onSyncBggPlays ? <SyncBggPlaysButton onSync={onSyncBggPlays} /> : null}
+          <Button variant="outlined" startIcon={<CasinoIcon />} onClick={() => setIsRecordPlayOpen(true)}>
+            We played this
+          </Button>
+        </Stack>
+      ) : null}
+
+      {onRecordPlay && isRecordPlayOpen ? (
+        <RecordPlayDialog
+          open
+          game={topPick.game}
+          users={users}
+          onClose={() => setIsRecordPlayOpen(false)}
+          onRecord={async (play) => {
+            await onRecordPlay(play)
+            setLastRecordedName(topPick.game.name)
+          }}
+        />
+      ) : null}
 
       {vetoed.length > 0 && (
         <Alert severity="info">
@@ -169,22 +343,24 @@ export function ResultStep({
         </Alert>
       )}
 
-      <AlternativesSection
-        alternatives={alternatives}
-        maxScore={maxScore}
-        layoutMode={layoutMode}
-        onLayoutModeChange={onLayoutModeChange}
-        onPromoteAlternative={handlePromoteAlternative}
-        onOpenDetails={(game) => setDetailsGame(game)}
-      />
-
-      <GameDetailsDialog
-        open={!!detailsGame}
-        game={detailsGame}
-        owners={detailsGame ? (gameOwners[detailsGame.bggId] ?? []) : []}
-        users={users}
-        onClose={() => setDetailsGame(null)}
-      />
+      {onSpin && !isPlanning ? (
+        <SpinWheelSection games={[topPick, ...alternatives]} lastSpin={lastSpin} onSpin={onSpin} />
+      ) : null}
+
+      {isPlanning ? null : (
+        <AlternativesSection
+          alternatives={alternatives}
+          maxScore={maxScore}
+          layoutMode={layoutMode}
+          onLayoutModeChange={onLayoutModeChange}
+          onPromoteAlternative={handlePromoteAlternative}
+          onOpenDetails={(game) => setDetailsGame(game)}
+        />
+      )}
+
+      {whatIf && !isPlanning ? <WhatIfSection users={users} {...whatIf} /> : null}
+
+      {detailsDialog}
 
       {/* Save reminder */}
       <Card sx={{ bgcolor: colors.sand + '30' }}>
@@ -0,0 +1,86 @@
+import { useMemo } from 'react'
+import { MenuItem, Stack, Switch, TextField, Typography } from '@mui/material'
+import type { GameRecord, UserRecord } from '../../../db/types'
+import {
+  getHostLocation,
+  getKnownLocations,
+  matchesAvailabilityFilter,
+  type GameCopiesByGame,
+} from '../../../services/lending/gameAvailability'
+
+export interface AvailabilityFilterSectionProps {
+  /** Session games the unavailable count is computed from */
+  games: GameRecord[]
+  /** Tonight's players; the organizer's usual location is the default */
+  users: UserRecord[]
+  gameCopies: GameCopiesByGame
+  availableAt: string | null
+  onAvailableAtChange: (location: string | null) => void
+  disabled?: boolean
+}
+
+export function AvailabilityFilterSection({
+  games,
+  users,
+  gameCopies,
+  availableAt,
+  onAvailableAtChange,
+  disabled = false,
+}: AvailabilityFilterSectionProps) {
+  const locations = useMemo(() => getKnownLocations(gameCopies), [gameCopies])
+  const hostLocation = useMemo(
+    () => getHostLocation(users.find((u) => u.isOrganizer)?.username, gameCopies),
+    [users, gameCopies],
+  )
+  const unavailableCount = useMemo(
+    () => (availableAt ? games.filter((g) => !matchesAvailabilityFilter(g.bggId, availableAt, gameCopies)).length : 0),
+    [games, availableAt, gameCopies],
+  )
+
+  if (locations.length === 0) {
+    return (
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 3 }}>
+        Record where games are kept from a game’s owners to filter by what’s available tonight.
+      </Typography>
+    )
+  }
+
+  return (
+    <Stack spacing={1} sx={{ mb: 3 }}>
+      <Stack direction="row" alignItems="center" justifyContent="space-between" gap={1}>
+        <Typography variant="body2" color="text.secondary">
+          Only games available tonight (not lent out, kept at the host)
+        </Typography>
+        <Switch
+          checked={Boolean(availableAt)}
+          disabled={disabled}
+          onChange={(_, checked) => onAvailableAtChange(checked ? (hostLocation ?? locations[0]) : null)}
+          inputProps={{ 'aria-label': 'Only games available tonight' }}
+        />
+      </Stack>
+      {availableAt ? (
+        <>
+          <TextField
+            select
+            size="small"
+            label="Playing at"
+            value={availableAt}
+            disabled={disabled}
+            onChange={(e) => onAvailableAtChange(e.target.value)}
+          >
+            {(locations.includes(availableAt) ? locations : [availableAt, ...locations]).map((location) => (
+              <MenuItem key={location} value={location}>
+                {location}
+              </MenuItem>
+            ))}
+          </TextField>
+          <Typography variant="caption" color="text.secondary">
+            {unavailableCount === 0
+              ? 'Every session game has a copy here.'
+              : `${unavailableCount} session ${unavailableCount === 1 ? 'game is' : 'games are'} lent out or kept elsewhere.`}
+          </Typography>
+        </>
+      ) : null}
+    </Stack>
+  )
+}
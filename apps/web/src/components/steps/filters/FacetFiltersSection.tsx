@@ -0,0 +1,92 @@
+import { useMemo } from 'react'
+import { Autocomplete, Button, Chip, Stack, TextField, Typography } from '@mui/material'
+import type { GameRecord } from '../../../db/types'
+import type { FacetFilter, GameFacet, WizardFilters } from '../../../store/wizardTypes'
+import { EMPTY_FACET_FILTER, GAME_FACETS, getFacetCounts, hasActiveFacets } from '../../../services/filtering/gameFacets'
+
+export interface FacetFiltersSectionProps {
+  /** Session games the counts are computed from */
+  games: GameRecord[]
+  facets: WizardFilters['facets']
+  onFacetFilterChange: (facet: GameFacet, filter: FacetFilter) => void
+  disabled?: boolean
+}
+
+export function FacetFiltersSection({ games, facets, onFacetFilterChange, disabled = false }: FacetFiltersSectionProps) {
+  const countsByFacet = useMemo(
+    () => GAME_FACETS.map(({ facet, label }) => ({ facet, label, counts: getFacetCounts(games, facet) })),
+    [games],
+  )
+  const available = countsByFacet.filter((f) => f.counts.length > 0)
+
+  if (available.length === 0) {
+    return (
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 3 }}>
+        Mechanics, categories and designers appear here once game details are loaded from BGG.
+      </Typography>
+    )
+  }
+
+  return (
+    <Stack spacing={2.5} sx={{ mb: 3 }}>
+      {available.map(({ facet, label, counts }) => {
+        const filter = facets?.[facet] ?? EMPTY_FACET_FILTER
+        const countFor = new Map(counts.map((c) => [c.value, c.count]))
+        const options = counts.map((c) => c.value)
+        const getOptionLabel = (value: string) => `${value} (${countFor.get(value) ?? 0})`
+
+        return (
+          <Stack key={facet} spacing={1}>
+            <Typography variant="body2" color="text.secondary">
+              {label}
+            </Typography>
+            <Stack direction={{ xs: 'column', sm: 'row' }} spacing={1.5}>
+              <Autocomplete
+                multiple
+                size="small"
+                fullWidth
+                disabled={disabled}
+                options={options.filter((o) => !filter.exclude.includes(o))}
+                value={filter.include}
+                getOptionLabel={getOptionLabel}
+                onChange={(_, include) => onFacetFilterChange(facet, { ...filter, include })}
+                renderValue={(values, getItemProps) =>
+                  values.map((value, index) => (
+                    <Chip {...getItemProps({ index })} key={value} label={value} size="small" color="primary" />
+                  ))
+                }
+                renderInput={(params) => <TextField {...params} label="Must have one of" />}
+              />
+              <Autocomplete
+                multiple
+                size="small"
+                fullWidth
+                disabled={disabled}
+                options={options.filter((o) => !filter.include.includes(o))}
+                value={filter.exclude}
+                getOptionLabel={getOptionLabel}
+                onChange={(_, exclude) => onFacetFilterChange(facet, { ...filter, exclude })}
+                renderValue={(values, getItemProps) =>
+                  values.map((value, index) => (
+                    <Chip {...getItemProps({ index })} key={value} label={value} size="small" color="error" />
+                  ))
+                }
+                renderInput={(params) => <TextField {...params} label="Hide games with" />}
+              />
+            </Stack>
+          </Stack>
+        )
+      })}
+      {hasActiveFacets(facets) ? (
+        <Button
+          size="small"
+          disabled={disabled}
+          onClick={() => GAME_FACETS.forEach(({ facet }) => onFacetFilterChange(facet, EMPTY_FACET_FILTER))}
+          sx={{ alignSelf: 'flex-start' }}
+        >
+          Clear mechanic / category / designer filters
+        </Button>
+      ) : null}
+    </Stack>
+  )
+}
@@ -3,11 +3,19 @@ import { Accordion, AccordionDetails, AccordionSummary, Alert, Box, Card, CardCo
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore'
 import type { GameRecord, UserRecord } from '../../../db/types'
 import type { LayoutMode } from '../../../services/storage/uiPreferences'
+import type { WizardFilters } from '../../../store/wizardTypes'
 import { useToast } from '../../../services/toast'
 import { LayoutToggle } from '../../LayoutToggle'
 import { GameDetailsDialog } from '../../gameDetails/GameDetailsDialog'
 import { GameRow } from '../GameRow'
 import { FilteredGameCard } from './FilteredGameCard'
+import { RelaxFiltersPanel } from './RelaxFiltersPanel'
+import type { OwnedExpansionsByGame } from '../../../services/expansions/expansionRange'
+import type { GameTagsByGame } from '../../../services/tags/gameTags'
+import type { GameCopiesByGame } from '../../../services/lending/gameAvailability'
+
+/** Below this many matches the relax suggestions are shown */
+const FEW_GAMES_THRESHOLD = 5
 
 export interface FiltersResultsSectionProps {
   games: GameRecord[]
@@ -18,6 +26,16 @@ export interface FiltersResultsSectionProps {
   filteredGames: GameRecord[]
   onExcludeGameFromSession: (bggId: number) => void
   onUndoExcludeGameFromSession: (bggId: number) => void
+  /** Enables the relax suggestions when the filters leave few games */
+  relax?: {
+    filters: WizardFilters
+    userRatings: Record<string, Record<number, number | undefined>>
+    onApplyFilters: (filters: WizardFilters) => void
+    disabled?: boolean
+    ownedExpansions?: OwnedExpansionsByGame
+    gameTags?: GameTagsByGame
+    gameCopies?: GameCopiesByGame
+  }
 }
 
 export function FiltersResultsSection({
@@ -29,6 +47,7 @@ export function FiltersResultsSection({
   filteredGames,
   onExcludeGameFromSession,
   onUndoExcludeGameFromSession,
+  relax,
 }: FiltersResultsSectionProps) {
   const toast = useToast()
   const [detailsGame, setDetailsGame] = useState<GameRecord | null>(null)
@@ -44,17 +63,35 @@ export function FiltersResultsSection({
     })
   }
 
+  const relaxPanel =
+    relax && filteredGames.length < FEW_GAMES_THRESHOLD ? (
+      <RelaxFiltersPanel
+        games={games}
+        filters={relax.filters}
+        userRatings={relax.userRatings}
+        onApplyFilters={relax.onApplyFilters}
+        disabled={relax.disabled}
+        ownedExpansions={relax.ownedExpansions}
+        gameTags={relax.gameTags}
+        gameCopies={relax.gameCopies}
+      />
+    ) : null
+
   if (noGamesMatch) {
     return (
-      <Alert severity="warning" sx={{ borderRadius: 3 }}>
-        <Typography fontWeight={600}>No games match your filters</Typography>
-        <Typography variant="body2">Try increasing time, changing player count, or relaxing the game mode preference.</Typography>
-      </Alert>
+      <>
+        <Alert severity="warning" sx={{ borderRadius: 3 }}>
+          <Typography fontWeight={600}>No games match your filters</Typography>
+          <Typography variant="body2">Try increasing time, changing player count, or relaxing the game mode preference.</Typography>
+        </Alert>
+        {relaxPanel}
+      </>
     )
   }
 
   return (
     <>
+      {relaxPanel}
       <Card sx={{ bgcolor: 'primary.main', color: 'white' }}>
         <CardContent>
           <Stack direction="row" justifyContent="space-between" alignItems="center">
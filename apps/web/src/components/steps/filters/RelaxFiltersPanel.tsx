@@ -0,0 +1,118 @@
+import { useMemo, useState } from 'react'
+import { Box, Button, Card, CardContent, Chip, Collapse, Stack, Typography } from '@mui/material'
+import TuneIcon from '@mui/icons-material/Tune'
+import type { GameRecord } from '../../../db/types'
+import type { WizardFilters } from '../../../store/wizardTypes'
+import {
+  explainGameFilters,
+  FILTER_PREDICATE_LABELS,
+  suggestFilterRelaxations,
+} from '../../../services/filtering/explainGameFilters'
+import type { OwnedExpansionsByGame } from '../../../services/expansions/expansionRange'
+import type { GameTagsByGame } from '../../../services/tags/gameTags'
+import type { GameCopiesByGame } from '../../../services/lending/gameAvailability'
+
+const MAX_LISTED_EXCLUSIONS = 20
+
+export interface RelaxFiltersPanelProps {
+  games: GameRecord[]
+  filters: WizardFilters
+  userRatings: Record<string, Record<number, number | undefined>>
+  onApplyFilters: (filters: WizardFilters) => void
+  disabled?: boolean
+  /** Owned expansions that widen a game's player range */
+  ownedExpansions?: OwnedExpansionsByGame
+  /** User tags on each game, for the tag filter */
+  gameTags?: GameTagsByGame
+  /** Every owner's copy of each game, for the available-tonight filter */
+  gameCopies?: GameCopiesByGame
+}
+
+const NO_EXPANSIONS: OwnedExpansionsByGame = {}
+const NO_TAGS: GameTagsByGame = {}
+const NO_COPIES: GameCopiesByGame = {}
+
+/**
+ * Suggests single-filter changes that bring games back, and lists which
+ * filter hid each game.
+ */
+export function RelaxFiltersPanel({
+  games,
+  filters,
+  userRatings,
+  onApplyFilters,
+  disabled = false,
+  ownedExpansions = NO_EXPANSIONS,
+  gameTags = NO_TAGS,
+  gameCopies = NO_COPIES,
+}: RelaxFiltersPanelProps) {
+  const [showReasons, setShowReasons] = useState(false)
+  const exclusions = useMemo(
+    () => explainGameFilters(games, filters, userRatings, ownedExpansions, gameTags, gameCopies),
+    [games, filters, userRatings, ownedExpansions, gameTags, gameCopies],
+  )
+  const suggestions = useMemo(
+    () => suggestFilterRelaxations(games, filters, userRatings, ownedExpansions, gameTags, gameCopies),
+    [games, filters, userRatings, ownedExpansions, gameTags, gameCopies],
+  )
+
+  if (exclusions.length === 0) return null
+
+  return (
+    <Card variant="outlined" sx={{ borderRadius: 3 }}>
+      <CardContent>
+        <Stack spacing={1.5}>
+          <Stack direction="row" alignItems="center" gap={1}>
+            <TuneIcon color="action" fontSize="small" />
+            <Typography fontWeight={600}>Relax a filter?</Typography>
+          </Stack>
+
+          {suggestions.length > 0 ? (
+            <Stack direction="row" flexWrap="wrap" gap={1}>
+              {suggestions.map((s) => (
+                <Button
+                  key={`${s.predicate}-${s.label}`}
+                  size="small"
+                  variant="outlined"
+                  disabled={disabled}
+                  onClick={() => onApplyFilters(s.filters)}
+                >
+                  {s.label} (+{s.gained})
+                </Button>
+              ))}
+            </Stack>
+          ) : (
+            <Typography variant="body2" color="text.secondary">
+              No single filter change brings games back.
+            </Typography>
+          )}
+
+          <Box>
+            <Button size="small" onClick={() => setShowReasons((v) => !v)}>
+              {showReasons ? 'Hide' : 'Show'} why {exclusions.length} game{exclusions.length === 1 ? ' was' : 's were'} filtered out
+            </Button>
+            <Collapse in={showReasons} unmountOnExit>
+              <Stack spacing={0.75} sx={{ mt: 1 }}>
+                {exclusions.slice(0, MAX_LISTED_EXCLUSIONS).map(({ game, predicates }) => (
+                  <Stack key={game.bggId} direction="row" alignItems="center" flexWrap="wrap" gap={0.75}>
+                    <Typography variant="body2" sx={{ mr: 0.5 }}>
+                      {game.name}
+                    </Typography>
+                    {predicates.map((p) => (
+                      <Chip key={p} label={FILTER_PREDICATE_LABELS[p]} size="small" variant="outlined" />
+                    ))}
+                  </Stack>
+                ))}
+                {exclusions.length > MAX_LISTED_EXCLUSIONS ? (
+                  <Typography variant="caption" color="text.secondary">
+                    +{exclusions.length - MAX_LISTED_EXCLUSIONS} more
+                  </Typography>
+                ) : null}
+              </Stack>
+            </Collapse>
+          </Box>
+        </Stack>
+      </CardContent>
+    </Card>
+  )
+}
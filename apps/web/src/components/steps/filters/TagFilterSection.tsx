@@ -0,0 +1,58 @@
+import { useMemo } from 'react'
+import { Autocomplete, Chip, Stack, TextField, Typography } from '@mui/material'
+import type { GameRecord, TagRecord } from '../../../db/types'
+import { getTagCounts, type GameTagsByGame } from '../../../services/tags/gameTags'
+
+export interface TagFilterSectionProps {
+  /** Session games the counts are computed from */
+  games: GameRecord[]
+  tags: TagRecord[]
+  gameTags: GameTagsByGame
+  tagIds: number[]
+  onTagFilterChange: (tagIds: number[]) => void
+  disabled?: boolean
+}
+
+export function TagFilterSection({
+  games,
+  tags,
+  gameTags,
+  tagIds,
+  onTagFilterChange,
+  disabled = false,
+}: TagFilterSectionProps) {
+  const counts = useMemo(() => getTagCounts(games.map((g) => g.bggId), gameTags), [games, gameTags])
+  const tagsById = useMemo(() => new Map(tags.map((t) => [t.id!, t])), [tags])
+
+  if (tags.length === 0) {
+    return (
+      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 3 }}>
+        Tag games from their details or the collection page to filter by your own tags.
+      </Typography>
+    )
+  }
+
+  return (
+    <Stack spacing={1} sx={{ mb: 3 }}>
+      <Typography variant="body2" color="text.secondary">
+        Tags
+      </Typography>
+      <Autocomplete
+        multiple
+        size="small"
+        fullWidth
+        disabled={disabled}
+        options={tags.map((t) => t.id!)}
+        value={tagIds.filter((id) => tagsById.has(id))}
+        getOptionLabel={(id) => `${tagsById.get(id)?.name ?? ''} (${counts.get(id) ?? 0})`}
+        onChange={(_, ids) => onTagFilterChange(ids)}
+        renderValue={(values, getItemProps) =>
+          values.map((id, index) => (
+            <Chip {...getItemProps({ index })} key={id} label={tagsById.get(id)?.name} size="small" color="primary" />
+          ))
+        }
+        renderInput={(params) => <TextField {...params} label="Tagged with one of" />}
+      />
+    </Stack>
+  )
+}
@@ -0,0 +1,75 @@
+import { useMemo, useState } from 'react'
+import { Chip, Stack, Typography } from '@mui/material'
+import ListAltIcon from '@mui/icons-material/ListAlt'
+import LocalOfferIcon from '@mui/icons-material/LocalOffer'
+import type { GameListRecord, TagRecord } from '../../../db/types'
+import { getTaggedGameIds, type GameTagsByGame } from '../../../services/tags/gameTags'
+
+interface GameSet {
+  key: string
+  kind: 'list' | 'tag'
+  name: string
+  bggIds: number[]
+}
+
+/**
+ * One-click chips that fill the session with a named list's or a tag's games.
+ */
+export function GameSetPicker(props: {
+  gameLists: GameListRecord[]
+  tags: TagRecord[]
+  gameTags: GameTagsByGame
+  /** Loads the set's games, reporting its own errors */
+  onLoadGames: (bggIds: number[], name: string) => Promise<void>
+}) {
+  const { gameLists, tags, gameTags, onLoadGames } = props
+  const [pendingKey, setPendingKey] = useState<string | null>(null)
+
+  const sets: GameSet[] = useMemo(() => {
+    const taggedGameIds = Object.keys(gameTags).map(Number)
+    return [
+      ...gameLists.map((l) => ({ key: `list-${l.id}`, kind: 'list' as const, name: l.name, bggIds: l.bggIds })),
+      ...tags.map((t) => ({
+        key: `tag-${t.id}`,
+        kind: 'tag' as const,
+        name: t.name,
+        bggIds: getTaggedGameIds(t.id!, taggedGameIds, gameTags),
+      })),
+    ].filter((s) => s.bggIds.length > 0)
+  }, [gameLists, tags, gameTags])
+
+  if (sets.length === 0) return null
+
+  const handleClick = async (set: GameSet) => {
+    setPendingKey(set.key)
+    try {
+      await onLoadGames(set.bggIds, set.name)
+    } catch (err) {
+      // The parent normally toasts its own failures; never leave one unhandled
+      console.warn('[GameSetPicker] Failed to load the games:', err)
+    } finally {
+      setPendingKey(null)
+    }
+  }
+
+  return (
+    <Stack spacing={0.75}>
+      <Typography variant="caption" color="text.secondary">
+        Use a list or tag as tonight's games
+      </Typography>
+      <Stack direction="row" flexWrap="wrap" gap={1}>
+        {sets.map((set) => (
+          <Chip
+            key={set.key}
+            icon={set.kind === 'list' ? <ListAltIcon /> : <LocalOfferIcon />}
+            label={`${set.name} (${set.bggIds.length})`}
+            variant="outlined"
+            color={set.kind === 'list' ? 'primary' : 'default'}
+            disabled={pendingKey !== null}
+            onClick={() => void handleClick(set)}
+          />
+        ))}
+      </Stack>
+    </Stack>
+  )
+}
@@ -0,0 +1,69 @@
+import { Card, CardContent, Chip, LinearProgress, Stack, Typography } from '@mui/material'
+import LeaderboardIcon from '@mui/icons-material/Leaderboard'
+import type { UserRecord } from '../../../db/types'
+import type { LiveLeaderboard as LiveLeaderboardData } from '../../../services/recommendation/liveLeaderboard'
+
+/**
+ * Compact leaderboard docked above the rankings so the group can watch
+ * consensus form and stop once the leader can't be caught.
+ */
+export function LiveLeaderboard(props: { leaderboard: LiveLeaderboardData; users: UserRecord[] }) {
+  const { leaderboard, users } = props
+  const { entries, pendingPlayers, leaderClinched } = leaderboard
+  const maxScore = Math.max(...entries.map((e) => e.score), 0)
+  const nameOf = (username: string) => {
+    const user = users.find((u) => u.username === username)
+    return user?.displayName || username
+  }
+
+  return (
+    <Card sx={{ position: 'sticky', top: 8, zIndex: 2 }}>
+      <CardContent sx={{ py: 1.5, '&:last-child': { pb: 1.5 } }}>
+        <Stack direction="row" alignItems="center" justifyContent="space-between" gap={1} flexWrap="wrap" mb={1}>
+          <Stack direction="row" alignItems="center" gap={1}>
+            <LeaderboardIcon color="primary" fontSize="small" />
+            <Typography variant="subtitle2" fontWeight={600}>
+              Leading so far
+            </Typography>
+          </Stack>
+          {leaderClinched && entries.length > 0 ? (
+            <Chip size="small" color="success" label={`${entries[0].game.name} is out of reach`} />
+          ) : null}
+        </Stack>
+
+        {entries.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            Rank some games to see a leader.
+          </Typography>
+        ) : (
+          <Stack spacing={0.75}>
+            {entries.map((entry, index) => (
+              <Stack key={entry.game.bggId} direction="row" alignItems="center" gap={1}>
+                <Typography variant="body2" fontWeight={index === 0 ? 700 : 500} sx={{ width: '45%' }} noWrap>
+                  {index + 1}. {entry.game.name}
+                </Typography>
+                <LinearProgress
+                  variant="determinate"
+                  value={maxScore > 0 ? (Math.max(entry.score, 0) / maxScore) * 100 : 0}
+                  sx={{ flex: 1, height: 6, borderRadius: 3 }}
+                />
+                <Typography variant="caption" color="text.secondary" sx={{ minWidth: 32, textAlign: 'right' }}>
+                  {entry.score.toFixed(1)}
+                </Typography>
+              </Stack>
+            ))}
+          </Stack>
+        )}
+
+        <Typography variant="caption" color="text.secondary" component="p" sx={{ mt: 1 }}>
+          {pendingPlayers.length === 0
+            ? 'Everyone has ranked.'
+            : `Still to rank: ${pendingPlayers.map(nameOf).join(', ')}`}
+          {leaderClinched && pendingPlayers.length > 0
+            ? ' — their votes can no longer change the leader unless someone who already ranked changes their list.'
+            : ''}
+        </Typography>
+      </CardContent>
+    </Card>
+  )
+}
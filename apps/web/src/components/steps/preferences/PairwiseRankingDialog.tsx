@@ -0,0 +1,144 @@
+import { useMemo, useState } from 'react'
+import {
+  Box,
+  Button,
+  ButtonBase,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  LinearProgress,
+  Stack,
+  Typography,
+  useMediaQuery,
+  useTheme,
+} from '@mui/material'
+import CompareArrowsIcon from '@mui/icons-material/CompareArrows'
+import type { GameRecord } from '../../../db/types'
+import { getGameImageOrPlaceholder } from '../../../services/ui/gameImage'
+import {
+  answerComparison,
+  createPairwiseState,
+  getNextComparison,
+  getPairwiseProgress,
+  skipCandidate,
+} from '../../../services/preferences/pairwiseRanking'
+
+export interface PairwiseRankingDialogProps {
+  open: boolean
+  games: GameRecord[]
+  /** Player's current ranking, best first (treated as already sorted) */
+  rankedIds: number[]
+  /** Games without a rank yet; these are the ones asked about */
+  unrankedIds: number[]
+  onClose: () => void
+  /** Receives the new order, best first; unplaced games stay neutral */
+  onSave: (orderedBggIds: number[]) => void
+}
+
+function ChoiceCard({ game, onClick }: { game: GameRecord; onClick: () => void }) {
+  return (
+    <ButtonBase
+      onClick={onClick}
+      sx={{
+        flex: 1,
+        minWidth: 0,
+        display: 'flex',
+        flexDirection: 'column',
+        alignItems: 'stretch',
+        border: '2px solid',
+        borderColor: 'divider',
+        borderRadius: 3,
+        overflow: 'hidden',
+        '&:hover, &:focus-visible': { borderColor: 'primary.main' },
+      }}
+    >
+      <Box
+        component="img"
+        src={getGameImageOrPlaceholder(game)}
+        alt=""
+        sx={{ width: '100%', aspectRatio: '1 / 1', objectFit: 'cover', bgcolor: 'action.hover' }}
+      />
+      <Typography variant="subtitle2" fontWeight={700} sx={{ p: 1, textAlign: 'center' }}>
+        {game.name}
+      </Typography>
+    </ButtonBase>
+  )
+}
+
+/**
+ * "This or that" ranking: asks the player to pick between two games until
+ * every unranked game has found its place, or until they stop early.
+ * Mount it only while open so each run starts from the current ranking.
+ */
+export function PairwiseRankingDialog({ open, games, rankedIds, unrankedIds, onClose, onSave }: PairwiseRankingDialogProps) {
+  const theme = useTheme()
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'))
+  const [state, setState] = useState(() => createPairwiseState(rankedIds, unrankedIds))
+
+  const gameById = useMemo(() => new Map(games.map((g) => [g.bggId, g])), [games])
+  const comparison = getNextComparison(state)
+  const progress = getPairwiseProgress(state, rankedIds.length + unrankedIds.length)
+  const candidate = comparison ? gameById.get(comparison.candidate) : undefined
+  const opponent = comparison ? gameById.get(comparison.opponent) : undefined
+
+  const save = () => {
+    onSave(state.sorted)
+    onClose()
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm" fullScreen={isMobile}>
+      <DialogTitle>This or that?</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2}>
+          <Box>
+            <LinearProgress variant="determinate" value={progress.fraction * 100} sx={{ height: 6, borderRadius: 3 }} />
+            <Typography variant="caption" color="text.secondary">
+              {progress.placed} of {progress.total} games ranked
+              {progress.remainingQuestions > 0 ? ` · about ${progress.remainingQuestions} questions left` : ''}
+            </Typography>
+          </Box>
+
+          {candidate && opponent ? (
+            <>
+              <Typography color="text.secondary">Which would you rather play tonight?</Typography>
+              <Stack direction="row" spacing={2}>
+                <ChoiceCard game={candidate} onClick={() => setState((s) => answerComparison(s, true))} />
+                <ChoiceCard game={opponent} onClick={() => setState((s) => answerComparison(s, false))} />
+              </Stack>
+              <Box sx={{ textAlign: 'center' }}>
+                <Button size="small" onClick={() => setState((s) => skipCandidate(s))}>
+                  Skip {candidate.name} (leave neutral)
+                </Button>
+              </Box>
+            </>
+          ) : (
+            <Typography color="text.secondary">All done — save to apply your new ranking.</Typography>
+          )}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" onClick={save} disabled={state.sorted.length === 0}>
+          {comparison ? 'Stop & save' : 'Save ranking'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+/** Opens the "this or that" dialog; hidden until there is something to rank. */
+export function PairwiseRankingButton(props: Omit<PairwiseRankingDialogProps, 'open' | 'onClose'>) {
+  const [open, setOpen] = useState(false)
+  if (props.unrankedIds.length === 0 || props.rankedIds.length + props.unrankedIds.length < 2) return null
+
+  return (
+    <>
+      <Button size="small" variant="outlined" startIcon={<CompareArrowsIcon />} onClick={() => setOpen(true)} sx={{ height: 32 }}>
+        This or that
+      </Button>
+      {open ? <PairwiseRankingDialog {...props} open onClose={() => setOpen(false)} /> : null}
+    </>
+  )
+}
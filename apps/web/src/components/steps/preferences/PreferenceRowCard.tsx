@@ -7,7 +7,14 @@ import StarBorderIcon from '@mui/icons-material/StarBorder'
 import DragIndicatorIcon from '@mui/icons-material/DragIndicator'
 import ThumbDownAltIcon from '@mui/icons-material/ThumbDownAlt'
 import ThumbDownOffAltIcon from '@mui/icons-material/ThumbDownOffAlt'
+import FactCheckIcon from '@mui/icons-material/FactCheck'
+import FactCheckOutlinedIcon from '@mui/icons-material/FactCheckOutlined'
+import SchoolIcon from '@mui/icons-material/School'
+import SchoolOutlinedIcon from '@mui/icons-material/SchoolOutlined'
+import CoPresentIcon from '@mui/icons-material/CoPresent'
+import CoPresentOutlinedIcon from '@mui/icons-material/CoPresentOutlined'
 import type { GameRecord } from '../../../db/types'
+import type { LearningFlag, LearningFlags } from '../../../services/preferences/preferenceRules'
 import { colors } from '../../../theme/theme'
 import { StatPill } from '../../ui/StatPill'
 import { getGameImageOrPlaceholder } from '../../../services/ui/gameImage'
@@ -23,9 +30,60 @@ export interface PreferenceRowCardProps {
   onToggleDisliked?: () => void
   onRank?: (rank: number) => void
   nextRank?: number
+  /** "Knows the rules" / "wants to learn" / "willing to teach" */
+  learningFlags?: LearningFlags
+  /** Toggle one learning flag; without it set flags are shown read-only */
+  onToggleLearningFlag?: (flag: LearningFlag) => void
   dragHandleProps?: React.HTMLAttributes<HTMLDivElement>
 }
 
+const LEARNING_FLAG_BUTTONS: Array<{
+  flag: LearningFlag
+  label: string
+  on: React.ReactNode
+  off: React.ReactNode
+}> = [
+  { flag: 'knowsRules', label: 'Knows the rules', on: <FactCheckIcon fontSize="small" />, off: <FactCheckOutlinedIcon fontSize="small" /> },
+  { flag: 'wantsToLearn', label: 'Wants to learn', on: <SchoolIcon fontSize="small" />, off: <SchoolOutlinedIcon fontSize="small" /> },
+  { flag: 'willingToTeach', label: 'Willing to teach', on: <CoPresentIcon fontSize="small" />, off: <CoPresentOutlinedIcon fontSize="small" /> },
+]
+
+function LearningFlagButtons(props: { flags?: LearningFlags; onToggle?: (flag: LearningFlag) => void }) {
+  const { flags, onToggle } = props
+  const visible = onToggle ? LEARNING_FLAG_BUTTONS : LEARNING_FLAG_BUTTONS.filter((b) => flags?.[b.flag])
+  if (visible.length === 0) return null
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center' }}>
+      {visible.map(({ flag, label, on, off }) => {
+        const active = !!flags?.[flag]
+        return (
+          <IconButton
+            key={flag}
+            size="small"
+            disabled={!onToggle}
+            onClick={(e) => {
+              e.stopPropagation()
+              onToggle?.(flag)
+            }}
+            aria-label={label}
+            aria-pressed={active}
+            title={label}
+            sx={{
+              width: 30,
+              height: 30,
+              color: active ? 'primary.main' : 'text.disabled',
+              '&.Mui-disabled': { color: 'primary.main' },
+            }}
+          >
+            {active ? on : off}
+          </IconButton>
+        )
+      })}
+    </Box>
+  )
+}
+
 export function PreferenceRowCard({
   game,
   isTopPick,
@@ -38,6 +96,8 @@ export function PreferenceRowCard({
   onToggleDisliked,
   onRank,
   nextRank,
+  learningFlags,
+  onToggleLearningFlag,
   dragHandleProps,
 }: PreferenceRowCardProps) {
   void _userRating // suppress unused warning
@@ -121,6 +181,8 @@ export function PreferenceRowCard({
         </Typography>
       </Box>
 
+      <LearningFlagButtons flags={learningFlags} onToggle={onToggleLearningFlag} />
+
       {rank !== undefined ? (
         <StatPill label={`#${rank}`} sx={{ minWidth: 44 }} />
       ) : null}
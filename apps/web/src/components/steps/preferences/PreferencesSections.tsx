@@ -16,6 +16,8 @@ import { SortableGameCard } from '../PreferenceGameCard'
 import { DraggableGameCard } from '../DraggableGameCard'
 import { DraggablePreferenceRowCard, SortablePreferenceRowCard } from './PreferenceRowCard'
 import type { LayoutMode } from '../../../services/storage/uiPreferences'
+import type { LearningFlags } from '../../../services/preferences/preferenceRules'
+import { learningFlagProps, type LearningFlagToggle } from './learningFlagProps'
 import { SectionHeader } from '../../ui/SectionHeader'
 
 export interface PreferenceGameRow {
@@ -23,6 +25,7 @@ export interface PreferenceGameRow {
   userRating?: number
   isTopPick?: boolean
   isDisliked?: boolean
+  learningFlags?: LearningFlags
 }
 
 const LIST_SCROLL_SX = {
@@ -33,7 +36,7 @@ const LIST_SCROLL_SX = {
   direction: 'ltr',
 } as const
 
-function DroppableList(props: {
+export function DroppableList(props: {
   droppableId: string
   children: ReactNode
   minHeight?: number
@@ -69,8 +72,9 @@ export function TopPicksSection(props: {
   onOpenDetails?: (game: GameRecord) => void
   onToggleTopPick: (bggId: number, currentlyTopPick: boolean) => void
   onToggleDisliked: (bggId: number, currentlyDisliked: boolean) => void
+  onToggleLearningFlag?: LearningFlagToggle
 }) {
-  const { topPicks, droppableId, layoutMode, onOpenDetails, onToggleTopPick, onToggleDisliked } = props
+  const { topPicks, droppableId, layoutMode, onOpenDetails, onToggleTopPick, onToggleDisliked, onToggleLearningFlag } = props
 
   return (
     <Card sx={{ bgcolor: 'background.paper', border: `2px solid ${colors.sand}` }}>
@@ -89,7 +93,7 @@ export function TopPicksSection(props: {
             </Typography>
           ) : (
             <Stack spacing={1}>
-              {topPicks.map(({ game, userRating }) => (
+              {topPicks.map(({ game, userRating, learningFlags }) => (
                 layoutMode === 'simplified' ? (
                   <DraggablePreferenceRowCard
                     key={game.bggId}
@@ -101,6 +105,7 @@ export function TopPicksSection(props: {
                     onOpenDetails={onOpenDetails ? () => onOpenDetails(game) : undefined}
                     onToggleTopPick={() => onToggleTopPick(game.bggId, true)}
                     onToggleDisliked={() => onToggleDisliked(game.bggId, false)}
+                    {...learningFlagProps(game.bggId, learningFlags, onToggleLearningFlag)}
                   />
                 ) : (
                   <DraggableGameCard
@@ -131,14 +136,16 @@ export function DislikedSection(props: {
   onOpenDetails?: (game: GameRecord) => void
   onToggleTopPick: (bggId: number, currentlyTopPick: boolean) => void
   onToggleDisliked: (bggId: number, currentlyDisliked: boolean) => void
+  /** Veto budget shown next to the count (null = no limit) */
+  vetoLimit?: number | null
 }) {
-  const { disliked, droppableId, layoutMode, onOpenDetails, onToggleTopPick, onToggleDisliked } = props
+  const { disliked, droppableId, layoutMode, onOpenDetails, onToggleTopPick, onToggleDisliked, vetoLimit = null } = props
 
   return (
     <Card sx={{ bgcolor: 'background.paper', border: '2px solid', borderColor: 'error.light' }}>
       <CardContent>
         <SectionHeader
-          title={`Disliked (${disliked.length})`}
+          title={vetoLimit === null ? `Disliked (${disliked.length})` : `Disliked (${disliked.length}/${vetoLimit})`}
           titleVariant="subtitle1"
           sx={{ mb: 0.5 }}
         />
@@ -189,8 +196,9 @@ export function RankedSection(props: {
   onOpenDetails?: (game: GameRecord) => void
   onToggleTopPick: (bggId: number, currentlyTopPick: boolean) => void
   onToggleDisliked: (bggId: number, currentlyDisliked: boolean) => void
+  onToggleLearningFlag?: LearningFlagToggle
 }) {
-  const { ranked, droppableId, layoutMode, onOpenDetails, onToggleTopPick, onToggleDisliked } = props
+  const { ranked, droppableId, layoutMode, onOpenDetails, onToggleTopPick, onToggleDisliked, onToggleLearningFlag } = props
   const ids = ranked.map((g) => g.game.bggId)
 
   return (
@@ -211,7 +219,7 @@ export function RankedSection(props: {
           ) : (
             <SortableContext items={ids} strategy={verticalListSortingStrategy}>
               <Stack spacing={1}>
-                {ranked.map(({ game, userRating }, index) => (
+                {ranked.map(({ game, userRating, learningFlags }, index) => (
                   layoutMode === 'simplified' ? (
                     <SortablePreferenceRowCard
                       key={game.bggId}
@@ -224,6 +232,7 @@ export function RankedSection(props: {
                       onOpenDetails={onOpenDetails ? () => onOpenDetails(game) : undefined}
                       onToggleTopPick={() => onToggleTopPick(game.bggId, false)}
                       onToggleDisliked={() => onToggleDisliked(game.bggId, false)}
+                      {...learningFlagProps(game.bggId, learningFlags, onToggleLearningFlag)}
                     />
                   ) : (
                     <SortableGameCard
@@ -258,8 +267,9 @@ export function NeutralSection(props: {
   onToggleTopPick: (bggId: number, currentlyTopPick: boolean) => void
   onToggleDisliked: (bggId: number, currentlyDisliked: boolean) => void
   onSetRank: (bggId: number, rank: number) => void
+  onToggleLearningFlag?: LearningFlagToggle
 }) {
-  const { neutral, nextRank, droppableId, layoutMode, onOpenDetails, onToggleTopPick, onToggleDisliked, onSetRank } = props
+  const { neutral, nextRank, droppableId, layoutMode, onOpenDetails, onToggleTopPick, onToggleDisliked, onSetRank, onToggleLearningFlag } = props
 
   return (
     <Card>
@@ -274,7 +284,7 @@ export function NeutralSection(props: {
 
         <DroppableList droppableId={droppableId} minHeight={120} highlightColor={alpha(colors.oceanBlue, 0.35)}>
           <Stack spacing={1} sx={{ mt: 0 }}>
-            {neutral.map(({ game, userRating, isDisliked, isTopPick }) => (
+            {neutral.map(({ game, userRating, isDisliked, isTopPick, learningFlags }) => (
               layoutMode === 'simplified' ? (
                 <DraggablePreferenceRowCard
                   key={game.bggId}
@@ -286,6 +296,7 @@ export function NeutralSection(props: {
                   onOpenDetails={onOpenDetails ? () => onOpenDetails(game) : undefined}
                   onToggleTopPick={() => onToggleTopPick(game.bggId, !!isTopPick)}
                   onToggleDisliked={() => onToggleDisliked(game.bggId, !!isDisliked)}
+                  {...learningFlagProps(game.bggId, learningFlags, onToggleLearningFlag)}
                   onRank={(rank) => onSetRank(game.bggId, rank)}
                   nextRank={nextRank}
                 />
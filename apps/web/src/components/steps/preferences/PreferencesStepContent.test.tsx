@@ -1,4 +1,4 @@
-import { render, screen } from '@testing-library/react'
+import { fireEvent, render, screen } from '@testing-library/react'
 import { ThemeProvider } from '@mui/material/styles'
 import { vi } from 'vitest'
 import { theme } from '../../../theme/theme'
@@ -119,4 +119,100 @@ describe('PreferencesStepContent', () => {
     expect(screen.getByText(/Top Picks \(0\)/i)).toBeInTheDocument()
     expect(screen.getByText(/Disliked \(1\)/i)).toBeInTheDocument()
   })
+
+  it('shows tier lanes for a player who uses tiers and keeps tiered games out of the neutral list', () => {
+    const users: UserRecord[] = [{ username: 'alice', internalId: 'alice-test', isBggUser: false }]
+    const games: GameRecord[] = [
+      { bggId: 1, name: 'Catan', lastFetchedAt: new Date().toISOString() },
+      { bggId: 2, name: 'Azul', lastFetchedAt: new Date().toISOString() },
+    ]
+
+    renderWithProviders(
+      <PreferencesStepContent
+        users={users}
+        games={games}
+        gameOwners={{}}
+        layoutMode="standard"
+        onLayoutModeChange={vi.fn()}
+        preferences={{
+          alice: [
+            { username: 'alice', bggId: 1, tier: 'A', isTopPick: false, isDisliked: false, updatedAt: new Date().toISOString() },
+          ],
+        }}
+        userRatings={{ alice: {} }}
+        onUpdatePreference={vi.fn()}
+        onReorderPreferences={vi.fn()}
+        onClearPreference={vi.fn()}
+      />,
+    )
+
+    expect(screen.getByText(/Tiers \(1\)/i)).toBeInTheDocument()
+    expect(screen.getByText(/Available Games \(1\)/i)).toBeInTheDocument()
+    expect(screen.queryByText(/Ranked \(/i)).not.toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Tiers' })).toHaveAttribute('aria-pressed', 'true')
+  })
+
+  it('toggles learning flags from the compact row', () => {
+    const users: UserRecord[] = [{ username: 'alice', internalId: 'alice-test', isBggUser: false }]
+    const games: GameRecord[] = [{ bggId: 1, name: 'Catan', lastFetchedAt: new Date().toISOString() }]
+    const onUpdatePreference = vi.fn()
+
+    renderWithProviders(
+      <PreferencesStepContent
+        users={users}
+        games={games}
+        gameOwners={{}}
+        layoutMode="simplified"
+        onLayoutModeChange={vi.fn()}
+        preferences={{
+          alice: [
+            { username: 'alice', bggId: 1, knowsRules: true, isTopPick: false, isDisliked: false, updatedAt: new Date().toISOString() },
+          ],
+        }}
+        userRatings={{ alice: {} }}
+        onUpdatePreference={onUpdatePreference}
+        onReorderPreferences={vi.fn()}
+        onClearPreference={vi.fn()}
+      />,
+    )
+
+    expect(screen.getByRole('button', { name: 'Knows the rules' })).toHaveAttribute('aria-pressed', 'true')
+    fireEvent.click(screen.getByRole('button', { name: 'Willing to teach' }))
+    expect(onUpdatePreference).toHaveBeenCalledWith('alice', 1, { willingToTeach: true })
+  })
+
+  it('blocks new dislikes once the veto budget is used', () => {
+    const users: UserRecord[] = [{ username: 'alice', internalId: 'alice-test', isBggUser: false }]
+    const games: GameRecord[] = [
+      { bggId: 1, name: 'Catan', lastFetchedAt: new Date().toISOString() },
+      { bggId: 2, name: 'Azul', lastFetchedAt: new Date().toISOString() },
+    ]
+    const onUpdatePreference = vi.fn()
+
+    renderWithProviders(
+      <PreferencesStepContent
+        users={users}
+        games={games}
+        gameOwners={{}}
+        layoutMode="simplified"
+        onLayoutModeChange={vi.fn()}
+        preferences={{
+          alice: [
+            { username: 'alice', bggId: 1, isTopPick: false, isDisliked: true, updatedAt: new Date().toISOString() },
+          ],
+        }}
+        userRatings={{ alice: {} }}
+        onUpdatePreference={onUpdatePreference}
+        onReorderPreferences={vi.fn()}
+        onClearPreference={vi.fn()}
+        vetoLimit={1}
+      />,
+    )
+
+    expect(screen.getByText(/Disliked \(1\/1\)/i)).toBeInTheDocument()
+    fireEvent.click(screen.getByRole('button', { name: 'Mark disliked' }))
+    expect(onUpdatePreference).not.toHaveBeenCalled()
+    fireEvent.click(screen.getByRole('button', { name: 'Remove dislike' }))
+    expect(onUpdatePreference).toHaveBeenCalledWith('alice', 1, { isDisliked: false })
+  })
 })
@@ -22,6 +22,7 @@ import {
 } from '@dnd-kit/core'
 import { sortableKeyboardCoordinates } from '@dnd-kit/sortable'
 import type { GameRecord, UserPreferenceRecord, UserRecord } from '../../../db/types'
+import type { PreferenceUpdate } from '../../../services/preferences/preferenceRules'
 import { PreferencesUserSelector } from './PreferencesUserSelector'
 import type { GuestStatus } from './types'
 import { GameCard } from '../PreferenceGameCard'
@@ -31,9 +32,13 @@ import { GameDetailsDialog } from '../../gameDetails/GameDetailsDialog'
 import { LayoutToggle } from '../../LayoutToggle'
 import type { LayoutMode } from '../../../services/storage/uiPreferences'
 import { PreferenceRowCard } from './PreferenceRowCard'
+import { PairwiseRankingButton } from './PairwiseRankingDialog'
 import { SectionHeader } from '../../ui/SectionHeader'
-import { usePreferencesDragDrop, DROPPABLE, TOP_PICKS_LIMIT } from './usePreferencesDragDrop'
+import { usePreferencesDragDrop, DROPPABLE } from './usePreferencesDragDrop'
+import { usePreferenceToggles } from './usePreferenceToggles'
 import { useNewGameIds } from './useNewGameIds'
+import { usePreferenceBuckets } from './usePreferenceBuckets'
+import { RankingModeToggle, TierLanesSection, type RankingMode } from './TierLanesSection'
 import { usePreferencesUserSelection } from './usePreferencesUserSelection'
 import type { UserSyncStatus } from './types'
 
@@ -48,7 +53,7 @@ export interface PreferencesStepProps {
   onUpdatePreference: (
     username: string,
     bggId: number,
-    update: { rank?: number; isTopPick?: boolean; isDisliked?: boolean }
+    update: PreferenceUpdate
   ) => void
   onReorderPreferences: (username: string, orderedBggIds: number[]) => void
   onClearPreference: (username: string, bggId: number) => void
@@ -61,6 +66,7 @@ export interface PreferencesStepProps {
   syncStatuses?: UserSyncStatus[] // Sync statuses for users in active session
   onSyncUser?: (username: string) => void // Callback when user clicks sync button in tab
   hasActiveSession?: boolean // Shows user tabs even with single user
+  vetoLimit?: number | null // Dislikes each player may mark under the host's veto policy (null = no limit)
 }
 
 export function PreferencesStepContent({
@@ -83,6 +89,7 @@ export function PreferencesStepContent({
   syncStatuses = [],
   onSyncUser,
   hasActiveSession = false,
+  vetoLimit = null,
 }: PreferencesStepProps) {
   const theme = useTheme()
   const isMobile = useMediaQuery(theme.breakpoints.down('sm'))
@@ -127,45 +134,11 @@ export function PreferencesStepContent({
     useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
   )
 
-  const gamesWithPrefs: Array<PreferenceGameRow & { pref?: UserPreferenceRecord }> = useMemo(() => {
-    const currentUserPrefs = preferences[selectedUser] ?? []
-    const currentUserRatings = userRatings[selectedUser] ?? {}
-
-    return games.map((game) => {
-      const pref = currentUserPrefs.find((p) => p.bggId === game.bggId)
-      return {
-        game,
-        pref,
-        userRating: currentUserRatings[game.bggId],
-        isTopPick: pref?.isTopPick,
-        isDisliked: pref?.isDisliked,
-      }
-    })
-  }, [games, preferences, selectedUser, userRatings])
-
-  const rowByBggId = useMemo(() => {
-    const map = new Map<number, PreferenceGameRow>()
-    for (const row of gamesWithPrefs) {
-      map.set(row.game.bggId, row)
-    }
-    return map
-  }, [gamesWithPrefs])
-
-  const disliked = useMemo(() => gamesWithPrefs.filter((g) => g.pref?.isDisliked), [gamesWithPrefs])
-  const topPicks = useMemo(() => gamesWithPrefs.filter((g) => g.pref?.isTopPick && !g.pref?.isDisliked), [gamesWithPrefs])
-  const ranked = useMemo(() =>
-    gamesWithPrefs
-      .filter((g) => !g.pref?.isTopPick && !g.pref?.isDisliked && g.pref?.rank !== undefined)
-      .sort((a, b) => (a.pref?.rank ?? 0) - (b.pref?.rank ?? 0)),
-  [gamesWithPrefs])
-  const neutral = useMemo(() =>
-    gamesWithPrefs.filter((g) => !g.pref?.isTopPick && !g.pref?.isDisliked && g.pref?.rank === undefined),
-  [gamesWithPrefs])
-
-  const rankedIds = useMemo(() => ranked.map((g) => g.game.bggId), [ranked])
-  const topPickIds = useMemo(() => topPicks.map((g) => g.game.bggId), [topPicks])
-  const neutralIds = useMemo(() => neutral.map((g) => g.game.bggId), [neutral])
-  const dislikedIds = useMemo(() => disliked.map((g) => g.game.bggId), [disliked])
+  const {
+    rowByBggId, disliked, topPicks, ranked, tiered, neutral, rankedIds, topPickIds, neutralIds, dislikedIds, tierByBggId,
+  } = usePreferenceBuckets({ games, preferences, userRatings, selectedUser })
+  const [rankingMode, setRankingMode] = useState<RankingMode | null>(null)
+  const effectiveRankingMode: RankingMode = rankingMode ?? (tierByBggId.size > 0 && ranked.length === 0 ? 'tiers' : 'ranks')
 
   // Use the drag-and-drop hook
   const { activeDragId, handleDragStart, handleDragEnd, handleDragCancel } = usePreferencesDragDrop({
@@ -174,48 +147,35 @@ export function PreferencesStepContent({
     topPickIds,
     neutralIds,
     dislikedIds,
+    tierByBggId,
     topPicksCount: topPicks.length,
+    vetoLimit,
     onUpdatePreference,
     onReorderPreferences,
     onClearPreference,
     showNotice,
   })
 
-  const { topPicksForRender, dislikedForRender, neutralForRender } = useMemo(() => {
-    if (activeDragId == null) return { topPicksForRender: topPicks, dislikedForRender: disliked, neutralForRender: neutral }
+  const { topPicksForRender, dislikedForRender, neutralForRender, tieredForRender } = useMemo(() => {
+    if (activeDragId == null) return { topPicksForRender: topPicks, dislikedForRender: disliked, neutralForRender: neutral, tieredForRender: tiered }
     const keep = (rows: PreferenceGameRow[]) => rows.filter((g) => g.game.bggId !== activeDragId)
-    return { topPicksForRender: keep(topPicks), dislikedForRender: keep(disliked), neutralForRender: keep(neutral) }
-  }, [activeDragId, disliked, neutral, topPicks])
+    const tieredForRender = { S: keep(tiered.S), A: keep(tiered.A), B: keep(tiered.B), C: keep(tiered.C) }
+    return { topPicksForRender: keep(topPicks), dislikedForRender: keep(disliked), neutralForRender: keep(neutral), tieredForRender }
+  }, [activeDragId, disliked, neutral, tiered, topPicks])
 
   const neutralForDisplay = useMemo(() => {
     if (!showOnlyNewGames) return neutralForRender
     return neutralForRender.filter((row) => newGameIds.has(row.game.bggId))
   }, [neutralForRender, newGameIds, showOnlyNewGames])
 
-  const handleToggleTopPick = useCallback(
-    (bggId: number, currentlyTopPick: boolean) => {
-      if (!currentlyTopPick && topPicks.length >= TOP_PICKS_LIMIT) {
-        showNotice(`Top Picks limited to ${TOP_PICKS_LIMIT}`)
-        return
-      }
-      onUpdatePreference(selectedUser, bggId, { isTopPick: !currentlyTopPick })
-    },
-    [onUpdatePreference, selectedUser, showNotice, topPicks.length]
-  )
-
-  const handleToggleDisliked = useCallback(
-    (bggId: number, currentlyDisliked: boolean) => {
-      onUpdatePreference(selectedUser, bggId, { isDisliked: !currentlyDisliked })
-    },
-    [onUpdatePreference, selectedUser]
-  )
-
-  const handleSetRank = useCallback(
-    (bggId: number, rankValue: number) => {
-      onUpdatePreference(selectedUser, bggId, { rank: rankValue })
-    },
-    [onUpdatePreference, selectedUser]
-  )
+  const { handleToggleTopPick, handleToggleDisliked, handleToggleLearningFlag, handleSetRank } = usePreferenceToggles({
+    selectedUser,
+    topPicksCount: topPicks.length,
+    dislikedCount: disliked.length,
+    vetoLimit,
+    onUpdatePreference,
+    showNotice,
+  })
 
   if (users.length === 0) {
     return <Card><CardContent><Typography color="text.secondary">No players added yet. Go back to add players.</Typography></CardContent></Card>
@@ -225,6 +185,7 @@ export function PreferencesStepContent({
   const effectiveOnToggleTopPick = isSelectedUserReadOnly ? () => {} : handleToggleTopPick
   const effectiveOnToggleDisliked = isSelectedUserReadOnly ? () => {} : handleToggleDisliked
   const effectiveOnSetRank = isSelectedUserReadOnly ? () => {} : handleSetRank
+  const effectiveOnToggleLearningFlag = isSelectedUserReadOnly ? undefined : handleToggleLearningFlag
   const readOnlyUserDisplayName = isSelectedUserReadOnly
     ? users.find((u) => u.username === selectedUser)?.displayName || selectedUser : ''
 
@@ -273,6 +234,16 @@ export function PreferencesStepContent({
       )}
 
       <Box sx={{ display: 'flex', justifyContent: 'flex-end', gap: 1, alignItems: 'center' }}>
+        {!isSelectedUserReadOnly ? (
+          <PairwiseRankingButton
+            key={selectedUser}
+            games={games}
+            rankedIds={rankedIds}
+            unrankedIds={neutralIds}
+            onSave={(ids) => onReorderPreferences(selectedUser, ids)}
+          />
+        ) : null}
+        <RankingModeToggle value={effectiveRankingMode} onChange={setRankingMode} />
         {!isMobile && hasNewGames ? (
           <FormControlLabel
             label={`Only new games (${newGameIds.size})`}
@@ -305,6 +276,7 @@ export function PreferencesStepContent({
           onOpenDetails={(game) => setDetailsGame(game)}
           onToggleTopPick={effectiveOnToggleTopPick}
           onToggleDisliked={effectiveOnToggleDisliked}
+          onToggleLearningFlag={effectiveOnToggleLearningFlag}
         />
         <DislikedSection
           disliked={dislikedForRender}
@@ -313,15 +285,29 @@ export function PreferencesStepContent({
           onOpenDetails={(game) => setDetailsGame(game)}
           onToggleTopPick={effectiveOnToggleTopPick}
           onToggleDisliked={effectiveOnToggleDisliked}
+          vetoLimit={vetoLimit}
         />
-        <RankedSection
-          ranked={ranked}
-          droppableId={DROPPABLE.ranked}
-          layoutMode={effectiveLayoutMode}
-          onOpenDetails={(game) => setDetailsGame(game)}
-          onToggleTopPick={effectiveOnToggleTopPick}
-          onToggleDisliked={effectiveOnToggleDisliked}
-        />
+        {effectiveRankingMode === 'tiers' || tierByBggId.size > 0 ? (
+          <TierLanesSection
+            tiers={tieredForRender}
+            layoutMode={effectiveLayoutMode}
+            onOpenDetails={(game) => setDetailsGame(game)}
+            onToggleTopPick={effectiveOnToggleTopPick}
+            onToggleDisliked={effectiveOnToggleDisliked}
+            onToggleLearningFlag={effectiveOnToggleLearningFlag}
+          />
+        ) : null}
+        {effectiveRankingMode === 'ranks' || ranked.length > 0 ? (
+          <RankedSection
+            ranked={ranked}
+            droppableId={DROPPABLE.ranked}
+            layoutMode={effectiveLayoutMode}
+            onOpenDetails={(game) => setDetailsGame(game)}
+            onToggleTopPick={effectiveOnToggleTopPick}
+            onToggleDisliked={effectiveOnToggleDisliked}
+            onToggleLearningFlag={effectiveOnToggleLearningFlag}
+          />
+        ) : null}
         <NeutralSection
           neutral={neutralForDisplay}
           nextRank={ranked.length + 1}
@@ -330,6 +316,7 @@ export function PreferencesStepContent({
           onOpenDetails={(game) => setDetailsGame(game)}
           onToggleTopPick={effectiveOnToggleTopPick}
           onToggleDisliked={effectiveOnToggleDisliked}
+          onToggleLearningFlag={effectiveOnToggleLearningFlag}
           onSetRank={effectiveOnSetRank}
         />
         <DragOverlay dropAnimation={null}>
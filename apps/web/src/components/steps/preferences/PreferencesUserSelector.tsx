@@ -25,7 +25,7 @@ export function PreferencesUserSelector(props: {
   isMobile: boolean
   onChange: (username: string) => void
   /** Preferences keyed by username (used to determine in-progress vs chosen states). */
-  preferences: Record<string, { bggId: number; rank?: number; isTopPick?: boolean; isDisliked?: boolean }[]>
+  preferences: Record<string, { bggId: number; rank?: number; tier?: string; isTopPick?: boolean; isDisliked?: boolean }[]>
   /** The game IDs currently visible in this preferences step. */
   gameIds: number[]
   /** Optional guest statuses (for showing ready indicators) */
@@ -74,7 +74,7 @@ export function PreferencesUserSelector(props: {
     const userPrefs = preferences[user.username] ?? []
     const hasChoiceForVisibleGames = userPrefs.some((p) => {
       if (!gameIdSet.has(p.bggId)) return false
-      return p.rank !== undefined || !!p.isTopPick || !!p.isDisliked
+      return p.rank !== undefined || p.tier !== undefined || !!p.isTopPick || !!p.isDisliked
     })
 
     return hasChoiceForVisibleGames ? 'chosen' : 'in-progress'
@@ -0,0 +1,123 @@
+import { Box, Card, CardContent, Chip, Stack, ToggleButton, ToggleButtonGroup, Typography } from '@mui/material'
+import type { GameRecord, PreferenceTier } from '../../../db/types'
+import { colors } from '../../../theme/theme'
+import { PREFERENCE_TIERS, TIER_DESCRIPTIONS } from '../../../services/preferences/preferenceTiers'
+import type { LayoutMode } from '../../../services/storage/uiPreferences'
+import { DraggableGameCard } from '../DraggableGameCard'
+import { SectionHeader } from '../../ui/SectionHeader'
+import { DraggablePreferenceRowCard } from './PreferenceRowCard'
+import { DroppableList, type PreferenceGameRow } from './PreferencesSections'
+import { learningFlagProps, type LearningFlagToggle } from './learningFlagProps'
+import { TIER_DROPPABLE } from './usePreferencesDragDrop'
+
+export type RankingMode = 'ranks' | 'tiers'
+
+const TIER_COLORS: Record<PreferenceTier, string> = {
+  S: colors.sand,
+  A: colors.oceanBlue,
+  B: '#66bb6a',
+  C: '#90a4ae',
+}
+
+/** Switch between a strict ranking and S/A/B/C tiers */
+export function RankingModeToggle(props: { value: RankingMode; onChange: (mode: RankingMode) => void }) {
+  return (
+    <ToggleButtonGroup
+      value={props.value}
+      exclusive
+      size="small"
+      aria-label="Ranking style"
+      onChange={(_, mode: RankingMode | null) => mode && props.onChange(mode)}
+      sx={{ height: 32 }}
+    >
+      <ToggleButton value="ranks" sx={{ textTransform: 'none', px: 1.5 }}>Ranks</ToggleButton>
+      <ToggleButton value="tiers" sx={{ textTransform: 'none', px: 1.5 }}>Tiers</ToggleButton>
+    </ToggleButtonGroup>
+  )
+}
+
+/**
+ * S/A/B/C lanes: an alternative to strict ranks where games in the same
+ * lane are tied. Games are dragged between lanes; order inside a lane
+ * does not matter.
+ */
+export function TierLanesSection(props: {
+  tiers: Record<PreferenceTier, PreferenceGameRow[]>
+  layoutMode: LayoutMode
+  onOpenDetails?: (game: GameRecord) => void
+  onToggleTopPick: (bggId: number, currentlyTopPick: boolean) => void
+  onToggleDisliked: (bggId: number, currentlyDisliked: boolean) => void
+  onToggleLearningFlag?: LearningFlagToggle
+}) {
+  const { tiers, layoutMode, onOpenDetails, onToggleTopPick, onToggleDisliked, onToggleLearningFlag } = props
+  const total = PREFERENCE_TIERS.reduce((sum, t) => sum + tiers[t].length, 0)
+
+  return (
+    <Card>
+      <CardContent>
+        <SectionHeader
+          title={`Tiers (${total})`}
+          subtitle="Drag games into a tier; games in the same tier count as tied"
+          titleVariant="subtitle1"
+          subtitleVariant="caption"
+          sx={{ mb: 0.5 }}
+        />
+        <Stack spacing={1}>
+          {PREFERENCE_TIERS.map((tier) => (
+            <Box key={tier} sx={{ display: 'flex', gap: 1, alignItems: 'flex-start' }}>
+              <Stack alignItems="center" sx={{ width: 56, flexShrink: 0, pt: 1.5 }}>
+                <Chip
+                  label={tier}
+                  sx={{ fontWeight: 800, fontSize: 16, bgcolor: TIER_COLORS[tier], color: 'common.white', width: 40 }}
+                />
+                <Typography variant="caption" color="text.secondary" textAlign="center" sx={{ mt: 0.5, lineHeight: 1.2 }}>
+                  {TIER_DESCRIPTIONS[tier]}
+                </Typography>
+              </Stack>
+              <Box sx={{ flex: 1, minWidth: 0 }}>
+                <DroppableList droppableId={TIER_DROPPABLE[tier]} minHeight={72} highlightColor={TIER_COLORS[tier]}>
+                  {tiers[tier].length === 0 ? (
+                    <Typography color="text.secondary" variant="body2" sx={{ py: 1.5 }}>
+                      Drag games here
+                    </Typography>
+                  ) : (
+                    <Stack spacing={1}>
+                      {tiers[tier].map(({ game, userRating, learningFlags }) => (
+                        layoutMode === 'simplified' ? (
+                          <DraggablePreferenceRowCard
+                            key={game.bggId}
+                            id={game.bggId}
+                            game={game}
+                            userRating={userRating}
+                            isTopPick={false}
+                            isDisliked={false}
+                            onOpenDetails={onOpenDetails ? () => onOpenDetails(game) : undefined}
+                            onToggleTopPick={() => onToggleTopPick(game.bggId, false)}
+                            onToggleDisliked={() => onToggleDisliked(game.bggId, false)}
+                            {...learningFlagProps(game.bggId, learningFlags, onToggleLearningFlag)}
+                          />
+                        ) : (
+                          <DraggableGameCard
+                            key={game.bggId}
+                            id={game.bggId}
+                            game={game}
+                            userRating={userRating}
+                            isTopPick={false}
+                            isDisliked={false}
+                            onOpenDetails={onOpenDetails ? () => onOpenDetails(game) : undefined}
+                            onToggleTopPick={() => onToggleTopPick(game.bggId, false)}
+                            onToggleDisliked={() => onToggleDisliked(game.bggId, false)}
+                          />
+                        )
+                      ))}
+                    </Stack>
+                  )}
+                </DroppableList>
+              </Box>
+            </Box>
+          ))}
+        </Stack>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,11 @@
+import type { LearningFlag, LearningFlags } from '../../../services/preferences/preferenceRules'
+
+export type LearningFlagToggle = (bggId: number, flag: LearningFlag, currentlySet: boolean) => void
+
+/** Learning-flag props for a row card in one of the preference sections */
+export function learningFlagProps(bggId: number, flags: LearningFlags | undefined, onToggle?: LearningFlagToggle) {
+  return {
+    learningFlags: flags,
+    onToggleLearningFlag: onToggle ? (flag: LearningFlag) => onToggle(bggId, flag, !!flags?.[flag]) : undefined,
+  }
+}
@@ -0,0 +1,89 @@
+import { useMemo } from 'react'
+import type { GameRecord, PreferenceTier, UserPreferenceRecord } from '../../../db/types'
+import { PREFERENCE_TIERS } from '../../../services/preferences/preferenceTiers'
+import type { PreferenceGameRow } from './PreferencesSections'
+
+export type PreferenceRowWithPref = PreferenceGameRow & { pref?: UserPreferenceRecord }
+
+/**
+ * Splits the selected player's games into the preference buckets shown in
+ * the Preferences step: top picks, ranked, tiers, neutral and disliked.
+ */
+export function usePreferenceBuckets(params: {
+  games: GameRecord[]
+  preferences: Record<string, UserPreferenceRecord[]>
+  userRatings: Record<string, Record<number, number | undefined>>
+  selectedUser: string
+}) {
+  const { games, preferences, userRatings, selectedUser } = params
+
+  const gamesWithPrefs: PreferenceRowWithPref[] = useMemo(() => {
+    const currentUserPrefs = preferences[selectedUser] ?? []
+    const currentUserRatings = userRatings[selectedUser] ?? {}
+
+    return games.map((game) => {
+      const pref = currentUserPrefs.find((p) => p.bggId === game.bggId)
+      return {
+        game,
+        pref,
+        userRating: currentUserRatings[game.bggId],
+        isTopPick: pref?.isTopPick,
+        isDisliked: pref?.isDisliked,
+        learningFlags: pref,
+      }
+    })
+  }, [games, preferences, selectedUser, userRatings])
+
+  const rowByBggId = useMemo(() => {
+    const map = new Map<number, PreferenceGameRow>()
+    for (const row of gamesWithPrefs) {
+      map.set(row.game.bggId, row)
+    }
+    return map
+  }, [gamesWithPrefs])
+
+  const disliked = useMemo(() => gamesWithPrefs.filter((g) => g.pref?.isDisliked), [gamesWithPrefs])
+  const topPicks = useMemo(() => gamesWithPrefs.filter((g) => g.pref?.isTopPick && !g.pref?.isDisliked), [gamesWithPrefs])
+  const ranked = useMemo(() =>
+    gamesWithPrefs
+      .filter((g) => !g.pref?.isTopPick && !g.pref?.isDisliked && g.pref?.rank !== undefined)
+      .sort((a, b) => (a.pref?.rank ?? 0) - (b.pref?.rank ?? 0)),
+  [gamesWithPrefs])
+  const tiered = useMemo(() => {
+    const lanes = Object.fromEntries(PREFERENCE_TIERS.map((t) => [t, [] as PreferenceGameRow[]])) as Record<PreferenceTier, PreferenceGameRow[]>
+    for (const row of gamesWithPrefs) {
+      const pref = row.pref
+      if (pref?.tier && !pref.isTopPick && !pref.isDisliked && pref.rank === undefined) lanes[pref.tier].push(row)
+    }
+    return lanes
+  }, [gamesWithPrefs])
+  const neutral = useMemo(() =>
+    gamesWithPrefs.filter((g) => !g.pref?.isTopPick && !g.pref?.isDisliked && g.pref?.rank === undefined && !g.pref?.tier),
+  [gamesWithPrefs])
+
+  const rankedIds = useMemo(() => ranked.map((g) => g.game.bggId), [ranked])
+  const topPickIds = useMemo(() => topPicks.map((g) => g.game.bggId), [topPicks])
+  const neutralIds = useMemo(() => neutral.map((g) => g.game.bggId), [neutral])
+  const dislikedIds = useMemo(() => disliked.map((g) => g.game.bggId), [disliked])
+  const tierByBggId = useMemo(() => {
+    const map = new Map<number, PreferenceTier>()
+    for (const tier of PREFERENCE_TIERS) {
+      for (const row of tiered[tier]) map.set(row.game.bggId, tier)
+    }
+    return map
+  }, [tiered])
+
+  return {
+    rowByBggId,
+    disliked,
+    topPicks,
+    ranked,
+    tiered,
+    neutral,
+    rankedIds,
+    topPickIds,
+    neutralIds,
+    dislikedIds,
+    tierByBggId,
+  }
+}
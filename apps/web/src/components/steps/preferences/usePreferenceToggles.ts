@@ -0,0 +1,64 @@
+import { useCallback } from 'react'
+import type { LearningFlag, PreferenceUpdate } from '../../../services/preferences/preferenceRules'
+import { TOP_PICKS_LIMIT, vetoLimitNotice } from './usePreferencesDragDrop'
+
+interface UsePreferenceTogglesOptions {
+  selectedUser: string
+  topPicksCount: number
+  dislikedCount: number
+  /** Dislikes the selected player may mark (null = no limit) */
+  vetoLimit: number | null
+  onUpdatePreference: (username: string, bggId: number, update: PreferenceUpdate) => void
+  showNotice: (message: string) => void
+}
+
+/**
+ * Click handlers for the preference rows of the selected player, enforcing
+ * the top-pick limit and the veto budget.
+ */
+export function usePreferenceToggles({
+  selectedUser,
+  topPicksCount,
+  dislikedCount,
+  vetoLimit,
+  onUpdatePreference,
+  showNotice,
+}: UsePreferenceTogglesOptions) {
+  const handleToggleTopPick = useCallback(
+    (bggId: number, currentlyTopPick: boolean) => {
+      if (!currentlyTopPick && topPicksCount >= TOP_PICKS_LIMIT) {
+        showNotice(`Top Picks limited to ${TOP_PICKS_LIMIT}`)
+        return
+      }
+      onUpdatePreference(selectedUser, bggId, { isTopPick: !currentlyTopPick })
+    },
+    [onUpdatePreference, selectedUser, showNotice, topPicksCount]
+  )
+
+  const handleToggleDisliked = useCallback(
+    (bggId: number, currentlyDisliked: boolean) => {
+      if (!currentlyDisliked && vetoLimit !== null && dislikedCount >= vetoLimit) {
+        showNotice(vetoLimitNotice(vetoLimit))
+        return
+      }
+      onUpdatePreference(selectedUser, bggId, { isDisliked: !currentlyDisliked })
+    },
+    [dislikedCount, onUpdatePreference, selectedUser, showNotice, vetoLimit]
+  )
+
+  const handleToggleLearningFlag = useCallback(
+    (bggId: number, flag: LearningFlag, currentlySet: boolean) => {
+      onUpdatePreference(selectedUser, bggId, { [flag]: !currentlySet })
+    },
+    [onUpdatePreference, selectedUser]
+  )
+
+  const handleSetRank = useCallback(
+    (bggId: number, rankValue: number) => {
+      onUpdatePreference(selectedUser, bggId, { rank: rankValue })
+    },
+    [onUpdatePreference, selectedUser]
+  )
+
+  return { handleToggleTopPick, handleToggleDisliked, handleToggleLearningFlag, handleSetRank }
+}
@@ -2,12 +2,15 @@
  * usePreferencesDragDrop Hook
  *
  * Encapsulates the drag-and-drop logic for the preferences step,
- * handling moves between buckets (top picks, ranked, neutral, disliked).
+ * handling moves between buckets (top picks, ranked, tier lanes, neutral, disliked).
  */
 
 import { useCallback, useState } from 'react'
 import { arrayMove } from '@dnd-kit/sortable'
 import type { DragEndEvent, DragStartEvent } from '@dnd-kit/core'
+import type { PreferenceTier } from '../../../db/types'
+import type { PreferenceUpdate } from '../../../services/preferences/preferenceRules'
+import { PREFERENCE_TIERS } from '../../../services/preferences/preferenceTiers'
 
 const TOP_PICKS_LIMIT = 3
 
@@ -18,9 +21,21 @@ const DROPPABLE = {
   disliked: 'prefs:disliked',
 } as const
 
-type PreferenceBucket = keyof typeof DROPPABLE
+/** Droppable id for each tier lane */
+const TIER_DROPPABLE: Record<PreferenceTier, string> = {
+  S: 'prefs:tier:S',
+  A: 'prefs:tier:A',
+  B: 'prefs:tier:B',
+  C: 'prefs:tier:C',
+}
+
+type PreferenceBucket = keyof typeof DROPPABLE | 'tier'
+
+export { DROPPABLE, TIER_DROPPABLE, TOP_PICKS_LIMIT }
 
-export { DROPPABLE, TOP_PICKS_LIMIT }
+export function vetoLimitNotice(limit: number): string {
+  return `Vetoes limited to ${limit} per player`
+}
 export type { PreferenceBucket }
 
 export interface UsePreferencesDragDropParams {
@@ -29,11 +44,15 @@ export interface UsePreferencesDragDropParams {
   topPickIds: number[]
   neutralIds: number[]
   dislikedIds: number[]
+  /** Tier of every game currently in a tier lane */
+  tierByBggId: Map<number, PreferenceTier>
   topPicksCount: number
+  /** Dislikes the selected player may mark (null = no limit) */
+  vetoLimit?: number | null
   onUpdatePreference: (
     username: string,
     bggId: number,
-    update: { rank?: number; isTopPick?: boolean; isDisliked?: boolean }
+    update: PreferenceUpdate
   ) => void
   onReorderPreferences: (username: string, orderedBggIds: number[]) => void
   onClearPreference: (username: string, bggId: number) => void
@@ -47,7 +66,9 @@ export function usePreferencesDragDrop(params: UsePreferencesDragDropParams) {
     topPickIds,
     neutralIds,
     dislikedIds,
+    tierByBggId,
     topPicksCount,
+    vetoLimit = null,
     onUpdatePreference,
     onReorderPreferences,
     onClearPreference,
@@ -65,9 +86,13 @@ export function usePreferencesDragDrop(params: UsePreferencesDragDropParams) {
       if (typeof active.id !== 'number') return
       const activeId = active.id
 
+      const tierOf = (id: string | number): PreferenceTier | undefined =>
+        typeof id === 'string' ? PREFERENCE_TIERS.find((t) => TIER_DROPPABLE[t] === id) : tierByBggId.get(id)
+
       const bucketOf = (id: string | number): PreferenceBucket | null => {
+        if (tierOf(id)) return 'tier'
         if (typeof id === 'string') {
-          const match = (Object.keys(DROPPABLE) as PreferenceBucket[]).find(
+          const match = (Object.keys(DROPPABLE) as Array<keyof typeof DROPPABLE>).find(
             (k) => DROPPABLE[k] === id
           )
           return match ?? null
@@ -105,6 +130,12 @@ export function usePreferencesDragDrop(params: UsePreferencesDragDropParams) {
         return
       }
 
+      // Enforce the veto budget on drop
+      if (target === 'disliked' && source !== 'disliked' && vetoLimit !== null && dislikedIds.length >= vetoLimit) {
+        showNotice(vetoLimitNotice(vetoLimit))
+        return
+      }
+
       // Moving into ranked: compute new ordering
       if (target === 'ranked') {
         const base = rankedIds.filter((id) => id !== activeId)
@@ -119,11 +150,20 @@ export function usePreferencesDragDrop(params: UsePreferencesDragDropParams) {
         return
       }
 
+      // Moving within a tier lane changes nothing (games in a tier are tied)
+      const targetTier = tierOf(over.id)
+      if (targetTier && targetTier === tierOf(activeId)) return
+
       // If leaving ranked, fix up ranks first
       if (source === 'ranked') {
         onReorderPreferences(selectedUser, rankedIds.filter((id) => id !== activeId))
       }
 
+      if (targetTier) {
+        onUpdatePreference(selectedUser, activeId, { tier: targetTier })
+        return
+      }
+
       if (target === 'top') {
         onUpdatePreference(selectedUser, activeId, { isTopPick: true })
         return
@@ -136,7 +176,7 @@ export function usePreferencesDragDrop(params: UsePreferencesDragDropParams) {
 
       // Move to neutral: remove any existing preference record
       if (target === 'neutral') {
-        if (source === 'ranked') {
+        if (source === 'ranked' || source === 'tier') {
           onClearPreference(selectedUser, activeId)
           return
         }
@@ -161,8 +201,10 @@ export function usePreferencesDragDrop(params: UsePreferencesDragDropParams) {
       rankedIds,
       selectedUser,
       showNotice,
+      tierByBggId,
       topPickIds,
       topPicksCount,
+      vetoLimit,
     ]
   )
 
@@ -1,6 +1,8 @@
 import { Chip, LinearProgress, Stack } from '@mui/material'
 import type { GameRecord } from '../../../db/types'
+import type { ScoreBreakdown } from '../../../hooks/wizard/types'
 import { GameTile } from '../GameTile'
+import { ScoreBreakdownPanel } from './ScoreBreakdownPanel'
 
 export function AlternativeCard(props: {
   rank: number
@@ -8,10 +10,11 @@ export function AlternativeCard(props: {
   score: number
   maxScore: number
   matchReasons: string[]
+  breakdown?: ScoreBreakdown
   onPromote: () => void
   onOpenDetails?: () => void
 }) {
-  const { rank, game, score, maxScore, matchReasons, onPromote } = props
+  const { rank, game, score, maxScore, matchReasons, breakdown, onPromote } = props
   const percentage = maxScore > 0 ? (score / maxScore) * 100 : 0
 
   return (
@@ -42,6 +45,8 @@ export function AlternativeCard(props: {
         value={percentage}
         sx={{ height: 6, borderRadius: 3, bgcolor: 'divider' }}
       />
+
+      {breakdown ? <ScoreBreakdownPanel breakdown={breakdown} /> : null}
     </GameTile>
   )
 }
@@ -62,6 +62,7 @@ export function AlternativesSection(props: {
                 score={alt.score}
                 maxScore={maxScore}
                 matchReasons={alt.matchReasons}
+                breakdown={alt.breakdown}
                 onPromote={() => onPromoteAlternative(alt, index)}
                 onOpenDetails={onOpenDetails ? () => onOpenDetails(alt.game) : undefined}
               />
@@ -0,0 +1,112 @@
+import {
+  Card,
+  CardContent,
+  Chip,
+  FormControlLabel,
+  Stack,
+  Switch,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material'
+import EventNoteIcon from '@mui/icons-material/EventNote'
+import type { GameRecord } from '../../../db/types'
+import {
+  DEFAULT_PLAN_BUDGET_MINUTES,
+  PLAN_BUDGET_OPTIONS,
+  type EveningPlan,
+} from '../../../services/recommendation/eveningPlan'
+import { GameTile } from '../GameTile'
+
+function formatMinutes(minutes: number): string {
+  const h = Math.floor(minutes / 60)
+  const m = minutes % 60
+  return h > 0 ? `${h}h${m ? ` ${m}m` : ''}` : `${m}m`
+}
+
+/**
+ * Lets the host fill a time budget with several games and shows the plan in
+ * playing order.
+ */
+export function EveningPlannerSection(props: {
+  budgetMinutes: number | null
+  onBudgetChange: (minutes: number | null) => void
+  heavyFirst: boolean
+  onHeavyFirstChange: (heavyFirst: boolean) => void
+  plan: EveningPlan | null
+  onOpenDetails?: (game: GameRecord) => void
+}) {
+  const { budgetMinutes, onBudgetChange, heavyFirst, onHeavyFirstChange, plan, onOpenDetails } = props
+  const enabled = budgetMinutes !== null
+
+  return (
+    <Card>
+      <CardContent>
+        <Stack direction="row" alignItems="center" justifyContent="space-between" gap={2} flexWrap="wrap">
+          <Stack direction="row" alignItems="center" gap={1}>
+            <EventNoteIcon color="primary" />
+            <Typography variant="subtitle1" fontWeight={600}>
+              Plan the whole evening
+            </Typography>
+          </Stack>
+          <Switch
+            checked={enabled}
+            onChange={(_, checked) => onBudgetChange(checked ? DEFAULT_PLAN_BUDGET_MINUTES : null)}
+            inputProps={{ 'aria-label': 'Plan the whole evening' }}
+          />
+        </Stack>
+
+        {enabled ? (
+          <Stack spacing={2} sx={{ mt: 1.5 }}>
+            <Stack direction="row" alignItems="center" justifyContent="space-between" gap={2} flexWrap="wrap">
+              <ToggleButtonGroup
+                value={budgetMinutes}
+                exclusive
+                size="small"
+                aria-label="Time budget"
+                onChange={(_, v: number | null) => v && onBudgetChange(v)}
+              >
+                {PLAN_BUDGET_OPTIONS.map((minutes) => (
+                  <ToggleButton key={minutes} value={minutes}>
+                    {formatMinutes(minutes)}
+                  </ToggleButton>
+                ))}
+              </ToggleButtonGroup>
+              <FormControlLabel
+                control={<Switch size="small" checked={heavyFirst} onChange={(_, checked) => onHeavyFirstChange(checked)} />}
+                label={<Typography variant="body2">Heavy game first</Typography>}
+              />
+            </Stack>
+
+            {plan && plan.games.length > 0 ? (
+              <Stack spacing={1}>
+                {plan.games.map((planned, i) => (
+                  <GameTile
+                    key={planned.game.bggId}
+                    game={planned.game}
+                    variant={i === 0 ? 'topPick' : 'default'}
+                    onClick={onOpenDetails ? () => onOpenDetails(planned.game) : undefined}
+                    leading={
+                      <Chip label={`+${formatMinutes(planned.startMinute)}`} size="small" sx={{ fontWeight: 700, minWidth: 56 }} />
+                    }
+                    trailing={
+                      <Chip label={`${planned.score.toFixed(1)} pts`} size="small" color="secondary" sx={{ fontWeight: 700 }} />
+                    }
+                  />
+                ))}
+                <Typography variant="body2" color="text.secondary">
+                  {plan.games.length} game{plan.games.length === 1 ? '' : 's'} · {formatMinutes(plan.totalMinutes)} of{' '}
+                  {formatMinutes(plan.budgetMinutes)}
+                </Typography>
+              </Stack>
+            ) : (
+              <Typography variant="body2" color="text.secondary">
+                No games with a known playing time fit this budget.
+              </Typography>
+            )}
+          </Stack>
+        ) : null}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,164 @@
+import { useState } from 'react'
+import {
+  Alert,
+  Button,
+  Checkbox,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  FormGroup,
+  MenuItem,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material'
+import type { GameRecord, PlayRecord, UserRecord } from '../../../db/types'
+import { colors } from '../../../theme/theme'
+import { toPlayDate } from '../../../services/plays/playDate'
+
+export interface RecordPlayDialogProps {
+  open: boolean
+  game: GameRecord
+  users: UserRecord[]
+  onClose: () => void
+  onRecord: (play: Omit<PlayRecord, 'id' | 'createdAt'>) => Promise<void>
+}
+
+/**
+ * "We played this" dialog. Mount it only while open so the form starts fresh.
+ */
+export function RecordPlayDialog({ open, game, users, onClose, onRecord }: RecordPlayDialogProps) {
+  const [playedAt, setPlayedAt] = useState(() => toPlayDate(new Date()))
+  const [players, setPlayers] = useState<string[]>(() => users.map((u) => u.username))
+  const [winner, setWinner] = useState('')
+  const [duration, setDuration] = useState(() => (game.playingTimeMinutes ? String(game.playingTimeMinutes) : ''))
+  const [notes, setNotes] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const togglePlayer = (username: string, checked: boolean) => {
+    setPlayers((prev) => (checked ? [...prev, username] : prev.filter((p) => p !== username)))
+    if (!checked && winner === username) setWinner('')
+  }
+
+  const durationMinutes = duration.trim() ? Number(duration) : undefined
+  const isDurationValid = durationMinutes === undefined || (Number.isFinite(durationMinutes) && durationMinutes > 0)
+  const canSave = !isSaving && !!playedAt && players.length > 0 && isDurationValid
+
+  const handleSave = async () => {
+    if (!canSave) return
+    setIsSaving(true)
+    setError(null)
+    try {
+      await onRecord({
+        playedAt,
+        bggId: game.bggId,
+        players,
+        winner: winner || undefined,
+        durationMinutes,
+        notes: notes.trim() || undefined,
+      })
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to record play')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={isSaving ? undefined : onClose} maxWidth="sm" fullWidth PaperProps={{ sx: { overflow: 'hidden' } }}>
+      <DialogTitle sx={{ m: 0, px: 2.5, py: 1.75, bgcolor: colors.oceanBlue, color: 'white' }}>
+        We played {game.name}
+      </DialogTitle>
+      <DialogContent sx={{ overflowX: 'hidden' }}>
+        <Stack spacing={2.5} sx={{ mt: 2.5 }}>
+          {error ? <Alert severity="error">{error}</Alert> : null}
+
+          <Stack direction="row" spacing={2}>
+            <TextField
+              label="Date"
+              type="date"
+              value={playedAt}
+              onChange={(e) => setPlayedAt(e.target.value)}
+              disabled={isSaving}
+              slotProps={{ inputLabel: { shrink: true } }}
+              fullWidth
+            />
+            <TextField
+              label="Duration (min)"
+              type="number"
+              value={duration}
+              onChange={(e) => setDuration(e.target.value)}
+              error={!isDurationValid}
+              disabled={isSaving}
+              slotProps={{ htmlInput: { min: 1 } }}
+              fullWidth
+            />
+          </Stack>
+
+          <Stack spacing={1}>
+            <Typography variant="body2" color="text.secondary">
+              Who played?
+            </Typography>
+            <FormGroup row>
+              {users.map((user) => (
+                <FormControlLabel
+                  key={user.username}
+                  control={
+                    <Checkbox
+                      checked={players.includes(user.username)}
+                      onChange={(e) => togglePlayer(user.username, e.target.checked)}
+                      disabled={isSaving}
+                    />
+                  }
+                  label={user.displayName ?? user.username}
+                />
+              ))}
+            </FormGroup>
+          </Stack>
+
+          <TextField
+            select
+            label="Winner (optional)"
+            value={winner}
+            onChange={(e) => setWinner(e.target.value)}
+            disabled={isSaving || players.length === 0}
+            fullWidth
+          >
+            <MenuItem value="">
+              <em>No winner / co-op</em>
+            </MenuItem>
+            {users
+              .filter((u) => players.includes(u.username))
+              .map((u) => (
+                <MenuItem key={u.username} value={u.username}>
+                  {u.displayName ?? u.username}
+                </MenuItem>
+              ))}
+          </TextField>
+
+          <TextField
+            label="Notes (optional)"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            multiline
+            rows={2}
+            disabled={isSaving}
+            fullWidth
+          />
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleSave} disabled={!canSave}>
+          {isSaving ? 'Saving...' : 'Record play'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
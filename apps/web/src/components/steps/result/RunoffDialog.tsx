@@ -0,0 +1,120 @@
+import { useState } from 'react'
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Stack,
+  Typography,
+} from '@mui/material'
+import type { UserRecord } from '../../../db/types'
+import type { SessionRunoffInfo } from '../../../services/session/types'
+import { tallyRunoff, type RunoffBallot, type RunoffResult } from '../../../services/recommendation/runoff'
+import { RunoffRankingChips } from './RunoffRankingChips'
+
+export interface RunoffDialogProps {
+  open: boolean
+  games: Array<{ bggId: number; name: string }>
+  /** Players voting on this device */
+  players: UserRecord[]
+  /** Ballots guests sent through the session (undefined outside sessions) */
+  sessionBallots?: SessionRunoffInfo['ballots']
+  /** The ballot is open for guests */
+  isSentToGuests?: boolean
+  onSendToGuests?: () => Promise<void>
+  onClose: () => void
+  onDecide: (result: RunoffResult) => void
+}
+
+/**
+ * Runoff between the tied games. Players here rank them on this device;
+ * in a session the host can also push the ballot to guests and count theirs.
+ * Mount it only while open so rankings start fresh.
+ */
+export function RunoffDialog(props: RunoffDialogProps) {
+  const { open, games, players, sessionBallots, isSentToGuests, onSendToGuests, onClose, onDecide } = props
+  const [rankings, setRankings] = useState<Record<string, number[]>>({})
+  const [isSending, setIsSending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const ballots: RunoffBallot[] = [
+    ...players
+      .filter((p) => (rankings[p.username] ?? []).length > 0)
+      .map((p) => ({ voter: p.username, ranking: rankings[p.username] })),
+    ...(sessionBallots ?? []).map((b) => ({ voter: b.participantId, ranking: b.ranking })),
+  ]
+  const bggIds = games.map((g) => g.bggId)
+  const result = ballots.length > 0 ? tallyRunoff(bggIds, ballots) : null
+
+  const handleSend = async () => {
+    if (!onSendToGuests) return
+    setIsSending(true)
+    setError(null)
+    try {
+      await onSendToGuests()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to send the ballot')
+    } finally {
+      setIsSending(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Runoff</DialogTitle>
+      <DialogContent>
+        <Stack spacing={2}>
+          <Typography variant="body2" color="text.secondary">
+            Only the tied games are on the ballot. Each player taps them in order of preference; games left out
+            count as last.
+          </Typography>
+
+          {players.map((player) => (
+            <Stack key={player.username} spacing={0.75}>
+              <Typography variant="body2" fontWeight={600}>
+                {player.displayName || player.username}
+              </Typography>
+              <RunoffRankingChips
+                games={games}
+                ranking={rankings[player.username] ?? []}
+                onChange={(ranking) => setRankings((prev) => ({ ...prev, [player.username]: ranking }))}
+              />
+            </Stack>
+          ))}
+
+          {sessionBallots ? (
+            <Stack spacing={1}>
+              {isSentToGuests ? (
+                <Typography variant="body2" color="text.secondary">
+                  Ballot sent to guests · {sessionBallots.length} received
+                  {sessionBallots.length > 0 ? ` (${sessionBallots.map((b) => b.displayName).join(', ')})` : ''}
+                </Typography>
+              ) : (
+                <Button variant="outlined" onClick={() => void handleSend()} disabled={isSending || !onSendToGuests}>
+                  {isSending ? 'Sending…' : 'Send ballot to guests'}
+                </Button>
+              )}
+            </Stack>
+          ) : null}
+
+          {result ? (
+            <Typography variant="body2">
+              {games.map((g) => `${g.name}: ${result.points[g.bggId] ?? 0}`).join(' · ')}
+              {result.stillTied ? ' (still tied: the higher-scored game wins)' : ''}
+            </Typography>
+          ) : null}
+
+          {error ? <Alert severity="error">{error}</Alert> : null}
+        </Stack>
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Cancel</Button>
+        <Button variant="contained" disabled={!result} onClick={() => result && onDecide(result)}>
+          Decide ({ballots.length} ballot{ballots.length === 1 ? '' : 's'})
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,34 @@
+import { Chip, Stack } from '@mui/material'
+
+/**
+ * Tap games in order of preference to rank them; tap a ranked game again to
+ * take it off the ranking.
+ */
+export function RunoffRankingChips(props: {
+  games: Array<{ bggId: number; name: string }>
+  ranking: number[]
+  onChange: (ranking: number[]) => void
+  disabled?: boolean
+}) {
+  const { games, ranking, onChange, disabled } = props
+
+  return (
+    <Stack direction="row" gap={0.75} flexWrap="wrap">
+      {games.map((game) => {
+        const position = ranking.indexOf(game.bggId)
+        return (
+          <Chip
+            key={game.bggId}
+            label={position >= 0 ? `${position + 1}. ${game.name}` : game.name}
+            color={position >= 0 ? 'primary' : 'default'}
+            variant={position >= 0 ? 'filled' : 'outlined'}
+            disabled={disabled}
+            onClick={() =>
+              onChange(position >= 0 ? ranking.filter((id) => id !== game.bggId) : [...ranking, game.bggId])
+            }
+          />
+        )
+      })}
+    </Stack>
+  )
+}
@@ -0,0 +1,105 @@
+import { useState } from 'react'
+import { Button, Card, CardContent, Stack, ToggleButton, ToggleButtonGroup, Typography } from '@mui/material'
+import HowToVoteIcon from '@mui/icons-material/HowToVote'
+import type { GameRecord, UserRecord } from '../../../db/types'
+import type { RecommendationTie } from '../../../hooks/wizard/types'
+import type { SessionRunoffInfo } from '../../../services/session/types'
+import { TIE_EPSILON_OPTIONS, type RunoffResult } from '../../../services/recommendation/runoff'
+import { RunoffDialog } from './RunoffDialog'
+
+export interface RunoffSectionProps {
+  games: Array<{ game: GameRecord; score: number }>
+  players: UserRecord[]
+  tie: RecommendationTie | null
+  tieEpsilon: number
+  onTieEpsilonChange: (epsilon: number) => void
+  /** Apply the runoff winner as the top pick */
+  onDecide: (bggId: number) => void
+  /** Session runoff ballots (undefined outside sessions) */
+  sessionBallots?: SessionRunoffInfo['ballots']
+  isSentToGuests?: boolean
+  onSendToGuests?: (games: Array<{ bggId: number; name: string }>) => Promise<void>
+}
+
+/**
+ * Flags a tie or near-tie at the top and offers a quick runoff between only
+ * the tied games. The host picks how close scores must be to count as tied.
+ */
+export function RunoffSection(props: RunoffSectionProps) {
+  const { games, players, tie, tieEpsilon, onTieEpsilonChange, onDecide, sessionBallots, isSentToGuests, onSendToGuests } = props
+  const [isOpen, setIsOpen] = useState(false)
+  const [decided, setDecided] = useState<{ bggId: number; stillTied: boolean } | null>(null)
+
+  const tiedGames = (tie?.bggIds ?? [])
+    .map((bggId) => games.find((g) => g.game.bggId === bggId)?.game)
+    .filter((game): game is GameRecord => Boolean(game))
+    .map((game) => ({ bggId: game.bggId, name: game.name }))
+  const hasTie = tiedGames.length > 1
+  const decidedName = decided && tiedGames.find((g) => g.bggId === decided.bggId)?.name
+  // Guests vote through the session, so only players on this device rank here
+  const localPlayers = sessionBallots ? players.filter((p) => !p.username.startsWith('__guest_')) : players
+
+  const handleDecide = (result: RunoffResult) => {
+    setDecided({ bggId: result.winnerBggId, stillTied: result.stillTied })
+    setIsOpen(false)
+    onDecide(result.winnerBggId)
+  }
+
+  return (
+    <Card>
+      <CardContent>
+        <Stack direction="row" alignItems="center" justifyContent="space-between" gap={1} flexWrap="wrap" mb={1}>
+          <Stack direction="row" alignItems="center" gap={1}>
+            <HowToVoteIcon color="primary" />
+            <Typography variant="subtitle1" fontWeight={600}>
+              {hasTie ? (tie?.exact ? "It's a tie!" : "It's neck and neck") : 'Ties'}
+            </Typography>
+          </Stack>
+          <ToggleButtonGroup
+            value={tieEpsilon}
+            exclusive
+            size="small"
+            aria-label="Tie margin"
+            onChange={(_, v: number | null) => v !== null && onTieEpsilonChange(v)}
+          >
+            {TIE_EPSILON_OPTIONS.map((epsilon) => (
+              <ToggleButton key={epsilon} value={epsilon} sx={{ px: 1.25 }}>
+                {epsilon === 0 ? 'Exact' : `±${epsilon}`}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+        </Stack>
+
+        {hasTie ? (
+          <Stack direction="row" alignItems="center" justifyContent="space-between" gap={1.5} flexWrap="wrap">
+            <Typography variant="body2" color="text.secondary">
+              {tiedGames.map((g) => g.name).join(', ')}
+              {tie?.exact ? ' have the same score.' : ` are within ${tie?.epsilon} points.`}
+              {decidedName ? ` Runoff winner: ${decidedName}${decided?.stillTied ? ' (on score after a tied runoff)' : ''}.` : ''}
+            </Typography>
+            <Button variant="outlined" onClick={() => setIsOpen(true)}>
+              {decidedName ? 'Run again' : 'Run a runoff'}
+            </Button>
+          </Stack>
+        ) : (
+          <Typography variant="body2" color="text.secondary">
+            No tie at the top. Choose how close scores must be to count as tied.
+          </Typography>
+        )}
+
+        {isOpen ? (
+          <RunoffDialog
+            open
+            games={tiedGames}
+            players={localPlayers}
+            sessionBallots={sessionBallots}
+            isSentToGuests={isSentToGuests}
+            onSendToGuests={onSendToGuests ? () => onSendToGuests(tiedGames) : undefined}
+            onClose={() => setIsOpen(false)}
+            onDecide={handleDecide}
+          />
+        ) : null}
+      </CardContent>
+    </Card>
+  )
+}
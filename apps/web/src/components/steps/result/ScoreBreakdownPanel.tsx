@@ -0,0 +1,91 @@
+import { useState } from 'react'
+import { Box, Button, Chip, Collapse, Stack, Typography } from '@mui/material'
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore'
+import ExpandLessIcon from '@mui/icons-material/ExpandLess'
+import type { ConsensusLevel, PlayerScoreContribution, ScoreBreakdown } from '../../../hooks/wizard/types'
+import { formatVoterWeight } from '../../../services/recommendation/voterWeights'
+
+const CONSENSUS_LABELS: Record<ConsensusLevel, string> = {
+  strong: 'Strong consensus',
+  mixed: 'Mixed feelings',
+  polarizing: 'Polarizing',
+}
+
+function describeContribution(c: PlayerScoreContribution): string {
+  if (c.isNeutral) return 'Neutral'
+  const position = c.tier ? `${c.tier} tier` : `#${c.rankPosition} of ${c.rankedCount}`
+  return c.isTopPick ? `${position} · top pick` : position
+}
+
+function formatPoints(c: PlayerScoreContribution): string {
+  if (c.isNeutral) return '0'
+  const points = `+${c.bordaPoints.toFixed(2)}`
+  return c.topPickBonus > 0 ? `${points} +${c.topPickBonus.toFixed(1)} bonus` : points
+}
+
+/**
+ * Expandable "why this pick" panel: per-player points and group consensus.
+ * Clicks are contained so the surrounding card's click action doesn't fire.
+ */
+export function ScoreBreakdownPanel(props: {
+  breakdown: ScoreBreakdown
+  /** Light text for use on dark backgrounds (Tonight's Pick) */
+  tone?: 'default' | 'inverse'
+}) {
+  const { breakdown, tone = 'default' } = props
+  const [open, setOpen] = useState(false)
+  const inverse = tone === 'inverse'
+  const consensusPercent = Math.round(breakdown.consensus * 100)
+
+  // Strongest supporters first, neutral players last
+  const contributions = [...breakdown.contributions].sort(
+    (a, b) => b.bordaPoints + b.topPickBonus - (a.bordaPoints + a.topPickBonus),
+  )
+
+  return (
+    <Box onClick={(e) => e.stopPropagation()} onKeyDown={(e) => e.stopPropagation()}>
+      <Button
+        size="small"
+        onClick={() => setOpen((v) => !v)}
+        endIcon={open ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+        aria-expanded={open}
+        sx={{ px: 0.5, minWidth: 0, color: inverse ? 'inherit' : 'primary.main', fontWeight: 600 }}
+      >
+        Why this pick?
+      </Button>
+
+      <Collapse in={open} unmountOnExit>
+        <Stack spacing={1} sx={{ mt: 1 }}>
+          <Stack direction="row" alignItems="center" gap={1}>
+            <Chip
+              label={CONSENSUS_LABELS[breakdown.consensusLevel]}
+              size="small"
+              color={breakdown.consensusLevel === 'polarizing' ? 'error' : breakdown.consensusLevel === 'strong' ? 'success' : 'default'}
+              sx={{ fontWeight: 600 }}
+            />
+            <Typography variant="caption" sx={{ opacity: inverse ? 0.85 : undefined }} color={inverse ? 'inherit' : 'text.secondary'}>
+              {consensusPercent}% agreement
+            </Typography>
+          </Stack>
+
+          {contributions.map((c) => (
+            <Stack key={c.username} direction="row" justifyContent="space-between" alignItems="center" gap={1}>
+              <Box sx={{ minWidth: 0 }}>
+                <Typography variant="body2" fontWeight={600} noWrap>
+                  {c.username}
+                </Typography>
+                <Typography variant="caption" sx={{ opacity: inverse ? 0.8 : undefined }} color={inverse ? 'inherit' : 'text.secondary'}>
+                  {describeContribution(c)}
+                  {c.weight !== undefined ? ` · counts ${formatVoterWeight(c.weight)}` : ''}
+                </Typography>
+              </Box>
+              <Typography variant="caption" fontWeight={700} sx={{ whiteSpace: 'nowrap', opacity: c.isNeutral ? 0.6 : 1 }}>
+                {formatPoints(c)}
+              </Typography>
+            </Stack>
+          ))}
+        </Stack>
+      </Collapse>
+    </Box>
+  )
+}
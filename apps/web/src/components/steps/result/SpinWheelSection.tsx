@@ -0,0 +1,187 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Stack,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+  useMediaQuery,
+} from '@mui/material'
+import CasinoOutlinedIcon from '@mui/icons-material/CasinoOutlined'
+import type { GameRecord } from '../../../db/types'
+import {
+  DEFAULT_SPIN_CANDIDATES,
+  getSpinCandidates,
+  getSpinProbabilities,
+  MAX_SPIN_SEED,
+  newSpinSeed,
+  SPIN_CANDIDATE_OPTIONS,
+  spinWheel,
+  type SpinResult,
+  type SpinWeighting,
+} from '../../../services/recommendation/spinWheel'
+
+/** Full laps of the wheel before it settles */
+const SPIN_LAPS = 3
+
+function parseSeed(value: string): number | null {
+  const seed = Number(value.trim())
+  return value.trim() !== '' && Number.isInteger(seed) && seed >= 0 && seed < MAX_SPIN_SEED ? seed : null
+}
+
+/**
+ * Weighted-random pick among the top-scored games. The wheel cycles through
+ * the candidates, slowing down until it lands; the seed is shown so the same
+ * spin can be replayed.
+ */
+export function SpinWheelSection(props: {
+  games: Array<{ game: GameRecord; score: number }>
+  lastSpin: SpinResult | null
+  onSpin: (spin: SpinResult) => void
+}) {
+  const { games, lastSpin, onSpin } = props
+  const reduceMotion = useMediaQuery('(prefers-reduced-motion: reduce)')
+  const [count, setCount] = useState<number>(DEFAULT_SPIN_CANDIDATES)
+  const [weighting, setWeighting] = useState<SpinWeighting>('score')
+  const [seedInput, setSeedInput] = useState('')
+  const [highlight, setHighlight] = useState<number | null>(null)
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  useEffect(() => () => {
+    if (timerRef.current) clearTimeout(timerRef.current)
+  }, [])
+
+  const gameById = useMemo(() => new Map(games.map((g) => [g.game.bggId, g.game])), [games])
+  const candidates = useMemo(
+    () => getSpinCandidates(games.map((g) => ({ bggId: g.game.bggId, score: g.score })), count),
+    [count, games],
+  )
+  const probabilities = getSpinProbabilities(candidates, weighting)
+  const isSpinning = highlight !== null
+  const seedError = seedInput.trim() !== '' && parseSeed(seedInput) === null
+
+  if (games.length < 2) return null
+
+  const handleSpin = () => {
+    const spin = spinWheel(candidates, weighting, parseSeed(seedInput) ?? newSpinSeed())
+    if (!spin) return
+    const winner = candidates.findIndex((c) => c.bggId === spin.bggId)
+    if (reduceMotion) {
+      onSpin(spin)
+      return
+    }
+
+    const totalTicks = SPIN_LAPS * candidates.length + winner
+    const tick = (step: number) => {
+      setHighlight(step % candidates.length)
+      if (step >= totalTicks) {
+        timerRef.current = setTimeout(() => {
+          setHighlight(null)
+          onSpin(spin)
+        }, 400)
+        return
+      }
+      // Ease out: ticks get longer as the wheel slows down
+      timerRef.current = setTimeout(() => tick(step + 1), 60 + 240 * (step / totalTicks) ** 2)
+    }
+    tick(0)
+  }
+
+  const landedGame = lastSpin ? gameById.get(lastSpin.bggId) : undefined
+
+  return (
+    <Card>
+      <CardContent>
+        <Stack direction="row" alignItems="center" gap={1} mb={1.5}>
+          <CasinoOutlinedIcon color="primary" />
+          <Typography variant="subtitle1" fontWeight={600}>
+            Too close to call? Spin the wheel
+          </Typography>
+        </Stack>
+
+        <Stack direction="row" alignItems="center" gap={1.5} flexWrap="wrap" mb={1.5}>
+          <ToggleButtonGroup
+            value={count}
+            exclusive
+            size="small"
+            disabled={isSpinning}
+            aria-label="Games on the wheel"
+            onChange={(_, v: number | null) => v !== null && setCount(v)}
+          >
+            {SPIN_CANDIDATE_OPTIONS.map((n) => (
+              <ToggleButton key={n} value={n} disabled={n > games.length} sx={{ px: 1.25 }}>
+                Top {n}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+          <ToggleButtonGroup
+            value={weighting}
+            exclusive
+            size="small"
+            disabled={isSpinning}
+            aria-label="Wheel weighting"
+            onChange={(_, v: SpinWeighting | null) => v && setWeighting(v)}
+          >
+            <ToggleButton value="score" sx={{ px: 1.25 }}>By score</ToggleButton>
+            <ToggleButton value="uniform" sx={{ px: 1.25 }}>Equal</ToggleButton>
+          </ToggleButtonGroup>
+          <TextField
+            size="small"
+            label="Seed (optional)"
+            value={seedInput}
+            onChange={(e) => setSeedInput(e.target.value)}
+            error={seedError}
+            disabled={isSpinning}
+            sx={{ width: 150 }}
+            slotProps={{ htmlInput: { inputMode: 'numeric' } }}
+          />
+        </Stack>
+
+        <Stack spacing={0.75} mb={1.5} aria-live="polite">
+          {candidates.map((c, index) => {
+            const active = isSpinning ? highlight === index : lastSpin?.bggId === c.bggId
+            return (
+              <Box
+                key={c.bggId}
+                sx={{
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  gap: 1,
+                  px: 1.5,
+                  py: 0.75,
+                  borderRadius: 1,
+                  border: '1px solid',
+                  borderColor: active ? 'primary.main' : 'divider',
+                  bgcolor: active ? 'primary.light' : 'transparent',
+                  transition: 'background-color 0.1s',
+                }}
+              >
+                <Typography variant="body2" fontWeight={active ? 700 : 500} noWrap>
+                  {gameById.get(c.bggId)?.name ?? c.bggId}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  {Math.round(probabilities[index] * 100)}%
+                </Typography>
+              </Box>
+            )
+          })}
+        </Stack>
+
+        <Stack direction="row" alignItems="center" justifyContent="space-between" gap={1.5} flexWrap="wrap">
+          <Typography variant="caption" color="text.secondary">
+            {landedGame && lastSpin
+              ? `Landed on ${landedGame.name} · seed ${lastSpin.seed} (enter it to replay this spin)`
+              : 'Picks one of the top games at random, favoring higher scores unless set to equal.'}
+          </Typography>
+          <Button variant="contained" onClick={handleSpin} disabled={isSpinning || seedError || candidates.length < 2}>
+            {isSpinning ? 'Spinning…' : 'Spin'}
+          </Button>
+        </Stack>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,100 @@
+import { Card, CardContent, Chip, Stack, ToggleButton, ToggleButtonGroup, Typography } from '@mui/material'
+import TableRestaurantIcon from '@mui/icons-material/TableRestaurant'
+import type { GameRecord, UserRecord } from '../../../db/types'
+import {
+  MIN_TABLE_SIZE,
+  SPLIT_TABLE_COUNTS,
+  type SplitTablesResult,
+} from '../../../services/recommendation/splitTables'
+import { GameTile } from '../GameTile'
+
+/**
+ * Lets the host split a large group into tables and shows one pick per table.
+ */
+export function SplitTablesSection(props: {
+  tableCount: number
+  onTableCountChange: (count: number) => void
+  splitTables: SplitTablesResult | null
+  users: UserRecord[]
+  onOpenDetails?: (game: GameRecord) => void
+}) {
+  const { tableCount, onTableCountChange, splitTables, users, onOpenDetails } = props
+  const nameOf = (username: string) => users.find((u) => u.username === username)?.displayName || username
+
+  return (
+    <Card>
+      <CardContent>
+        <Stack direction="row" alignItems="center" justifyContent="space-between" gap={2} flexWrap="wrap">
+          <Stack direction="row" alignItems="center" gap={1}>
+            <TableRestaurantIcon color="primary" />
+            <Typography variant="subtitle1" fontWeight={600}>
+              Split into tables
+            </Typography>
+          </Stack>
+          <ToggleButtonGroup
+            value={tableCount}
+            exclusive
+            size="small"
+            aria-label="Number of tables"
+            onChange={(_, v: number | null) => v && onTableCountChange(v)}
+          >
+            <ToggleButton value={1}>One table</ToggleButton>
+            {SPLIT_TABLE_COUNTS.map((count) => (
+              <ToggleButton key={count} value={count} disabled={users.length < count * MIN_TABLE_SIZE}>
+                {count} tables
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+        </Stack>
+
+        {tableCount > 1 && !splitTables ? (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 1.5 }}>
+            {tableCount} tables need at least {tableCount * MIN_TABLE_SIZE} players.
+          </Typography>
+        ) : null}
+
+        {splitTables ? (
+          <Stack spacing={2} sx={{ mt: 2 }}>
+            {splitTables.tables.map((table, i) => (
+              <Stack key={table.players.join('|')} spacing={1}>
+                <Stack direction="row" alignItems="center" flexWrap="wrap" gap={0.75}>
+                  <Typography variant="subtitle2" fontWeight={700} sx={{ mr: 0.5 }}>
+                    Table {i + 1}
+                  </Typography>
+                  {table.players.map((username) => (
+                    <Chip key={username} label={nameOf(username)} size="small" />
+                  ))}
+                </Stack>
+                {table.pick ? (
+                  <GameTile
+                    game={table.pick.game}
+                    variant="topPick"
+                    onClick={onOpenDetails ? () => table.pick && onOpenDetails(table.pick.game) : undefined}
+                    trailing={
+                      <Chip
+                        label={`${table.pick.satisfaction.toFixed(1)} pts`}
+                        size="small"
+                        color="secondary"
+                        sx={{ fontWeight: 700 }}
+                      />
+                    }
+                  >
+                    {table.pick.broughtBy ? (
+                      <Typography variant="caption" color="text.secondary">
+                        Brought by {nameOf(table.pick.broughtBy)}
+                      </Typography>
+                    ) : null}
+                  </GameTile>
+                ) : (
+                  <Typography variant="body2" color="text.secondary">
+                    No game fits this table — add games or loosen filters.
+                  </Typography>
+                )}
+              </Stack>
+            ))}
+          </Stack>
+        ) : null}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,36 @@
+import { useState } from 'react'
+import { Button } from '@mui/material'
+import SyncIcon from '@mui/icons-material/Sync'
+import type { PlaysSyncResult } from '../../../services/bgg/bggPlaysSync'
+import { useToast } from '../../../services/toast'
+
+export interface SyncBggPlaysButtonProps {
+  onSync: () => Promise<PlaysSyncResult>
+}
+
+export function SyncBggPlaysButton({ onSync }: SyncBggPlaysButtonProps) {
+  const toast = useToast()
+  const [isSyncing, setIsSyncing] = useState(false)
+
+  const handleSync = async () => {
+    setIsSyncing(true)
+    try {
+      const { added, updated } = await onSync()
+      if (added === 0 && updated === 0) {
+        toast.info('No new plays on BGG')
+      } else {
+        toast.success(`Imported ${added} new play${added === 1 ? '' : 's'} from BGG${updated ? ` (${updated} updated)` : ''}`)
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to sync plays from BGG')
+    } finally {
+      setIsSyncing(false)
+    }
+  }
+
+  return (
+    <Button variant="text" startIcon={<SyncIcon />} onClick={handleSync} disabled={isSyncing}>
+      {isSyncing ? 'Syncing plays...' : 'Sync BGG plays'}
+    </Button>
+  )
+}
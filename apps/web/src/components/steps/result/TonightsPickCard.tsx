@@ -14,15 +14,18 @@ import GroupsIcon from '@mui/icons-material/Groups'
 import ScheduleIcon from '@mui/icons-material/Schedule'
 import PsychologyIcon from '@mui/icons-material/Psychology'
 import { colors } from '../../../theme/theme'
-import type { WizardFilters } from '../../../store/wizardTypes'
+import type { RecommendationMethod, WizardFilters } from '../../../store/wizardTypes'
 import type { GameWithScore } from '../ResultStep'
+import { getVotingMethod } from '../../../services/recommendation/methods'
+import { ScoreBreakdownPanel } from './ScoreBreakdownPanel'
 
 export function TonightsPickCard(props: {
   topPick: GameWithScore
   filters: WizardFilters
+  method?: RecommendationMethod
   onOpenDetails?: () => void
 }) {
-  const { topPick, filters, onOpenDetails } = props
+  const { topPick, filters, method, onOpenDetails } = props
   const bgImage = topPick.game.image || topPick.game.thumbnail || '/vite.svg'
 
   return (
@@ -119,12 +122,17 @@ export function TonightsPickCard(props: {
             )}
           </Box>
 
-          <Chip
-            label={`${topPick.score} pts`}
-            color="secondary"
-            size="small"
-            sx={{ fontWeight: 700, alignSelf: 'flex-start', bgcolor: colors.sand, color: colors.navyBlue }}
-          />
+          <Stack spacing={0.5} alignItems="flex-end">
+            <Chip
+              label={`${topPick.score} pts`}
+              color="secondary"
+              size="small"
+              sx={{ fontWeight: 700, bgcolor: colors.sand, color: colors.navyBlue }}
+            />
+            <Typography variant="caption" sx={{ opacity: 0.8, whiteSpace: 'nowrap' }}>
+              via {getVotingMethod(method).label}
+            </Typography>
+          </Stack>
         </Stack>
 
         <Stack direction="row" flexWrap="wrap" gap={1} mb={3}>
@@ -187,6 +195,12 @@ export function TonightsPickCard(props: {
             }}
           />
         </Box>
+
+        {topPick.breakdown ? (
+          <Box sx={{ mt: 2 }}>
+            <ScoreBreakdownPanel breakdown={topPick.breakdown} tone="inverse" />
+          </Box>
+        ) : null}
       </CardContent>
     </Card>
   )
@@ -0,0 +1,79 @@
+import { Stack, ToggleButton, ToggleButtonGroup, Typography } from '@mui/material'
+import type { VetoMode, VetoPolicy } from '../../../store/wizardTypes'
+import { VETO_LIMIT_OPTIONS } from '../../../services/recommendation/vetoPolicy'
+
+const VETO_MODE_LABELS: Record<VetoMode, string> = {
+  unlimited: 'Unlimited',
+  limited: 'Limited',
+  soft: 'Soft',
+}
+
+function describePolicy(policy: VetoPolicy): string {
+  if (policy.mode === 'limited') {
+    return `Each player can remove up to ${policy.maxVetoes} game${policy.maxVetoes === 1 ? '' : 's'}; later dislikes only count against a game.`
+  }
+  if (policy.mode === 'soft') return 'Dislikes push a game down instead of removing it.'
+  return 'Any dislike removes the game.'
+}
+
+/**
+ * Host setting for how players' dislikes count: unlimited hard vetoes, a
+ * per-player budget of hard vetoes, or soft vetoes.
+ */
+export function VetoPolicyControl(props: {
+  policy: VetoPolicy
+  onChange: (policy: VetoPolicy) => void
+  disabled?: boolean
+}) {
+  const { policy, onChange, disabled = false } = props
+
+  return (
+    <Stack spacing={1} sx={{ mt: 2 }}>
+      <Stack direction="row" alignItems="center" justifyContent="space-between" gap={2} flexWrap="wrap">
+        <Typography variant="body2" fontWeight={600}>
+          Vetoes
+        </Typography>
+        <ToggleButtonGroup
+          value={policy.mode}
+          exclusive
+          disabled={disabled}
+          onChange={(_, v: VetoMode | null) => v && onChange({ ...policy, mode: v })}
+          size="small"
+          aria-label="Veto policy"
+        >
+          {(Object.keys(VETO_MODE_LABELS) as VetoMode[]).map((mode) => (
+            <ToggleButton key={mode} value={mode} sx={{ px: 1.25 }}>
+              {VETO_MODE_LABELS[mode]}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      </Stack>
+
+      {policy.mode === 'limited' ? (
+        <Stack direction="row" alignItems="center" justifyContent="space-between" gap={2}>
+          <Typography variant="body2" fontWeight={600}>
+            Vetoes per player
+          </Typography>
+          <ToggleButtonGroup
+            value={policy.maxVetoes}
+            exclusive
+            disabled={disabled}
+            onChange={(_, v: number | null) => v !== null && onChange({ ...policy, maxVetoes: v })}
+            size="small"
+            aria-label="Vetoes per player"
+          >
+            {VETO_LIMIT_OPTIONS.map((count) => (
+              <ToggleButton key={count} value={count} sx={{ px: 1.25 }}>
+                {count}
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+        </Stack>
+      ) : null}
+
+      <Typography variant="caption" color="text.secondary">
+        {describePolicy(policy)}
+      </Typography>
+    </Stack>
+  )
+}
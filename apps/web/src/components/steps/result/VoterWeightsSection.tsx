@@ -0,0 +1,79 @@
+import { Card, CardContent, Chip, FormControlLabel, Stack, Switch, ToggleButton, ToggleButtonGroup, Typography } from '@mui/material'
+import BalanceIcon from '@mui/icons-material/Balance'
+import type { UserRecord } from '../../../db/types'
+import { formatVoterWeight, VOTER_WEIGHT_OPTIONS } from '../../../services/recommendation/voterWeights'
+
+export interface VoterWeightsSectionProps {
+  users: UserRecord[]
+  voterWeights: Record<string, number>
+  onVoterWeightChange: (username: string, weight: number) => void
+  fairnessRotation: boolean
+  onFairnessRotationChange: (enabled: boolean) => void
+  fairnessBoosts: Record<string, number>
+  appliedVoterWeights: Record<string, number>
+}
+
+/**
+ * Lets the host give players more or less say tonight and turn on the
+ * fairness rotation, showing the weight each player ends up with.
+ */
+export function VoterWeightsSection(props: VoterWeightsSectionProps) {
+  const { users, voterWeights, onVoterWeightChange, fairnessRotation, onFairnessRotationChange, fairnessBoosts, appliedVoterWeights } = props
+
+  return (
+    <Card>
+      <CardContent>
+        <Stack direction="row" alignItems="center" gap={1} mb={1.5}>
+          <BalanceIcon color="primary" />
+          <Typography variant="subtitle1" fontWeight={600}>
+            Who counts extra tonight?
+          </Typography>
+        </Stack>
+
+        <Stack spacing={1}>
+          {users.map((user) => {
+            const boost = fairnessRotation ? fairnessBoosts[user.username] : undefined
+            const applied = appliedVoterWeights[user.username] ?? 1
+            return (
+              <Stack key={user.username} direction="row" alignItems="center" justifyContent="space-between" gap={1} flexWrap="wrap">
+                <Stack direction="row" alignItems="center" gap={1} sx={{ minWidth: 0 }}>
+                  <Typography variant="body2" fontWeight={600} noWrap>
+                    {user.displayName || user.username}
+                  </Typography>
+                  {boost !== undefined && boost !== 1 ? (
+                    <Chip label={`fairness ${formatVoterWeight(boost)}`} size="small" color="secondary" variant="outlined" />
+                  ) : null}
+                  {applied !== 1 ? (
+                    <Chip label={`counts ${formatVoterWeight(applied)}`} size="small" sx={{ fontWeight: 700 }} />
+                  ) : null}
+                </Stack>
+                <ToggleButtonGroup
+                  value={voterWeights[user.username] ?? 1}
+                  exclusive
+                  size="small"
+                  aria-label={`Weight for ${user.displayName || user.username}`}
+                  onChange={(_, v: number | null) => v !== null && onVoterWeightChange(user.username, v)}
+                >
+                  {VOTER_WEIGHT_OPTIONS.map((weight) => (
+                    <ToggleButton key={weight} value={weight} sx={{ px: 1.25 }}>
+                      {formatVoterWeight(weight)}
+                    </ToggleButton>
+                  ))}
+                </ToggleButtonGroup>
+              </Stack>
+            )
+          })}
+        </Stack>
+
+        <FormControlLabel
+          sx={{ mt: 1.5 }}
+          control={<Switch checked={fairnessRotation} onChange={(e) => onFairnessRotationChange(e.target.checked)} />}
+          label={<Typography variant="body2" fontWeight={600}>Fairness rotation</Typography>}
+        />
+        <Typography variant="caption" color="text.secondary" component="p">
+          Players whose favorites lost on recent saved nights get a bigger say.
+        </Typography>
+      </CardContent>
+    </Card>
+  )
+}
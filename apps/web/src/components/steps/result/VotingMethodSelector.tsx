@@ -0,0 +1,119 @@
+import { Card, CardContent, FormControlLabel, Stack, Switch, ToggleButton, ToggleButtonGroup, Typography } from '@mui/material'
+import HowToVoteIcon from '@mui/icons-material/HowToVote'
+import type { RecommendationMethod, VetoPolicy } from '../../../store/wizardTypes'
+import { VOTING_METHODS } from '../../../services/recommendation/methods'
+import { RECENCY_PENALTY_DAY_OPTIONS } from '../../../services/recommendation/recencyPenalty'
+import { VetoPolicyControl } from './VetoPolicyControl'
+
+function recencyLabel(days: number): string {
+  if (days === 0) return 'Off'
+  return days % 7 === 0 ? `${days / 7} wk` : `${days} d`
+}
+
+export function VotingMethodSelector(props: {
+  method: RecommendationMethod
+  onChange: (method: RecommendationMethod) => void
+  disabled?: boolean
+  /** Recently-played penalty window in days (0 = off); hidden when no handler */
+  recencyPenaltyDays?: number
+  onRecencyPenaltyDaysChange?: (days: number) => void
+  /** Teach-aware scoring switch; hidden when no handler */
+  teachAware?: boolean
+  onTeachAwareChange?: (enabled: boolean) => void
+  /** Veto policy; hidden when either is missing */
+  vetoPolicy?: VetoPolicy
+  onVetoPolicyChange?: (policy: VetoPolicy) => void
+}) {
+  const {
+    method,
+    onChange,
+    disabled = false,
+    recencyPenaltyDays = 0,
+    onRecencyPenaltyDaysChange,
+    teachAware = false,
+    onTeachAwareChange,
+    vetoPolicy,
+    onVetoPolicyChange,
+  } = props
+  const methods = Object.values(VOTING_METHODS)
+
+  return (
+    <Card>
+      <CardContent>
+        <Stack direction="row" alignItems="center" gap={1} mb={2}>
+          <HowToVoteIcon color="primary" />
+          <Typography variant="subtitle1" fontWeight={600}>
+            How should we decide?
+          </Typography>
+        </Stack>
+
+        <ToggleButtonGroup
+          value={method}
+          exclusive
+          disabled={disabled}
+          onChange={(_, v: RecommendationMethod | null) => v && onChange(v)}
+          fullWidth
+          size="small"
+          aria-label="Voting method"
+          sx={{ flexWrap: { xs: 'wrap', sm: 'nowrap' }, '& .MuiToggleButton-root': { minHeight: 40 } }}
+        >
+          {methods.map((m) => (
+            <ToggleButton key={m.id} value={m.id} sx={{ flex: { xs: '1 1 45%', sm: 1 } }}>
+              <Typography variant="body2" fontWeight={600}>
+                {m.label}
+              </Typography>
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+
+        <Typography variant="body2" color="text.secondary" sx={{ mt: 1.5 }}>
+          {VOTING_METHODS[method].description}
+        </Typography>
+
+        {onRecencyPenaltyDaysChange ? (
+          <Stack direction="row" alignItems="center" justifyContent="space-between" gap={2} sx={{ mt: 2 }}>
+            <Typography variant="body2" fontWeight={600}>
+              Penalize games played in the last
+            </Typography>
+            <ToggleButtonGroup
+              value={recencyPenaltyDays}
+              exclusive
+              disabled={disabled}
+              onChange={(_, v: number | null) => v !== null && onRecencyPenaltyDaysChange(v)}
+              size="small"
+              aria-label="Recently played penalty"
+            >
+              {RECENCY_PENALTY_DAY_OPTIONS.map((days) => (
+                <ToggleButton key={days} value={days} sx={{ px: 1.25 }}>
+                  {recencyLabel(days)}
+                </ToggleButton>
+              ))}
+            </ToggleButtonGroup>
+          </Stack>
+        ) : null}
+
+        {onTeachAwareChange ? (
+          <Stack sx={{ mt: 1.5 }}>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={teachAware}
+                  disabled={disabled}
+                  onChange={(e) => onTeachAwareChange(e.target.checked)}
+                />
+              }
+              label={<Typography variant="body2" fontWeight={600}>Account for who can teach</Typography>}
+            />
+            <Typography variant="caption" color="text.secondary">
+              Heavy games nobody here can teach drop back; games people want to learn move up.
+            </Typography>
+          </Stack>
+        ) : null}
+
+        {vetoPolicy && onVetoPolicyChange ? (
+          <VetoPolicyControl policy={vetoPolicy} onChange={onVetoPolicyChange} disabled={disabled} />
+        ) : null}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,101 @@
+import { Autocomplete, Card, CardContent, Chip, Stack, Switch, TextField, Typography } from '@mui/material'
+import GroupsIcon from '@mui/icons-material/Groups'
+import type { UserRecord } from '../../../db/types'
+import type { WhatIfResult, WhatIfScenario } from '../../../services/recommendation/whatIf'
+
+export interface WhatIfSectionProps {
+  /** Tonight's players */
+  users: UserRecord[]
+  enabled: boolean
+  onEnabledChange: (enabled: boolean) => void
+  /** Local players who aren't in tonight's line-up */
+  candidates: UserRecord[]
+  optionalUsernames: string[]
+  onOptionalUsernamesChange: (usernames: string[]) => void
+  /** Null while the simulator is off */
+  simulation: WhatIfResult | null
+}
+
+const nameOf = (user: UserRecord) => user.displayName || user.username
+
+/**
+ * Shows how the top pick changes if some players don't show up or an
+ * optional player joins. Only line-ups that change the pick are listed.
+ */
+export function WhatIfSection(props: WhatIfSectionProps) {
+  const { users, enabled, onEnabledChange, candidates, optionalUsernames, onOptionalUsernamesChange, simulation } = props
+  const names = new Map([...users, ...candidates].map((u) => [u.username, nameOf(u)]))
+  const describe = (scenario: WhatIfScenario) =>
+    [
+      scenario.absent.length ? `Without ${scenario.absent.map((u) => names.get(u) ?? u).join(', ')}` : '',
+      scenario.added.length ? `With ${scenario.added.map((u) => names.get(u) ?? u).join(', ')}` : '',
+    ].filter(Boolean).join(' · ')
+
+  const changed = simulation?.scenarios.filter((s) => s.changesPick) ?? []
+  const unchangedCount = (simulation?.scenarios.length ?? 0) - changed.length
+
+  return (
+    <Card>
+      <CardContent>
+        <Stack direction="row" alignItems="center" justifyContent="space-between" gap={2} flexWrap="wrap">
+          <Stack direction="row" alignItems="center" gap={1}>
+            <GroupsIcon color="primary" />
+            <Typography variant="subtitle1" fontWeight={600}>
+              What if someone can't make it?
+            </Typography>
+          </Stack>
+          <Switch
+            checked={enabled}
+            onChange={(_, checked) => onEnabledChange(checked)}
+            inputProps={{ 'aria-label': 'Simulate other line-ups' }}
+          />
+        </Stack>
+
+        {enabled && simulation ? (
+          <Stack spacing={1.5} sx={{ mt: 1.5 }}>
+            {candidates.length > 0 ? (
+              <Autocomplete
+                multiple
+                size="small"
+                options={candidates.map((u) => u.username)}
+                value={optionalUsernames}
+                onChange={(_, value) => onOptionalUsernamesChange(value)}
+                getOptionLabel={(username) => names.get(username) ?? username}
+                renderInput={(params) => <TextField {...params} label="Might also come" />}
+              />
+            ) : null}
+
+            <Typography variant="body2" color="text.secondary">
+              {simulation.baseline
+                ? `${simulation.baseline.game.name} stays the pick in ${unchangedCount} of ${simulation.scenarios.length} other line-ups.`
+                : 'No game fits tonight’s line-up.'}
+            </Typography>
+
+            {changed.map((scenario) => (
+              <Stack
+                key={describe(scenario)}
+                direction="row"
+                alignItems="center"
+                justifyContent="space-between"
+                gap={1}
+                flexWrap="wrap"
+              >
+                <Typography variant="body2" fontWeight={600}>
+                  {describe(scenario)}
+                  <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                    {scenario.playerCount} players
+                  </Typography>
+                </Typography>
+                <Chip
+                  size="small"
+                  color={scenario.topPick ? 'secondary' : 'warning'}
+                  label={scenario.topPick ? `→ ${scenario.topPick.game.name}` : 'No game fits'}
+                />
+              </Stack>
+            ))}
+          </Stack>
+        ) : null}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,9 +1,15 @@
 import Dexie, { type Table } from 'dexie'
 import type {
+  GameListRecord,
   GameRecord,
   GameNoteRecord,
+  GameTagRecord,
+  LoanRecord,
+  OwnedExpansionRecord,
+  PlayRecord,
   SavedNightRecord,
   SessionWizardStateRecord,
+  TagRecord,
   UserGameRecord,
   UserPreferenceRecord,
   UserRecord,
@@ -20,6 +26,12 @@ export class PikmeDb extends Dexie {
   wizardState!: Table<WizardStateRecord, 'singleton'>
   sessionWizardState!: Table<SessionWizardStateRecord, string>
   savedNights!: Table<SavedNightRecord, number>
+  plays!: Table<PlayRecord, number>
+  ownedExpansions!: Table<OwnedExpansionRecord, number>
+  tags!: Table<TagRecord, number>
+  gameTags!: Table<GameTagRecord, number>
+  gameLists!: Table<GameListRecord, number>
+  loans!: Table<LoanRecord, number>
 
   constructor() {
     super('pikme')
@@ -195,6 +207,106 @@ export class PikmeDb extends Dexie {
       sessionWizardState: 'id, updatedAt',
       savedNights: '++id, createdAt',
     })
+
+    // Version 9: Play history (what was actually played, not just picked).
+    this.version(9).stores({
+      games: 'bggId, name, lastFetchedAt',
+      gameNotes: '++id, bggId, createdAt',
+      users: 'username, internalId, isBggUser, isLocalOwner, firebaseUid, lastSyncAt',
+      userGames: '++id, [username+bggId], username, bggId, source, addedAt',
+      userPreferences: '++id, [username+bggId], username, bggId, updatedAt',
+      wizardState: 'id, updatedAt',
+      sessionWizardState: 'id, updatedAt',
+      savedNights: '++id, createdAt',
+      plays: '++id, bggId, playedAt',
+    })
+
+    // Version 10: Index BGG play ids so imported plays can be de-duplicated.
+    this.version(10).stores({
+      games: 'bggId, name, lastFetchedAt',
+      gameNotes: '++id, bggId, createdAt',
+      users: 'username, internalId, isBggUser, isLocalOwner, firebaseUid, lastSyncAt',
+      userGames: '++id, [username+bggId], username, bggId, source, addedAt',
+      userPreferences: '++id, [username+bggId], username, bggId, updatedAt',
+      wizardState: 'id, updatedAt',
+      sessionWizardState: 'id, updatedAt',
+      savedNights: '++id, createdAt',
+      plays: '++id, bggId, playedAt, bggPlayId',
+    })
+
+    // Version 11: Games now store the full suggested_numplayers poll. Mark
+    // games fetched before that as stale so the next refresh backfills it.
+    this.version(11)
+      .stores({
+        games: 'bggId, name, lastFetchedAt',
+        gameNotes: '++id, bggId, createdAt',
+        users: 'username, internalId, isBggUser, isLocalOwner, firebaseUid, lastSyncAt',
+        userGames: '++id, [username+bggId], username, bggId, source, addedAt',
+        userPreferences: '++id, [username+bggId], username, bggId, updatedAt',
+        wizardState: 'id, updatedAt',
+        sessionWizardState: 'id, updatedAt',
+        savedNights: '++id, createdAt',
+        plays: '++id, bggId, playedAt, bggPlayId',
+      })
+      .upgrade((tx) => {
+        return tx
+          .table('games')
+          .toCollection()
+          .modify((game) => {
+            if (!game.playerCountPoll) {
+              game.lastFetchedAt = new Date(0).toISOString()
+            }
+          })
+      })
+
+    // Version 12: Owned expansions, linked to their base game.
+    this.version(12).stores({
+      games: 'bggId, name, lastFetchedAt',
+      gameNotes: '++id, bggId, createdAt',
+      users: 'username, internalId, isBggUser, isLocalOwner, firebaseUid, lastSyncAt',
+      userGames: '++id, [username+bggId], username, bggId, source, addedAt',
+      userPreferences: '++id, [username+bggId], username, bggId, updatedAt',
+      wizardState: 'id, updatedAt',
+      sessionWizardState: 'id, updatedAt',
+      savedNights: '++id, createdAt',
+      plays: '++id, bggId, playedAt, bggPlayId',
+      ownedExpansions: 'expansionId, baseGameId',
+    })
+
+    // Version 13: User-defined tags and named game lists.
+    this.version(13).stores({
+      games: 'bggId, name, lastFetchedAt',
+      gameNotes: '++id, bggId, createdAt',
+      users: 'username, internalId, isBggUser, isLocalOwner, firebaseUid, lastSyncAt',
+      userGames: '++id, [username+bggId], username, bggId, source, addedAt',
+      userPreferences: '++id, [username+bggId], username, bggId, updatedAt',
+      wizardState: 'id, updatedAt',
+      sessionWizardState: 'id, updatedAt',
+      savedNights: '++id, createdAt',
+      plays: '++id, bggId, playedAt, bggPlayId',
+      ownedExpansions: 'expansionId, baseGameId',
+      tags: '++id, &name',
+      gameTags: '++id, &[tagId+bggId], tagId, bggId',
+      gameLists: '++id, &name',
+    })
+
+    // Version 14: Lending history (current location and borrower live on userGames).
+    this.version(14).stores({
+      games: 'bggId, name, lastFetchedAt',
+      gameNotes: '++id, bggId, createdAt',
+      users: 'username, internalId, isBggUser, isLocalOwner, firebaseUid, lastSyncAt',
+      userGames: '++id, [username+bggId], username, bggId, source, addedAt',
+      userPreferences: '++id, [username+bggId], username, bggId, updatedAt',
+      wizardState: 'id, updatedAt',
+      sessionWizardState: 'id, updatedAt',
+      savedNights: '++id, createdAt',
+      plays: '++id, bggId, playedAt, bggPlayId',
+      ownedExpansions: 'expansionId, baseGameId',
+      tags: '++id, &name',
+      gameTags: '++id, &[tagId+bggId], tagId, bggId',
+      gameLists: '++id, &name',
+      loans: '++id, bggId, username, lentAt',
+    })
   }
 }
 
@@ -212,4 +324,10 @@ export async function clearAllData(): Promise<void> {
   await db.wizardState.clear()
   await db.sessionWizardState.clear()
   await db.savedNights.clear()
+  await db.plays.clear()
+  await db.ownedExpansions.clear()
+  await db.tags.clear()
+  await db.gameTags.clear()
+  await db.gameLists.clear()
+  await db.loans.clear()
 }
\ No newline at end of file
@@ -2,6 +2,8 @@ export { db, PikmeDb } from './db'
 export type {
   GameFilters,
   GameRecord,
+  OwnedExpansionRecord,
+  PlayRecord,
   SavedNightData,
   SavedNightRecord,
   SessionWizardStateRecord,
@@ -1,3 +1,19 @@
+import type { RecommendationMethod } from '../store/wizardTypes'
+
+/** Votes from BGG's suggested_numplayers poll for one player count */
+export interface PlayerCountVotes {
+  numPlayers: number
+  best: number
+  recommended: number
+  notRecommended: number
+}
+
+/** An expansion listed on a base game's BGG page */
+export interface GameExpansionLink {
+  bggId: number
+  name: string
+}
+
 export interface GameRecord {
   bggId: number
   name: string
@@ -7,12 +23,15 @@ export interface GameRecord {
   minPlayers?: number
   maxPlayers?: number
   bestWith?: string // e.g. "4" or "3-4" from BGG poll
+  playerCountPoll?: PlayerCountVotes[] // Full suggested_numplayers poll
   playingTimeMinutes?: number
   minPlayTimeMinutes?: number
   maxPlayTimeMinutes?: number
   minAge?: number
   mechanics?: string[]
   categories?: string[]
+  designers?: string[]
+  expansions?: GameExpansionLink[] // boardgameexpansion links (base games only)
   description?: string
   averageRating?: number
   weight?: number // BGG complexity 1-5
@@ -43,9 +62,44 @@ export interface UserRecord {
   // Sync fields
   lastSyncAt?: string
   ownedCount?: number
+  /** Last time logged plays were imported from BGG */
+  lastPlaysSyncAt?: string
   isDeleted?: boolean
 }
 
+/** An expansion the group owns, with the player counts it supports */
+export interface OwnedExpansionRecord {
+  expansionId: number
+  baseGameId: number
+  name: string
+  minPlayers?: number
+  maxPlayers?: number
+  addedAt: string
+}
+
+/** A user-defined label for grouping games, e.g. "party" or "needs big table" */
+export interface TagRecord {
+  id?: number
+  name: string
+  createdAt: string
+}
+
+/** Links a tag to a game */
+export interface GameTagRecord {
+  id?: number
+  tagId: number
+  bggId: number
+}
+
+/** A named, hand-picked set of games, e.g. "Cabin weekend" */
+export interface GameListRecord {
+  id?: number
+  name: string
+  bggIds: number[]
+  createdAt: string
+  updatedAt: string
+}
+
 export interface UserGameRecord {
   id?: number
   username: string
@@ -53,15 +107,44 @@ export interface UserGameRecord {
   rating?: number
   source: 'bgg' | 'manual'
   addedAt: string
+  /** Where this copy is kept, e.g. "Alex's place" */
+  location?: string
+  /** Who has borrowed this copy, if it is lent out */
+  lentTo?: string
+  lentSince?: string
+}
+
+/** One time a player's copy of a game was lent out */
+export interface LoanRecord {
+  id?: number
+  bggId: number
+  /** Owner of the lent copy */
+  username: string
+  borrower: string
+  lentAt: string
+  returnedAt?: string
 }
 
+/** Preference tier, best first; games in the same tier are tied */
+export type PreferenceTier = 'S' | 'A' | 'B' | 'C'
+
 export interface UserPreferenceRecord {
   id?: number
   username: string
   bggId: number
   rank?: number
+  /** Tier used instead of a strict rank (never set together with rank) */
+  tier?: PreferenceTier
   isTopPick: boolean
   isDisliked: boolean
+  /** When the current dislike was first set (orders hard vetoes under a budget) */
+  dislikedAt?: string
+  /** Player already knows how to play */
+  knowsRules?: boolean
+  /** Player would like to be taught this game */
+  wantsToLearn?: boolean
+  /** Player is happy to teach this game (implies knowsRules) */
+  willingToTeach?: boolean
   updatedAt: string
 }
 
@@ -93,6 +176,8 @@ export interface SavedNightData {
     complexityRange?: { min: number; max: number }
     ratingRange?: { min: number; max: number }
   }
+  /** Voting method that produced the pick (absent on nights saved before methods existed = Borda) */
+  method?: RecommendationMethod
   pick: {
     bggId: number
     name: string
@@ -103,6 +188,31 @@ export interface SavedNightData {
     name: string
     score: number
   }>
+  /** Evening plan saved instead of a single pick (`pick` then holds the first planned game) */
+  plan?: {
+    budgetMinutes: number
+    heavyFirst?: boolean
+    games: Array<{
+      bggId: number
+      name: string
+      score: number
+      playingTimeMinutes: number
+    }>
+  }
+  /** Voter weights applied to the pick, keyed by username (players at 1 omitted) */
+  voterWeights?: Record<string, number>
+  /** Fairness rotation was on when the night was saved */
+  fairnessRotation?: boolean
+  /** Each player's enthusiasm for the pick (0-1); read by the fairness rotation */
+  pickSupport?: Record<string, number>
+  /** Players who had the pick among their top picks */
+  pickTopPickedBy?: string[]
+  /** Spin-the-wheel draw that chose the pick; replaying the seed over the candidates lands on it again */
+  spin?: {
+    seed: number
+    weighting: 'score' | 'uniform'
+    candidates: Array<{ bggId: number; score: number }>
+  }
 }
 
 export interface SavedNightRecord {
@@ -111,6 +221,25 @@ export interface SavedNightRecord {
   data: SavedNightData
 }
 
+export interface PlayRecord {
+  id?: number
+  /** Calendar date of the play (YYYY-MM-DD) */
+  playedAt: string
+  bggId: number
+  /** Usernames of everyone at the table */
+  players: string[]
+  winner?: string
+  durationMinutes?: number
+  notes?: string
+  /** Times the game was played in this session (BGG "quantity"); absent = 1 */
+  quantity?: number
+  /** Players without a local profile (e.g. unlinked names from BGG logs) */
+  otherPlayers?: string[]
+  /** BGG play id when imported from BGG; used to de-duplicate re-syncs */
+  bggPlayId?: number
+  createdAt: string
+}
+
 export interface GameFilters {
   playerCount?: number
   minPlayTime?: number
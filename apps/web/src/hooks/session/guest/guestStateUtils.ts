@@ -26,6 +26,7 @@ export function createPrefsSnapshot(prefs: UserPreferenceRecord[]): string {
     sorted.map((p) => ({
       bggId: p.bggId,
       rank: p.rank ?? null,
+      tier: p.tier ?? null,
       isTopPick: p.isTopPick ?? false,
       isDisliked: p.isDisliked ?? false,
     }))
@@ -3,14 +3,14 @@
  */
 import { useCallback } from 'react';
 import { db } from '../../../db';
-import { normalizePreferenceUpdate } from '../../../services/preferences/preferenceRules';
+import { normalizePreferenceUpdate, type PreferenceUpdate } from '../../../services/preferences/preferenceRules';
 
 export function useSessionGuestPreferences() {
   const updatePreference = useCallback(
     async (
       username: string,
       bggId: number,
-      update: { rank?: number; isTopPick?: boolean; isDisliked?: boolean }
+      update: PreferenceUpdate
     ) => {
       const now = new Date().toISOString();
       const existing = await db.userPreferences
@@ -27,8 +27,12 @@ export function useSessionGuestPreferences() {
           username,
           bggId,
           rank: normalized.rank,
+          tier: normalized.tier,
           isTopPick: normalized.isTopPick,
           isDisliked: normalized.isDisliked,
+          knowsRules: normalized.knowsRules,
+          wantsToLearn: normalized.wantsToLearn,
+          willingToTeach: normalized.willingToTeach,
           updatedAt: now,
         });
       }
@@ -48,6 +52,7 @@ export function useSessionGuestPreferences() {
         if (existing) {
           await db.userPreferences.update(existing.id!, {
             rank: i + 1,
+            tier: undefined,
             isTopPick: false,
             isDisliked: false,
             updatedAt: now,
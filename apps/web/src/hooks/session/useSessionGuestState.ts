@@ -4,6 +4,7 @@
  */
 import { useCallback, useMemo, useState } from 'react';
 import type { GameRecord, UserRecord, UserPreferenceRecord } from '../../db/types';
+import type { PreferenceUpdate } from '../../services/preferences/preferenceRules';
 import { loadLayoutMode, saveLayoutMode, type LayoutMode } from '../../services/storage/uiPreferences';
 import { setGuestReady, submitGuestPreferences } from '../../services/session';
 import { createPrefsSnapshot, getGuestReadyState, setGuestReadyState } from './guest/guestStateUtils';
@@ -27,7 +28,7 @@ export interface SessionGuestStateResult {
   updatePreference: (
     username: string,
     bggId: number,
-    update: { rank?: number; isTopPick?: boolean; isDisliked?: boolean }
+    update: PreferenceUpdate
   ) => Promise<void>;
   reorderPreferences: (username: string, orderedBggIds: number[]) => void;
   clearPreference: (username: string, bggId: number) => Promise<void>;
@@ -83,6 +84,7 @@ export function useSessionGuestState(sessionId: string): SessionGuestStateResult
         currentPrefs.map((p) => ({
           bggId: p.bggId,
           rank: p.rank ?? null,
+          tier: p.tier ?? null,
           isTopPick: p.isTopPick ?? false,
           isDisliked: p.isDisliked ?? false,
         }))
@@ -8,7 +8,9 @@
  */
 
 import { useState, useEffect, useRef } from 'react';
-import type { SessionResultInfo } from '../../services/session/types';
+import type { SessionResultInfo, SessionRunoffInfo } from '../../services/session/types';
+import type { VetoPolicy } from '../../store/wizardTypes';
+import { normalizeVetoPolicy } from '../../services/recommendation/vetoPolicy';
 
 type SessionStatus = 'open' | 'closed' | 'expired';
 
@@ -19,10 +21,14 @@ export interface SessionRealtimeState {
   shareMode?: 'quick' | 'detailed';
   /** Whether guests should see Other Participants' Picks (detailed share only) */
   showOtherParticipantsPicks?: boolean;
+  /** Host's veto policy, enforced when guests mark dislikes */
+  vetoPolicy?: VetoPolicy;
   /** Selected game (can be present even while status is 'open') */
   selectedGame?: SessionResultInfo;
   /** Tonight's Pick result (only when status is 'closed') */
   result?: SessionResultInfo;
+  /** Runoff ballot between tied games, while the host collects votes */
+  runoff?: SessionRunoffInfo;
   /** Whether currently listening */
   connected: boolean;
   /** Error if listener failed */
@@ -36,6 +42,22 @@ interface UseSessionRealtimeStatusOptions {
   enabled?: boolean;
 }
 
+/**
+ * Read the runoff field of the session doc (ballots are keyed by participantId).
+ */
+function parseRunoff(value: unknown): SessionRunoffInfo | undefined {
+  const raw = value as { games?: unknown; ballots?: unknown; startedAt?: { toDate?: () => Date } } | null | undefined;
+  const startedAt = raw?.startedAt?.toDate?.();
+  if (!raw || !Array.isArray(raw.games) || !startedAt) return undefined;
+  const ballots = Object.entries((raw.ballots ?? {}) as Record<string, { displayName?: string; ranking?: unknown }>)
+    .map(([participantId, ballot]) => ({
+      participantId,
+      displayName: ballot.displayName ?? 'Guest',
+      ranking: Array.isArray(ballot.ranking) ? ballot.ranking.filter((id): id is number => typeof id === 'number') : [],
+    }));
+  return { startedAt: startedAt.toISOString(), games: raw.games as SessionRunoffInfo['games'], ballots };
+}
+
 /**
  * Listen to session status changes in real-time via Firestore onSnapshot.
  * Falls back to 'open' status until connection is established.
@@ -48,8 +70,10 @@ export function useSessionRealtimeStatus({
     status: 'open',
     shareMode: undefined,
     showOtherParticipantsPicks: undefined,
+    vetoPolicy: undefined,
     selectedGame: undefined,
     result: undefined,
+    runoff: undefined,
     connected: false,
     error: null,
   });
@@ -111,15 +135,20 @@ export function useSessionRealtimeStatus({
               shareMode === 'quick'
                 ? false
                 : showOtherParticipantsPicksRaw !== false;
+            // Older sessions have no policy: every dislike is a veto.
+            const vetoPolicy = normalizeVetoPolicy(data?.vetoPolicy);
             const selectedGame = data?.selectedGame as SessionResultInfo | undefined;
             const result = data?.result as SessionResultInfo | undefined;
+            const runoff = parseRunoff(data?.runoff);
 
             setState({
               status,
               shareMode,
               showOtherParticipantsPicks,
+              vetoPolicy,
               selectedGame,
               result,
+              runoff,
               connected: true,
               error: null,
             });
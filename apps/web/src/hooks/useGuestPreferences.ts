@@ -11,7 +11,8 @@ import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db';
 import type { UserRecord, UserPreferenceRecord } from '../db/types';
 import { loadLayoutMode, saveLayoutMode, type LayoutMode } from '../services/storage/uiPreferences';
-import { normalizePreferenceUpdate } from '../services/preferences/preferenceRules';
+import { normalizePreferenceUpdate, type PreferenceUpdate } from '../services/preferences/preferenceRules';
+import { isPreferenceTier } from '../services/preferences/preferenceTiers';
 
 /** Username for the guest user in local DB */
 export const GUEST_USERNAME = '__session_guest__';
@@ -39,12 +40,17 @@ export interface UseGuestPreferencesResult {
   updatePreference: (
     username: string,
     bggId: number,
-    update: { rank?: number; isTopPick?: boolean; isDisliked?: boolean }
+    update: PreferenceUpdate
   ) => Promise<void>;
   /** Reorder preferences */
   reorderPreferences: (username: string, orderedBggIds: number[]) => void;
   /** Clear a preference */
   clearPreference: (username: string, bggId: number) => Promise<void>;
+  /** Replace all preferences at once (e.g. from swipe mode) */
+  replacePreferences: (
+    username: string,
+    prefs: Array<Pick<UserPreferenceRecord, 'bggId' | 'rank' | 'tier' | 'isTopPick' | 'isDisliked'>>
+  ) => void;
 }
 
 export function useGuestPreferences(): UseGuestPreferencesResult {
@@ -105,6 +111,7 @@ export function useGuestPreferences(): UseGuestPreferencesResult {
   const isGuestPrefSeed = (value: unknown): value is {
     bggId: number | string
     rank?: number
+    tier?: unknown
     isTopPick?: boolean
     isDisliked?: boolean
   } => {
@@ -128,6 +135,7 @@ export function useGuestPreferences(): UseGuestPreferencesResult {
               username: GUEST_USERNAME,
               bggId: Number(p.bggId),
               rank: p.rank ?? undefined,
+              tier: isPreferenceTier(p.tier) ? p.tier : undefined,
               isTopPick: Boolean(p.isTopPick),
               isDisliked: Boolean(p.isDisliked),
               updatedAt: new Date().toISOString(),
@@ -175,7 +183,7 @@ export function useGuestPreferences(): UseGuestPreferencesResult {
     async (
       username: string,
       bggId: number,
-      update: { rank?: number; isTopPick?: boolean; isDisliked?: boolean }
+      update: PreferenceUpdate
     ) => {
       setLocalPrefs((prev) => {
         const now = new Date().toISOString();
@@ -192,8 +200,12 @@ export function useGuestPreferences(): UseGuestPreferencesResult {
             username,
             bggId,
             rank: normalized.rank,
+            tier: normalized.tier,
             isTopPick: normalized.isTopPick,
             isDisliked: normalized.isDisliked,
+            knowsRules: normalized.knowsRules,
+            wantsToLearn: normalized.wantsToLearn,
+            willingToTeach: normalized.willingToTeach,
             updatedAt: now,
           });
         }
@@ -213,7 +225,7 @@ export function useGuestPreferences(): UseGuestPreferencesResult {
       const updated = prev.map((p) => {
         const newIndex = orderedBggIds.indexOf(p.bggId);
         if (newIndex !== -1) {
-          return { ...p, rank: newIndex + 1, isTopPick: false, isDisliked: false, updatedAt: now };
+          return { ...p, rank: newIndex + 1, tier: undefined, isTopPick: false, isDisliked: false, updatedAt: now };
         }
         if (p.rank !== undefined && !orderedSet.has(p.bggId)) {
           return { ...p, rank: undefined, updatedAt: now };
@@ -241,6 +253,17 @@ export function useGuestPreferences(): UseGuestPreferencesResult {
     setLocalPrefs((prev) => prev.filter((p) => p.bggId !== bggId));
   }, []);
 
+  const replacePreferences = useCallback(
+    (
+      username: string,
+      prefs: Array<Pick<UserPreferenceRecord, 'bggId' | 'rank' | 'tier' | 'isTopPick' | 'isDisliked'>>
+    ) => {
+      const now = new Date().toISOString();
+      setLocalPrefs(prefs.map((p) => ({ ...p, username, updatedAt: now })));
+    },
+    []
+  );
+
   // Loading is true until all queries have resolved AND prefs are initialized
   const isLoading = !guestUserLoaded || !gamesLoaded || !prefsInitialized;
 
@@ -257,5 +280,6 @@ export function useGuestPreferences(): UseGuestPreferencesResult {
     updatePreference,
     reorderPreferences,
     clearPreference,
+    replacePreferences,
   };
 }
@@ -56,6 +56,7 @@ function convertToSessionGuest(data: GuestPreferencesData): SessionGuest {
       username,
       bggId: p.bggId,
       rank: p.rank ?? undefined,
+      tier: p.tier ?? undefined,
       isTopPick: p.isTopPick ?? false,
       isDisliked: p.isDisliked ?? false,
       updatedAt: data.updatedAt || new Date().toISOString(),
@@ -35,6 +35,12 @@ vi.mock('../services/db', async () => {
     ]),
     getLocalUsers: vi.fn().mockResolvedValue([]),
     getSavedNights: vi.fn().mockResolvedValue([]),
+    getPlaysSince: vi.fn().mockResolvedValue([]),
+    getOwnedExpansions: vi.fn().mockResolvedValue([]),
+    getTags: vi.fn().mockResolvedValue([]),
+    getGameTagRecords: vi.fn().mockResolvedValue([]),
+    getAllGameCopies: vi.fn().mockResolvedValue([]),
+    getGameLists: vi.fn().mockResolvedValue([]),
     saveNight: saveNightMock,
   }
 })
@@ -64,6 +70,18 @@ vi.mock('../services/storage/wizardStateStorage', () => ({
   }),
   saveWizardState: vi.fn().mockResolvedValue(undefined),
   clearWizardState: vi.fn().mockResolvedValue(undefined),
+  getPersistedRecommendationMethod: vi.fn().mockReturnValue('borda'),
+  setPersistedRecommendationMethod: vi.fn(),
+  getPersistedRecencyPenaltyDays: vi.fn().mockReturnValue(0),
+  setPersistedRecencyPenaltyDays: vi.fn(),
+  getPersistedTeachAware: vi.fn().mockReturnValue(false),
+  setPersistedTeachAware: vi.fn(),
+  getPersistedVetoPolicy: vi.fn().mockReturnValue({ mode: 'unlimited', maxVetoes: 2 }),
+  setPersistedVetoPolicy: vi.fn(),
+  getPersistedTieEpsilon: vi.fn().mockReturnValue(0.1),
+  setPersistedTieEpsilon: vi.fn(),
+  getPersistedFairnessRotation: vi.fn().mockReturnValue(false),
+  setPersistedFairnessRotation: vi.fn(),
 }))
 
 function Harness() {
@@ -10,12 +10,37 @@
  * @see hooks/wizard/useFiltersState - Filter configuration  
  * @see hooks/wizard/usePreferencesState - User preferences
  * @see hooks/wizard/useRecommendationState - Recommendation computation
+ * @see hooks/wizard/useSplitTablesState - Split-table picks
+ * @see hooks/wizard/useEveningPlanState - Multi-game evening plan
+ * @see hooks/wizard/usePlayHistoryState - Recorded plays
+ * @see hooks/wizard/useExpansionsState - Owned expansions
+ * @see hooks/wizard/useTagsState - User tags and game lists
+ * @see hooks/wizard/useGameCopiesState - Copy locations and loans
  * @see hooks/wizard/useSavedNightsState - Saved game nights
  */
-import type { GameRecord, UserRecord, UserPreferenceRecord, SavedNightRecord } from '../db/types'
+import type {
+  GameListRecord,
+  GameRecord,
+  UserRecord,
+  UserPreferenceRecord,
+  SavedNightRecord,
+  PlayRecord,
+  PreferenceTier,
+  TagRecord,
+} from '../db/types'
+import type { PreferenceUpdate } from '../services/preferences/preferenceRules'
 import type { BggSearchResult } from '../services/bgg/types'
-import type { WizardFilters } from '../store/wizardTypes'
+import type { PlaysSyncResult } from '../services/bgg/bggPlaysSync'
+import type { PlayerCountFit } from '../services/filtering/playerCountFit'
+import type { OwnedExpansionsByGame } from '../services/expansions/expansionRange'
+import type { GameTagsByGame } from '../services/tags/gameTags'
+import type { GameCopiesByGame } from '../services/lending/gameAvailability'
+import type { SplitTablesResult } from '../services/recommendation/splitTables'
+import type { EveningPlan } from '../services/recommendation/eveningPlan'
+import type { FacetFilter, GameFacet, RecommendationMethod, VetoPolicy, WizardFilters } from '../store/wizardTypes'
+import type { SpinResult } from '../services/recommendation/spinWheel'
 import type { LayoutMode } from '../services/storage/uiPreferences'
+import type { RecommendationResult } from './wizard/types'
 
 // Re-export the composed implementation
 export { useWizardStateComposed as useWizardState } from './wizard/useWizardStateComposed'
@@ -47,15 +72,66 @@ export interface WizardState {
   userRatings: Record<string, Record<number, number | undefined>>
 
   // Step 4: Results
-  recommendation: {
-    topPick: { game: GameRecord; score: number; matchReasons: string[] } | null
-    alternatives: Array<{ game: GameRecord; score: number; matchReasons: string[] }>
-    vetoed: Array<{ game: GameRecord; vetoedBy: string[] }>
-  }
+  recommendation: RecommendationResult
 
   /** Optional override: bggId of a manually promoted pick */
   promotedPickBggId: number | null
 
+  /** Voting method the host selected for scoring */
+  recommendationMethod: RecommendationMethod
+
+  /** Recently-played penalty window in days (0 = off) */
+  recencyPenaltyDays: number
+
+  /** Apply the learn/teach adjustments from players' flags */
+  teachAware: boolean
+
+  /** How players' dislikes count: unlimited, a per-player budget or soft */
+  vetoPolicy: VetoPolicy
+
+  /** Latest spin of the wheel, saved with the night if it chose the pick */
+  lastSpin: SpinResult | null
+
+  /** Score margin within which the top games count as tied */
+  tieEpsilon: number
+
+  /** Tonight's per-player voter weights set by the host */
+  voterWeights: Record<string, number>
+
+  /** Boost players whose preferences lost on recent saved nights */
+  fairnessRotation: boolean
+
+  /** Fairness multipliers from saved-night history */
+  fairnessBoosts: Record<string, number>
+
+  /** Weights used for scoring (host weight x fairness boost when on) */
+  appliedVoterWeights: Record<string, number>
+
+  /** Number of tables the group splits into (1 = everyone plays together) */
+  tableCount: number
+
+  /** One pick per table when splitting */
+  splitTables: SplitTablesResult | null
+
+  /** Evening planner time budget in minutes (null = planner off) */
+  planBudgetMinutes: number | null
+  planHeavyFirst: boolean
+  eveningPlan: EveningPlan | null
+
+  /** Plays within the longest penalty window, newest first */
+  recentPlays: PlayRecord[]
+
+  /** Owned expansions keyed by base game bggId */
+  ownedExpansions: OwnedExpansionsByGame
+
+  /** User-defined tags, the tags on each game (keyed by bggId), and named game lists */
+  tags: TagRecord[]
+  gameTags: GameTagsByGame
+  gameLists: GameListRecord[]
+
+  /** Every owner's copy of each game (location, borrower), keyed by bggId */
+  gameCopies: GameCopiesByGame
+
   // UI preferences
   layoutMode: LayoutMode
 }
@@ -93,19 +169,26 @@ export interface WizardActions {
   }) => Promise<void>
   updateGame: (game: GameRecord) => Promise<void>
   refreshGameFromBgg: (bggId: number, options: { keepNotes: boolean }) => Promise<GameRecord>
+  /** Replace the session's games with a tag's or list's games */
+  loadGamesIntoSession: (bggIds: number[]) => Promise<void>
 
   // Filters
   setPlayerCount: (count: number) => void
   setTimeRange: (range: { min: number; max: number }) => void
   setMode: (mode: 'coop' | 'competitive' | 'any') => void
   setRequireBestWithPlayerCount: (enabled: boolean) => void
+  setPlayerCountFit: (fit: PlayerCountFit) => void
   setExcludeLowRated: (threshold: number | null) => void
   setAgeRange: (range: { min: number; max: number }) => void
   setComplexityRange: (range: { min: number; max: number }) => void
   setRatingRange: (range: { min: number; max: number }) => void
+  setFacetFilter: (facet: GameFacet, filter: FacetFilter) => void
+  setTagFilter: (tagIds: number[]) => void
+  setAvailableAt: (location: string | null) => void
+  setFilters: (filters: WizardFilters) => void
 
   // Preferences
-  updatePreference: (username: string, bggId: number, update: { rank?: number; isTopPick?: boolean; isDisliked?: boolean }) => void
+  updatePreference: (username: string, bggId: number, update: PreferenceUpdate) => void
   clearPreference: (username: string, bggId: number) => void
   reorderPreferences: (username: string, orderedBggIds: number[]) => void
   autoSortByRating: (username: string) => void
@@ -114,6 +197,19 @@ export interface WizardActions {
   // Results
   computeRecommendation: () => void
   promoteAlternativeToTopPick: (bggId: number) => void
+  setRecommendationMethod: (method: RecommendationMethod) => void
+  setRecencyPenaltyDays: (days: number) => void
+  setTeachAware: (enabled: boolean) => void
+  setVetoPolicy: (policy: VetoPolicy) => void
+  setLastSpin: (spin: SpinResult | null) => void
+  setTieEpsilon: (epsilon: number) => void
+  setVoterWeight: (username: string, weight: number) => void
+  setFairnessRotation: (enabled: boolean) => void
+  setTableCount: (count: number) => void
+  setPlanBudgetMinutes: (minutes: number | null) => void
+  setPlanHeavyFirst: (heavyFirst: boolean) => void
+  recordPlay: (play: Omit<PlayRecord, 'id' | 'createdAt'>) => Promise<void>
+  syncBggPlays: (users: UserRecord[]) => Promise<PlaysSyncResult>
   saveNight: (name: string, description?: string, includeGuestUsernames?: string[]) => Promise<void>
 
   // Saved nights
@@ -134,9 +230,11 @@ export interface WizardActions {
     preferences: Record<string, Array<{
       bggId: number
       rank?: number
+      tier?: PreferenceTier
       isTopPick: boolean
       isDisliked: boolean
     }>>
+    recommendationMethod?: RecommendationMethod
   }) => Promise<void>
 
   // Notifications
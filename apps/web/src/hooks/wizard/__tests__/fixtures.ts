@@ -273,6 +273,7 @@ export const mockRecommendation = {
     },
   ],
   vetoed: [] as Array<{ game: typeof mockGames[0]; vetoedBy: string[] }>,
+  method: 'borda' as const,
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -13,7 +13,8 @@
  *   ├── useGamesState       - Game collection & session management
  *   ├── useFiltersState     - Filter configuration
  *   ├── usePreferencesState - User preference rankings
- *   ├── useRecommendationState - Borda count scoring
+ *   ├── useRecommendationState - Voting-method scoring
+ *   ├── usePlayHistoryState - Recent plays for the recency penalty
  *   └── useSavedNightsState - Night persistence
  * ```
  * 
@@ -51,3 +52,4 @@ export { useGamesState } from './useGamesState'
 export { usePlayersState } from './usePlayersState'
 export { useSavedNightsState } from './useSavedNightsState'
 export { useRecommendationState } from './useRecommendationState'
+export { usePlayHistoryState } from './usePlayHistoryState'
@@ -2,10 +2,28 @@
  * Shared types for wizard state hooks.
  * Each hook exposes its own state slice and actions, composed by useWizardState.
  */
-import type { GameRecord, UserRecord, UserPreferenceRecord, SavedNightRecord } from '../../db/types'
-import type { WizardFilters } from '../../store/wizardTypes'
+import type {
+  GameListRecord,
+  GameRecord,
+  UserRecord,
+  UserPreferenceRecord,
+  SavedNightRecord,
+  PlayRecord,
+  PreferenceTier,
+  TagRecord,
+} from '../../db/types'
+import type { FacetFilter, GameFacet, RecommendationMethod, VetoPolicy, WizardFilters } from '../../store/wizardTypes'
 import type { BggSearchResult } from '../../services/bgg/types'
+import type { PlaysSyncResult } from '../../services/bgg/bggPlaysSync'
+import type { PlayerCountFit } from '../../services/filtering/playerCountFit'
+import type { OwnedExpansionsByGame } from '../../services/expansions/expansionRange'
+import type { GameTagsByGame } from '../../services/tags/gameTags'
+import type { GameCopiesByGame } from '../../services/lending/gameAvailability'
+import type { SplitTablesResult } from '../../services/recommendation/splitTables'
+import type { EveningPlan } from '../../services/recommendation/eveningPlan'
 import type { LayoutMode } from '../../services/storage/uiPreferences'
+import type { VoterWeights } from '../../services/recommendation/methods'
+import type { SpinResult } from '../../services/recommendation/spinWheel'
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Players State
@@ -64,6 +82,8 @@ export interface GamesActions {
   addGameManually: (usernames: string[], game: ManualGameInput) => Promise<void>
   updateGame: (game: GameRecord) => Promise<void>
   refreshGameFromBgg: (bggId: number, options: { keepNotes: boolean }) => Promise<GameRecord>
+  /** Replace the session's games with these, loading any not yet in the collection */
+  loadGamesIntoSession: (bggIds: number[]) => Promise<void>
   clearGameError: () => void
   // Setters for external coordination
   setGames: React.Dispatch<React.SetStateAction<GameRecord[]>>
@@ -120,10 +140,14 @@ export interface FiltersActions {
   setTimeRange: (range: { min: number; max: number }) => void
   setMode: (mode: 'coop' | 'competitive' | 'any') => void
   setRequireBestWithPlayerCount: (enabled: boolean) => void
+  setPlayerCountFit: (fit: PlayerCountFit) => void
   setExcludeLowRated: (threshold: number | null) => void
   setAgeRange: (range: { min: number; max: number }) => void
   setComplexityRange: (range: { min: number; max: number }) => void
   setRatingRange: (range: { min: number; max: number }) => void
+  setFacetFilter: (facet: GameFacet, filter: FacetFilter) => void
+  setTagFilter: (tagIds: number[]) => void
+  setAvailableAt: (location: string | null) => void
   setFilters: React.Dispatch<React.SetStateAction<WizardFilters>>
 }
 
@@ -147,17 +171,51 @@ export interface PreferencesActions {
 
 export interface PreferenceUpdate {
   rank?: number
+  tier?: PreferenceTier
   isTopPick?: boolean
   isDisliked?: boolean
+  knowsRules?: boolean
+  wantsToLearn?: boolean
+  willingToTeach?: boolean
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Recommendation State
 // ─────────────────────────────────────────────────────────────────────────────
+export interface PlayerScoreContribution {
+  username: string
+  /** 1-based position among the games this player ranked; undefined when neutral */
+  rankPosition?: number
+  /** Tier the player put the game in (tied with the rest of that tier) */
+  tier?: PreferenceTier
+  /** How many eligible games this player ranked or top-picked */
+  rankedCount: number
+  isTopPick: boolean
+  /** Normalized Borda points earned from the ranking position */
+  bordaPoints: number
+  /** Bonus earned for marking the game as a top pick */
+  topPickBonus: number
+  /** Player neither ranked nor top-picked the game */
+  isNeutral: boolean
+  /** Voter weight applied to this player's points (absent = 1) */
+  weight?: number
+}
+
+export type ConsensusLevel = 'strong' | 'mixed' | 'polarizing'
+
+export interface ScoreBreakdown {
+  contributions: PlayerScoreContribution[]
+  /** 0-1 agreement between players (1 = everyone equally keen) */
+  consensus: number
+  consensusLevel: ConsensusLevel
+}
+
 export interface ScoredGame {
   game: GameRecord
   score: number
   matchReasons: string[]
+  /** Per-player explanation of the score */
+  breakdown?: ScoreBreakdown
 }
 
 export interface VetoedGame {
@@ -165,20 +223,141 @@ export interface VetoedGame {
   vetoedBy: string[]
 }
 
+/** Games level with the best score, best first */
+export interface RecommendationTie {
+  bggIds: number[]
+  /** All scores are equal (otherwise they fall within `epsilon`) */
+  exact: boolean
+  /** Margin used to detect the tie */
+  epsilon: number
+}
+
 export interface RecommendationResult {
   topPick: ScoredGame | null
   alternatives: ScoredGame[]
   vetoed: VetoedGame[]
+  /** Voting method that produced this result */
+  method: RecommendationMethod
+  /** Voter weights applied (players at 1 omitted) */
+  voterWeights?: VoterWeights
+  /** Tie at the top, if any (scored order, before a promoted pick) */
+  tie?: RecommendationTie | null
 }
 
 export interface RecommendationState {
   recommendation: RecommendationResult
   promotedPickBggId: number | null
+  recommendationMethod: RecommendationMethod
+  /** Recently-played penalty window in days (0 = off) */
+  recencyPenaltyDays: number
+  /** Apply the learn/teach adjustments */
+  teachAware: boolean
+  /** How players' dislikes count */
+  vetoPolicy: VetoPolicy
+  /** Latest spin of the wheel (its game may no longer be the top pick) */
+  lastSpin: SpinResult | null
+  /** Score margin within which the top games count as tied */
+  tieEpsilon: number
 }
 
 export interface RecommendationActions {
   computeRecommendation: () => void
   promoteAlternativeToTopPick: (bggId: number) => void
+  setRecommendationMethod: (method: RecommendationMethod) => void
+  setRecencyPenaltyDays: (days: number) => void
+  setTeachAware: (enabled: boolean) => void
+  setVetoPolicy: (policy: VetoPolicy) => void
+  setLastSpin: (spin: SpinResult | null) => void
+  setTieEpsilon: (epsilon: number) => void
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Voter Weights State
+// ─────────────────────────────────────────────────────────────────────────────
+export interface VoterWeightsState {
+  /** Weights the host set for tonight, keyed by username */
+  voterWeights: VoterWeights
+  /** Boost players whose preferences lost on recent saved nights */
+  fairnessRotation: boolean
+  /** Fairness multipliers from saved-night history */
+  fairnessBoosts: VoterWeights
+  /** Weights used for scoring (host weight x fairness boost when on) */
+  appliedVoterWeights: VoterWeights
+}
+
+export interface VoterWeightsActions {
+  setVoterWeight: (username: string, weight: number) => void
+  setFairnessRotation: (enabled: boolean) => void
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Split Tables State
+// ─────────────────────────────────────────────────────────────────────────────
+export interface SplitTablesState {
+  /** Number of tables the group splits into (1 = everyone plays together) */
+  tableCount: number
+  /** One pick per table; null when not splitting or too few players */
+  splitTables: SplitTablesResult | null
+}
+
+export interface SplitTablesActions {
+  setTableCount: (count: number) => void
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Evening Plan State
+// ─────────────────────────────────────────────────────────────────────────────
+export interface EveningPlanState {
+  /** Time budget for the evening in minutes (null = planner off) */
+  planBudgetMinutes: number | null
+  /** Order planned games heaviest first instead of best first */
+  planHeavyFirst: boolean
+  eveningPlan: EveningPlan | null
+}
+
+export interface EveningPlanActions {
+  setPlanBudgetMinutes: (minutes: number | null) => void
+  setPlanHeavyFirst: (heavyFirst: boolean) => void
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Play History State
+// ─────────────────────────────────────────────────────────────────────────────
+export interface PlayHistoryState {
+  /** Plays within the longest recency penalty window, newest first */
+  recentPlays: PlayRecord[]
+}
+
+export interface PlayHistoryActions {
+  recordPlay: (play: Omit<PlayRecord, 'id' | 'createdAt'>) => Promise<void>
+  /** Import plays logged on BGG by every BGG-linked user */
+  syncBggPlays: (users: UserRecord[]) => Promise<PlaysSyncResult>
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Expansions State
+// ─────────────────────────────────────────────────────────────────────────────
+export interface ExpansionsState {
+  /** Owned expansions keyed by base game bggId */
+  ownedExpansions: OwnedExpansionsByGame
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tags State
+// ─────────────────────────────────────────────────────────────────────────────
+export interface TagsState {
+  tags: TagRecord[]
+  /** Tag ids keyed by game bggId */
+  gameTags: GameTagsByGame
+  gameLists: GameListRecord[]
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Game Copies State
+// ─────────────────────────────────────────────────────────────────────────────
+export interface GameCopiesState {
+  /** Every owner's copy (location, borrower) keyed by game bggId */
+  gameCopies: GameCopiesByGame
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
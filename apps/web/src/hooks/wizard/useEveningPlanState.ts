@@ -0,0 +1,79 @@
+/**
+ * Hook for the evening planner on the Result step.
+ *
+ * Single responsibility: Hold the host's time budget and ordering choice and
+ * derive an ordered multi-game plan (see services/recommendation/eveningPlan).
+ * A null budget keeps the regular single-game recommendation.
+ *
+ * ## Usage
+ *
+ * ```ts
+ * const { eveningPlan, setPlanBudgetMinutes } = useEveningPlanState({
+ *   filteredGames,
+ *   preferences,
+ *   users,
+ *   filters,
+ *   method,
+ * })
+ * ```
+ */
+import { useMemo, useState } from 'react'
+import type { GameRecord, PlayRecord, UserPreferenceRecord, UserRecord } from '../../db/types'
+import type { RecommendationMethod, VetoPolicy, WizardFilters } from '../../store/wizardTypes'
+import type { EveningPlanActions, EveningPlanState } from './types'
+import type { OwnedExpansionsByGame } from '../../services/expansions/expansionRange'
+import type { VoterWeights } from '../../services/recommendation/methods'
+import { computeRecommendation } from '../../services/recommendation/computeRecommendation'
+import { planEvening } from '../../services/recommendation/eveningPlan'
+
+export interface UseEveningPlanStateOptions {
+  /** Games that passed all filters */
+  filteredGames: GameRecord[]
+  preferences: Record<string, UserPreferenceRecord[]>
+  users: UserRecord[]
+  filters: WizardFilters
+  /** Scoring rules shared with the single-game recommendation */
+  method: RecommendationMethod
+  recentPlays?: PlayRecord[]
+  recencyPenaltyDays?: number
+  teachAware?: boolean
+  vetoPolicy?: VetoPolicy
+  voterWeights?: VoterWeights
+  ownedExpansions?: OwnedExpansionsByGame
+}
+
+export interface UseEveningPlanStateResult extends EveningPlanState, EveningPlanActions {}
+
+export function useEveningPlanState(options: UseEveningPlanStateOptions): UseEveningPlanStateResult {
+  const { filteredGames, preferences, users, filters, method, recentPlays, recencyPenaltyDays, teachAware, vetoPolicy, voterWeights, ownedExpansions } = options
+  const [planBudgetMinutes, setPlanBudgetMinutes] = useState<number | null>(null)
+  const [planHeavyFirst, setPlanHeavyFirst] = useState(false)
+
+  // Every eligible game, scored with the same rules as the single pick
+  const scoredGames = useMemo(() => {
+    if (planBudgetMinutes === null) return []
+    const result = computeRecommendation({
+      games: filteredGames,
+      preferences,
+      users,
+      filters,
+      promotedPickBggId: null,
+      method,
+      recentPlays,
+      recencyPenaltyDays,
+      teachAware,
+      vetoPolicy,
+      voterWeights,
+      ownedExpansions,
+      maxAlternatives: filteredGames.length,
+    })
+    return result.topPick ? [result.topPick, ...result.alternatives] : []
+  }, [planBudgetMinutes, filteredGames, preferences, users, filters, method, recentPlays, recencyPenaltyDays, teachAware, vetoPolicy, voterWeights, ownedExpansions])
+
+  const eveningPlan = useMemo(
+    () => (planBudgetMinutes === null ? null : planEvening(scoredGames, { budgetMinutes: planBudgetMinutes, heavyFirst: planHeavyFirst, preferences })),
+    [scoredGames, planBudgetMinutes, planHeavyFirst, preferences],
+  )
+
+  return { planBudgetMinutes, planHeavyFirst, eveningPlan, setPlanBudgetMinutes, setPlanHeavyFirst }
+}
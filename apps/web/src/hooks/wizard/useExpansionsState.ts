@@ -0,0 +1,25 @@
+/**
+ * Hook for the expansions the group owns.
+ *
+ * Single responsibility: Keep owned expansions (grouped by base game) live
+ * from Dexie so filters and recommendations see changes made in the game
+ * details dialog immediately.
+ *
+ * ## Usage
+ *
+ * ```ts
+ * const { ownedExpansions } = useExpansionsState()
+ * ```
+ */
+import { useMemo } from 'react'
+import { useLiveQuery } from 'dexie-react-hooks'
+import type { ExpansionsState } from './types'
+import * as dbService from '../../services/db'
+import { groupOwnedExpansions } from '../../services/expansions/expansionRange'
+
+export function useExpansionsState(): ExpansionsState {
+  const records = useLiveQuery(() => dbService.getOwnedExpansions(), [])
+  const ownedExpansions = useMemo(() => groupOwnedExpansions(records ?? []), [records])
+
+  return { ownedExpansions }
+}
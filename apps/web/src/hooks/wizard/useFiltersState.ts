@@ -15,10 +15,14 @@
  */
 import { useState, useCallback, useMemo } from 'react'
 import type { GameRecord } from '../../db/types'
-import type { WizardFilters } from '../../store/wizardTypes'
+import type { FacetFilter, GameFacet, WizardFilters } from '../../store/wizardTypes'
 import type { FiltersState, FiltersActions } from './types'
 import { DEFAULT_FILTERS } from '../../services/filtering/filterConstants'
 import { applyGameFilters } from '../../services/filtering/applyGameFilters'
+import type { PlayerCountFit } from '../../services/filtering/playerCountFit'
+import type { OwnedExpansionsByGame } from '../../services/expansions/expansionRange'
+import type { GameTagsByGame } from '../../services/tags/gameTags'
+import type { GameCopiesByGame } from '../../services/lending/gameAvailability'
 
 export interface UseFiltersStateOptions {
   /** Games in the current session (before filtering) */
@@ -27,19 +31,29 @@ export interface UseFiltersStateOptions {
   userRatings: Record<string, Record<number, number | undefined>>
   /** Initial filter values (for session restore) */
   initialFilters?: WizardFilters
+  /** Owned expansions that widen a game's player range */
+  ownedExpansions?: OwnedExpansionsByGame
+  /** User tags on each game, for the tag filter */
+  gameTags?: GameTagsByGame
+  /** Every owner's copy of each game, for the available-tonight filter */
+  gameCopies?: GameCopiesByGame
 }
 
+const NO_EXPANSIONS: OwnedExpansionsByGame = {}
+const NO_TAGS: GameTagsByGame = {}
+const NO_COPIES: GameCopiesByGame = {}
+
 export interface UseFiltersStateResult extends FiltersState, FiltersActions {}
 
 export function useFiltersState(options: UseFiltersStateOptions): UseFiltersStateResult {
-  const { sessionGames, userRatings, initialFilters } = options
+  const { sessionGames, userRatings, initialFilters, ownedExpansions = NO_EXPANSIONS, gameTags = NO_TAGS, gameCopies = NO_COPIES } = options
 
   const [filters, setFilters] = useState<WizardFilters>(initialFilters ?? DEFAULT_FILTERS)
 
   // Derived: filtered games (session games after applying filters)
   const filteredGames = useMemo(() => {
-    return applyGameFilters(sessionGames, filters, userRatings)
-  }, [sessionGames, filters, userRatings])
+    return applyGameFilters(sessionGames, filters, userRatings, ownedExpansions, gameTags, gameCopies)
+  }, [sessionGames, filters, userRatings, ownedExpansions, gameTags, gameCopies])
 
   // ─────────────────────────────────────────────────────────────────────────
   // Filter Actions
@@ -60,6 +74,14 @@ export function useFiltersState(options: UseFiltersStateOptions): UseFiltersStat
     setFilters((prev) => ({ ...prev, requireBestWithPlayerCount: enabled }))
   }, [])
 
+  const setPlayerCountFit = useCallback((fit: PlayerCountFit) => {
+    setFilters((prev) => ({
+      ...prev,
+      requireBestWithPlayerCount: fit === 'best',
+      requireRecommendedPlayerCount: fit === 'recommended',
+    }))
+  }, [])
+
   const setExcludeLowRated = useCallback((threshold: number | null) => {
     setFilters((prev) => ({ ...prev, excludeLowRatedThreshold: threshold }))
   }, [])
@@ -76,6 +98,18 @@ export function useFiltersState(options: UseFiltersStateOptions): UseFiltersStat
     setFilters((prev) => ({ ...prev, ratingRange: range }))
   }, [])
 
+  const setFacetFilter = useCallback((facet: GameFacet, filter: FacetFilter) => {
+    setFilters((prev) => ({ ...prev, facets: { ...prev.facets, [facet]: filter } }))
+  }, [])
+
+  const setTagFilter = useCallback((tagIds: number[]) => {
+    setFilters((prev) => ({ ...prev, tagIds }))
+  }, [])
+
+  const setAvailableAt = useCallback((location: string | null) => {
+    setFilters((prev) => ({ ...prev, availableAt: location }))
+  }, [])
+
   return {
     // State
     filters,
@@ -86,10 +120,14 @@ export function useFiltersState(options: UseFiltersStateOptions): UseFiltersStat
     setTimeRange,
     setMode,
     setRequireBestWithPlayerCount,
+    setPlayerCountFit,
     setExcludeLowRated,
     setAgeRange,
     setComplexityRange,
     setRatingRange,
+    setFacetFilter,
+    setTagFilter,
+    setAvailableAt,
     setFilters,
   }
 }
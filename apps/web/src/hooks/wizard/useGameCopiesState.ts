@@ -0,0 +1,25 @@
+/**
+ * Hook for where every owner's copy of each game is tonight.
+ *
+ * Single responsibility: Keep copy locations and loans live from Dexie so
+ * the available-tonight filter sees games lent or moved in the game details
+ * dialog immediately.
+ *
+ * ## Usage
+ *
+ * ```ts
+ * const { gameCopies } = useGameCopiesState()
+ * ```
+ */
+import { useMemo } from 'react'
+import { useLiveQuery } from 'dexie-react-hooks'
+import type { GameCopiesState } from './types'
+import * as dbService from '../../services/db'
+import { groupGameCopies } from '../../services/lending/gameAvailability'
+
+export function useGameCopiesState(): GameCopiesState {
+  const records = useLiveQuery(() => dbService.getAllGameCopies(), [])
+  const gameCopies = useMemo(() => groupGameCopies(records ?? []), [records])
+
+  return useMemo(() => ({ gameCopies }), [gameCopies])
+}
@@ -212,6 +212,29 @@ export function useGamesState(options: UseGamesStateOptions = {}): UseGamesState
     [],
   )
 
+  // ─────────────────────────────────────────────────────────────────────────
+  // Session from a tag or list
+  // ─────────────────────────────────────────────────────────────────────────
+  const loadGamesIntoSession = useCallback(async (bggIds: number[]) => {
+    const ids = [...new Set(bggIds)]
+    const [loaded, owners] = await Promise.all([dbService.getGames(ids), dbService.getGameOwners(ids)])
+    const loadedIds = new Set(loaded.map((g) => g.bggId))
+    setGames((prev) => {
+      const known = new Set(prev.map((g) => g.bggId))
+      const missing = loaded.filter((g) => !known.has(g.bggId))
+      return missing.length > 0 ? [...prev, ...missing] : prev
+    })
+    setGameOwners((prev) => {
+      const next = { ...prev }
+      for (const [bggId, usernames] of Object.entries(owners)) {
+        next[Number(bggId)] = [...new Set([...(prev[Number(bggId)] ?? []), ...usernames])]
+      }
+      return next
+    })
+    setSessionGameIds(ids.filter((id) => loadedIds.has(id)))
+    setExcludedBggIds((prev) => prev.filter((id) => !loadedIds.has(id)))
+  }, [])
+
   // ─────────────────────────────────────────────────────────────────────────
   // Game Updates
   // ─────────────────────────────────────────────────────────────────────────
@@ -323,6 +346,7 @@ export function useGamesState(options: UseGamesStateOptions = {}): UseGamesState
     addGameManually,
     updateGame,
     refreshGameFromBgg,
+    loadGamesIntoSession,
     clearGameError,
     setGames,
     setSessionGameIds,
@@ -0,0 +1,65 @@
+/**
+ * Hook for the play history used on the Result step.
+ *
+ * Single responsibility: Load recent plays (for the recently-played penalty),
+ * record new plays and import plays logged on BGG.
+ *
+ * ## Usage
+ *
+ * ```ts
+ * const { recentPlays, recordPlay, syncBggPlays } = usePlayHistoryState()
+ * ```
+ */
+import { useState, useCallback, useEffect } from 'react'
+import type { PlayRecord, UserRecord } from '../../db/types'
+import type { PlayHistoryState, PlayHistoryActions } from './types'
+import { MAX_RECENCY_PENALTY_DAYS } from '../../services/recommendation/recencyPenalty'
+import { playDateDaysAgo } from '../../services/plays/playDate'
+import * as dbService from '../../services/db'
+import { getBggUsernameFor, syncUserPlaysToDb, type PlaysSyncResult } from '../../services/bgg/bggPlaysSync'
+
+export interface UsePlayHistoryStateResult extends PlayHistoryState, PlayHistoryActions {}
+
+/** Plays within the longest penalty window */
+function loadRecentPlays(): Promise<PlayRecord[]> {
+  return dbService.getPlaysSince(playDateDaysAgo(MAX_RECENCY_PENALTY_DAYS))
+}
+
+export function usePlayHistoryState(): UsePlayHistoryStateResult {
+  const [recentPlays, setRecentPlays] = useState<PlayRecord[]>([])
+
+  // Load plays within the longest penalty window on mount
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setRecentPlays(await loadRecentPlays())
+      } catch (err) {
+        console.error('Failed to load play history:', err)
+      }
+    }
+    load()
+  }, [])
+
+  const recordPlay = useCallback(async (play: Omit<PlayRecord, 'id' | 'createdAt'>) => {
+    const saved = await dbService.recordPlay(play)
+    setRecentPlays((prev) => [saved, ...prev])
+  }, [])
+
+  const syncBggPlays = useCallback(async (users: UserRecord[]): Promise<PlaysSyncResult> => {
+    const total: PlaysSyncResult = { added: 0, updated: 0, skipped: 0 }
+    for (const user of users.filter((u) => getBggUsernameFor(u))) {
+      const result = await syncUserPlaysToDb(user.username)
+      total.added += result.added
+      total.updated += result.updated
+      total.skipped += result.skipped
+    }
+    setRecentPlays(await loadRecentPlays())
+    return total
+  }, [])
+
+  return {
+    recentPlays,
+    recordPlay,
+    syncBggPlays,
+  }
+}
@@ -17,7 +17,7 @@ import { useState, useCallback } from 'react'
 import type { GameRecord, UserPreferenceRecord } from '../../db/types'
 import type { PreferencesState, PreferencesActions, PreferenceUpdate } from './types'
 import * as dbService from '../../services/db'
-import { normalizePreferenceUpdate } from '../../services/preferences/preferenceRules'
+import { getDislikedAt, normalizePreferenceUpdate } from '../../services/preferences/preferenceRules'
 
 export interface UsePreferencesStateOptions {
   /** Filtered games (for autoSortByRating) */
@@ -56,15 +56,25 @@ export function usePreferencesState(options: UsePreferencesStateOptions): UsePre
         if (existingIndex >= 0) {
           const existing = userPrefs[existingIndex]
           const normalized = normalizePreferenceUpdate(existing, update)
-          userPrefs[existingIndex] = { ...existing, ...normalized, updatedAt: now }
+          userPrefs[existingIndex] = {
+            ...existing,
+            ...normalized,
+            dislikedAt: getDislikedAt(existing, normalized.isDisliked, now),
+            updatedAt: now,
+          }
         } else {
           const normalized = normalizePreferenceUpdate(undefined, update)
           userPrefs.push({
             username,
             bggId,
             rank: normalized.rank,
+            tier: normalized.tier,
             isTopPick: normalized.isTopPick,
             isDisliked: normalized.isDisliked,
+            dislikedAt: getDislikedAt(undefined, normalized.isDisliked, now),
+            knowsRules: normalized.knowsRules,
+            wantsToLearn: normalized.wantsToLearn,
+            willingToTeach: normalized.willingToTeach,
             updatedAt: now,
           })
         }
@@ -96,7 +106,7 @@ export function usePreferencesState(options: UsePreferencesStateOptions): UsePre
       const updatedExisting = existing.map((p) => {
         const newIndex = orderedBggIds.indexOf(p.bggId)
         if (newIndex !== -1) {
-          return { ...p, rank: newIndex + 1, isTopPick: false, isDisliked: false, updatedAt: now }
+          return { ...p, rank: newIndex + 1, tier: undefined, isTopPick: false, isDisliked: false, dislikedAt: undefined, updatedAt: now }
         }
         if (p.rank !== undefined && !orderedSet.has(p.bggId)) {
           return { ...p, rank: undefined, updatedAt: now }
@@ -154,6 +164,8 @@ export function usePreferencesState(options: UsePreferencesStateOptions): UsePre
 
       await dbService.saveUserPreferences(username, newPrefs)
 
+      const now = new Date().toISOString()
+      const existingById = new Map(existingPrefs.map((p) => [p.bggId, p]))
       setPreferences((prev) => ({
         ...prev,
         [username]: newPrefs.map((p) => ({
@@ -162,7 +174,8 @@ export function usePreferencesState(options: UsePreferencesStateOptions): UsePre
           rank: p.rank,
           isTopPick: p.isTopPick,
           isDisliked: p.isDisliked,
-          updatedAt: new Date().toISOString(),
+          dislikedAt: getDislikedAt(existingById.get(p.bggId), p.isDisliked, now),
+          updatedAt: now,
         })),
       }))
     },
@@ -1,24 +1,42 @@
 /**
  * Hook for managing recommendation state in the wizard.
  * 
- * Single responsibility: Compute recommendations, handle promoted alternatives.
+ * Single responsibility: Compute recommendations, handle promoted alternatives
+ * and the host's choice of voting method, recently-played penalty,
+ * teach-aware scoring, veto policy and tie margin (all persisted across reloads).
  * 
  * ## Usage
  * 
  * ```ts
- * const { recommendation, promoteAlternativeToTopPick } = useRecommendationState({
+ * const { recommendation, setRecommendationMethod } = useRecommendationState({
  *   filteredGames,
  *   preferences,
  *   users,
  *   filters,
+ *   recentPlays,
  * })
  * ```
  */
 import { useMemo, useState, useCallback } from 'react'
-import type { GameRecord, UserRecord, UserPreferenceRecord } from '../../db/types'
-import type { WizardFilters } from '../../store/wizardTypes'
+import type { GameRecord, PlayRecord, UserRecord, UserPreferenceRecord } from '../../db/types'
+import type { RecommendationMethod, VetoPolicy, WizardFilters } from '../../store/wizardTypes'
 import type { RecommendationState, RecommendationActions, RecommendationResult } from './types'
 import { computeRecommendation } from '../../services/recommendation/computeRecommendation'
+import type { OwnedExpansionsByGame } from '../../services/expansions/expansionRange'
+import type { VoterWeights } from '../../services/recommendation/methods'
+import type { SpinResult } from '../../services/recommendation/spinWheel'
+import {
+  getPersistedRecencyPenaltyDays,
+  getPersistedRecommendationMethod,
+  getPersistedTeachAware,
+  getPersistedTieEpsilon,
+  getPersistedVetoPolicy,
+  setPersistedRecencyPenaltyDays,
+  setPersistedRecommendationMethod,
+  setPersistedTeachAware,
+  setPersistedTieEpsilon,
+  setPersistedVetoPolicy,
+} from '../../services/storage/wizardStateStorage'
 
 export interface UseRecommendationStateOptions {
   /** Games that passed all filters */
@@ -29,6 +47,12 @@ export interface UseRecommendationStateOptions {
   users: UserRecord[]
   /** Current filters */
   filters: WizardFilters
+  /** Recent plays for the recently-played penalty */
+  recentPlays?: PlayRecord[]
+  /** Owned expansions, for the expansion match reason */
+  ownedExpansions?: OwnedExpansionsByGame
+  /** Voter weights applied to scoring */
+  voterWeights?: VoterWeights
 }
 
 export interface UseRecommendationStateResult extends RecommendationState, RecommendationActions {
@@ -39,9 +63,19 @@ export interface UseRecommendationStateResult extends RecommendationState, Recom
 export function useRecommendationState(
   options: UseRecommendationStateOptions,
 ): UseRecommendationStateResult {
-  const { filteredGames, preferences, users, filters } = options
+  const { filteredGames, preferences, users, filters, recentPlays, ownedExpansions, voterWeights } = options
 
   const [promotedPickBggId, setPromotedPickBggId] = useState<number | null>(null)
+  const [lastSpin, setLastSpin] = useState<SpinResult | null>(null)
+  const [recommendationMethod, setRecommendationMethodState] = useState<RecommendationMethod>(
+    () => getPersistedRecommendationMethod(),
+  )
+  const [recencyPenaltyDays, setRecencyPenaltyDaysState] = useState<number>(
+    () => getPersistedRecencyPenaltyDays(),
+  )
+  const [teachAware, setTeachAwareState] = useState<boolean>(() => getPersistedTeachAware())
+  const [vetoPolicy, setVetoPolicyState] = useState<VetoPolicy>(() => getPersistedVetoPolicy())
+  const [tieEpsilon, setTieEpsilonState] = useState<number>(() => getPersistedTieEpsilon())
 
   // Compute recommendation using the pure function
   const recommendation = useMemo((): RecommendationResult => {
@@ -51,13 +85,66 @@ export function useRecommendationState(
       users,
       filters,
       promotedPickBggId,
+      method: recommendationMethod,
+      recentPlays,
+      recencyPenaltyDays,
+      teachAware,
+      vetoPolicy,
+      tieEpsilon,
+      ownedExpansions,
+      voterWeights,
     })
-  }, [filteredGames, preferences, users, filters, promotedPickBggId])
+  }, [filteredGames, preferences, users, filters, promotedPickBggId, recommendationMethod, recentPlays, recencyPenaltyDays, teachAware, vetoPolicy, tieEpsilon, ownedExpansions, voterWeights])
 
   const promoteAlternativeToTopPick = useCallback((bggId: number) => {
     setPromotedPickBggId(bggId)
   }, [])
 
+  const setRecommendationMethod = useCallback((method: RecommendationMethod) => {
+    setRecommendationMethodState(method)
+    try {
+      setPersistedRecommendationMethod(method)
+    } catch {
+      // ignore
+    }
+  }, [])
+
+  const setRecencyPenaltyDays = useCallback((days: number) => {
+    setRecencyPenaltyDaysState(days)
+    try {
+      setPersistedRecencyPenaltyDays(days)
+    } catch {
+      // ignore
+    }
+  }, [])
+
+  const setTeachAware = useCallback((enabled: boolean) => {
+    setTeachAwareState(enabled)
+    try {
+      setPersistedTeachAware(enabled)
+    } catch {
+      // ignore
+    }
+  }, [])
+
+  const setVetoPolicy = useCallback((policy: VetoPolicy) => {
+    setVetoPolicyState(policy)
+    try {
+      setPersistedVetoPolicy(policy)
+    } catch {
+      // ignore
+    }
+  }, [])
+
+  const setTieEpsilon = useCallback((epsilon: number) => {
+    setTieEpsilonState(epsilon)
+    try {
+      setPersistedTieEpsilon(epsilon)
+    } catch {
+      // ignore
+    }
+  }, [])
+
   // computeRecommendation is now reactive - this is a no-op for backward compat
   const computeRecommendationAction = useCallback(() => {
     // Recommendation is computed reactively via useMemo
@@ -67,10 +154,22 @@ export function useRecommendationState(
     // State
     recommendation,
     promotedPickBggId,
+    recommendationMethod,
+    recencyPenaltyDays,
+    teachAware,
+    vetoPolicy,
+    lastSpin,
+    tieEpsilon,
 
     // Actions
     computeRecommendation: computeRecommendationAction,
     promoteAlternativeToTopPick,
+    setRecommendationMethod,
+    setRecencyPenaltyDays,
+    setTeachAware,
+    setVetoPolicy,
+    setLastSpin,
+    setTieEpsilon,
 
     // Direct setter
     setPromotedPickBggId,
@@ -90,13 +90,14 @@ describe('useSavedNightsState', () => {
           name: a.game.name,
           score: a.score,
         })),
+        method: 'borda',
       })
     })
 
     it('does not save if no top pick', async () => {
       const options = {
         ...createDefaultOptions(),
-        recommendation: { topPick: null, alternatives: [], vetoed: [] },
+        recommendation: { topPick: null, alternatives: [], vetoed: [], method: 'borda' as const },
       }
 
       const { result } = renderHook(() => useSavedNightsState(options))
@@ -128,6 +129,44 @@ describe('useSavedNightsState', () => {
         }),
       )
     })
+
+    it('saves the evening plan with its first game as the pick', async () => {
+      mockedDb.saveNight.mockResolvedValue(mockSavedNights[0])
+      const [first, second] = [mockRecommendation.alternatives[0], mockRecommendation.topPick!]
+      const options = {
+        ...createDefaultOptions(),
+        eveningPlan: {
+          budgetMinutes: 150,
+          heavyFirst: false,
+          games: [
+            { ...first, playingTimeMinutes: 90, startMinute: 0 },
+            { ...second, playingTimeMinutes: 30, startMinute: 90 },
+          ],
+          totalMinutes: 120,
+          totalScore: first.score + second.score,
+        },
+      }
+
+      const { result } = renderHook(() => useSavedNightsState(options))
+
+      await act(async () => {
+        await result.current.saveNight('Plan night')
+      })
+
+      expect(mockedDb.saveNight).toHaveBeenCalledWith(
+        expect.objectContaining({
+          pick: { bggId: first.game.bggId, name: first.game.name, score: first.score },
+          plan: {
+            budgetMinutes: 150,
+            heavyFirst: false,
+            games: [
+              { bggId: first.game.bggId, name: first.game.name, score: first.score, playingTimeMinutes: 90 },
+              { bggId: second.game.bggId, name: second.game.name, score: second.score, playingTimeMinutes: 30 },
+            ],
+          },
+        }),
+      )
+    })
   })
 
   describe('loadSavedNight', () => {
@@ -161,10 +200,36 @@ describe('useSavedNightsState', () => {
           games: mockGames,
           sessionGameIds: savedNight.data.gameIds,
           gameOwners: { 1: ['alice'] },
+          // Nights saved before voting methods existed were decided by Borda
+          method: 'borda',
         }),
       )
     })
 
+    it('restores the voting method the night was saved with', async () => {
+      mockedDb.getSavedNight.mockResolvedValue({
+        ...mockSavedNights[0],
+        data: { ...mockSavedNights[0].data, method: 'schulze' },
+      })
+      mockedDb.getUser.mockImplementation(async (username) =>
+        mockUsers.find((u) => u.username === username),
+      )
+      mockedDb.getGames.mockResolvedValue(mockGames)
+      mockedDb.getGameOwners.mockResolvedValue({})
+      mockedDb.getUserPreferences.mockResolvedValue([])
+      mockedDb.getUserGames.mockResolvedValue([])
+      mockedDb.setUserAsOrganizer.mockResolvedValue()
+
+      const onLoadNight = vi.fn()
+      const { result } = renderHook(() => useSavedNightsState({ ...createDefaultOptions(), onLoadNight }))
+
+      await act(async () => {
+        await result.current.loadSavedNight(1)
+      })
+
+      expect(onLoadNight).toHaveBeenCalledWith(expect.objectContaining({ method: 'schulze' }))
+    })
+
     it('creates local user if user not found in DB', async () => {
       const savedNight = {
         ...mockSavedNights[0],
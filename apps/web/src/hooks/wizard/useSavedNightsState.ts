@@ -17,13 +17,18 @@
  */
 import { useState, useCallback, useEffect } from 'react'
 import type { GameRecord, UserRecord, UserPreferenceRecord, SavedNightRecord } from '../../db/types'
-import type { WizardFilters } from '../../store/wizardTypes'
+import type { RecommendationMethod, WizardFilters } from '../../store/wizardTypes'
 import type { SavedNightsState, SavedNightsActions, RecommendationResult } from './types'
 import * as dbService from '../../services/db'
+import { toSavedPlan, type EveningPlan } from '../../services/recommendation/eveningPlan'
+import { toSavedVoterWeights } from '../../services/recommendation/voterWeights'
+import { toSavedSpin, type SpinResult } from '../../services/recommendation/spinWheel'
 
 export interface UseSavedNightsStateOptions {
   /** Current recommendation result */
   recommendation: RecommendationResult
+  /** Evening plan to save instead of the single pick, when planning */
+  eveningPlan?: EveningPlan | null
   /** Current users in session */
   users: UserRecord[]
   /** Current filters */
@@ -32,6 +37,10 @@ export interface UseSavedNightsStateOptions {
   sessionGameIds: number[]
   /** Current excluded game IDs */
   excludedBggIds: number[]
+  /** Fairness rotation switch, recorded with the night */
+  fairnessRotation?: boolean
+  /** Latest spin of the wheel, saved if it chose the pick */
+  lastSpin?: SpinResult | null
   /** Callback to load games and state when a night is loaded */
   onLoadNight?: (data: LoadedNightData) => void
 }
@@ -43,6 +52,8 @@ export interface LoadedNightData {
   gameOwners: Record<number, string[]>
   preferences: Record<string, UserPreferenceRecord[]>
   userRatings: Record<string, Record<number, number | undefined>>
+  /** Voting method the night was decided with, so it recomputes the same way */
+  method: RecommendationMethod
 }
 
 export interface UseSavedNightsStateResult extends SavedNightsState, SavedNightsActions {}
@@ -50,10 +61,13 @@ export interface UseSavedNightsStateResult extends SavedNightsState, SavedNights
 export function useSavedNightsState(options: UseSavedNightsStateOptions): UseSavedNightsStateResult {
   const {
     recommendation,
+    eveningPlan,
     users,
     filters,
     sessionGameIds,
     excludedBggIds,
+    fairnessRotation = false,
+    lastSpin = null,
     onLoadNight,
   } = options
 
@@ -78,7 +92,10 @@ export function useSavedNightsState(options: UseSavedNightsStateOptions): UseSav
 
   const saveNight = useCallback(
     async (name: string, description?: string, includeGuestUsernames?: string[]) => {
-      if (!recommendation.topPick) return
+      // A plan is saved whole; its first game doubles as the night's pick
+      const plan = eveningPlan?.games.length ? eveningPlan : null
+      const pick = plan?.games[0] ?? recommendation.topPick
+      if (!pick) return
 
       const excludedSet = new Set(excludedBggIds)
       const orgUsername = users.find((u) => u.isOrganizer)?.username
@@ -102,23 +119,27 @@ export function useSavedNightsState(options: UseSavedNightsStateOptions): UseSav
           complexityRange: filters.complexityRange,
           ratingRange: filters.ratingRange,
         },
+        method: recommendation.method,
         pick: {
-          bggId: recommendation.topPick.game.bggId,
-          name: recommendation.topPick.game.name,
-          score: recommendation.topPick.score,
+          bggId: pick.game.bggId,
+          name: pick.game.name,
+          score: pick.score,
         },
         alternatives: recommendation.alternatives.map((a) => ({
           bggId: a.game.bggId,
           name: a.game.name,
           score: a.score,
         })),
+        plan: plan ? toSavedPlan(plan) : undefined,
+        ...toSavedVoterWeights(recommendation.voterWeights, fairnessRotation, pick.breakdown),
+        ...toSavedSpin(lastSpin, pick.game.bggId),
       })
 
       // Refresh saved nights
       const nights = await dbService.getSavedNights()
       setSavedNights(nights)
     },
-    [recommendation, users, filters, sessionGameIds, excludedBggIds],
+    [recommendation, eveningPlan, users, filters, sessionGameIds, excludedBggIds, fairnessRotation, lastSpin],
   )
 
   const loadSavedNights = useCallback(async () => {
@@ -194,6 +215,7 @@ export function useSavedNightsState(options: UseSavedNightsStateOptions): UseSav
           gameOwners: owners,
           preferences: prefsMap,
           userRatings: ratingsMap,
+          method: data.method ?? 'borda',
         })
       } catch (err) {
         console.error('Failed to load saved night:', err)
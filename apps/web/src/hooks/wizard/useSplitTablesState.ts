@@ -0,0 +1,77 @@
+/**
+ * Hook for the split-table mode on the Result step.
+ *
+ * Single responsibility: Hold the host's table count and derive one pick per
+ * table (see services/recommendation/splitTables). A table count of 1 keeps
+ * the regular single-game recommendation.
+ *
+ * ## Usage
+ *
+ * ```ts
+ * const { tableCount, splitTables, setTableCount } = useSplitTablesState({
+ *   sessionGames,
+ *   filters,
+ *   userRatings,
+ *   preferences,
+ *   users,
+ *   gameOwners,
+ *   voterWeights,
+ *   vetoPolicy,
+ * })
+ * ```
+ */
+import { useMemo, useState } from 'react'
+import type { GameRecord, UserPreferenceRecord, UserRecord } from '../../db/types'
+import type { VetoPolicy, WizardFilters } from '../../store/wizardTypes'
+import type { SplitTablesActions, SplitTablesState } from './types'
+import type { OwnedExpansionsByGame } from '../../services/expansions/expansionRange'
+import type { GameTagsByGame } from '../../services/tags/gameTags'
+import type { GameCopiesByGame } from '../../services/lending/gameAvailability'
+import type { VoterWeights } from '../../services/recommendation/methods'
+import { computeSplitTables, getSplitTableCandidates } from '../../services/recommendation/splitTables'
+
+export interface UseSplitTablesStateOptions {
+  /** Games in the session (before filtering) */
+  sessionGames: GameRecord[]
+  filters: WizardFilters
+  userRatings: Record<string, Record<number, number | undefined>>
+  preferences: Record<string, UserPreferenceRecord[]>
+  users: UserRecord[]
+  /** bggId -> usernames who own the game */
+  gameOwners: Record<number, string[]>
+  ownedExpansions?: OwnedExpansionsByGame
+  gameTags?: GameTagsByGame
+  gameCopies?: GameCopiesByGame
+  /** Per-player vote multipliers, as used by the main recommendation */
+  voterWeights?: VoterWeights
+  /** Host's veto policy, as used by the main recommendation */
+  vetoPolicy?: VetoPolicy
+}
+
+export interface UseSplitTablesStateResult extends SplitTablesState, SplitTablesActions {}
+
+export function useSplitTablesState(options: UseSplitTablesStateOptions): UseSplitTablesStateResult {
+  const { sessionGames, filters, userRatings, preferences, users, gameOwners, ownedExpansions, gameTags, gameCopies, voterWeights, vetoPolicy } = options
+  const [tableCount, setTableCount] = useState(1)
+
+  const candidates = useMemo(
+    () => (tableCount > 1 ? getSplitTableCandidates(sessionGames, filters, userRatings, ownedExpansions, gameTags, gameCopies) : []),
+    [tableCount, sessionGames, filters, userRatings, ownedExpansions, gameTags, gameCopies],
+  )
+
+  const splitTables = useMemo(() => {
+    if (tableCount <= 1) return null
+    return computeSplitTables({
+      games: candidates,
+      preferences,
+      usernames: users.map((u) => u.username),
+      tableCount,
+      gameOwners,
+      ownedExpansions,
+      voterWeights,
+      vetoPolicy,
+    })
+  }, [tableCount, candidates, preferences, users, gameOwners, ownedExpansions, voterWeights, vetoPolicy])
+
+  return { tableCount, splitTables, setTableCount }
+}
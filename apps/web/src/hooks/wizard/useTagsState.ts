@@ -0,0 +1,30 @@
+/**
+ * Hook for user-defined tags and named game lists.
+ *
+ * Single responsibility: Keep tags, the tags on each game, and lists live
+ * from Dexie so the tag filter and "use list" actions see changes made in
+ * the game details dialog or the collection page immediately.
+ *
+ * ## Usage
+ *
+ * ```ts
+ * const { tags, gameTags, gameLists } = useTagsState()
+ * ```
+ */
+import { useMemo } from 'react'
+import { useLiveQuery } from 'dexie-react-hooks'
+import type { TagsState } from './types'
+import * as dbService from '../../services/db'
+import { groupGameTags } from '../../services/tags/gameTags'
+
+export function useTagsState(): TagsState {
+  const tags = useLiveQuery(() => dbService.getTags(), [])
+  const records = useLiveQuery(() => dbService.getGameTagRecords(), [])
+  const gameLists = useLiveQuery(() => dbService.getGameLists(), [])
+  const gameTags = useMemo(() => groupGameTags(records ?? []), [records])
+
+  return useMemo(
+    () => ({ tags: tags ?? [], gameTags, gameLists: gameLists ?? [] }),
+    [tags, gameTags, gameLists],
+  )
+}
@@ -0,0 +1,82 @@
+/**
+ * Hook for managing voter weights in the wizard.
+ *
+ * Single responsibility: Tonight's per-player weights (in memory only), the
+ * host's fairness rotation switch (persisted across reloads) and the boosts
+ * it derives from saved-night history.
+ *
+ * ## Usage
+ *
+ * ```ts
+ * const { appliedVoterWeights, setVoterWeight } = useVoterWeightsState()
+ * ```
+ */
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import type { VoterWeightsActions, VoterWeightsState } from './types'
+import type { VoterWeights } from '../../services/recommendation/methods'
+import { combineVoterWeights, getFairnessBoosts } from '../../services/recommendation/voterWeights'
+import * as dbService from '../../services/db'
+import {
+  getPersistedFairnessRotation,
+  setPersistedFairnessRotation,
+} from '../../services/storage/wizardStateStorage'
+
+export interface UseVoterWeightsStateResult extends VoterWeightsState, VoterWeightsActions {
+  /** Replace all of tonight's weights (e.g. on reset) */
+  setVoterWeights: (weights: VoterWeights) => void
+}
+
+export function useVoterWeightsState(): UseVoterWeightsStateResult {
+  const [voterWeights, setVoterWeights] = useState<VoterWeights>({})
+  const [fairnessRotation, setFairnessRotationState] = useState<boolean>(() => getPersistedFairnessRotation())
+  const [fairnessBoosts, setFairnessBoosts] = useState<VoterWeights>({})
+
+  // History is read once: saving tonight's night must not reshuffle tonight's pick
+  useEffect(() => {
+    let cancelled = false
+    dbService
+      .getSavedNights()
+      .then((nights) => {
+        if (!cancelled) setFairnessBoosts(getFairnessBoosts(nights))
+      })
+      .catch((err) => {
+        console.error('Failed to load saved nights for fairness rotation:', err)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const appliedVoterWeights = useMemo(
+    () => combineVoterWeights(voterWeights, fairnessRotation ? fairnessBoosts : undefined),
+    [voterWeights, fairnessRotation, fairnessBoosts],
+  )
+
+  const setVoterWeight = useCallback((username: string, weight: number) => {
+    setVoterWeights((prev) => {
+      const next = { ...prev }
+      if (weight === 1) delete next[username]
+      else next[username] = weight
+      return next
+    })
+  }, [])
+
+  const setFairnessRotation = useCallback((enabled: boolean) => {
+    setFairnessRotationState(enabled)
+    try {
+      setPersistedFairnessRotation(enabled)
+    } catch {
+      // ignore
+    }
+  }, [])
+
+  return {
+    voterWeights,
+    fairnessRotation,
+    fairnessBoosts,
+    appliedVoterWeights,
+    setVoterWeight,
+    setFairnessRotation,
+    setVoterWeights,
+  }
+}
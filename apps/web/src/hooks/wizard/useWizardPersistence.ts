@@ -80,8 +80,12 @@ export function useWizardPersistence(
           prefs.map((p) => ({
             bggId: p.bggId,
             rank: p.rank,
+            tier: p.tier,
             isTopPick: p.isTopPick,
             isDisliked: p.isDisliked,
+            knowsRules: p.knowsRules,
+            wantsToLearn: p.wantsToLearn,
+            willingToTeach: p.willingToTeach,
           })),
         ])
       ),
@@ -112,8 +116,12 @@ export function useWizardPersistence(
         username,
         bggId: p.bggId,
         rank: p.rank,
+        tier: p.tier,
         isTopPick: p.isTopPick,
         isDisliked: p.isDisliked,
+        knowsRules: p.knowsRules,
+        wantsToLearn: p.wantsToLearn,
+        willingToTeach: p.willingToTeach,
         updatedAt: now,
       }))
     }
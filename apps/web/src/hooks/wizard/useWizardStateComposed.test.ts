@@ -29,6 +29,9 @@ vi.mock('../../services/db', () => ({
   getUserGameIds: vi.fn().mockResolvedValue([]),
   getUserGames: vi.fn().mockResolvedValue([]),
   getUserPreferences: vi.fn().mockResolvedValue([]),
+  getPlaysSince: vi.fn().mockResolvedValue([]),
+  getOwnedExpansions: vi.fn().mockResolvedValue([]),
+  getSavedNights: vi.fn().mockResolvedValue([]),
 }))
 
 vi.mock('./useGamesState', () => ({
@@ -94,6 +97,8 @@ vi.mock('./useFiltersState', () => ({
     setAgeRange: vi.fn(),
     setComplexityRange: vi.fn(),
     setRatingRange: vi.fn(),
+    setFacetFilter: vi.fn(),
+    setPlayerCountFit: vi.fn(),
   }),
 }))
 
@@ -113,9 +118,11 @@ vi.mock('./usePreferencesState', () => ({
 
 vi.mock('./useRecommendationState', () => ({
   useRecommendationState: () => ({
-    recommendation: { topPick: null, alternatives: [], vetoed: [] },
+    recommendation: { topPick: null, alternatives: [], vetoed: [], method: 'borda' },
+    recommendationMethod: 'borda',
     computeRecommendation: vi.fn(),
     promoteAlternativeToTopPick: vi.fn(),
+    setRecommendationMethod: vi.fn(),
   }),
 }))
 
@@ -11,17 +11,31 @@
  * @see useGamesState - Game collection and session
  * @see useFiltersState - Filter configuration
  * @see usePreferencesState - User preferences
+ * @see useVoterWeightsState - Voter weights and fairness rotation
  * @see useRecommendationState - Recommendation computation
+ * @see useSplitTablesState - Split-table picks
+ * @see useEveningPlanState - Multi-game evening plan
+ * @see usePlayHistoryState - Recorded plays
+ * @see useExpansionsState - Owned expansions
+ * @see useTagsState - User tags and game lists
+ * @see useGameCopiesState - Copy locations and loans
  * @see useSavedNightsState - Saved game nights
  */
 import { useCallback, useState } from 'react'
-import type { UserRecord, UserPreferenceRecord } from '../../db/types'
-import type { WizardFilters } from '../../store/wizardTypes'
+import type { PreferenceTier, UserRecord, UserPreferenceRecord } from '../../db/types'
+import type { RecommendationMethod, WizardFilters } from '../../store/wizardTypes'
 import { usePlayersState } from './usePlayersState'
 import { useGamesState } from './useGamesState'
 import { useFiltersState } from './useFiltersState'
 import { usePreferencesState } from './usePreferencesState'
+import { useVoterWeightsState } from './useVoterWeightsState'
 import { useRecommendationState } from './useRecommendationState'
+import { useSplitTablesState } from './useSplitTablesState'
+import { useEveningPlanState } from './useEveningPlanState'
+import { usePlayHistoryState } from './usePlayHistoryState'
+import { useExpansionsState } from './useExpansionsState'
+import { useTagsState } from './useTagsState'
+import { useGameCopiesState } from './useGameCopiesState'
 import { useSavedNightsState, type LoadedNightData } from './useSavedNightsState'
 import { loadLayoutMode, saveLayoutMode, type LayoutMode } from '../../services/storage/uiPreferences'
 import { DEFAULT_FILTERS } from '../../services/filtering/filterConstants'
@@ -118,11 +132,17 @@ export function useWizardStateComposed() {
   })
 
   // ─────────────────────────────────────────────────────────────────────────
-  // Filters State
+  // Filters State (owned expansions widen player ranges, tags and copies narrow games)
   // ─────────────────────────────────────────────────────────────────────────
+  const expansionsState = useExpansionsState()
+  const tagsState = useTagsState()
+  const gameCopiesState = useGameCopiesState()
   const filtersState = useFiltersState({
     sessionGames: gamesState.sessionGames,
     userRatings: playersState.userRatings,
+    ownedExpansions: expansionsState.ownedExpansions,
+    gameTags: tagsState.gameTags,
+    gameCopies: gameCopiesState.gameCopies,
   })
 
   // ─────────────────────────────────────────────────────────────────────────
@@ -133,13 +153,44 @@ export function useWizardStateComposed() {
   })
 
   // ─────────────────────────────────────────────────────────────────────────
-  // Recommendation State
+  // Play History + Recommendation + Split Tables + Evening Plan State
   // ─────────────────────────────────────────────────────────────────────────
+  const playHistoryState = usePlayHistoryState()
+  const voterWeightsState = useVoterWeightsState()
   const recommendationState = useRecommendationState({
     filteredGames: filtersState.filteredGames,
     preferences: preferencesState.preferences,
     users: playersState.users,
     filters: filtersState.filters,
+    recentPlays: playHistoryState.recentPlays,
+    ownedExpansions: expansionsState.ownedExpansions,
+    voterWeights: voterWeightsState.appliedVoterWeights,
+  })
+  const splitTablesState = useSplitTablesState({
+    sessionGames: gamesState.sessionGames,
+    filters: filtersState.filters,
+    userRatings: playersState.userRatings,
+    preferences: preferencesState.preferences,
+    users: playersState.users,
+    gameOwners: gamesState.gameOwners,
+    ownedExpansions: expansionsState.ownedExpansions,
+    gameTags: tagsState.gameTags,
+    gameCopies: gameCopiesState.gameCopies,
+    voterWeights: voterWeightsState.appliedVoterWeights,
+    vetoPolicy: recommendationState.vetoPolicy,
+  })
+  const eveningPlanState = useEveningPlanState({
+    filteredGames: filtersState.filteredGames,
+    preferences: preferencesState.preferences,
+    users: playersState.users,
+    filters: filtersState.filters,
+    method: recommendationState.recommendationMethod,
+    recentPlays: playHistoryState.recentPlays,
+    recencyPenaltyDays: recommendationState.recencyPenaltyDays,
+    teachAware: recommendationState.teachAware,
+    vetoPolicy: recommendationState.vetoPolicy,
+    voterWeights: voterWeightsState.appliedVoterWeights,
+    ownedExpansions: expansionsState.ownedExpansions,
   })
 
   // ─────────────────────────────────────────────────────────────────────────
@@ -147,10 +198,13 @@ export function useWizardStateComposed() {
   // ─────────────────────────────────────────────────────────────────────────
   const savedNightsState = useSavedNightsState({
     recommendation: recommendationState.recommendation,
+    eveningPlan: eveningPlanState.eveningPlan,
     users: playersState.users,
     filters: filtersState.filters,
     sessionGameIds: gamesState.sessionGameIds,
     excludedBggIds: gamesState.excludedBggIds,
+    fairnessRotation: voterWeightsState.fairnessRotation,
+    lastSpin: recommendationState.lastSpin,
     onLoadNight: (data: LoadedNightData) => {
       playersState.setUsers(data.users)
       gamesState.setGames(data.games)
@@ -158,6 +212,7 @@ export function useWizardStateComposed() {
       gamesState.setGameOwners(data.gameOwners)
       preferencesState.setPreferences(data.preferences)
       preferencesState.setUserRatings(data.userRatings)
+      recommendationState.setRecommendationMethod(data.method)
     },
   })
 
@@ -177,7 +232,10 @@ export function useWizardStateComposed() {
     preferencesState.setPreferences({})
     preferencesState.setUserRatings({})
     playersState.setUserError(null)
-  }, [playersState, gamesState, filtersState, preferencesState])
+    splitTablesState.setTableCount(1)
+    voterWeightsState.setVoterWeights({})
+    eveningPlanState.setPlanBudgetMinutes(null)
+  }, [playersState, gamesState, filtersState, preferencesState, splitTablesState, voterWeightsState, eveningPlanState])
 
   const resetForNewSession = useCallback(() => {
     playersState.setUsers([])
@@ -188,7 +246,10 @@ export function useWizardStateComposed() {
     preferencesState.setPreferences({})
     preferencesState.setUserRatings({})
     playersState.setUserError(null)
-  }, [playersState, gamesState, filtersState, preferencesState])
+    splitTablesState.setTableCount(1)
+    voterWeightsState.setVoterWeights({})
+    eveningPlanState.setPlanBudgetMinutes(null)
+  }, [playersState, gamesState, filtersState, preferencesState, splitTablesState, voterWeightsState, eveningPlanState])
 
   const loadFromSessionState = useCallback(
     async (state: {
@@ -199,9 +260,11 @@ export function useWizardStateComposed() {
       preferences: Record<string, Array<{
         bggId: number
         rank?: number
+        tier?: PreferenceTier
         isTopPick: boolean
         isDisliked: boolean
       }>>
+      recommendationMethod?: RecommendationMethod
     }) => {
       // Load users from DB, materializing missing locals so we don't drop participants
       const loadedUsers: UserRecord[] = []
@@ -216,6 +279,9 @@ export function useWizardStateComposed() {
       gamesState.setSessionGameIds(state.sessionGameIds)
       gamesState.setExcludedBggIds(state.excludedBggIds)
       filtersState.setFilters(state.filters)
+      if (state.recommendationMethod) {
+        recommendationState.setRecommendationMethod(state.recommendationMethod)
+      }
 
       // Load games collection for these users from DB
       // This ensures the games array has all games needed for sessionGameIds
@@ -259,7 +325,7 @@ export function useWizardStateComposed() {
       preferencesState.setPreferences(fullPrefs)
       playersState.setUserError(null)
     },
-    [playersState, gamesState, filtersState, preferencesState],
+    [playersState, gamesState, filtersState, preferencesState, recommendationState],
   )
 
   // ─────────────────────────────────────────────────────────────────────────
@@ -302,6 +368,7 @@ export function useWizardStateComposed() {
     addGameManually: gamesState.addGameManually,
     updateGame: gamesState.updateGame,
     refreshGameFromBgg: gamesState.refreshGameFromBgg,
+    loadGamesIntoSession: gamesState.loadGamesIntoSession,
 
     // Filters state
     filters: filtersState.filters,
@@ -310,10 +377,15 @@ export function useWizardStateComposed() {
     setTimeRange: filtersState.setTimeRange,
     setMode: filtersState.setMode,
     setRequireBestWithPlayerCount: filtersState.setRequireBestWithPlayerCount,
+    setPlayerCountFit: filtersState.setPlayerCountFit,
     setExcludeLowRated: filtersState.setExcludeLowRated,
     setAgeRange: filtersState.setAgeRange,
     setComplexityRange: filtersState.setComplexityRange,
     setRatingRange: filtersState.setRatingRange,
+    setFacetFilter: filtersState.setFacetFilter,
+    setTagFilter: filtersState.setTagFilter,
+    setAvailableAt: filtersState.setAvailableAt,
+    setFilters: filtersState.setFilters,
 
     // Preferences state
     preferences: preferencesState.preferences,
@@ -327,8 +399,56 @@ export function useWizardStateComposed() {
     // Recommendation state
     recommendation: recommendationState.recommendation,
     promotedPickBggId: recommendationState.promotedPickBggId,
+    recommendationMethod: recommendationState.recommendationMethod,
     computeRecommendation: recommendationState.computeRecommendation,
     promoteAlternativeToTopPick: recommendationState.promoteAlternativeToTopPick,
+    setRecommendationMethod: recommendationState.setRecommendationMethod,
+    recencyPenaltyDays: recommendationState.recencyPenaltyDays,
+    setRecencyPenaltyDays: recommendationState.setRecencyPenaltyDays,
+    teachAware: recommendationState.teachAware,
+    setTeachAware: recommendationState.setTeachAware,
+    vetoPolicy: recommendationState.vetoPolicy,
+    setVetoPolicy: recommendationState.setVetoPolicy,
+    lastSpin: recommendationState.lastSpin,
+    setLastSpin: recommendationState.setLastSpin,
+    tieEpsilon: recommendationState.tieEpsilon,
+    setTieEpsilon: recommendationState.setTieEpsilon,
+
+    // Voter weights state
+    voterWeights: voterWeightsState.voterWeights,
+    fairnessRotation: voterWeightsState.fairnessRotation,
+    fairnessBoosts: voterWeightsState.fairnessBoosts,
+    appliedVoterWeights: voterWeightsState.appliedVoterWeights,
+    setVoterWeight: voterWeightsState.setVoterWeight,
+    setFairnessRotation: voterWeightsState.setFairnessRotation,
+
+    // Split tables state
+    tableCount: splitTablesState.tableCount,
+    splitTables: splitTablesState.splitTables,
+    setTableCount: splitTablesState.setTableCount,
+
+    // Evening plan state
+    planBudgetMinutes: eveningPlanState.planBudgetMinutes,
+    planHeavyFirst: eveningPlanState.planHeavyFirst,
+    eveningPlan: eveningPlanState.eveningPlan,
+    setPlanBudgetMinutes: eveningPlanState.setPlanBudgetMinutes,
+    setPlanHeavyFirst: eveningPlanState.setPlanHeavyFirst,
+
+    // Play history state
+    recentPlays: playHistoryState.recentPlays,
+    recordPlay: playHistoryState.recordPlay,
+    syncBggPlays: playHistoryState.syncBggPlays,
+
+    // Expansions state
+    ownedExpansions: expansionsState.ownedExpansions,
+
+    // Tags state
+    tags: tagsState.tags,
+    gameTags: tagsState.gameTags,
+    gameLists: tagsState.gameLists,
+
+    // Game copies state
+    gameCopies: gameCopiesState.gameCopies,
 
     // Saved nights state
     savedNights: savedNightsState.savedNights,
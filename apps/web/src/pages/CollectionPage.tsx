@@ -0,0 +1,192 @@
+/**
+ * Collection browser
+ *
+ * Every stored game in one sortable table, with search, facets and bulk
+ * edit / delete / owner changes / tagging. Works on the database directly and leaves
+ * tonight's wizard state alone.
+ */
+
+import { useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Box, Button, Container, IconButton, Paper, Stack, Typography } from '@mui/material'
+import ArrowBackIcon from '@mui/icons-material/ArrowBack'
+import EditIcon from '@mui/icons-material/Edit'
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline'
+import SwapHorizIcon from '@mui/icons-material/SwapHoriz'
+import LocalOfferIcon from '@mui/icons-material/LocalOffer'
+import PlaylistAddIcon from '@mui/icons-material/PlaylistAdd'
+import { colors } from '../theme/theme'
+import { useActiveSessions } from '../hooks/useActiveSessions'
+import { useToast } from '../services/toast'
+import type { GameRecord } from '../db/types'
+import {
+  DEFAULT_COLLECTION_SORT,
+  filterCollectionRows,
+  sortCollectionRows,
+  type CollectionQuery,
+  type CollectionSort,
+} from '../services/collection/collectionRows'
+import { ConfirmDialog } from '../components/ConfirmDialog'
+import { GameEditDialog } from '../components/GameEditDialog'
+import { SessionsPageHeader } from './sessions/SessionsPageHeader'
+import { useCollectionData } from './collection/useCollectionData'
+import { CollectionFilters } from './collection/CollectionFilters'
+import { CollectionTable } from './collection/CollectionTable'
+import { BulkEditGamesDialog } from './collection/BulkEditGamesDialog'
+import { ReassignOwnerDialog } from './collection/ReassignOwnerDialog'
+import { GroupGamesDialog } from './collection/GroupGamesDialog'
+
+const EMPTY_QUERY: CollectionQuery = { search: '', owner: null, facets: undefined }
+
+export function CollectionPage() {
+  const navigate = useNavigate()
+  const toast = useToast()
+  const { sessions } = useActiveSessions()
+  const { rows, users, isLoading, updateGame, updateGames, deleteGames, reassignOwner, tagGames, addGamesToList } =
+    useCollectionData()
+
+  const [query, setQuery] = useState<CollectionQuery>(EMPTY_QUERY)
+  const [sort, setSort] = useState<CollectionSort>(DEFAULT_COLLECTION_SORT)
+  const [selected, setSelected] = useState<number[]>([])
+  const [editingGame, setEditingGame] = useState<GameRecord | null>(null)
+  const [dialog, setDialog] = useState<'edit' | 'owner' | 'tag' | 'list' | 'delete' | null>(null)
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  const visibleRows = useMemo(() => sortCollectionRows(filterCollectionRows(rows, query), sort), [query, rows, sort])
+  // Bulk actions only apply to selected games that are still listed
+  const selectedIds = useMemo(
+    () => visibleRows.map((r) => r.game.bggId).filter((id) => selected.includes(id)),
+    [selected, visibleRows],
+  )
+  const selectedOwners = useMemo(
+    () => [...new Set(visibleRows.filter((r) => selectedIds.includes(r.game.bggId)).flatMap((r) => r.owners))],
+    [selectedIds, visibleRows],
+  )
+  const displayNames = useMemo(() => new Map(users.map((u) => [u.username, u.displayName ?? u.username])), [users])
+  const ownerLabel = (username: string) => displayNames.get(username) ?? username
+  const gamesLabel = (count: number) => `${count} game${count === 1 ? '' : 's'}`
+
+  const handleDelete = async () => {
+    setIsDeleting(true)
+    try {
+      await deleteGames(selectedIds)
+      toast.success(`Deleted ${selectedIds.length} game${selectedIds.length === 1 ? '' : 's'}`)
+      setSelected([])
+      setDialog(null)
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to delete games')
+    } finally {
+      setIsDeleting(false)
+    }
+  }
+
+  return (
+    <Box sx={{ minHeight: '100vh', bgcolor: colors.warmWhite }}>
+      <SessionsPageHeader activeSessionCount={sessions.length} onOpenSessions={() => navigate('/sessions')} />
+
+      <Container maxWidth="lg" sx={{ py: 3 }}>
+        <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 2 }}>
+          <IconButton aria-label="Back" onClick={() => navigate('/')} sx={{ color: colors.oceanBlue }}>
+            <ArrowBackIcon />
+          </IconButton>
+          <Typography variant="h5" sx={{ fontWeight: 700, flex: 1 }}>
+            Collection
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {isLoading ? 'Loading…' : `${visibleRows.length} of ${rows.length} games`}
+          </Typography>
+        </Stack>
+
+        <CollectionFilters games={rows.map((r) => r.game)} users={users} query={query} onQueryChange={setQuery} />
+
+        {selectedIds.length > 0 ? (
+          <Paper variant="outlined" sx={{ px: 2, py: 1, mb: 2 }}>
+            <Stack direction="row" alignItems="center" spacing={1} flexWrap="wrap" useFlexGap>
+              <Typography variant="body2" fontWeight={600} sx={{ flex: 1 }}>
+                {selectedIds.length} selected
+              </Typography>
+              <Button size="small" startIcon={<EditIcon />} onClick={() => setDialog('edit')}>
+                Edit
+              </Button>
+              <Button size="small" startIcon={<SwapHorizIcon />} onClick={() => setDialog('owner')}>
+                Change owner
+              </Button>
+              <Button size="small" startIcon={<LocalOfferIcon />} onClick={() => setDialog('tag')}>
+                Tag
+              </Button>
+              <Button size="small" startIcon={<PlaylistAddIcon />} onClick={() => setDialog('list')}>
+                Add to list
+              </Button>
+              <Button size="small" color="error" startIcon={<DeleteOutlineIcon />} onClick={() => setDialog('delete')}>
+                Delete
+              </Button>
+            </Stack>
+          </Paper>
+        ) : null}
+
+        <CollectionTable
+          rows={visibleRows}
+          sort={sort}
+          onSortChange={setSort}
+          selected={selectedIds}
+          onSelectedChange={setSelected}
+          ownerLabel={ownerLabel}
+          onEditGame={(row) => setEditingGame(row.game)}
+        />
+      </Container>
+
+      <GameEditDialog
+        open={editingGame !== null}
+        game={editingGame}
+        onClose={() => setEditingGame(null)}
+        onSave={updateGame}
+      />
+      <BulkEditGamesDialog
+        open={dialog === 'edit'}
+        count={selectedIds.length}
+        onClose={() => setDialog(null)}
+        onSave={async (changes) => {
+          await updateGames(selectedIds, changes)
+          toast.success(`Updated ${selectedIds.length} game${selectedIds.length === 1 ? '' : 's'}`)
+        }}
+      />
+      <ReassignOwnerDialog
+        open={dialog === 'owner'}
+        count={selectedIds.length}
+        users={users}
+        currentOwners={selectedOwners}
+        ownerLabel={ownerLabel}
+        onClose={() => setDialog(null)}
+        onReassign={async (from, to) => {
+          await reassignOwner(selectedIds, from, to)
+          toast.success(`Moved ${selectedIds.length} game${selectedIds.length === 1 ? '' : 's'} to ${ownerLabel(to)}`)
+        }}
+      />
+      <GroupGamesDialog
+        open={dialog === 'tag' || dialog === 'list'}
+        kind={dialog === 'list' ? 'list' : 'tag'}
+        count={selectedIds.length}
+        onClose={() => setDialog(null)}
+        onSubmit={async (name) => {
+          if (dialog === 'list') {
+            const list = await addGamesToList(selectedIds, name)
+            toast.success(`Added ${gamesLabel(selectedIds.length)} to "${list.name}"`)
+          } else {
+            const tag = await tagGames(selectedIds, name)
+            toast.success(`Tagged ${gamesLabel(selectedIds.length)} "${tag.name}"`)
+          }
+        }}
+      />
+      <ConfirmDialog
+        open={dialog === 'delete'}
+        title="Delete games"
+        message={`Delete ${selectedIds.length} game${selectedIds.length === 1 ? '' : 's'} with their owners, preferences and notes? Recorded plays are kept.`}
+        confirmLabel="Delete"
+        isDestructive
+        isLoading={isDeleting}
+        onConfirm={() => void handleDelete()}
+        onCancel={() => setDialog(null)}
+      />
+    </Box>
+  )
+}
@@ -0,0 +1,127 @@
+/**
+ * Player profile
+ *
+ * One player as a whole: owned games, current preferences, the saved
+ * nights they attended, and actions to rename, link BGG or merge duplicates.
+ */
+
+import { useState } from 'react'
+import { useNavigate, useParams } from 'react-router-dom'
+import { Box, CircularProgress, Container, IconButton, Stack, Typography } from '@mui/material'
+import ArrowBackIcon from '@mui/icons-material/ArrowBack'
+import { colors } from '../theme/theme'
+import { useActiveSessions } from '../hooks/useActiveSessions'
+import { useToast } from '../services/toast'
+import { SessionsPageHeader } from './sessions/SessionsPageHeader'
+import { usePlayerProfile } from './players/usePlayerProfile'
+import { PlayerIdentityCard } from './players/PlayerIdentityCard'
+import { PlayerPreferencesCard } from './players/PlayerPreferencesCard'
+import { PlayerGamesCard, PlayerNightsCard } from './players/PlayerHistoryCards'
+import { PlayerTextDialog } from './players/PlayerTextDialog'
+import { MergePlayerDialog } from './players/MergePlayerDialog'
+
+export function PlayerProfilePage() {
+  const { username = '' } = useParams<{ username: string }>()
+  const navigate = useNavigate()
+  const toast = useToast()
+  const { sessions } = useActiveSessions()
+  const { profile, isLoading, rename, linkBgg, previewMerge, mergeFrom, undoMerge } = usePlayerProfile(username)
+  const [dialog, setDialog] = useState<'rename' | 'bgg' | 'merge' | null>(null)
+
+  const name = profile ? profile.user.displayName ?? profile.user.username : username
+
+  return (
+    <Box sx={{ minHeight: '100vh', bgcolor: colors.warmWhite }}>
+      <SessionsPageHeader activeSessionCount={sessions.length} onOpenSessions={() => navigate('/sessions')} />
+
+      <Container maxWidth="md" sx={{ py: 3 }}>
+        <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 2 }}>
+          <IconButton aria-label="Back" onClick={() => navigate(-1)} sx={{ color: colors.oceanBlue }}>
+            <ArrowBackIcon />
+          </IconButton>
+          <Typography variant="h5" sx={{ fontWeight: 700, flex: 1 }}>
+            Player
+          </Typography>
+        </Stack>
+
+        {isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 6 }}>
+            <CircularProgress />
+          </Box>
+        ) : !profile ? (
+          <Typography color="text.secondary">No player called "{username}" on this device.</Typography>
+        ) : (
+          <Stack spacing={2}>
+            <PlayerIdentityCard
+              user={profile.user}
+              ownedCount={profile.ownedGames.length}
+              nightsCount={profile.stats.nights.length}
+              topPickWins={profile.stats.topPickWins}
+              duplicateCount={profile.duplicates.length}
+              onRename={() => setDialog('rename')}
+              onLinkBgg={() => setDialog('bgg')}
+              onMerge={() => setDialog('merge')}
+            />
+            <Box sx={{ display: 'grid', gap: 2, gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' }, alignItems: 'start' }}>
+              <PlayerPreferencesCard stats={profile.stats} gamesById={profile.gamesById} />
+              <PlayerNightsCard nights={profile.stats.nights} />
+            </Box>
+            <PlayerGamesCard ownedGames={profile.ownedGames} />
+          </Stack>
+        )}
+      </Container>
+
+      {profile && dialog === 'rename' ? (
+        <PlayerTextDialog
+          open
+          title="Rename player"
+          label="Name"
+          initialValue={name}
+          confirmLabel="Rename"
+          onClose={() => setDialog(null)}
+          onSubmit={async (value) => {
+            await rename(value)
+            toast.success(`Renamed to ${value}`)
+          }}
+        />
+      ) : null}
+      {profile && dialog === 'bgg' ? (
+        <PlayerTextDialog
+          open
+          title="Link BGG account"
+          label="BGG username"
+          helperText="Their BGG collection is synced to this player."
+          initialValue={profile.user.bggUsername ?? ''}
+          confirmLabel="Link and sync"
+          onClose={() => setDialog(null)}
+          onSubmit={async (value) => {
+            const count = await linkBgg(value)
+            toast.success(`Linked BGG "${value}" - synced ${count} games`)
+          }}
+        />
+      ) : null}
+      {profile && dialog === 'merge' ? (
+        <MergePlayerDialog
+          open
+          targetName={name}
+          duplicates={profile.duplicates}
+          gameName={(bggId) => profile.gamesById.get(bggId)?.name ?? `#${bggId}`}
+          onPreview={previewMerge}
+          onClose={() => setDialog(null)}
+          onMerge={async (duplicateUsername) => {
+            const snapshot = await mergeFrom(duplicateUsername)
+            toast.success(`Merged into ${name}`, {
+              autoHideMs: 10000,
+              actionLabel: 'Undo',
+              onAction: () => {
+                void undoMerge(snapshot)
+                  .then(() => toast.info('Merge undone'))
+                  .catch((err: unknown) => toast.error(err instanceof Error ? err.message : 'Failed to undo merge'))
+              },
+            })
+          }}
+        />
+      ) : null}
+    </Box>
+  )
+}
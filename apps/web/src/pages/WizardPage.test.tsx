@@ -20,6 +20,12 @@ vi.mock('../services/db', () => ({
   setUserAsOrganizer: vi.fn().mockResolvedValue(undefined),
   saveNight: vi.fn().mockResolvedValue({}),
   getSavedNights: vi.fn().mockResolvedValue([]),
+  getPlaysSince: vi.fn().mockResolvedValue([]),
+  getOwnedExpansions: vi.fn().mockResolvedValue([]),
+  getTags: vi.fn().mockResolvedValue([]),
+  getGameTagRecords: vi.fn().mockResolvedValue([]),
+  getAllGameCopies: vi.fn().mockResolvedValue([]),
+  getGameLists: vi.fn().mockResolvedValue([]),
   getSavedNight: vi.fn().mockResolvedValue(null),
   addGameToUser: vi.fn().mockResolvedValue(undefined),
   removeGameFromUser: vi.fn().mockResolvedValue(undefined),
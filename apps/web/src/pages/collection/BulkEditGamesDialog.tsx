@@ -0,0 +1,74 @@
+import { useState } from 'react'
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Stack,
+  Typography,
+} from '@mui/material'
+import type { GameRecord } from '../../db/types'
+import { GameEditFieldsPane } from '../../components/gameEdit/GameEditFieldsPane'
+
+const BLANK_GAME: GameRecord = { bggId: 0, name: '', lastFetchedAt: '' }
+
+/**
+ * The game edit fields applied to every selected game. Only the fields the
+ * user touches are written; the rest keep each game's own value.
+ */
+export function BulkEditGamesDialog(props: {
+  open: boolean
+  count: number
+  onClose: () => void
+  onSave: (changes: Partial<Omit<GameRecord, 'bggId'>>) => Promise<void>
+}) {
+  const { open, count, onClose, onSave } = props
+  const [draft, setDraft] = useState<GameRecord>(BLANK_GAME)
+  const [changes, setChanges] = useState<Partial<Omit<GameRecord, 'bggId'>>>({})
+  const [isSaving, setIsSaving] = useState(false)
+  const changedCount = Object.keys(changes).length
+
+  const handleClose = () => {
+    setDraft(BLANK_GAME)
+    setChanges({})
+    onClose()
+  }
+
+  const handleChange = (field: keyof GameRecord, value: unknown) => {
+    setDraft((prev) => ({ ...prev, [field]: value }))
+    setChanges((prev) => ({ ...prev, [field]: value }))
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    try {
+      await onSave(changes)
+      handleClose()
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Edit {count} game{count === 1 ? '' : 's'}</DialogTitle>
+      <DialogContent dividers>
+        <Stack spacing={2}>
+          <Typography variant="body2" color="text.secondary">
+            Fields you fill in are set on every selected game. Leave a field alone to keep each game's current value.
+          </Typography>
+          <GameEditFieldsPane game={draft} onChange={handleChange} />
+        </Stack>
+      </DialogContent>
+      <DialogActions sx={{ px: 3, py: 2 }}>
+        <Button onClick={handleClose} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} variant="contained" disabled={isSaving || changedCount === 0}>
+          {isSaving ? 'Saving…' : `Apply to ${count} game${count === 1 ? '' : 's'}`}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
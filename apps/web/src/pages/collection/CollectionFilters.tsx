@@ -0,0 +1,80 @@
+import { useState } from 'react'
+import { Box, Button, Collapse, InputAdornment, MenuItem, Stack, TextField } from '@mui/material'
+import SearchIcon from '@mui/icons-material/Search'
+import TuneIcon from '@mui/icons-material/Tune'
+import type { GameRecord, UserRecord } from '../../db/types'
+import type { CollectionQuery } from '../../services/collection/collectionRows'
+import { hasActiveFacets } from '../../services/filtering/gameFacets'
+import { FacetFiltersSection } from '../../components/steps/filters/FacetFiltersSection'
+
+const ANY_OWNER = '__any__'
+const NO_OWNER = '__none__'
+
+export function CollectionFilters(props: {
+  games: GameRecord[]
+  users: UserRecord[]
+  query: CollectionQuery
+  onQueryChange: (query: CollectionQuery) => void
+}) {
+  const { games, users, query, onQueryChange } = props
+  const [showFacets, setShowFacets] = useState(false)
+  const ownerValue = query.owner === null ? ANY_OWNER : query.owner === '' ? NO_OWNER : query.owner
+
+  const handleOwnerChange = (value: string) =>
+    onQueryChange({ ...query, owner: value === ANY_OWNER ? null : value === NO_OWNER ? '' : value })
+
+  return (
+    <Box sx={{ mb: 2 }}>
+      <Stack direction={{ xs: 'column', sm: 'row' }} spacing={1.5} alignItems={{ sm: 'center' }}>
+        <TextField
+          size="small"
+          placeholder="Search games"
+          value={query.search}
+          onChange={(e) => onQueryChange({ ...query, search: e.target.value })}
+          sx={{ flex: 1 }}
+          slotProps={{
+            input: {
+              startAdornment: (
+                <InputAdornment position="start">
+                  <SearchIcon fontSize="small" />
+                </InputAdornment>
+              ),
+            },
+          }}
+        />
+        <TextField
+          select
+          size="small"
+          label="Owner"
+          value={ownerValue}
+          onChange={(e) => handleOwnerChange(e.target.value)}
+          sx={{ minWidth: 180 }}
+        >
+          <MenuItem value={ANY_OWNER}>Anyone</MenuItem>
+          <MenuItem value={NO_OWNER}>Nobody</MenuItem>
+          {users.map((u) => (
+            <MenuItem key={u.username} value={u.username}>
+              {u.displayName ?? u.username}
+            </MenuItem>
+          ))}
+        </TextField>
+        <Button
+          startIcon={<TuneIcon />}
+          variant={showFacets || hasActiveFacets(query.facets) ? 'contained' : 'outlined'}
+          onClick={() => setShowFacets((v) => !v)}
+        >
+          Facets
+        </Button>
+      </Stack>
+      <Collapse in={showFacets} unmountOnExit>
+        <Box sx={{ pt: 2 }}>
+          <FacetFiltersSection
+            games={games}
+            facets={query.facets}
+            onFacetFilterChange={(facet, filter) => onQueryChange({ ...query, facets: { ...query.facets, [facet]: filter } })}
+          />
+        </Box>
+      </Collapse>
+    </Box>
+  )
+}
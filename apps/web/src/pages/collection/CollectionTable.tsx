@@ -0,0 +1,132 @@
+import { Fragment } from 'react'
+import { Link as RouterLink } from 'react-router-dom'
+import {
+  Avatar,
+  Checkbox,
+  Link,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TableSortLabel,
+  Typography,
+} from '@mui/material'
+import type { CollectionRow, CollectionSort, CollectionSortKey } from '../../services/collection/collectionRows'
+import { formatPlayTime } from '../../components/gameEdit/gameEditUtils'
+
+const COLUMNS: Array<{ key: CollectionSortKey; label: string; numeric?: boolean }> = [
+  { key: 'name', label: 'Name' },
+  { key: 'weight', label: 'Weight', numeric: true },
+  { key: 'rating', label: 'Rating', numeric: true },
+  { key: 'time', label: 'Time', numeric: true },
+  { key: 'owners', label: 'Owners' },
+  { key: 'lastPlayed', label: 'Last played' },
+]
+
+export function CollectionTable(props: {
+  rows: CollectionRow[]
+  sort: CollectionSort
+  onSortChange: (sort: CollectionSort) => void
+  selected: number[]
+  onSelectedChange: (bggIds: number[]) => void
+  ownerLabel: (username: string) => string
+  onEditGame: (row: CollectionRow) => void
+}) {
+  const { rows, sort, onSortChange, selected, onSelectedChange, ownerLabel, onEditGame } = props
+  const selectedSet = new Set(selected)
+  const allSelected = rows.length > 0 && rows.every((r) => selectedSet.has(r.game.bggId))
+  const someSelected = rows.some((r) => selectedSet.has(r.game.bggId))
+
+  const toggle = (bggId: number) =>
+    onSelectedChange(selectedSet.has(bggId) ? selected.filter((id) => id !== bggId) : [...selected, bggId])
+
+  const handleSort = (key: CollectionSortKey) =>
+    onSortChange({ key, direction: sort.key === key && sort.direction === 'asc' ? 'desc' : 'asc' })
+
+  return (
+    <TableContainer sx={{ bgcolor: 'background.paper', borderRadius: 2, border: '1px solid', borderColor: 'divider' }}>
+      <Table size="small" stickyHeader aria-label="Game collection">
+        <TableHead>
+          <TableRow>
+            <TableCell padding="checkbox">
+              <Checkbox
+                indeterminate={someSelected && !allSelected}
+                checked={allSelected}
+                onChange={() => onSelectedChange(allSelected ? [] : rows.map((r) => r.game.bggId))}
+                slotProps={{ input: { 'aria-label': 'Select all games' } }}
+              />
+            </TableCell>
+            {COLUMNS.map((col) => (
+              <TableCell key={col.key} align={col.numeric ? 'right' : 'left'} sortDirection={sort.key === col.key ? sort.direction : false}>
+                <TableSortLabel
+                  active={sort.key === col.key}
+                  direction={sort.key === col.key ? sort.direction : 'asc'}
+                  onClick={() => handleSort(col.key)}
+                >
+                  {col.label}
+                </TableSortLabel>
+              </TableCell>
+            ))}
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {rows.map((row) => {
+            const { game } = row
+            const isSelected = selectedSet.has(game.bggId)
+            return (
+              <TableRow key={game.bggId} hover selected={isSelected}>
+                <TableCell padding="checkbox">
+                  <Checkbox
+                    checked={isSelected}
+                    onChange={() => toggle(game.bggId)}
+                    slotProps={{ input: { 'aria-label': `Select ${game.name}` } }}
+                  />
+                </TableCell>
+                <TableCell>
+                  <Stack direction="row" alignItems="center" spacing={1.5}>
+                    <Avatar variant="rounded" src={game.thumbnail} alt="" sx={{ width: 32, height: 32 }}>
+                      {game.name.charAt(0)}
+                    </Avatar>
+                    <Link component="button" variant="body2" underline="hover" onClick={() => onEditGame(row)} sx={{ textAlign: 'left', fontWeight: 600 }}>
+                      {game.name}
+                    </Link>
+                  </Stack>
+                </TableCell>
+                <TableCell align="right">{game.weight ? game.weight.toFixed(1) : '—'}</TableCell>
+                <TableCell align="right">{game.averageRating ? game.averageRating.toFixed(1) : '—'}</TableCell>
+                <TableCell align="right">{formatPlayTime(game) || '—'}</TableCell>
+                <TableCell>
+                  {row.owners.length ? (
+                    row.owners.map((username, index) => (
+                      <Fragment key={username}>
+                        {index > 0 ? ', ' : null}
+                        <Link component={RouterLink} to={`/players/${encodeURIComponent(username)}`} variant="body2" underline="hover">
+                          {ownerLabel(username)}
+                        </Link>
+                      </Fragment>
+                    ))
+                  ) : (
+                    <Typography variant="body2" color="text.secondary">
+                      Nobody
+                    </Typography>
+                  )}
+                </TableCell>
+                <TableCell>{row.lastPlayedAt ?? 'Never'}</TableCell>
+              </TableRow>
+            )
+          })}
+          {rows.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={COLUMNS.length + 1} align="center" sx={{ py: 4, color: 'text.secondary' }}>
+                No games match these filters.
+              </TableCell>
+            </TableRow>
+          ) : null}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  )
+}
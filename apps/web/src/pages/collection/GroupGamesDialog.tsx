@@ -0,0 +1,91 @@
+import { useState } from 'react'
+import {
+  Autocomplete,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material'
+import { useLiveQuery } from 'dexie-react-hooks'
+import * as dbService from '../../services/db'
+
+/**
+ * Tag the selected games, or add them to a named list. Picks an existing
+ * tag or list, or creates one from the typed name.
+ */
+export function GroupGamesDialog(props: {
+  open: boolean
+  kind: 'tag' | 'list'
+  count: number
+  onClose: () => void
+  onSubmit: (name: string) => Promise<void>
+}) {
+  const { open, kind, count, onClose, onSubmit } = props
+  const names = useLiveQuery(
+    async () => (kind === 'tag' ? await dbService.getTags() : await dbService.getGameLists()).map((r) => r.name),
+    [kind],
+  )
+  const [name, setName] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleClose = () => {
+    setName('')
+    setError(null)
+    onClose()
+  }
+
+  const handleSubmit = async () => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      await onSubmit(name)
+      handleClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="xs" fullWidth>
+      <DialogTitle>{kind === 'tag' ? 'Tag games' : 'Add to list'}</DialogTitle>
+      <DialogContent dividers>
+        <Stack spacing={2}>
+          <Typography variant="body2" color="text.secondary">
+            {count} game{count === 1 ? '' : 's'} selected. Pick {kind === 'tag' ? 'a tag' : 'a list'} or type a new name.
+          </Typography>
+          <Autocomplete
+            freeSolo
+            size="small"
+            options={names ?? []}
+            inputValue={name}
+            onInputChange={(_, value) => setName(value)}
+            renderInput={(params) => (
+              <TextField
+                {...params}
+                autoFocus
+                label={kind === 'tag' ? 'Tag' : 'List'}
+                error={error !== null}
+                helperText={error ?? undefined}
+              />
+            )}
+          />
+        </Stack>
+      </DialogContent>
+      <DialogActions sx={{ px: 3, py: 2 }}>
+        <Button onClick={handleClose} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button onClick={handleSubmit} variant="contained" disabled={isSaving || !name.trim()}>
+          {isSaving ? 'Saving…' : kind === 'tag' ? 'Tag' : 'Add'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,88 @@
+import { useState } from 'react'
+import {
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  MenuItem,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material'
+import type { UserRecord } from '../../db/types'
+
+const ALL_OWNERS = '__all__'
+
+/**
+ * Move the selected games from one owner (or all of them) to another player.
+ */
+export function ReassignOwnerDialog(props: {
+  open: boolean
+  count: number
+  users: UserRecord[]
+  /** Owners of the selected games, offered as the "from" choice */
+  currentOwners: string[]
+  ownerLabel: (username: string) => string
+  onClose: () => void
+  onReassign: (fromUsername: string | null, toUsername: string) => Promise<void>
+}) {
+  const { open, count, users, currentOwners, ownerLabel, onClose, onReassign } = props
+  const [from, setFrom] = useState(ALL_OWNERS)
+  const [to, setTo] = useState('')
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleClose = () => {
+    setFrom(ALL_OWNERS)
+    setTo('')
+    onClose()
+  }
+
+  const handleReassign = async () => {
+    setIsSaving(true)
+    try {
+      await onReassign(from === ALL_OWNERS ? null : from, to)
+      handleClose()
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={handleClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Change owner</DialogTitle>
+      <DialogContent dividers>
+        <Stack spacing={2}>
+          <Typography variant="body2" color="text.secondary">
+            {count} game{count === 1 ? '' : 's'} selected.
+          </Typography>
+          <TextField select size="small" label="Take from" value={from} onChange={(e) => setFrom(e.target.value)}>
+            <MenuItem value={ALL_OWNERS}>All current owners</MenuItem>
+            {currentOwners.map((username) => (
+              <MenuItem key={username} value={username}>
+                {ownerLabel(username)}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField select size="small" label="Give to" value={to} onChange={(e) => setTo(e.target.value)}>
+            {users
+              .filter((u) => u.username !== from)
+              .map((u) => (
+                <MenuItem key={u.username} value={u.username}>
+                  {u.displayName ?? u.username}
+                </MenuItem>
+              ))}
+          </TextField>
+        </Stack>
+      </DialogContent>
+      <DialogActions sx={{ px: 3, py: 2 }}>
+        <Button onClick={handleClose} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button onClick={handleReassign} variant="contained" disabled={isSaving || !to}>
+          {isSaving ? 'Saving…' : 'Change owner'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
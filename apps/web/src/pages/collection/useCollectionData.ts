@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useState } from 'react'
+import type { GameRecord, UserRecord } from '../../db/types'
+import * as dbService from '../../services/db'
+import { buildCollectionRows, type CollectionRow } from '../../services/collection/collectionRows'
+
+async function loadCollection(): Promise<{ rows: CollectionRow[]; users: UserRecord[] }> {
+  const [games, users, lastPlayed] = await Promise.all([
+    dbService.getAllGames(),
+    dbService.getAllUsers(),
+    dbService.getLastPlayedDates(),
+  ])
+  const owners = await dbService.getGameOwners(games.map((g) => g.bggId))
+  return { rows: buildCollectionRows(games, owners, lastPlayed), users }
+}
+
+/**
+ * Every stored game with owners and last play, read straight from the
+ * database so browsing and editing here never touches tonight's wizard state.
+ */
+export function useCollectionData() {
+  const [rows, setRows] = useState<CollectionRow[]>([])
+  const [users, setUsers] = useState<UserRecord[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+
+  const reload = useCallback(async () => {
+    const data = await loadCollection()
+    setRows(data.rows)
+    setUsers(data.users)
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+    void loadCollection()
+      .then((data) => {
+        if (cancelled) return
+        setRows(data.rows)
+        setUsers(data.users)
+      })
+      .catch((err: unknown) => {
+        // Show an empty collection rather than spinning forever
+        console.warn('[CollectionPage] Failed to load the collection:', err)
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const updateGame = useCallback(async (game: GameRecord) => {
+    await dbService.updateGame(game)
+    await reload()
+  }, [reload])
+
+  const updateGames = useCallback(async (bggIds: number[], changes: Partial<Omit<GameRecord, 'bggId'>>) => {
+    await dbService.updateGames(bggIds, changes)
+    await reload()
+  }, [reload])
+
+  const deleteGames = useCallback(async (bggIds: number[]) => {
+    await dbService.deleteGames(bggIds)
+    await reload()
+  }, [reload])
+
+  const reassignOwner = useCallback(async (bggIds: number[], fromUsername: string | null, toUsername: string) => {
+    await dbService.reassignGameOwner(bggIds, fromUsername, toUsername)
+    await reload()
+  }, [reload])
+
+  const tagGames = useCallback(async (bggIds: number[], tagName: string) => {
+    const tag = await dbService.createTag(tagName)
+    await dbService.addTagToGames(tag.id!, bggIds)
+    return tag
+  }, [])
+
+  const addGamesToList = useCallback(async (bggIds: number[], listName: string) => {
+    const existing = (await dbService.getGameLists()).find((l) => l.name.toLowerCase() === listName.trim().toLowerCase())
+    if (existing) {
+      await dbService.addGamesToList(existing.id!, bggIds)
+      return existing
+    }
+    return dbService.createGameList(listName, bggIds)
+  }, [])
+
+  return { rows, users, isLoading, updateGame, updateGames, deleteGames, reassignOwner, tagGames, addGamesToList }
+}
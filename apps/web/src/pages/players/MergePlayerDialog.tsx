@@ -0,0 +1,156 @@
+import { useEffect, useState } from 'react'
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControlLabel,
+  Radio,
+  RadioGroup,
+  Stack,
+  Typography,
+} from '@mui/material'
+import type { UserRecord } from '../../db/types'
+import type { UserMergePreview } from '../../services/db'
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`
+}
+
+function MergePreviewSummary(props: {
+  preview: UserMergePreview
+  duplicateName: string
+  targetName: string
+  gameName: (bggId: number) => string
+}) {
+  const { preview, duplicateName, targetName, gameName } = props
+  const conflicts = preview.preferenceConflicts
+
+  return (
+    <Stack component="ul" spacing={0.5} sx={{ m: 0, pl: 2.5 }}>
+      <Typography component="li" variant="body2">
+        {plural(preview.gamesMoved, 'game')} move to {targetName}
+        {preview.gamesShared > 0 ? `, ${preview.gamesShared} already owned by both` : ''}
+      </Typography>
+      <Typography component="li" variant="body2">
+        {plural(preview.preferencesMoved, 'preference')} move across
+      </Typography>
+      {conflicts.length > 0 ? (
+        <Typography component="li" variant="body2">
+          Both rated {plural(conflicts.length, 'game')}; the most recent choice is kept:{' '}
+          {conflicts
+            .map((c) => `${gameName(c.bggId)} (${c.kept === 'source' ? duplicateName : targetName})`)
+            .join(', ')}
+        </Typography>
+      ) : null}
+      {preview.savedNights + preview.plays > 0 ? (
+        <Typography component="li" variant="body2">
+          {plural(preview.savedNights, 'saved night')} and {plural(preview.plays, 'play')} are reassigned
+        </Typography>
+      ) : null}
+      {preview.bggUsername ? (
+        <Typography component="li" variant="body2">
+          Linked to BGG as {preview.bggUsername}
+        </Typography>
+      ) : null}
+    </Stack>
+  )
+}
+
+/**
+ * Pick a likely duplicate of this player, review what merging changes, and
+ * fold it into them.
+ */
+export function MergePlayerDialog(props: {
+  open: boolean
+  targetName: string
+  duplicates: UserRecord[]
+  gameName: (bggId: number) => string
+  onPreview: (duplicateUsername: string) => Promise<UserMergePreview>
+  onClose: () => void
+  onMerge: (duplicateUsername: string) => Promise<void>
+}) {
+  const { open, targetName, duplicates, gameName, onPreview, onClose, onMerge } = props
+  const [selected, setSelected] = useState(duplicates[0]?.username ?? '')
+  const [preview, setPreview] = useState<UserMergePreview | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+  const duplicate = duplicates.find((u) => u.username === selected)
+  const duplicateName = duplicate?.displayName ?? selected
+
+  useEffect(() => {
+    if (!selected) return
+    let cancelled = false
+    onPreview(selected)
+      .then((result) => {
+        if (!cancelled) setPreview(result)
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to preview merge')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [onPreview, selected])
+
+  const handleSelect = (username: string) => {
+    setPreview(null)
+    setError(null)
+    setSelected(username)
+  }
+
+  const handleMerge = async () => {
+    setIsSaving(true)
+    try {
+      await onMerge(selected)
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to merge players')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Merge into {targetName}</DialogTitle>
+      <DialogContent dividers>
+        <RadioGroup value={selected} onChange={(e) => handleSelect(e.target.value)}>
+          {duplicates.map((u) => (
+            <FormControlLabel
+              key={u.username}
+              value={u.username}
+              control={<Radio size="small" />}
+              label={`${u.displayName ?? u.username}${u.bggUsername || u.isBggUser ? ' (BGG)' : ''} · ${u.username}`}
+            />
+          ))}
+        </RadioGroup>
+
+        <Box sx={{ mt: 2 }}>
+          {error ? (
+            <Alert severity="error">{error}</Alert>
+          ) : preview ? (
+            <MergePreviewSummary preview={preview} duplicateName={duplicateName} targetName={targetName} gameName={gameName} />
+          ) : (
+            <CircularProgress size={20} />
+          )}
+        </Box>
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 2 }}>
+          {duplicateName} is removed afterwards. You can undo right after merging.
+        </Typography>
+      </DialogContent>
+      <DialogActions sx={{ px: 3, py: 2 }}>
+        <Button onClick={onClose} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleMerge} disabled={isSaving || !preview}>
+          {isSaving ? 'Merging…' : 'Merge'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,80 @@
+import { Avatar, Card, CardContent, Chip, Stack, Typography } from '@mui/material'
+import CollectionsBookmarkIcon from '@mui/icons-material/CollectionsBookmark'
+import EventIcon from '@mui/icons-material/Event'
+import type { GameRecord, UserGameRecord } from '../../db/types'
+import type { PlayerNight } from '../../services/players/playerProfile'
+
+export function PlayerGamesCard(props: { ownedGames: Array<UserGameRecord & { game?: GameRecord }> }) {
+  const { ownedGames } = props
+
+  return (
+    <Card>
+      <CardContent>
+        <Stack direction="row" alignItems="center" gap={1} mb={1.5}>
+          <CollectionsBookmarkIcon color="primary" />
+          <Typography variant="subtitle1" fontWeight={600}>
+            Owned games
+          </Typography>
+        </Stack>
+        {ownedGames.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            Doesn't own any games yet.
+          </Typography>
+        ) : (
+          <Stack spacing={1}>
+            {ownedGames.map((owned) => (
+              <Stack key={owned.bggId} direction="row" alignItems="center" spacing={1.5}>
+                <Avatar variant="rounded" src={owned.game?.thumbnail} alt="" sx={{ width: 28, height: 28 }}>
+                  {(owned.game?.name ?? '?').charAt(0)}
+                </Avatar>
+                <Typography variant="body2" sx={{ flex: 1 }} noWrap>
+                  {owned.game?.name ?? `#${owned.bggId}`}
+                </Typography>
+                {owned.rating !== undefined ? <Chip size="small" label={`Rated ${owned.rating}`} /> : null}
+                {owned.source === 'bgg' ? <Chip size="small" variant="outlined" label="BGG" /> : null}
+              </Stack>
+            ))}
+          </Stack>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+export function PlayerNightsCard(props: { nights: PlayerNight[] }) {
+  const { nights } = props
+
+  return (
+    <Card>
+      <CardContent>
+        <Stack direction="row" alignItems="center" gap={1} mb={1.5}>
+          <EventIcon color="primary" />
+          <Typography variant="subtitle1" fontWeight={600}>
+            Game nights
+          </Typography>
+        </Stack>
+        {nights.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            Not at any saved game night yet.
+          </Typography>
+        ) : (
+          <Stack spacing={1}>
+            {nights.map((night) => (
+              <Stack key={night.id ?? night.createdAt} direction="row" alignItems="center" spacing={1.5}>
+                <Stack sx={{ flex: 1, minWidth: 0 }}>
+                  <Typography variant="body2" fontWeight={600} noWrap>
+                    {night.name}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {new Date(night.createdAt).toLocaleDateString()} · {night.pick.name}
+                  </Typography>
+                </Stack>
+                {night.topPickWon ? <Chip size="small" color="success" label="Their top pick" /> : null}
+              </Stack>
+            ))}
+          </Stack>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
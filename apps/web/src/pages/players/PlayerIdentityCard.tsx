@@ -0,0 +1,74 @@
+import { Avatar, Button, Card, CardContent, Chip, Link, Stack, Typography } from '@mui/material'
+import EditIcon from '@mui/icons-material/Edit'
+import LinkIcon from '@mui/icons-material/Link'
+import MergeIcon from '@mui/icons-material/MergeType'
+import StarIcon from '@mui/icons-material/Star'
+import type { UserRecord } from '../../db/types'
+import { colors } from '../../theme/theme'
+
+export function PlayerIdentityCard(props: {
+  user: UserRecord
+  ownedCount: number
+  nightsCount: number
+  topPickWins: number
+  duplicateCount: number
+  onRename: () => void
+  onLinkBgg: () => void
+  onMerge: () => void
+}) {
+  const { user, ownedCount, nightsCount, topPickWins, duplicateCount, onRename, onLinkBgg, onMerge } = props
+  const name = user.displayName ?? user.username
+  const bggName = user.bggUsername ?? (user.isBggUser ? user.username : undefined)
+
+  return (
+    <Card>
+      <CardContent>
+        <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} alignItems={{ sm: 'center' }}>
+          <Avatar sx={{ width: 56, height: 56, bgcolor: colors.oceanBlue, fontSize: '1.5rem' }}>
+            {name.charAt(0).toUpperCase()}
+          </Avatar>
+          <Stack spacing={0.5} sx={{ flex: 1, minWidth: 0 }}>
+            <Stack direction="row" alignItems="center" spacing={1}>
+              <Typography variant="h6" fontWeight={700} noWrap>
+                {name}
+              </Typography>
+              {user.isOrganizer ? <StarIcon fontSize="small" sx={{ color: '#f9a825' }} titleAccess="Organizer" /> : null}
+            </Stack>
+            <Typography variant="caption" color="text.secondary">
+              {bggName ? (
+                <>
+                  BGG:{' '}
+                  <Link href={`https://boardgamegeek.com/user/${encodeURIComponent(bggName)}`} target="_blank" rel="noopener">
+                    {bggName}
+                  </Link>
+                </>
+              ) : (
+                'Not linked to BGG'
+              )}
+            </Typography>
+            <Stack direction="row" spacing={1} flexWrap="wrap" useFlexGap sx={{ pt: 0.5 }}>
+              <Chip size="small" label={`${ownedCount} owned`} />
+              <Chip size="small" label={`${nightsCount} night${nightsCount === 1 ? '' : 's'}`} />
+              <Chip
+                size="small"
+                color={topPickWins > 0 ? 'success' : 'default'}
+                label={`Top pick won ${topPickWins} of ${nightsCount}`}
+              />
+            </Stack>
+          </Stack>
+          <Stack direction={{ xs: 'row', sm: 'column' }} spacing={1} flexWrap="wrap" useFlexGap>
+            <Button size="small" startIcon={<EditIcon />} onClick={onRename}>
+              Rename
+            </Button>
+            <Button size="small" startIcon={<LinkIcon />} onClick={onLinkBgg}>
+              {bggName ? 'Relink BGG' : 'Link BGG'}
+            </Button>
+            <Button size="small" startIcon={<MergeIcon />} onClick={onMerge} disabled={duplicateCount === 0}>
+              Merge duplicate{duplicateCount > 0 ? ` (${duplicateCount})` : ''}
+            </Button>
+          </Stack>
+        </Stack>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,81 @@
+import { Box, Card, CardContent, Chip, Stack, Typography } from '@mui/material'
+import FormatListNumberedIcon from '@mui/icons-material/FormatListNumbered'
+import type { GameRecord } from '../../db/types'
+import type { PlayerProfileStats } from '../../services/players/playerProfile'
+
+/** Ranked games shown before the list is cut off */
+const MAX_RANKINGS = 10
+
+export function PlayerPreferencesCard(props: {
+  stats: PlayerProfileStats
+  gamesById: Map<number, GameRecord>
+}) {
+  const { stats, gamesById } = props
+  const nameOf = (bggId: number) => gamesById.get(bggId)?.name ?? `#${bggId}`
+  const hasAny = stats.rankings.length + stats.topPickIds.length + stats.dislikedIds.length > 0
+
+  return (
+    <Card>
+      <CardContent>
+        <Stack direction="row" alignItems="center" gap={1} mb={1.5}>
+          <FormatListNumberedIcon color="primary" />
+          <Typography variant="subtitle1" fontWeight={600}>
+            Preferences
+          </Typography>
+        </Stack>
+
+        {!hasAny ? (
+          <Typography variant="body2" color="text.secondary">
+            No preferences recorded yet.
+          </Typography>
+        ) : null}
+
+        {stats.topPickIds.length > 0 ? (
+          <Box sx={{ mb: 1.5 }}>
+            <Typography variant="caption" color="text.secondary">
+              Top picks
+            </Typography>
+            <Stack direction="row" spacing={0.75} flexWrap="wrap" useFlexGap sx={{ pt: 0.5 }}>
+              {stats.topPickIds.map((id) => (
+                <Chip key={id} size="small" color="primary" label={nameOf(id)} />
+              ))}
+            </Stack>
+          </Box>
+        ) : null}
+
+        {stats.dislikedIds.length > 0 ? (
+          <Box sx={{ mb: 1.5 }}>
+            <Typography variant="caption" color="text.secondary">
+              Dislikes
+            </Typography>
+            <Stack direction="row" spacing={0.75} flexWrap="wrap" useFlexGap sx={{ pt: 0.5 }}>
+              {stats.dislikedIds.map((id) => (
+                <Chip key={id} size="small" color="error" variant="outlined" label={nameOf(id)} />
+              ))}
+            </Stack>
+          </Box>
+        ) : null}
+
+        {stats.rankings.length > 0 ? (
+          <Box>
+            <Typography variant="caption" color="text.secondary">
+              Current ranking
+            </Typography>
+            <Stack component="ol" spacing={0.25} sx={{ m: 0, pl: 3, pt: 0.5 }}>
+              {stats.rankings.slice(0, MAX_RANKINGS).map((p) => (
+                <Typography component="li" key={p.bggId} variant="body2">
+                  {nameOf(p.bggId)}
+                </Typography>
+              ))}
+            </Stack>
+            {stats.rankings.length > MAX_RANKINGS ? (
+              <Typography variant="caption" color="text.secondary">
+                and {stats.rankings.length - MAX_RANKINGS} more
+              </Typography>
+            ) : null}
+          </Box>
+        ) : null}
+      </CardContent>
+    </Card>
+  )
+}
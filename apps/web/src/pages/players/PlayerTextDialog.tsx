@@ -0,0 +1,69 @@
+import { useState } from 'react'
+import { Button, Dialog, DialogActions, DialogContent, DialogTitle, TextField, Typography } from '@mui/material'
+
+/**
+ * One-field dialog used to rename a player or link their BGG account.
+ * Mount it with a `key` so it starts from `initialValue` each time.
+ */
+export function PlayerTextDialog(props: {
+  open: boolean
+  title: string
+  label: string
+  helperText?: string
+  initialValue: string
+  confirmLabel: string
+  onClose: () => void
+  onSubmit: (value: string) => Promise<void>
+}) {
+  const { open, title, label, helperText, initialValue, confirmLabel, onClose, onSubmit } = props
+  const [value, setValue] = useState(initialValue)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async () => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      await onSubmit(value.trim())
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong')
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>{title}</DialogTitle>
+      <DialogContent>
+        <TextField
+          autoFocus
+          fullWidth
+          size="small"
+          margin="dense"
+          label={label}
+          value={value}
+          helperText={helperText}
+          onChange={(e) => setValue(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && value.trim() && !isSaving) void handleSubmit()
+          }}
+        />
+        {error ? (
+          <Typography variant="body2" color="error" sx={{ mt: 1 }}>
+            {error}
+          </Typography>
+        ) : null}
+      </DialogContent>
+      <DialogActions sx={{ px: 3, pb: 2 }}>
+        <Button onClick={onClose} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button variant="contained" onClick={handleSubmit} disabled={isSaving || !value.trim()}>
+          {isSaving ? 'Saving…' : confirmLabel}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
@@ -0,0 +1,100 @@
+import { useCallback, useEffect, useState } from 'react'
+import type { GameRecord, UserGameRecord, UserRecord } from '../../db/types'
+import * as dbService from '../../services/db'
+import type { UserMergeSnapshot } from '../../services/db'
+import { buildPlayerProfile, findPossibleDuplicates, type PlayerProfileStats } from '../../services/players/playerProfile'
+
+export interface PlayerProfileData {
+  user: UserRecord
+  ownedGames: Array<UserGameRecord & { game?: GameRecord }>
+  /** Games referenced by the player's preferences, keyed by bggId */
+  gamesById: Map<number, GameRecord>
+  stats: PlayerProfileStats
+  duplicates: UserRecord[]
+}
+
+async function loadPlayerProfile(username: string): Promise<PlayerProfileData | null> {
+  const user = await dbService.getUser(username)
+  if (!user || user.isDeleted) return null
+
+  const [ownedGames, preferences, savedNights, users] = await Promise.all([
+    dbService.getUserGamesWithDetails(username),
+    dbService.getUserPreferences(username),
+    dbService.getSavedNights(),
+    dbService.getAllUsers(),
+  ])
+  const games = await dbService.getGames(preferences.map((p) => p.bggId))
+
+  return {
+    user,
+    ownedGames: ownedGames.sort((a, b) => (a.game?.name ?? '').localeCompare(b.game?.name ?? '')),
+    gamesById: new Map(games.map((g) => [g.bggId, g])),
+    stats: buildPlayerProfile(username, preferences, savedNights),
+    duplicates: findPossibleDuplicates(user, users),
+  }
+}
+
+/**
+ * Everything shown on a player's profile, plus the rename / BGG link /
+ * merge actions, which reload the profile when done.
+ */
+export function usePlayerProfile(username: string) {
+  const [profile, setProfile] = useState<PlayerProfileData | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+    // Don't show the previous player while the next one loads
+    setProfile(null)
+    setIsLoading(true)
+    void loadPlayerProfile(username)
+      .then((data) => {
+        if (cancelled) return
+        setProfile(data)
+      })
+      .catch((err: unknown) => {
+        // Fall back to the "player not found" view rather than spinning forever
+        console.warn('[PlayerProfilePage] Failed to load the player profile:', err)
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [username])
+
+  const reload = useCallback(async () => {
+    setProfile(await loadPlayerProfile(username))
+  }, [username])
+
+  const rename = useCallback(async (displayName: string) => {
+    await dbService.renameUser(username, displayName)
+    await reload()
+  }, [reload, username])
+
+  const linkBgg = useCallback(async (bggUsername: string) => {
+    const { syncBggCollectionToExistingUser } = await import('../../services/bgg/bggService')
+    const { games } = await syncBggCollectionToExistingUser(username, bggUsername)
+    await reload()
+    return games.length
+  }, [reload, username])
+
+  const previewMerge = useCallback(
+    (duplicateUsername: string) => dbService.previewUserMerge(duplicateUsername, username),
+    [username],
+  )
+
+  const mergeFrom = useCallback(async (duplicateUsername: string) => {
+    const snapshot = await dbService.mergeUsers(duplicateUsername, username)
+    await reload()
+    return snapshot
+  }, [reload, username])
+
+  const undoMerge = useCallback(async (snapshot: UserMergeSnapshot) => {
+    await dbService.undoUserMerge(snapshot)
+    await reload()
+  }, [reload])
+
+  return { profile, isLoading, rename, linkBgg, previewMerge, mergeFrom, undoMerge }
+}
@@ -26,6 +26,7 @@ import LogoutIcon from '@mui/icons-material/Logout'
 import EventNoteIcon from '@mui/icons-material/EventNote'
 import CameraAltIcon from '@mui/icons-material/CameraAlt'
 import AccountCircleIcon from '@mui/icons-material/AccountCircle'
+import LibraryBooksIcon from '@mui/icons-material/LibraryBooks'
 import { colors } from '../../theme/theme'
 import { useAuth } from '../../hooks/useAuth'
 import { useNavigate } from 'react-router-dom'
@@ -154,6 +155,16 @@ export function WizardHeader(props: {
           </IconButton>
         </Tooltip>
 
+        <Tooltip title="Game collection">
+          <IconButton
+            aria-label="Collection"
+            onClick={() => navigate('/collection')}
+            sx={{ ...iconButtonSx, color: useBlueChrome ? 'white' : colors.oceanBlue }}
+          >
+            <LibraryBooksIcon fontSize="small" />
+          </IconButton>
+        </Tooltip>
+
         {/* Photo Recognition - always visible */}
         {onOpenPhotoRecognition && (
           <Tooltip title="Photo Recognition">
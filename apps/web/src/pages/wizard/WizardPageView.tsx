@@ -186,6 +186,7 @@ export function WizardPageView(props: WizardPageViewProps) {
         hostDisplayName={hostDisplayName}
         users={props.wizard.users}
         preferences={props.wizard.preferences}
+        vetoPolicy={props.wizard.vetoPolicy}
         existingSessionId={props.activeSessionId}
         forceCreateNew={props.forceCreateNewSession}
         onClose={props.onCloseSessionDialog}
@@ -6,6 +6,14 @@ import type { UserRecord, UserPreferenceRecord } from '../../db/types'
 import type { GuestStatus, UserSyncStatus } from '../../components/steps/preferences/types'
 import type { SharedGamePreference } from '../../services/session/types'
 import { useToast } from '../../services/toast'
+import { getBggUsernameFor } from '../../services/bgg/bggPlaysSync'
+import { getVetoLimit } from '../../services/recommendation/vetoPolicy'
+import { useWizardSpinAction } from './useWizardSpinAction'
+import { useWizardRunoffAction } from './useWizardRunoffAction'
+import { useWizardVetoPolicyAction } from './useWizardVetoPolicyAction'
+import { useWizardWhatIf } from './useWizardWhatIf'
+import { useLiveLeaderboard } from './useLiveLeaderboard'
+import { LiveLeaderboard } from '../../components/steps/preferences/LiveLeaderboard'
 
 /** Create a hash of preferences for comparison */
 function hashPreferences(prefs: UserPreferenceRecord[], filteredBggIds: Set<number>): string {
@@ -26,6 +34,7 @@ function toSharedPreferences(
     .map((p) => ({
       bggId: p.bggId,
       rank: p.rank,
+      tier: p.tier,
       isTopPick: p.isTopPick,
       isDisliked: p.isDisliked,
     }))
@@ -72,6 +81,16 @@ export function WizardStepContent(props: {
   }, [usersForPrefs, sessionGuestMode])
 
   const toast = useToast()
+  const handleSpin = useWizardSpinAction({ wizard, activeSessionId: activeSessionId ?? null })
+  const runoff = useWizardRunoffAction({ wizard, activeSessionId: activeSessionId ?? null })
+  const handleVetoPolicyChange = useWizardVetoPolicyAction({ wizard, activeSessionId: sessionGuestMode ? null : activeSessionId ?? null })
+  const whatIf = useWizardWhatIf(wizard)
+  const leaderboard = useLiveLeaderboard({
+    wizard,
+    users: usersForPrefs,
+    preferences: preferencesForPrefs,
+    enabled: activeStep === 2 && !sessionGuestMode,
+  })
 
   // Track synced preferences hash per user (for detecting changes since sync)
   const [syncedPrefsMap, setSyncedPrefsMap] = useState<Record<string, string>>({})
@@ -225,6 +244,10 @@ export function WizardStepContent(props: {
           onAddGameManually={wizard.addGameManually}
           onEditGame={wizard.updateGame}
           onRefreshGameFromBgg={wizard.refreshGameFromBgg}
+          gameLists={wizard.gameLists}
+          tags={wizard.tags}
+          gameTags={wizard.gameTags}
+          onLoadGamesIntoSession={wizard.loadGamesIntoSession}
           isLoading={wizard.isLoadingUser}
         />
       )
@@ -245,6 +268,8 @@ export function WizardStepContent(props: {
           onModeChange={wizard.setMode}
           requireBestWithPlayerCount={wizard.filters.requireBestWithPlayerCount}
           onRequireBestWithPlayerCountChange={wizard.setRequireBestWithPlayerCount}
+          requireRecommendedPlayerCount={wizard.filters.requireRecommendedPlayerCount}
+          onPlayerCountFitChange={wizard.setPlayerCountFit}
           excludeLowRatedThreshold={wizard.filters.excludeLowRatedThreshold}
           onExcludeLowRatedChange={wizard.setExcludeLowRated}
           ageRange={wizard.filters.ageRange}
@@ -253,9 +278,22 @@ export function WizardStepContent(props: {
           onComplexityRangeChange={wizard.setComplexityRange}
           ratingRange={wizard.filters.ratingRange}
           onRatingRangeChange={wizard.setRatingRange}
+          facets={wizard.filters.facets}
+          onFacetFilterChange={wizard.setFacetFilter}
+          tags={wizard.tags}
+          gameTags={wizard.gameTags}
+          tagIds={wizard.filters.tagIds}
+          onTagFilterChange={wizard.setTagFilter}
+          gameCopies={wizard.gameCopies}
+          availableAt={wizard.filters.availableAt}
+          onAvailableAtChange={wizard.setAvailableAt}
           filteredGames={wizard.filteredGames}
           onExcludeGameFromSession={wizard.excludeGameFromSession}
           onUndoExcludeGameFromSession={wizard.undoExcludeGameFromSession}
+          filters={wizard.filters}
+          userRatings={wizard.userRatings}
+          onApplyFilters={wizard.setFilters}
+          ownedExpansions={wizard.ownedExpansions}
           disabled={disabledSteps.includes(1)}
         />
       )
@@ -264,6 +302,7 @@ export function WizardStepContent(props: {
       const showSyncUI = Boolean(activeSessionId)
       return (
         <Stack spacing={3}>
+          {leaderboard ? <LiveLeaderboard leaderboard={leaderboard} users={usersForPrefs} /> : null}
           <PreferencesStep
             // Remount on session switch so per-user tab selection doesn't leak across sessions.
             // Otherwise, returning to a previous session can auto-select a read-only guest tab,
@@ -284,6 +323,7 @@ export function WizardStepContent(props: {
             syncStatuses={showSyncUI ? syncStatuses : undefined}
             onSyncUser={showSyncUI ? handleSyncUser : undefined}
             hasActiveSession={showSyncUI}
+            vetoLimit={getVetoLimit(wizard.vetoPolicy)}
           />
         </Stack>
       );
@@ -294,6 +334,40 @@ export function WizardStepContent(props: {
           topPick={wizard.recommendation.topPick}
           alternatives={wizard.recommendation.alternatives}
           vetoed={wizard.recommendation.vetoed}
+          method={wizard.recommendation.method}
+          onMethodChange={wizard.setRecommendationMethod}
+          recencyPenaltyDays={wizard.recencyPenaltyDays}
+          onRecencyPenaltyDaysChange={wizard.setRecencyPenaltyDays}
+          teachAware={wizard.teachAware}
+          onTeachAwareChange={wizard.setTeachAware}
+          vetoPolicy={wizard.vetoPolicy}
+          onVetoPolicyChange={handleVetoPolicyChange}
+          voterWeights={{
+            voterWeights: wizard.voterWeights,
+            onVoterWeightChange: wizard.setVoterWeight,
+            fairnessRotation: wizard.fairnessRotation,
+            onFairnessRotationChange: wizard.setFairnessRotation,
+            fairnessBoosts: wizard.fairnessBoosts,
+            appliedVoterWeights: wizard.appliedVoterWeights,
+          }}
+          runoff={runoff}
+          whatIf={whatIf}
+          onRecordPlay={wizard.recordPlay}
+          onSyncBggPlays={
+            wizard.users.some((u) => getBggUsernameFor(u))
+              ? () => wizard.syncBggPlays(wizard.users)
+              : undefined
+          }
+          tableCount={wizard.tableCount}
+          onTableCountChange={wizard.setTableCount}
+          splitTables={wizard.splitTables}
+          planBudgetMinutes={wizard.planBudgetMinutes}
+          onPlanBudgetChange={wizard.setPlanBudgetMinutes}
+          planHeavyFirst={wizard.planHeavyFirst}
+          onPlanHeavyFirstChange={wizard.setPlanHeavyFirst}
+          eveningPlan={wizard.eveningPlan}
+          lastSpin={wizard.lastSpin}
+          onSpin={(spin) => void handleSpin(spin)}
           filters={wizard.filters}
           users={wizard.users}
           gameOwners={wizard.gameOwners}
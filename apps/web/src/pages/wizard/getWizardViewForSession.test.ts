@@ -40,8 +40,29 @@ function createBaseWizard(args: {
     preferences,
     userRatings: {},
 
-    recommendation: { topPick: null, alternatives: [], vetoed: [] },
+    recommendation: { topPick: null, alternatives: [], vetoed: [], method: 'borda' },
     promotedPickBggId: null,
+    recommendationMethod: 'borda',
+    recencyPenaltyDays: 0,
+    teachAware: false,
+    vetoPolicy: { mode: 'unlimited', maxVetoes: 2 },
+    lastSpin: null,
+    tieEpsilon: 0.1,
+    voterWeights: {},
+    fairnessRotation: false,
+    fairnessBoosts: {},
+    appliedVoterWeights: {},
+    planBudgetMinutes: null,
+    planHeavyFirst: false,
+    eveningPlan: null,
+    tableCount: 1,
+    splitTables: null,
+    recentPlays: [],
+    ownedExpansions: {},
+    tags: [],
+    gameTags: {},
+    gameLists: [],
+    gameCopies: {},
 
     layoutMode: 'standard',
 
@@ -71,6 +92,7 @@ function createBaseWizard(args: {
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     } as unknown as GameRecord),
+    loadGamesIntoSession: async () => {},
 
     setPlayerCount: () => {},
     setTimeRange: () => {},
@@ -80,6 +102,11 @@ function createBaseWizard(args: {
     setAgeRange: () => {},
     setComplexityRange: () => {},
     setRatingRange: () => {},
+    setFacetFilter: () => {},
+    setTagFilter: () => {},
+    setAvailableAt: () => {},
+    setPlayerCountFit: () => {},
+    setFilters: () => {},
 
     updatePreference: () => {},
     clearPreference: () => {},
@@ -89,6 +116,19 @@ function createBaseWizard(args: {
 
     computeRecommendation: () => {},
     promoteAlternativeToTopPick: () => {},
+    setRecommendationMethod: () => {},
+    setRecencyPenaltyDays: () => {},
+    setTeachAware: () => {},
+    setVetoPolicy: () => {},
+    setLastSpin: () => {},
+    setTieEpsilon: () => {},
+    setVoterWeight: () => {},
+    setFairnessRotation: () => {},
+    setTableCount: () => {},
+    setPlanBudgetMinutes: () => {},
+    setPlanHeavyFirst: () => {},
+    recordPlay: async () => {},
+    syncBggPlays: async () => ({ added: 0, updated: 0, skipped: 0 }),
     saveNight: async () => {},
 
     savedNights: [],
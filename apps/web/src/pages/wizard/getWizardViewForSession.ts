@@ -21,6 +21,13 @@ export function getWizardViewForSession(args: {
       users: mergedUsers,
       filters: wizard.filters,
       promotedPickBggId: wizard.promotedPickBggId,
+      method: wizard.recommendationMethod,
+      recentPlays: wizard.recentPlays,
+      recencyPenaltyDays: wizard.recencyPenaltyDays,
+      teachAware: wizard.teachAware,
+      vetoPolicy: wizard.vetoPolicy,
+      tieEpsilon: wizard.tieEpsilon,
+      voterWeights: wizard.appliedVoterWeights,
     }),
   }
 }
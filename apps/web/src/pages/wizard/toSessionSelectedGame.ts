@@ -0,0 +1,16 @@
+import type { ScoredGame } from '../../hooks/wizard/types'
+import type { CloseSessionResult } from '../../services/session/types'
+
+/** Session pick payload for a scored game (Tonight's Pick shown to guests) */
+export function toSessionSelectedGame({ game, score }: Pick<ScoredGame, 'game' | 'score'>): CloseSessionResult {
+  return {
+    gameId: String(game.bggId),
+    name: game.name,
+    thumbnail: game.thumbnail ?? null,
+    image: game.image ?? null,
+    score,
+    minPlayers: game.minPlayers ?? null,
+    maxPlayers: game.maxPlayers ?? null,
+    playingTimeMinutes: game.playingTimeMinutes ?? null,
+  }
+}
@@ -0,0 +1,57 @@
+import { useEffect, useMemo, useState } from 'react'
+import type { UserPreferenceRecord, UserRecord } from '../../db/types'
+import type { WizardActions, WizardState } from '../../hooks/useWizardState'
+import { computeRecommendation } from '../../services/recommendation/computeRecommendation'
+import {
+  buildLiveLeaderboard,
+  LEADERBOARD_DEBOUNCE_MS,
+  type LiveLeaderboard,
+} from '../../services/recommendation/liveLeaderboard'
+
+/**
+ * Leaderboard for the Preferences step, recomputed with the Result step's
+ * settings once ranking pauses. Returns null while `enabled` is false.
+ */
+export function useLiveLeaderboard(args: {
+  wizard: WizardState & WizardActions
+  users: UserRecord[]
+  preferences: Record<string, UserPreferenceRecord[]>
+  enabled: boolean
+}): LiveLeaderboard | null {
+  const { wizard, users, preferences, enabled } = args
+  const [settled, setSettled] = useState(preferences)
+  // Preferences kept from earlier nights don't count as ranked tonight
+  const [rankingSince] = useState(() => new Date().toISOString())
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setSettled(preferences), LEADERBOARD_DEBOUNCE_MS)
+    return () => clearTimeout(timeoutId)
+  }, [preferences])
+
+  return useMemo(() => {
+    if (!enabled) return null
+    const result = computeRecommendation({
+      games: wizard.filteredGames,
+      preferences: settled,
+      users,
+      filters: wizard.filters,
+      promotedPickBggId: null,
+      method: wizard.recommendationMethod,
+      recentPlays: wizard.recentPlays,
+      recencyPenaltyDays: wizard.recencyPenaltyDays,
+      teachAware: wizard.teachAware,
+      vetoPolicy: wizard.vetoPolicy,
+      voterWeights: wizard.appliedVoterWeights,
+      ownedExpansions: wizard.ownedExpansions,
+    })
+    return buildLiveLeaderboard({
+      result,
+      usernames: users.map((u) => u.username),
+      preferences: settled,
+      voterWeights: wizard.appliedVoterWeights,
+      vetoPolicy: wizard.vetoPolicy,
+      teachAware: wizard.teachAware,
+      rankingSince,
+    })
+  }, [enabled, rankingSince, settled, users, wizard.appliedVoterWeights, wizard.filteredGames, wizard.filters, wizard.ownedExpansions, wizard.recencyPenaltyDays, wizard.recentPlays, wizard.recommendationMethod, wizard.teachAware, wizard.vetoPolicy])
+}
@@ -0,0 +1,93 @@
+import { renderHook, act } from '@testing-library/react'
+import { describe, expect, it, vi, beforeEach } from 'vitest'
+import { useWizardRunoffAction } from './useWizardRunoffAction'
+import type { WizardState, WizardActions } from '../../hooks/useWizardState'
+import type { SessionRealtimeState } from '../../hooks/session/useSessionRealtimeStatus'
+
+const sessionMocks = vi.hoisted(() => ({
+  setSessionSelectedGame: vi.fn(),
+  setSessionRunoff: vi.fn(),
+}))
+
+const realtimeMock = vi.hoisted(() => ({
+  useSessionRealtimeStatus: vi.fn(),
+}))
+
+vi.mock('../../services/session', () => sessionMocks)
+vi.mock('../../hooks/session/useSessionRealtimeStatus', () => realtimeMock)
+
+describe('useWizardRunoffAction', () => {
+  const createWizard = () =>
+    ({
+      recommendation: {
+        topPick: { game: { bggId: 42, name: 'Game A' }, score: 1, matchReasons: [] },
+        alternatives: [{ game: { bggId: 7, name: 'Game B' }, score: 1, matchReasons: [] }],
+        vetoed: [],
+        tie: { bggIds: [42, 7], exact: true, epsilon: 0.1 },
+      },
+      tieEpsilon: 0.1,
+      setTieEpsilon: vi.fn(),
+      promoteAlternativeToTopPick: vi.fn(),
+    }) as unknown as WizardState & WizardActions
+
+  const realtime = (runoff?: SessionRealtimeState['runoff']): SessionRealtimeState => ({
+    status: 'open',
+    runoff,
+    connected: true,
+    error: null,
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    realtimeMock.useSessionRealtimeStatus.mockReturnValue(realtime())
+  })
+
+  it('counts guest ballots only for the current tie', () => {
+    const ballots = [{ participantId: 'p1', displayName: 'Sam', ranking: [7] }]
+    realtimeMock.useSessionRealtimeStatus.mockReturnValue(
+      realtime({ startedAt: '2026-01-10T10:00:00.000Z', games: [{ bggId: 7, name: 'Game B' }, { bggId: 42, name: 'Game A' }], ballots }),
+    )
+    const { result, rerender } = renderHook(() => useWizardRunoffAction({ wizard: createWizard(), activeSessionId: 's1' }))
+
+    expect(result.current.isSentToGuests).toBe(true)
+    expect(result.current.sessionBallots).toEqual(ballots)
+
+    realtimeMock.useSessionRealtimeStatus.mockReturnValue(
+      realtime({ startedAt: '2026-01-10T10:00:00.000Z', games: [{ bggId: 7, name: 'Game B' }, { bggId: 1, name: 'Old' }], ballots }),
+    )
+    rerender()
+
+    expect(result.current.isSentToGuests).toBe(false)
+    expect(result.current.sessionBallots).toEqual([])
+  })
+
+  it('publishes the winner and closes the ballot in a session', async () => {
+    realtimeMock.useSessionRealtimeStatus.mockReturnValue(
+      realtime({ startedAt: '2026-01-10T10:00:00.000Z', games: [{ bggId: 42, name: 'Game A' }, { bggId: 7, name: 'Game B' }], ballots: [] }),
+    )
+    const wizard = createWizard()
+    const { result } = renderHook(() => useWizardRunoffAction({ wizard, activeSessionId: 's1' }))
+
+    await act(async () => {
+      result.current.onDecide(7)
+    })
+
+    expect(wizard.promoteAlternativeToTopPick).toHaveBeenCalledWith(7)
+    expect(sessionMocks.setSessionSelectedGame).toHaveBeenCalledWith('s1', expect.objectContaining({ gameId: '7' }))
+    expect(sessionMocks.setSessionRunoff).toHaveBeenCalledWith('s1', null)
+  })
+
+  it('stays local without a session', async () => {
+    const wizard = createWizard()
+    const { result } = renderHook(() => useWizardRunoffAction({ wizard, activeSessionId: null }))
+
+    await act(async () => {
+      result.current.onDecide(7)
+    })
+
+    expect(result.current.sessionBallots).toBeUndefined()
+    expect(result.current.onSendToGuests).toBeUndefined()
+    expect(wizard.promoteAlternativeToTopPick).toHaveBeenCalledWith(7)
+    expect(sessionMocks.setSessionSelectedGame).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,66 @@
+import { useCallback } from 'react'
+import type { WizardActions, WizardState } from '../../hooks/useWizardState'
+import type { RunoffSectionProps } from '../../components/steps/result/RunoffSection'
+import { useSessionRealtimeStatus } from '../../hooks/session/useSessionRealtimeStatus'
+import { toSessionSelectedGame } from './toSessionSelectedGame'
+
+/**
+ * Runoff wiring for the Result step. In a session the host can push the
+ * ballot to guests (their votes arrive on the session doc), and the winner is
+ * published as the selected game once decided.
+ */
+export function useWizardRunoffAction(args: {
+  wizard: WizardState & WizardActions
+  activeSessionId: string | null
+}): Omit<RunoffSectionProps, 'games' | 'players'> {
+  const { wizard, activeSessionId } = args
+  const realtime = useSessionRealtimeStatus({ sessionId: activeSessionId ?? '', enabled: Boolean(activeSessionId) })
+  const tie = wizard.recommendation.tie ?? null
+
+  // A ballot from an earlier tie doesn't count for this one
+  const runoff = realtime.runoff
+  const isSentToGuests = Boolean(
+    runoff &&
+      tie &&
+      runoff.games.length === tie.bggIds.length &&
+      runoff.games.every((g) => tie.bggIds.includes(g.bggId)),
+  )
+
+  const onDecide = useCallback(
+    async (bggId: number) => {
+      const { topPick, alternatives } = wizard.recommendation
+      const chosen = [topPick, ...alternatives].find((g) => g?.game.bggId === bggId)
+
+      wizard.promoteAlternativeToTopPick(bggId)
+
+      if (!activeSessionId) return
+      try {
+        const { setSessionRunoff, setSessionSelectedGame } = await import('../../services/session')
+        if (chosen) await setSessionSelectedGame(activeSessionId, toSessionSelectedGame(chosen))
+        if (runoff) await setSessionRunoff(activeSessionId, null)
+      } catch (err) {
+        console.warn('[WizardPage] Failed to publish the runoff result:', err)
+      }
+    },
+    [activeSessionId, runoff, wizard]
+  )
+
+  const onSendToGuests = useCallback(
+    async (games: Array<{ bggId: number; name: string }>) => {
+      if (!activeSessionId) return
+      const { setSessionRunoff } = await import('../../services/session')
+      await setSessionRunoff(activeSessionId, games)
+    },
+    [activeSessionId]
+  )
+
+  return {
+    tie,
+    tieEpsilon: wizard.tieEpsilon,
+    onTieEpsilonChange: wizard.setTieEpsilon,
+    onDecide: (bggId) => void onDecide(bggId),
+    sessionBallots: activeSessionId ? (isSentToGuests ? runoff?.ballots ?? [] : []) : undefined,
+    isSentToGuests,
+    onSendToGuests: activeSessionId ? onSendToGuests : undefined,
+  }
+}
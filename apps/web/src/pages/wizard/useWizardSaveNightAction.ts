@@ -3,6 +3,10 @@ import type { WizardActions, WizardState } from '../../hooks/useWizardState'
 import { trackGameNightSaved } from '../../services/analytics/googleAnalytics'
 import type { ToastApi } from '../../services/toast'
 import * as dbService from '../../services/db'
+import { toSavedPlan } from '../../services/recommendation/eveningPlan'
+import { toSavedVoterWeights } from '../../services/recommendation/voterWeights'
+import { toSavedSpin } from '../../services/recommendation/spinWheel'
+import { toSessionSelectedGame } from './toSessionSelectedGame'
 
 export function useWizardSaveNightAction(args: {
   wizard: WizardState & WizardActions
@@ -15,7 +19,9 @@ export function useWizardSaveNightAction(args: {
   return useCallback(
     async (name: string, description?: string, includeGuestUsernames?: string[]) => {
       try {
-        const topPick = wizard.recommendation.topPick
+        // A plan is saved whole; its first game doubles as the night's pick
+        const plan = wizard.eveningPlan?.games.length ? wizard.eveningPlan : null
+        const topPick = plan?.games[0] ?? wizard.recommendation.topPick
         if (!topPick) return
 
         // Persist the night using the currently rendered wizard view.
@@ -42,6 +48,7 @@ export function useWizardSaveNightAction(args: {
             complexityRange: wizard.filters.complexityRange,
             ratingRange: wizard.filters.ratingRange,
           },
+          method: wizard.recommendation.method,
           pick: {
             bggId: topPick.game.bggId,
             name: topPick.game.name,
@@ -52,6 +59,9 @@ export function useWizardSaveNightAction(args: {
             name: a.game.name,
             score: a.score,
           })),
+          plan: plan ? toSavedPlan(plan) : undefined,
+          ...toSavedVoterWeights(wizard.recommendation.voterWeights, wizard.fairnessRotation, topPick.breakdown),
+          ...toSavedSpin(wizard.lastSpin, topPick.game.bggId),
         })
 
         await wizard.loadSavedNights()
@@ -59,16 +69,7 @@ export function useWizardSaveNightAction(args: {
         if (activeSessionId) {
           try {
             const { setSessionSelectedGame } = await import('../../services/session')
-            await setSessionSelectedGame(activeSessionId, {
-              gameId: String(topPick.game.bggId),
-              name: topPick.game.name,
-              thumbnail: topPick.game.thumbnail ?? null,
-              image: topPick.game.image ?? null,
-              score: topPick.score,
-              minPlayers: topPick.game.minPlayers ?? null,
-              maxPlayers: topPick.game.maxPlayers ?? null,
-              playingTimeMinutes: topPick.game.playingTimeMinutes ?? null,
-            })
+            await setSessionSelectedGame(activeSessionId, toSessionSelectedGame(topPick))
           } catch (err) {
             console.warn('[WizardPage] Failed to set session selected game:', err)
           }
@@ -78,7 +79,7 @@ export function useWizardSaveNightAction(args: {
         trackGameNightSaved({
           playerCount: wizard.users.length,
           sessionGames: wizard.sessionGameIds.length,
-          topPickName: wizard.recommendation.topPick?.game.name,
+          topPickName: topPick.game.name,
           hasDescription: Boolean(description),
         })
 
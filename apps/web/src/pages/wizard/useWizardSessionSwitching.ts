@@ -50,6 +50,7 @@ export function useWizardSessionSwitching(opts: {
         filters: wizard.filters,
         preferences: wizard.preferences,
         activeStep,
+        recommendationMethod: wizard.recommendationMethod,
       })
       void saveSessionWizardState(lastLoadedSessionId, currentState)
     }
@@ -87,6 +88,7 @@ export function useWizardSessionSwitching(opts: {
           excludedBggIds: savedState.excludedBggIds,
           filters: savedState.filters,
           preferences: savedState.preferences,
+          recommendationMethod: savedState.recommendationMethod,
         })
 
         // If another session switch started while we were applying, ignore.
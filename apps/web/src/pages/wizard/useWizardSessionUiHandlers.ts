@@ -43,6 +43,7 @@ export function useWizardSessionUiHandlers(args: {
           filters: wizard.filters,
           preferences: wizard.preferences,
           activeStep,
+          recommendationMethod: wizard.recommendationMethod,
         })
         void saveSessionWizardState(previousSessionId, currentState)
       }
@@ -80,6 +81,7 @@ export function useWizardSessionUiHandlers(args: {
         filters: wizard.filters,
         preferences: wizard.preferences,
         activeStep,
+        recommendationMethod: wizard.recommendationMethod,
       })
 
       // If there's an existing session, save current state to it FIRST
@@ -0,0 +1,66 @@
+import { renderHook, act } from '@testing-library/react'
+import { describe, expect, it, vi, beforeEach } from 'vitest'
+import { useWizardSpinAction } from './useWizardSpinAction'
+import type { WizardState, WizardActions } from '../../hooks/useWizardState'
+import type { SpinResult } from '../../services/recommendation/spinWheel'
+
+const sessionMocks = vi.hoisted(() => ({
+  setSessionSelectedGame: vi.fn(),
+}))
+
+vi.mock('../../services/session', () => sessionMocks)
+
+describe('useWizardSpinAction', () => {
+  const spin: SpinResult = {
+    seed: 12,
+    weighting: 'score',
+    candidates: [{ bggId: 42, score: 0.9 }, { bggId: 7, score: 0.8 }],
+    bggId: 7,
+  }
+
+  const createWizard = () =>
+    ({
+      recommendation: {
+        topPick: { game: { bggId: 42, name: 'Game A' }, score: 0.9, matchReasons: [] },
+        alternatives: [{ game: { bggId: 7, name: 'Game B', minPlayers: 2 }, score: 0.8, matchReasons: [] }],
+        vetoed: [],
+      },
+      setLastSpin: vi.fn(),
+      promoteAlternativeToTopPick: vi.fn(),
+    }) as unknown as WizardState & WizardActions
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('promotes the spun game and publishes it to the session', async () => {
+    sessionMocks.setSessionSelectedGame.mockResolvedValue({})
+    const wizard = createWizard()
+    const { result } = renderHook(() => useWizardSpinAction({ wizard, activeSessionId: 's1' }))
+
+    await act(async () => {
+      await result.current(spin)
+    })
+
+    expect(wizard.setLastSpin).toHaveBeenCalledWith(spin)
+    expect(wizard.promoteAlternativeToTopPick).toHaveBeenCalledWith(7)
+    expect(sessionMocks.setSessionSelectedGame).toHaveBeenCalledWith('s1', expect.objectContaining({
+      gameId: '7',
+      name: 'Game B',
+      score: 0.8,
+      minPlayers: 2,
+    }))
+  })
+
+  it('stays local without a session', async () => {
+    const wizard = createWizard()
+    const { result } = renderHook(() => useWizardSpinAction({ wizard, activeSessionId: null }))
+
+    await act(async () => {
+      await result.current(spin)
+    })
+
+    expect(wizard.promoteAlternativeToTopPick).toHaveBeenCalledWith(7)
+    expect(sessionMocks.setSessionSelectedGame).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,34 @@
+import { useCallback } from 'react'
+import type { WizardActions, WizardState } from '../../hooks/useWizardState'
+import type { SpinResult } from '../../services/recommendation/spinWheel'
+import { toSessionSelectedGame } from './toSessionSelectedGame'
+
+/**
+ * Apply a spin of the wheel: the chosen game becomes the top pick and, in a
+ * session, guests see it as Tonight's Pick.
+ */
+export function useWizardSpinAction(args: {
+  wizard: WizardState & WizardActions
+  activeSessionId: string | null
+}) {
+  const { wizard, activeSessionId } = args
+
+  return useCallback(
+    async (spin: SpinResult) => {
+      const { topPick, alternatives } = wizard.recommendation
+      const chosen = [topPick, ...alternatives].find((g) => g?.game.bggId === spin.bggId)
+
+      wizard.setLastSpin(spin)
+      wizard.promoteAlternativeToTopPick(spin.bggId)
+
+      if (!activeSessionId || !chosen) return
+      try {
+        const { setSessionSelectedGame } = await import('../../services/session')
+        await setSessionSelectedGame(activeSessionId, toSessionSelectedGame(chosen))
+      } catch (err) {
+        console.warn('[WizardPage] Failed to set session selected game:', err)
+      }
+    },
+    [activeSessionId, wizard]
+  )
+}
@@ -0,0 +1,42 @@
+import { renderHook, waitFor } from '@testing-library/react'
+import { describe, expect, it, vi, beforeEach } from 'vitest'
+import { useWizardVetoPolicyAction } from './useWizardVetoPolicyAction'
+import type { WizardState, WizardActions } from '../../hooks/useWizardState'
+import type { VetoPolicy } from '../../store/wizardTypes'
+
+const sessionMocks = vi.hoisted(() => ({
+  setSessionVetoPolicy: vi.fn(),
+}))
+
+vi.mock('../../services/session', () => sessionMocks)
+
+describe('useWizardVetoPolicyAction', () => {
+  const policy: VetoPolicy = { mode: 'limited', maxVetoes: 1 }
+  const createWizard = () => ({ setVetoPolicy: vi.fn() }) as unknown as WizardState & WizardActions
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    sessionMocks.setSessionVetoPolicy.mockResolvedValue(undefined)
+  })
+
+  it('pushes the new policy to the active session', async () => {
+    const wizard = createWizard()
+    const { result } = renderHook(() => useWizardVetoPolicyAction({ wizard, activeSessionId: 's1' }))
+
+    result.current(policy)
+
+    expect(wizard.setVetoPolicy).toHaveBeenCalledWith(policy)
+    await waitFor(() => expect(sessionMocks.setSessionVetoPolicy).toHaveBeenCalledWith('s1', policy))
+  })
+
+  it('only updates the local policy without a session', async () => {
+    const wizard = createWizard()
+    const { result } = renderHook(() => useWizardVetoPolicyAction({ wizard, activeSessionId: null }))
+
+    result.current(policy)
+    await Promise.resolve()
+
+    expect(wizard.setVetoPolicy).toHaveBeenCalledWith(policy)
+    expect(sessionMocks.setSessionVetoPolicy).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,28 @@
+import { useCallback } from 'react'
+import type { WizardActions, WizardState } from '../../hooks/useWizardState'
+import type { VetoPolicy } from '../../store/wizardTypes'
+
+/**
+ * Veto policy changes from the Result step. In a session the new policy is
+ * also pushed to the session doc so guests' veto budgets and the server's
+ * check on submitted preferences follow the host's engine.
+ */
+export function useWizardVetoPolicyAction(args: {
+  wizard: WizardState & WizardActions
+  activeSessionId: string | null
+}): (policy: VetoPolicy) => void {
+  const { wizard, activeSessionId } = args
+
+  return useCallback(
+    (policy: VetoPolicy) => {
+      wizard.setVetoPolicy(policy)
+      if (!activeSessionId) return
+      void import('../../services/session')
+        .then(({ setSessionVetoPolicy }) => setSessionVetoPolicy(activeSessionId, policy))
+        .catch((err: unknown) => {
+          console.warn('[WizardPage] Failed to update the session veto policy:', err)
+        })
+    },
+    [activeSessionId, wizard]
+  )
+}
@@ -0,0 +1,80 @@
+import { useEffect, useMemo, useState } from 'react'
+import type { UserPreferenceRecord } from '../../db/types'
+import type { WizardActions, WizardState } from '../../hooks/useWizardState'
+import type { WhatIfSectionProps } from '../../components/steps/result/WhatIfSection'
+import * as dbService from '../../services/db'
+import { simulateWhatIf } from '../../services/recommendation/whatIf'
+
+type Ratings = Record<number, number | undefined>
+
+/**
+ * "What if" simulator wiring for the Result step. Optional players'
+ * preferences and ratings are loaded from the local database when the host
+ * adds them; the simulation only runs while the panel is on.
+ */
+export function useWizardWhatIf(wizard: WizardState & WizardActions): Omit<WhatIfSectionProps, 'users'> {
+  const [enabled, setEnabled] = useState(false)
+  const [optionalUsernames, setOptionalUsernames] = useState<string[]>([])
+  const [loaded, setLoaded] = useState<Record<string, { preferences: UserPreferenceRecord[]; ratings: Ratings }>>({})
+
+  const candidates = useMemo(() => {
+    const present = new Set(wizard.users.map((u) => u.username))
+    return wizard.existingLocalUsers.filter((u) => !u.isDeleted && !present.has(u.username))
+  }, [wizard.existingLocalUsers, wizard.users])
+
+  useEffect(() => {
+    const missing = optionalUsernames.filter((u) => !(u in loaded))
+    if (missing.length === 0) return
+    let cancelled = false
+
+    const load = async () => {
+      const entries = await Promise.all(
+        missing.map(async (username) => {
+          const [preferences, userGames] = await Promise.all([
+            dbService.getUserPreferences(username),
+            dbService.getUserGames(username),
+          ])
+          const ratings: Ratings = Object.fromEntries(userGames.map((g) => [g.bggId, g.rating]))
+          return [username, { preferences, ratings }] as const
+        }),
+      )
+      if (!cancelled) setLoaded((prev) => ({ ...prev, ...Object.fromEntries(entries) }))
+    }
+
+    load().catch((err) => console.warn('[WizardPage] Failed to load optional players:', err))
+    return () => {
+      cancelled = true
+    }
+  }, [loaded, optionalUsernames])
+
+  const simulation = useMemo(() => {
+    if (!enabled) return null
+    const extra = optionalUsernames.filter((u) => u in loaded)
+    return simulateWhatIf({
+      sessionGames: wizard.sessionGames,
+      filters: wizard.filters,
+      usernames: wizard.users.map((u) => u.username),
+      optionalUsernames: extra,
+      preferences: { ...Object.fromEntries(extra.map((u) => [u, loaded[u].preferences])), ...wizard.preferences },
+      userRatings: { ...Object.fromEntries(extra.map((u) => [u, loaded[u].ratings])), ...wizard.userRatings },
+      ownedExpansions: wizard.ownedExpansions,
+      gameTags: wizard.gameTags,
+      gameCopies: wizard.gameCopies,
+      method: wizard.recommendationMethod,
+      voterWeights: wizard.appliedVoterWeights,
+      recentPlays: wizard.recentPlays,
+      recencyPenaltyDays: wizard.recencyPenaltyDays,
+      vetoPolicy: wizard.vetoPolicy,
+      teachAware: wizard.teachAware,
+    })
+  }, [enabled, loaded, optionalUsernames, wizard.appliedVoterWeights, wizard.filters, wizard.gameCopies, wizard.gameTags, wizard.ownedExpansions, wizard.preferences, wizard.recencyPenaltyDays, wizard.recentPlays, wizard.recommendationMethod, wizard.sessionGames, wizard.teachAware, wizard.userRatings, wizard.users, wizard.vetoPolicy])
+
+  return {
+    enabled,
+    onEnabledChange: setEnabled,
+    candidates,
+    optionalUsernames,
+    onOptionalUsernamesChange: setOptionalUsernames,
+    simulation,
+  }
+}
@@ -111,6 +111,8 @@ export function trackTonightsPickReady(payload: {
   yearPublished?: number
   bestWith?: string
   playingTimeMinutes?: number
+  /** Voting method that produced the pick */
+  recommendationMethod?: string
   /** Session context */
   isSessionGame?: boolean
   guestCount?: number
@@ -131,6 +133,7 @@ export function trackTonightsPickReady(payload: {
     game_year: payload.yearPublished,
     game_best_with: payload.bestWith,
     game_play_time: payload.playingTimeMinutes,
+    recommendation_method: payload.recommendationMethod,
     // Session context
     is_session_game: payload.isSessionGame ?? false,
     guest_count: payload.guestCount ?? 0,
@@ -2,7 +2,7 @@ import { db } from '../../db'
 import type { ParsedTables } from './parseTables'
 
 export async function applyReplace(payload: ParsedTables) {
-  await db.transaction('rw', [db.games, db.gameNotes, db.users, db.userGames, db.userPreferences, db.wizardState, db.savedNights], async () => {
+  await db.transaction('rw', [db.games, db.gameNotes, db.users, db.userGames, db.userPreferences, db.wizardState, db.savedNights, db.plays, db.ownedExpansions, db.tags, db.gameTags, db.gameLists, db.loans], async () => {
     await Promise.all([
       db.games.clear(),
       db.gameNotes.clear(),
@@ -11,6 +11,12 @@ export async function applyReplace(payload: ParsedTables) {
       db.userPreferences.clear(),
       db.wizardState.clear(),
       db.savedNights.clear(),
+      db.plays.clear(),
+      db.ownedExpansions.clear(),
+      db.tags.clear(),
+      db.gameTags.clear(),
+      db.gameLists.clear(),
+      db.loans.clear(),
     ])
     await Promise.all([
       db.games.bulkAdd(payload.games),
@@ -20,12 +26,18 @@ export async function applyReplace(payload: ParsedTables) {
       db.userPreferences.bulkAdd(payload.userPreferences),
       payload.wizardState ? db.wizardState.put(payload.wizardState) : Promise.resolve(),
       db.savedNights.bulkAdd(payload.savedNights),
+      db.plays.bulkAdd(payload.plays),
+      db.ownedExpansions.bulkPut(payload.ownedExpansions),
+      db.tags.bulkAdd(payload.tags),
+      db.gameTags.bulkAdd(payload.gameTags),
+      db.gameLists.bulkAdd(payload.gameLists),
+      db.loans.bulkAdd(payload.loans),
     ])
   })
 }
 
 export async function applyMerge(payload: ParsedTables) {
-  await db.transaction('rw', [db.games, db.gameNotes, db.users, db.userGames, db.userPreferences, db.wizardState, db.savedNights], async () => {
+  await db.transaction('rw', [db.games, db.gameNotes, db.users, db.userGames, db.userPreferences, db.wizardState, db.savedNights, db.plays, db.ownedExpansions, db.tags, db.gameTags, db.gameLists, db.loans], async () => {
     for (const g of payload.games) {
       const existing = await db.games.get(g.bggId)
       if (!existing || (existing.lastFetchedAt ?? '') < (g.lastFetchedAt ?? '')) await db.games.put(g)
@@ -72,5 +84,62 @@ export async function applyMerge(payload: ParsedTables) {
     if (payload.savedNights.length) {
       await db.savedNights.bulkPut(payload.savedNights.map((n) => ({ ...n, id: undefined })))
     }
+
+    for (const play of payload.plays) {
+      // The same play exported twice keeps its createdAt (or BGG play id); skip it instead of duplicating.
+      const existing = play.bggPlayId !== undefined
+        ? await db.plays.where('bggPlayId').equals(play.bggPlayId).first()
+        : await db.plays.where('bggId').equals(play.bggId).filter((p) => p.createdAt === play.createdAt).first()
+      if (!existing) await db.plays.add({ ...play, id: undefined })
+    }
+
+    if (payload.ownedExpansions.length) {
+      await db.ownedExpansions.bulkPut(payload.ownedExpansions)
+    }
+
+    for (const loan of payload.loans) {
+      // A loan is identified by its copy and start time; skip ones already recorded.
+      const existing = await db.loans
+        .where('bggId')
+        .equals(loan.bggId)
+        .filter((l) => l.username === loan.username && l.lentAt === loan.lentAt)
+        .first()
+      if (!existing) await db.loans.add({ ...loan, id: undefined })
+      else if (!existing.returnedAt && loan.returnedAt) await db.loans.update(existing.id!, { returnedAt: loan.returnedAt })
+    }
+
+    await mergeTagsAndLists(payload)
   })
 }
+
+/**
+ * Tags and lists are matched by name, since ids differ between devices.
+ * Imported tags are re-pointed at the local tag ids, and lists with the
+ * same name gain the imported games.
+ */
+async function mergeTagsAndLists(payload: ParsedTables) {
+  const localTags = await db.tags.toArray()
+  const tagIds = new Map<number, number>()
+  for (const tag of payload.tags) {
+    const existing = localTags.find((t) => t.name.toLowerCase() === tag.name.toLowerCase())
+    const localId = existing?.id ?? (await db.tags.add({ ...tag, id: undefined }))
+    if (tag.id !== undefined) tagIds.set(tag.id, localId)
+  }
+
+  for (const gameTag of payload.gameTags) {
+    const tagId = tagIds.get(gameTag.tagId)
+    if (tagId === undefined) continue
+    const existing = await db.gameTags.where({ tagId, bggId: gameTag.bggId }).first()
+    if (!existing) await db.gameTags.add({ tagId, bggId: gameTag.bggId })
+  }
+
+  const localLists = await db.gameLists.toArray()
+  for (const list of payload.gameLists) {
+    const existing = localLists.find((l) => l.name.toLowerCase() === list.name.toLowerCase())
+    if (!existing) {
+      await db.gameLists.add({ ...list, id: undefined })
+    } else {
+      await db.gameLists.update(existing.id!, { bggIds: [...new Set([...existing.bggIds, ...list.bggIds])] })
+    }
+  }
+}
@@ -1,5 +1,5 @@
 import { describe, expect, it, beforeEach } from 'vitest'
-import { unzipSync } from 'fflate'
+import { unzipSync, zipSync } from 'fflate'
 import { db, clearAllData } from '../../db/db'
 import { exportBackupZip, importBackup } from './'
 
@@ -7,12 +7,17 @@ const now = '2024-01-01T00:00:00.000Z'
 
 async function seedBasic() {
   await db.games.add({ bggId: 1, name: 'Alpha', lastFetchedAt: now })
-  await db.users.add({ username: 'u1', internalId: 'u1-test', isBggUser: false })
+  await db.users.add({ username: 'u1', internalId: 'u1-test', isBggUser: false, bggUsername: 'u1_bgg', lastPlaysSyncAt: now })
   await db.users.add({ username: 'ghost', internalId: 'ghost-1', isBggUser: false, isDeleted: true })
-  await db.userGames.add({ username: 'u1', bggId: 1, source: 'manual', addedAt: now })
+  await db.userGames.add({ username: 'u1', bggId: 1, source: 'manual', addedAt: now, location: 'Cabin', lentTo: 'Bea', lentSince: now })
+  await db.loans.add({ bggId: 1, username: 'u1', borrower: 'Bea', lentAt: now })
   await db.userPreferences.add({ username: 'u1', bggId: 1, isTopPick: true, isDisliked: false, updatedAt: now })
   await db.savedNights.add({ createdAt: now, data: { name: 'Night', usernames: ['u1'], gameIds: [1], filters: {}, pick: { bggId: 1, name: 'Alpha', score: 1 }, alternatives: [] } })
   await db.gameNotes.add({ bggId: 1, text: 'note', createdAt: now })
+  await db.plays.add({ playedAt: '2024-01-01', bggId: 1, players: ['u1'], winner: 'u1', durationMinutes: 45, createdAt: now })
+  const tagId = await db.tags.add({ name: 'Party', createdAt: now })
+  await db.gameTags.add({ tagId, bggId: 1 })
+  await db.gameLists.add({ name: 'Cabin', bggIds: [1], createdAt: now, updatedAt: now })
 }
 
 describe('backup export/import', () => {
@@ -36,9 +41,49 @@ describe('backup export/import', () => {
     expect(await db.userPreferences.count()).toBe(1)
     expect(await db.savedNights.count()).toBe(1)
     expect(await db.gameNotes.count()).toBe(1)
+    expect(await db.plays.count()).toBe(1)
+
+    const [play] = await db.plays.toArray()
+    expect(play.players).toEqual(['u1'])
+    expect(play.winner).toBe('u1')
+    expect(play.durationMinutes).toBe(45)
 
     const deleted = await db.users.get('ghost')
     expect(deleted?.isDeleted).toBe(true)
+    // The BGG link and plays sync point survive, so plays keep linking and syncs stay incremental
+    expect(await db.users.get('u1')).toMatchObject({ bggUsername: 'u1_bgg', lastPlaysSyncAt: now })
+
+    const [tag] = await db.tags.toArray()
+    expect(tag.name).toBe('Party')
+    expect(await db.gameTags.toArray()).toEqual([expect.objectContaining({ tagId: tag.id, bggId: 1 })])
+    expect((await db.gameLists.toArray()).map((l) => [l.name, l.bggIds])).toEqual([['Cabin', [1]]])
+
+    const [copy] = await db.userGames.toArray()
+    expect(copy).toMatchObject({ location: 'Cabin', lentTo: 'Bea', lentSince: now })
+    expect(await db.loans.toArray()).toEqual([expect.objectContaining({ username: 'u1', borrower: 'Bea', lentAt: now })])
+  })
+
+  it('merge matches tags and lists by name', async () => {
+    await seedBasic()
+    const exported = await exportBackupZip()
+
+    await clearAllData()
+    await db.games.bulkAdd([
+      { bggId: 1, name: 'Alpha', lastFetchedAt: now },
+      { bggId: 2, name: 'Beta', lastFetchedAt: now },
+    ])
+    await db.tags.add({ name: 'Filler', createdAt: now })
+    const partyId = await db.tags.add({ name: 'party', createdAt: now })
+    await db.gameTags.add({ tagId: partyId, bggId: 2 })
+    await db.gameLists.add({ name: 'Cabin', bggIds: [2], createdAt: now, updatedAt: now })
+
+    await importBackup({ files: exported.blob, mode: 'merge' })
+
+    expect(await db.tags.count()).toBe(2)
+    const tagged = await db.gameTags.where('tagId').equals(partyId).toArray()
+    expect(tagged.map((t) => t.bggId).sort()).toEqual([1, 2])
+    const [list] = await db.gameLists.toArray()
+    expect(list.bggIds).toEqual([2, 1])
   })
 
   it('merge keeps newer game data', async () => {
@@ -55,5 +100,21 @@ describe('backup export/import', () => {
     const game = await db.games.get(1)
     expect(game?.name).toBe('Alpha new')
     expect(game?.lastFetchedAt).toBe('2025-01-01T00:00:00.000Z')
+    // Re-importing the same plays and loans does not duplicate them
+    expect(await db.plays.count()).toBe(1)
+    expect(await db.loans.count()).toBe(1)
+  })
+
+  it('imports older backups without a plays file', async () => {
+    await seedBasic()
+    const exported = await exportBackupZip()
+    const unzipped = unzipSync(new Uint8Array(await exported.blob.arrayBuffer()))
+    delete unzipped['plays.csv']
+
+    await clearAllData()
+    await importBackup({ files: zipSync(unzipped), mode: 'replace' })
+
+    expect(await db.games.count()).toBe(1)
+    expect(await db.plays.count()).toBe(0)
   })
 })
@@ -38,12 +38,15 @@ function mapGames(ctx: ExportContext) {
     'minPlayers',
     'maxPlayers',
     'bestWith',
+    'playerCountPollJson',
     'playingTimeMinutes',
     'minPlayTimeMinutes',
     'maxPlayTimeMinutes',
     'minAge',
     'mechanicsJson',
     'categoriesJson',
+    'designersJson',
+    'expansionsJson',
     'description',
     'averageRating',
     'weight',
@@ -54,6 +57,9 @@ function mapGames(ctx: ExportContext) {
     ...g,
     mechanicsJson: g.mechanics ? json(g.mechanics) : '',
     categoriesJson: g.categories ? json(g.categories) : '',
+    designersJson: g.designers ? json(g.designers) : '',
+    expansionsJson: g.expansions ? json(g.expansions) : '',
+    playerCountPollJson: g.playerCountPoll ? json(g.playerCountPoll) : '',
   }))
   return { file: 'games.csv', fields, rows }
 }
@@ -65,19 +71,19 @@ function mapGameNotes(ctx: ExportContext) {
 }
 
 function mapUsers(ctx: ExportContext) {
-  const fields = ['username', 'internalId', 'displayName', 'isBggUser', 'isOrganizer', 'isLocalOwner', 'lastSyncAt', 'ownedCount', 'isDeleted']
+  const fields = ['username', 'internalId', 'displayName', 'isBggUser', 'bggUsername', 'isOrganizer', 'isLocalOwner', 'lastSyncAt', 'lastPlaysSyncAt', 'ownedCount', 'isDeleted']
   const rows = ctx.users
   return { file: 'users.csv', fields, rows }
 }
 
 function mapUserGames(ctx: ExportContext) {
-  const fields = ['id', 'username', 'bggId', 'rating', 'source', 'addedAt']
+  const fields = ['id', 'username', 'bggId', 'rating', 'source', 'addedAt', 'location', 'lentTo', 'lentSince']
   const rows = ctx.userGames
   return { file: 'user_games.csv', fields, rows }
 }
 
 function mapUserPreferences(ctx: ExportContext) {
-  const fields = ['id', 'username', 'bggId', 'rank', 'isTopPick', 'isDisliked', 'updatedAt']
+  const fields = ['id', 'username', 'bggId', 'rank', 'tier', 'isTopPick', 'isDisliked', 'dislikedAt', 'knowsRules', 'wantsToLearn', 'willingToTeach', 'updatedAt']
   const rows = ctx.userPreferences
   return { file: 'user_preferences.csv', fields, rows }
 }
@@ -94,8 +100,44 @@ function mapSavedNights(ctx: ExportContext) {
   return { file: 'saved_nights.csv', fields, rows }
 }
 
+function mapPlays(ctx: ExportContext) {
+  const fields = ['id', 'playedAt', 'bggId', 'playersJson', 'winner', 'durationMinutes', 'notes', 'quantity', 'otherPlayersJson', 'bggPlayId', 'createdAt']
+  const rows = ctx.plays.map((p) => ({
+    ...p,
+    playersJson: json(p.players),
+    otherPlayersJson: p.otherPlayers ? json(p.otherPlayers) : '',
+  }))
+  return { file: 'plays.csv', fields, rows }
+}
+
+function mapOwnedExpansions(ctx: ExportContext) {
+  const fields = ['expansionId', 'baseGameId', 'name', 'minPlayers', 'maxPlayers', 'addedAt']
+  return { file: 'owned_expansions.csv', fields, rows: ctx.ownedExpansions }
+}
+
+function mapTags(ctx: ExportContext) {
+  const fields = ['id', 'name', 'createdAt']
+  return { file: 'tags.csv', fields, rows: ctx.tags }
+}
+
+function mapGameTags(ctx: ExportContext) {
+  const fields = ['id', 'tagId', 'bggId']
+  return { file: 'game_tags.csv', fields, rows: ctx.gameTags }
+}
+
+function mapGameLists(ctx: ExportContext) {
+  const fields = ['id', 'name', 'bggIdsJson', 'createdAt', 'updatedAt']
+  const rows = ctx.gameLists.map((l) => ({ ...l, bggIdsJson: json(l.bggIds) }))
+  return { file: 'game_lists.csv', fields, rows }
+}
+
+function mapLoans(ctx: ExportContext) {
+  const fields = ['id', 'bggId', 'username', 'borrower', 'lentAt', 'returnedAt']
+  return { file: 'loans.csv', fields, rows: ctx.loans }
+}
+
 async function readContext(): Promise<ExportContext> {
-  const [games, gameNotes, users, userGames, userPreferences, wizardState, savedNights] = await Promise.all([
+  const [games, gameNotes, users, userGames, userPreferences, wizardState, savedNights, plays, ownedExpansions, tags, gameTags, gameLists, loans] = await Promise.all([
     db.games.toArray(),
     db.gameNotes.toArray(),
     db.users.toArray(),
@@ -103,8 +145,14 @@ async function readContext(): Promise<ExportContext> {
     db.userPreferences.toArray(),
     db.wizardState.get('singleton'),
     db.savedNights.toArray(),
+    db.plays.toArray(),
+    db.ownedExpansions.toArray(),
+    db.tags.toArray(),
+    db.gameTags.toArray(),
+    db.gameLists.toArray(),
+    db.loans.toArray(),
   ])
-  return { games, gameNotes, users, userGames, userPreferences, wizardState: wizardState ?? null, savedNights }
+  return { games, gameNotes, users, userGames, userPreferences, wizardState: wizardState ?? null, savedNights, plays, ownedExpansions, tags, gameTags, gameLists, loans }
 }
 
 function makeMetadata(ctx: ExportContext): BackupMetadata {
@@ -121,6 +169,12 @@ function makeMetadata(ctx: ExportContext): BackupMetadata {
       user_preferences: ctx.userPreferences.length,
       wizard_state: ctx.wizardState ? 1 : 0,
       saved_nights: ctx.savedNights.length,
+      plays: ctx.plays.length,
+      owned_expansions: ctx.ownedExpansions.length,
+      tags: ctx.tags.length,
+      game_tags: ctx.gameTags.length,
+      game_lists: ctx.gameLists.length,
+      loans: ctx.loans.length,
     },
   }
 }
@@ -129,7 +183,7 @@ export async function exportBackupZip(onProgress?: (p: BackupProgress) => void):
   notify(onProgress, { stage: 'export', message: 'Reading data' })
   const ctx = await readContext()
 
-  const tables = [mapGames, mapGameNotes, mapUsers, mapUserGames, mapUserPreferences, mapWizardState, mapSavedNights]
+  const tables = [mapGames, mapGameNotes, mapUsers, mapUserGames, mapUserPreferences, mapWizardState, mapSavedNights, mapPlays, mapOwnedExpansions, mapTags, mapGameTags, mapGameLists, mapLoans]
   const files: Record<string, Uint8Array> = {}
 
   tables.forEach((mapper) => {
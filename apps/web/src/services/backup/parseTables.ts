@@ -2,6 +2,7 @@ import Papa from 'papaparse'
 import { strFromU8 } from 'fflate'
 import type { BackupTable, UserMapping } from './types'
 import { generateInternalId } from '../db/userIdService'
+import { isPreferenceTier } from '../preferences/preferenceTiers'
 
 export type ParsedTables = ReturnType<typeof collectTables>
 
@@ -34,6 +35,12 @@ function readText(files: Record<string, Uint8Array>, name: string) {
   return strFromU8(file)
 }
 
+/** Tables added after the first backup format; older backups simply lack them */
+function readOptionalText(files: Record<string, Uint8Array>, name: string) {
+  const file = files[name]
+  return file ? strFromU8(file) : ''
+}
+
 export function collectTables(files: Record<string, Uint8Array>) {
   const games = parseCsv(readText(files, 'games.csv')).map((r: Record<string, string>) => ({
     bggId: Number(r.bggId),
@@ -44,12 +51,15 @@ export function collectTables(files: Record<string, Uint8Array>) {
     minPlayers: num(r.minPlayers),
     maxPlayers: num(r.maxPlayers),
     bestWith: r.bestWith || undefined,
+    playerCountPoll: json(r.playerCountPollJson),
     playingTimeMinutes: num(r.playingTimeMinutes),
     minPlayTimeMinutes: num(r.minPlayTimeMinutes),
     maxPlayTimeMinutes: num(r.maxPlayTimeMinutes),
     minAge: num(r.minAge),
     mechanics: json(r.mechanicsJson),
     categories: json(r.categoriesJson),
+    designers: json(r.designersJson),
+    expansions: json(r.expansionsJson),
     description: r.description || undefined,
     averageRating: num(r.averageRating),
     weight: num(r.weight),
@@ -69,9 +79,11 @@ export function collectTables(files: Record<string, Uint8Array>) {
     internalId: r.internalId || generateInternalId(r.displayName || r.username),
     displayName: r.displayName || undefined,
     isBggUser: bool(r.isBggUser) ?? false,
+    bggUsername: r.bggUsername || undefined,
     isOrganizer: bool(r.isOrganizer),
     isLocalOwner: bool(r.isLocalOwner),
     lastSyncAt: r.lastSyncAt || undefined,
+    lastPlaysSyncAt: r.lastPlaysSyncAt || undefined,
     ownedCount: num(r.ownedCount),
     isDeleted: bool(r.isDeleted) ?? false,
   }))
@@ -83,6 +95,9 @@ export function collectTables(files: Record<string, Uint8Array>) {
     rating: num(r.rating),
     source: (r.source as 'bgg' | 'manual') ?? 'bgg',
     addedAt: r.addedAt,
+    location: r.location || undefined,
+    lentTo: r.lentTo || undefined,
+    lentSince: r.lentSince || undefined,
   }))
 
   const userPreferences = parseCsv(readText(files, 'user_preferences.csv')).map((r: Record<string, string>) => {
@@ -91,11 +106,16 @@ export function collectTables(files: Record<string, Uint8Array>) {
       username: r.username,
       bggId: Number(r.bggId),
       rank: num(r.rank),
+      tier: isPreferenceTier(r.tier) ? r.tier : undefined,
       isTopPick: bool(r.isTopPick) ?? false,
       isDisliked: bool(r.isDisliked) ?? false,
+      dislikedAt: r.dislikedAt || undefined,
+      knowsRules: bool(r.knowsRules),
+      wantsToLearn: bool(r.wantsToLearn),
+      willingToTeach: bool(r.willingToTeach),
       updatedAt: r.updatedAt,
     }
-    return pref.isDisliked ? { ...pref, rank: undefined, isTopPick: false } : pref
+    return pref.isDisliked ? { ...pref, rank: undefined, tier: undefined, isTopPick: false } : pref
   })
 
   const wizardStateRows = parseCsv(readText(files, 'wizard_state.csv'))
@@ -109,7 +129,59 @@ export function collectTables(files: Record<string, Uint8Array>) {
     data: json(r.dataJson),
   }))
 
-  return { games, gameNotes, users, userGames, userPreferences, wizardState, savedNights }
+  const plays = parseCsv(readOptionalText(files, 'plays.csv')).map((r: Record<string, string>) => ({
+    id: num(r.id),
+    playedAt: r.playedAt,
+    bggId: Number(r.bggId),
+    players: (json(r.playersJson) as string[] | undefined) ?? [],
+    winner: r.winner || undefined,
+    durationMinutes: num(r.durationMinutes),
+    notes: r.notes || undefined,
+    quantity: num(r.quantity),
+    otherPlayers: json(r.otherPlayersJson) as string[] | undefined,
+    bggPlayId: num(r.bggPlayId),
+    createdAt: r.createdAt,
+  }))
+
+  const ownedExpansions = parseCsv(readOptionalText(files, 'owned_expansions.csv')).map((r: Record<string, string>) => ({
+    expansionId: Number(r.expansionId),
+    baseGameId: Number(r.baseGameId),
+    name: r.name,
+    minPlayers: num(r.minPlayers),
+    maxPlayers: num(r.maxPlayers),
+    addedAt: r.addedAt,
+  }))
+
+  const tags = parseCsv(readOptionalText(files, 'tags.csv')).map((r: Record<string, string>) => ({
+    id: num(r.id),
+    name: r.name,
+    createdAt: r.createdAt,
+  }))
+
+  const gameTags = parseCsv(readOptionalText(files, 'game_tags.csv')).map((r: Record<string, string>) => ({
+    id: num(r.id),
+    tagId: Number(r.tagId),
+    bggId: Number(r.bggId),
+  }))
+
+  const gameLists = parseCsv(readOptionalText(files, 'game_lists.csv')).map((r: Record<string, string>) => ({
+    id: num(r.id),
+    name: r.name,
+    bggIds: (json(r.bggIdsJson) as number[] | undefined) ?? [],
+    createdAt: r.createdAt,
+    updatedAt: r.updatedAt,
+  }))
+
+  const loans = parseCsv(readOptionalText(files, 'loans.csv')).map((r: Record<string, string>) => ({
+    id: num(r.id),
+    bggId: Number(r.bggId),
+    username: r.username,
+    borrower: r.borrower,
+    lentAt: r.lentAt,
+    returnedAt: r.returnedAt || undefined,
+  }))
+
+  return { games, gameNotes, users, userGames, userPreferences, wizardState, savedNights, plays, ownedExpansions, tags, gameTags, gameLists, loans }
 }
 
 export function countsFor(payload: ParsedTables): Partial<Record<BackupTable, number>> {
@@ -121,6 +193,12 @@ export function countsFor(payload: ParsedTables): Partial<Record<BackupTable, nu
     user_preferences: payload.userPreferences.length,
     wizard_state: payload.wizardState ? 1 : 0,
     saved_nights: payload.savedNights.length,
+    plays: payload.plays.length,
+    owned_expansions: payload.ownedExpansions.length,
+    tags: payload.tags.length,
+    game_tags: payload.gameTags.length,
+    game_lists: payload.gameLists.length,
+    loans: payload.loans.length,
   }
 }
 
@@ -194,10 +272,23 @@ export function applyUserMapping(
     username: mapUsername(up.username),
   }))
 
+  const mappedPlays = payload.plays.map((p) => ({
+    ...p,
+    players: [...new Set(p.players.map(mapUsername))],
+    winner: p.winner ? mapUsername(p.winner) : undefined,
+  }))
+
+  const mappedLoans = payload.loans.map((loan) => ({
+    ...loan,
+    username: mapUsername(loan.username),
+  }))
+
   return {
     ...payload,
     users: mappedUsers,
     userGames: mappedUserGames,
     userPreferences: mappedUserPreferences,
+    plays: mappedPlays,
+    loans: mappedLoans,
   }
 }
@@ -1,4 +1,4 @@
-import type { GameNoteRecord, GameRecord, SavedNightRecord, UserGameRecord, UserPreferenceRecord, UserRecord, WizardStateRecord } from '../../db/types'
+import type { GameListRecord, GameNoteRecord, GameRecord, GameTagRecord, LoanRecord, OwnedExpansionRecord, PlayRecord, SavedNightRecord, TagRecord, UserGameRecord, UserPreferenceRecord, UserRecord, WizardStateRecord } from '../../db/types'
 
 export type BackupMode = 'replace' | 'merge'
 
@@ -18,6 +18,12 @@ export type BackupTable =
   | 'user_preferences'
   | 'wizard_state'
   | 'saved_nights'
+  | 'plays'
+  | 'owned_expansions'
+  | 'tags'
+  | 'game_tags'
+  | 'game_lists'
+  | 'loans'
 
 export interface BackupExportResult {
   blob: Blob
@@ -60,4 +66,10 @@ export interface ExportContext {
   userPreferences: UserPreferenceRecord[]
   wizardState: WizardStateRecord | null
   savedNights: SavedNightRecord[]
+  plays: PlayRecord[]
+  ownedExpansions: OwnedExpansionRecord[]
+  tags: TagRecord[]
+  gameTags: GameTagRecord[]
+  gameLists: GameListRecord[]
+  loans: LoanRecord[]
 }
@@ -0,0 +1,29 @@
+import type { GameExpansionLink, OwnedExpansionRecord } from '../../db/types'
+import { addOwnedExpansion } from '../db'
+import { hasBggApiKey } from './bggClient'
+import { fetchThingDetails } from './bggService'
+
+/**
+ * Mark an expansion of `baseGameId` as owned. When the BGG API is available
+ * its player range is fetched too, so the expansion can widen the base game's
+ * player count; without it the expansion is stored by name only.
+ */
+export async function markExpansionOwned(
+  baseGameId: number,
+  link: GameExpansionLink,
+): Promise<OwnedExpansionRecord> {
+  let minPlayers: number | undefined
+  let maxPlayers: number | undefined
+
+  if (hasBggApiKey()) {
+    try {
+      const [details] = await fetchThingDetails([link.bggId])
+      minPlayers = details?.minPlayers
+      maxPlayers = details?.maxPlayers
+    } catch (err) {
+      console.warn(`Failed to fetch expansion ${link.bggId} from BGG:`, err)
+    }
+  }
+
+  return addOwnedExpansion({ expansionId: link.bggId, baseGameId, name: link.name, minPlayers, maxPlayers })
+}
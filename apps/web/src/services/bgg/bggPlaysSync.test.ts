@@ -0,0 +1,71 @@
+vi.mock('./bggClient', async () => {
+  const actual = await vi.importActual<typeof import('./bggClient')>('./bggClient')
+  return {
+    ...actual,
+    hasBggApiKey: () => true,
+    fetchQueuedXml: vi.fn(),
+  }
+})
+
+import { beforeEach, describe, expect, it } from 'vitest'
+import { clearAllData, db } from '../../db/db'
+import { fetchQueuedXml } from './bggClient'
+import { syncUserPlaysToDb } from './bggPlaysSync'
+
+const playsXml = `<?xml version="1.0" encoding="utf-8"?>
+<plays username="alice" userid="1" total="2" page="1">
+  <play id="501" date="2026-01-10" quantity="1" length="60" incomplete="0">
+    <item name="Azul" objecttype="thing" objectid="230802" />
+    <players>
+      <player username="Alice" name="Alice" win="0" />
+      <player username="bobgeek" name="Bob" win="1" />
+      <player username="" name="Carol" win="0" />
+    </players>
+  </play>
+  <play id="502" date="2026-01-11" quantity="1" length="0" incomplete="1">
+    <item name="Azul" objecttype="thing" objectid="230802" />
+  </play>
+</plays>`
+
+describe('syncUserPlaysToDb', () => {
+  beforeEach(async () => {
+    await clearAllData()
+    vi.mocked(fetchQueuedXml).mockReset()
+    vi.mocked(fetchQueuedXml).mockResolvedValue(playsXml)
+    await db.users.add({ username: 'alice', internalId: 'alice-1', isBggUser: true })
+    await db.users.add({ username: 'bob-1', internalId: 'bob-1', displayName: 'Bob', isBggUser: false, bggUsername: 'BobGeek' })
+  })
+
+  it('links players by BGG username and skips incomplete plays', async () => {
+    const result = await syncUserPlaysToDb('alice')
+
+    expect(result).toEqual({ added: 1, updated: 0, skipped: 1 })
+    const [play] = await db.plays.toArray()
+    expect(play).toMatchObject({
+      bggPlayId: 501,
+      bggId: 230802,
+      playedAt: '2026-01-10',
+      players: ['alice', 'bob-1'],
+      winner: 'bob-1',
+      otherPlayers: ['Carol'],
+      durationMinutes: 60,
+    })
+    expect((await db.users.get('alice'))?.lastPlaysSyncAt).toBeDefined()
+  })
+
+  it('updates plays already imported and syncs incrementally', async () => {
+    await syncUserPlaysToDb('alice')
+    const result = await syncUserPlaysToDb('alice')
+
+    expect(result).toEqual({ added: 0, updated: 1, skipped: 1 })
+    expect(await db.plays.count()).toBe(1)
+    const secondUrl = String(vi.mocked(fetchQueuedXml).mock.calls[1][0])
+    expect(secondUrl).toContain('mindate=')
+  })
+
+  it('rejects users without a BGG account', async () => {
+    await db.users.add({ username: 'local', internalId: 'local-1', isBggUser: false })
+
+    await expect(syncUserPlaysToDb('local')).rejects.toThrow('not linked to a BGG account')
+  })
+})
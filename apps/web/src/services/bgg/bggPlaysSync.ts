@@ -0,0 +1,95 @@
+import type { PlayRecord, UserRecord } from '../../db/types'
+import { getAllUsers, getUser, importPlays, updateUserLastPlaysSync } from '../db'
+import { playDateDaysAgo } from '../plays/playDate'
+import { fetchUserPlays } from './bggService'
+import type { BggPlay, BggPlaysOptions } from './types'
+
+export interface PlaysSyncResult {
+  added: number
+  updated: number
+  skipped: number
+}
+
+export function getBggUsernameFor(user: UserRecord): string | undefined {
+  return user.bggUsername ?? (user.isBggUser ? user.username : undefined)
+}
+
+/** Lowercased BGG username -> local username */
+function buildPlayerLinks(users: UserRecord[]): Map<string, string> {
+  const links = new Map<string, string>()
+  for (const user of users) {
+    const bggUsername = getBggUsernameFor(user)
+    if (bggUsername) links.set(bggUsername.toLowerCase(), user.username)
+  }
+  return links
+}
+
+export function toPlayRecord(
+  play: BggPlay,
+  loggedBy: string,
+  links: Map<string, string>,
+  createdAt: string,
+): Omit<PlayRecord, 'id'> {
+  const players: string[] = []
+  const otherPlayers: string[] = []
+  let winner: string | undefined
+
+  for (const player of play.players) {
+    const local = player.bggUsername ? links.get(player.bggUsername.toLowerCase()) : undefined
+    if (!local) {
+      otherPlayers.push(player.name)
+      continue
+    }
+    if (!players.includes(local)) players.push(local)
+    if (player.win && !winner) winner = local
+  }
+
+  // Plays logged without a player list still belong to whoever logged them
+  if (players.length === 0) players.push(loggedBy)
+
+  return {
+    playedAt: play.date,
+    bggId: play.bggId,
+    players,
+    winner,
+    durationMinutes: play.lengthMinutes,
+    notes: play.comments,
+    quantity: play.quantity,
+    otherPlayers: otherPlayers.length > 0 ? otherPlayers : undefined,
+    bggPlayId: play.playId,
+    createdAt,
+  }
+}
+
+/**
+ * Import the plays a local user has logged on BGG. After the first sync only
+ * plays since the previous sync (with a day of overlap) are requested.
+ */
+export async function syncUserPlaysToDb(
+  username: string,
+  options: BggPlaysOptions & { fullSync?: boolean } = {},
+): Promise<PlaysSyncResult> {
+  const user = await getUser(username)
+  const bggUsername = user ? getBggUsernameFor(user) : undefined
+  if (!bggUsername) {
+    throw new Error(`${username} is not linked to a BGG account`)
+  }
+
+  const minDate =
+    options.minDate ??
+    (!options.fullSync && user?.lastPlaysSyncAt
+      ? playDateDaysAgo(1, new Date(user.lastPlaysSyncAt))
+      : undefined)
+
+  const bggPlays = await fetchUserPlays(bggUsername, { ...options, minDate })
+  const links = buildPlayerLinks(await getAllUsers())
+  const createdAt = new Date().toISOString()
+
+  const complete = bggPlays.filter((p) => !p.incomplete)
+  const { added, updated } = await importPlays(
+    complete.map((p) => toPlayRecord(p, username, links, createdAt)),
+  )
+  await updateUserLastPlaysSync(username)
+
+  return { added, updated, skipped: bggPlays.length - complete.length }
+}
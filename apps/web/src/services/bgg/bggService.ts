@@ -10,13 +10,16 @@ import {
   upsertGames,
 } from '../db'
 import { BggAuthError, BggUserNotFoundError, fetchQueuedXml, hasBggApiKey } from './bggClient'
-import { buildCollectionUrl, buildSearchUrl, buildThingUrl } from './bggUrls'
+import { buildCollectionUrl, buildPlaysUrl, buildSearchUrl, buildThingUrl } from './bggUrls'
 import { parseCollectionXmlResponse } from './parseCollectionXml'
+import { parsePlaysXml } from './parsePlaysXml'
 import { parseSearchXml } from './parseSearchXml'
 import { parseThingXml } from './parseThingXml'
 import type {
   BggCollectionItem,
   BggFetchOptions,
+  BggPlay,
+  BggPlaysOptions,
   BggSearchOptions,
   BggSearchResult,
   BggThingDetails,
@@ -33,6 +36,9 @@ const DEFAULT_CACHE_MAX_AGE_MS = 24 * 60 * 60 * 1000
 // Max batch size for BGG Thing API
 const THING_BATCH_SIZE = 20
 
+// Safety cap on pages fetched per plays sync (BGG returns 100 plays per page)
+const MAX_PLAYS_PAGES = 50
+
 function requireApiKeyForXml(feature: string): void {
   if (hasBggApiKey()) return
   throw new BggAuthError(
@@ -63,6 +69,45 @@ export async function fetchOwnedCollection(
   return parsed.items
 }
 
+/**
+ * Fetch a user's logged plays, following BGG's 100-per-page paging.
+ * Narrow the range with `minDate`/`maxDate` for incremental syncs.
+ */
+export async function fetchUserPlays(
+  username: string,
+  options: BggPlaysOptions = {},
+): Promise<BggPlay[]> {
+  requireApiKeyForXml('plays import')
+  const plays: BggPlay[] = []
+
+  for (let page = 1; page <= MAX_PLAYS_PAGES; page++) {
+    const url = buildPlaysUrl({
+      username,
+      minDate: options.minDate,
+      maxDate: options.maxDate,
+      page,
+      baseUrl: options.baseUrl,
+    })
+    const xml = await fetchQueuedXml(url, {
+      maxRetries: options.maxRetries ?? DEFAULT_MAX_RETRIES,
+      initialDelayMs: options.initialDelayMs ?? DEFAULT_INITIAL_DELAY_MS,
+      maxDelayMs: options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS,
+      signal: options.signal,
+    })
+
+    const parsed = parsePlaysXml(xml)
+    if (parsed.message?.toLowerCase().includes('invalid object or user')) {
+      throw new BggUserNotFoundError(`User not found on BGG: ${username}`)
+    }
+
+    plays.push(...parsed.plays)
+    options.onPage?.({ fetched: plays.length, total: parsed.total })
+    if (parsed.plays.length === 0 || plays.length >= parsed.total) break
+  }
+
+  return plays
+}
+
 export async function fetchThingDetails(
   ids: BggThingId[],
   options: BggFetchOptions = {},
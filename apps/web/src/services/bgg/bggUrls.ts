@@ -70,4 +70,25 @@ export function buildSearchUrl(params: {
   if (params.exact) queryParams.exact = '1'
 
   return buildUrl(base, 'search', queryParams)
-}
\ No newline at end of file
+}
+
+export function buildPlaysUrl(params: {
+  username: string
+  minDate?: string
+  maxDate?: string
+  page?: number
+  baseUrl?: string
+}): string {
+  const base = getBggBaseUrl(params.baseUrl)
+  const queryParams: Record<string, string> = {
+    username: params.username,
+    type: 'thing',
+    subtype: 'boardgame',
+  }
+
+  if (params.minDate) queryParams.mindate = params.minDate
+  if (params.maxDate) queryParams.maxdate = params.maxDate
+  if (params.page && params.page > 1) queryParams.page = String(params.page)
+
+  return buildUrl(base, 'plays', queryParams)
+}
@@ -0,0 +1,64 @@
+import { parsePlaysXml } from './parsePlaysXml'
+
+describe('parsePlaysXml', () => {
+  it('parses plays with players and paging info', () => {
+    const xml = `<?xml version="1.0" encoding="utf-8"?>
+<plays username="alice" userid="1" total="150" page="2" termsofuse="https://boardgamegeek.com/xmlapi/termsofuse">
+  <play id="9001" date="2026-01-10" quantity="2" length="45" incomplete="0" nowinstats="0" location="Home">
+    <item name="Catan" objecttype="thing" objectid="13">
+      <subtypes><subtype value="boardgame"/></subtypes>
+    </item>
+    <comments>Close game</comments>
+    <players>
+      <player username="alice" userid="1" name="Alice" startposition="" color="" score="10" new="0" rating="0" win="1"/>
+      <player username="" userid="0" name="Uncle Bob" startposition="" color="" score="8" new="1" rating="0" win="0"/>
+    </players>
+  </play>
+  <play id="9002" date="2026-01-09" quantity="1" length="0" incomplete="1" nowinstats="0" location="">
+    <item name="Azul" objecttype="thing" objectid="230802"/>
+  </play>
+</plays>`
+
+    expect(parsePlaysXml(xml)).toEqual({
+      total: 150,
+      page: 2,
+      message: undefined,
+      plays: [
+        {
+          playId: 9001,
+          date: '2026-01-10',
+          bggId: 13,
+          name: 'Catan',
+          quantity: 2,
+          lengthMinutes: 45,
+          incomplete: false,
+          comments: 'Close game',
+          players: [
+            { bggUsername: 'alice', name: 'Alice', win: true, score: '10' },
+            { bggUsername: undefined, name: 'Uncle Bob', win: false, score: '8' },
+          ],
+        },
+        {
+          playId: 9002,
+          date: '2026-01-09',
+          bggId: 230802,
+          name: 'Azul',
+          quantity: 1,
+          lengthMinutes: undefined,
+          incomplete: true,
+          comments: undefined,
+          players: [],
+        },
+      ],
+    })
+  })
+
+  it('extracts the error message for unknown users', () => {
+    const xml = `<?xml version="1.0" encoding="utf-8"?>
+<div class='messagebox error'>
+  Invalid object or user
+</div>`
+
+    expect(parsePlaysXml(xml)).toEqual({ plays: [], total: 0, page: 1, message: 'Invalid object or user' })
+  })
+})
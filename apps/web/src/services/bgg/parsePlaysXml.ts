@@ -0,0 +1,96 @@
+import { XMLParser } from 'fast-xml-parser'
+import type { BggPlay, BggPlayPlayer, BggPlaysPage } from './types'
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  allowBooleanAttributes: true,
+})
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (!value) return []
+  return Array.isArray(value) ? value : [value]
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+function getValue(value: unknown, key: string): unknown {
+  if (!isRecord(value)) return undefined
+  return value[key]
+}
+
+function getText(value: unknown): string | undefined {
+  const text = (isRecord(value) ? value['#text'] : undefined) ?? value
+  if (text == null || isRecord(text)) return undefined
+  const trimmed = String(text).trim()
+  return trimmed || undefined
+}
+
+function getNumber(value: unknown, key: string): number | undefined {
+  const raw = getValue(value, key)
+  if (raw == null || raw === '') return undefined
+  const n = Number(raw)
+  return Number.isFinite(n) ? n : undefined
+}
+
+function parsePlayer(node: unknown): BggPlayPlayer | null {
+  const bggUsername = getText(getValue(node, 'username'))
+  const name = getText(getValue(node, 'name')) ?? bggUsername
+  if (!name) return null
+
+  return {
+    bggUsername,
+    name,
+    win: getValue(node, 'win') === '1',
+    score: getText(getValue(node, 'score')),
+  }
+}
+
+function parsePlay(node: unknown): BggPlay | null {
+  const playId = getNumber(node, 'id')
+  const date = getText(getValue(node, 'date'))
+  const item = getValue(node, 'item')
+  const bggId = getNumber(item, 'objectid')
+  if (playId === undefined || bggId === undefined || !date) return null
+
+  const length = getNumber(node, 'length')
+  const players = toArray(getValue(getValue(node, 'players'), 'player') as unknown)
+    .map(parsePlayer)
+    .filter((p): p is BggPlayPlayer => p !== null)
+
+  return {
+    playId,
+    date,
+    bggId,
+    name: getText(getValue(item, 'name')) ?? '',
+    quantity: getNumber(node, 'quantity') ?? 1,
+    // BGG reports 0 when no length was logged
+    lengthMinutes: length ? length : undefined,
+    incomplete: getValue(node, 'incomplete') === '1',
+    comments: getText(getValue(node, 'comments')),
+    players,
+  }
+}
+
+export function parsePlaysXml(xml: string): BggPlaysPage {
+  const parsed = parser.parse(xml) as unknown
+  const playsRoot = getValue(parsed, 'plays')
+  // Unknown users come back as a bare error element instead of <plays>
+  const message =
+    getText(getValue(playsRoot, 'message')) ??
+    getText(getValue(parsed, 'error')) ??
+    getText(getValue(parsed, 'div'))
+
+  const plays = toArray(getValue(playsRoot, 'play') as unknown)
+    .map(parsePlay)
+    .filter((p): p is BggPlay => p !== null)
+
+  return {
+    plays,
+    total: getNumber(playsRoot, 'total') ?? plays.length,
+    page: getNumber(playsRoot, 'page') ?? 1,
+    message,
+  }
+}
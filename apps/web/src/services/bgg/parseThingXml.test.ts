@@ -59,6 +59,10 @@ describe('parseThingXml', () => {
         minPlayers: 2,
         maxPlayers: 4,
         bestWith: '2, 4',
+        playerCountPoll: [
+          { numPlayers: 2, best: 233, recommended: 0, notRecommended: 0 },
+          { numPlayers: 4, best: 312, recommended: 0, notRecommended: 0 },
+        ],
         playingTimeMinutes: undefined,
         minPlayTimeMinutes: undefined,
         maxPlayTimeMinutes: undefined,
@@ -94,6 +98,9 @@ describe('parseThingXml', () => {
     <link type="boardgamemechanic" id="2023" value="Cooperative Game" />
     <link type="boardgamemechanic" id="2664" value="Deck, Bag, and Pool Building" />
     <link type="boardgamemechanic" id="2040" value="Hand Management" />
+    <link type="boardgamedesigner" id="3" value="(Uncredited)" />
+    <link type="boardgamedesigner" id="1234" value="Eilif Svensson" />
+    <link type="boardgameexpansion" id="450001" value="The Druids of Edora: Grove" />
     <statistics page="1">
       <ratings>
         <usersrated value="1250" />
@@ -135,8 +142,10 @@ describe('parseThingXml', () => {
     // Age
     expect(game.minAge).toBe(14)
     
-    // Categories and mechanics
+    // Categories, mechanics and designers
     expect(game.categories).toEqual(['Adventure', 'Fantasy'])
+    expect(game.designers).toEqual(['Eilif Svensson'])
+    expect(game.expansions).toEqual([{ bggId: 450001, name: 'The Druids of Edora: Grove' }])
     expect(game.mechanics).toEqual(['Cooperative Game', 'Deck, Bag, and Pool Building', 'Hand Management'])
     
     // Description (HTML entities decoded, limited length)
@@ -1,4 +1,5 @@
 import { XMLParser } from 'fast-xml-parser'
+import type { PlayerCountVotes } from '../../db/types'
 import type { BggThingDetails } from './types'
 
 const parser = new XMLParser({
@@ -109,6 +110,42 @@ function extractBestWith(item: unknown): string | undefined {
   return bestCounts.join(', ')
 }
 
+/**
+ * Vote distribution of the suggested_numplayers poll, one entry per exact
+ * player count ("N+" buckets are skipped).
+ */
+function extractPlayerCountPoll(item: unknown): PlayerCountVotes[] | undefined {
+  const itemObj = asObject(item)
+  const numPlayersPoll = toArrayUnknown(itemObj?.poll)
+    .map((p) => asObject(p))
+    .find((p) => p?.name === 'suggested_numplayers')
+  if (!numPlayersPoll) return undefined
+
+  const votes: PlayerCountVotes[] = []
+  for (const resultsGroup of toArrayUnknown(numPlayersPoll.results)) {
+    const resultsGroupObj = asObject(resultsGroup)
+    const numplayers = typeof resultsGroupObj?.numplayers === 'string' ? resultsGroupObj.numplayers : undefined
+    if (!numplayers || numplayers.includes('+')) continue
+    const numPlayers = parseInt(numplayers, 10)
+    if (!Number.isFinite(numPlayers) || numPlayers < 1) continue
+
+    const resultItems = toArrayUnknown(resultsGroupObj?.result).map((r) => asObject(r))
+    const countFor = (value: string) => {
+      const r = resultItems.find((x) => x?.value === value)
+      const n = typeof r?.numvotes === 'string' ? parseInt(r.numvotes, 10) : 0
+      return Number.isFinite(n) ? n : 0
+    }
+    votes.push({
+      numPlayers,
+      best: countFor('Best'),
+      recommended: countFor('Recommended'),
+      notRecommended: countFor('Not Recommended'),
+    })
+  }
+
+  return votes.length > 0 ? votes : undefined
+}
+
 export function parseThingXml(xml: string): BggThingDetails[] {
   const parsed = parser.parse(xml) as unknown
   const parsedObj = asObject(parsed)
@@ -143,6 +180,19 @@ export function parseThingXml(xml: string): BggThingDetails[] {
         .map((l) => String(l?.value ?? '').trim())
         .filter(Boolean)
 
+      const designers = links
+        .map((l) => asObject(l))
+        .filter((l) => l?.type === 'boardgamedesigner')
+        .map((l) => String(l?.value ?? '').trim())
+        .filter((d) => d && d !== '(Uncredited)')
+
+      // Inbound links on an expansion point back at its base game
+      const expansions = links
+        .map((l) => asObject(l))
+        .filter((l) => l?.type === 'boardgameexpansion' && l?.inbound !== 'true')
+        .map((l) => ({ bggId: Number(l?.id), name: String(l?.value ?? '').trim() }))
+        .filter((l) => Number.isFinite(l.bggId) && l.name)
+
       const yearPublished = readNumberAttribute(itemObj, 'yearpublished')
 
       // Extract description (strip HTML tags)
@@ -178,12 +228,15 @@ export function parseThingXml(xml: string): BggThingDetails[] {
         minPlayers: readNumberAttribute(itemObj, 'minplayers'),
         maxPlayers: readNumberAttribute(itemObj, 'maxplayers'),
         bestWith,
+        playerCountPoll: extractPlayerCountPoll(item),
         playingTimeMinutes: readNumberAttribute(itemObj, 'playingtime'),
         minPlayTimeMinutes: readNumberAttribute(itemObj, 'minplaytime'),
         maxPlayTimeMinutes: readNumberAttribute(itemObj, 'maxplaytime'),
         minAge: readNumberAttribute(itemObj, 'minage'),
         mechanics: mechanics.length ? mechanics : undefined,
         categories: categories.length ? categories : undefined,
+        designers: designers.length ? designers : undefined,
+        expansions: expansions.length ? expansions : undefined,
         description,
         averageRating: Number.isFinite(averageRating) ? averageRating : undefined,
         weight: Number.isFinite(weight) ? weight : undefined,
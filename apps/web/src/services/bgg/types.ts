@@ -1,3 +1,5 @@
+import type { GameExpansionLink, PlayerCountVotes } from '../../db/types'
+
 export type BggUsername = string
 
 export type BggThingId = number
@@ -18,12 +20,15 @@ export interface BggThingDetails {
   minPlayers?: number
   maxPlayers?: number
   bestWith?: string // e.g. "4" or "3-4" from BGG poll
+  playerCountPoll?: PlayerCountVotes[]
   playingTimeMinutes?: number
   minPlayTimeMinutes?: number
   maxPlayTimeMinutes?: number
   minAge?: number
   mechanics?: string[]
   categories?: string[]
+  designers?: string[]
+  expansions?: GameExpansionLink[]
   description?: string
   averageRating?: number
   weight?: number // BGG complexity 1-5
@@ -47,4 +52,42 @@ export interface BggSearchResult {
 export interface BggSearchOptions extends BggFetchOptions {
   type?: 'boardgame' | 'boardgameexpansion'
   exact?: boolean
-}
\ No newline at end of file
+}
+
+export interface BggPlayPlayer {
+  /** BGG username when the player has an account */
+  bggUsername?: string
+  name: string
+  win: boolean
+  score?: string
+}
+
+export interface BggPlay {
+  playId: number
+  /** Date of the play (YYYY-MM-DD) */
+  date: string
+  bggId: BggThingId
+  name: string
+  quantity: number
+  lengthMinutes?: number
+  incomplete: boolean
+  comments?: string
+  players: BggPlayPlayer[]
+}
+
+export interface BggPlaysPage {
+  plays: BggPlay[]
+  /** Total plays matching the query across all pages */
+  total: number
+  page: number
+  message?: string
+}
+
+export interface BggPlaysOptions extends BggFetchOptions {
+  /** Earliest play date to include (YYYY-MM-DD) */
+  minDate?: string
+  /** Latest play date to include (YYYY-MM-DD) */
+  maxDate?: string
+  /** Called after each page so callers can report progress */
+  onPage?: (progress: { fetched: number; total: number }) => void
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import type { GameRecord } from '../../db/types'
+import { buildCollectionRows, filterCollectionRows, sortCollectionRows } from './collectionRows'
+
+const now = '2024-01-01T00:00:00.000Z'
+
+const games: GameRecord[] = [
+  { bggId: 1, name: 'Catan', weight: 2.3, averageRating: 7.1, playingTimeMinutes: 90, mechanics: ['Trading'], lastFetchedAt: now },
+  { bggId: 2, name: 'Azul', weight: 1.8, averageRating: 7.8, playingTimeMinutes: 45, mechanics: ['Tile Placement'], lastFetchedAt: now },
+  { bggId: 3, name: 'Brass', weight: 3.9, playingTimeMinutes: 120, lastFetchedAt: now },
+]
+
+const rows = buildCollectionRows(games, { 1: ['alice', 'bob'], 2: ['bob'] }, { 2: '2024-03-01', 3: '2023-12-24' })
+
+const names = (list: typeof rows) => list.map((r) => r.game.name)
+
+describe('collectionRows', () => {
+  it('attaches owners and the last play date', () => {
+    expect(rows[0].owners).toEqual(['alice', 'bob'])
+    expect(rows[2].owners).toEqual([])
+    expect(rows[1].lastPlayedAt).toBe('2024-03-01')
+    expect(rows[0].lastPlayedAt).toBeUndefined()
+  })
+
+  it('filters by name, owner and facets', () => {
+    expect(names(filterCollectionRows(rows, { search: 'AZ', owner: null, facets: undefined }))).toEqual(['Azul'])
+    expect(names(filterCollectionRows(rows, { search: '', owner: 'bob', facets: undefined }))).toEqual(['Catan', 'Azul'])
+    expect(names(filterCollectionRows(rows, { search: '', owner: '', facets: undefined }))).toEqual(['Brass'])
+    expect(
+      names(filterCollectionRows(rows, { search: '', owner: null, facets: { mechanics: { include: ['Trading'], exclude: [] } } })),
+    ).toEqual(['Catan'])
+  })
+
+  it('sorts by column in either direction', () => {
+    expect(names(sortCollectionRows(rows, { key: 'name', direction: 'asc' }))).toEqual(['Azul', 'Brass', 'Catan'])
+    expect(names(sortCollectionRows(rows, { key: 'weight', direction: 'desc' }))).toEqual(['Brass', 'Catan', 'Azul'])
+    expect(names(sortCollectionRows(rows, { key: 'time', direction: 'asc' }))).toEqual(['Azul', 'Catan', 'Brass'])
+    expect(names(sortCollectionRows(rows, { key: 'owners', direction: 'desc' }))).toEqual(['Catan', 'Azul', 'Brass'])
+  })
+
+  it('keeps games missing the value last', () => {
+    expect(names(sortCollectionRows(rows, { key: 'rating', direction: 'asc' }))).toEqual(['Catan', 'Azul', 'Brass'])
+    expect(names(sortCollectionRows(rows, { key: 'rating', direction: 'desc' }))).toEqual(['Azul', 'Catan', 'Brass'])
+    expect(names(sortCollectionRows(rows, { key: 'lastPlayed', direction: 'desc' }))).toEqual(['Azul', 'Brass', 'Catan'])
+  })
+})
@@ -0,0 +1,90 @@
+/**
+ * Rows of the collection browser: every stored game with its owners and the
+ * date it was last played, plus the search and sort applied to them.
+ */
+import type { GameRecord } from '../../db/types'
+import type { WizardFilters } from '../../store/wizardTypes'
+import { matchesFacetFilters } from '../filtering/gameFacets'
+
+export interface CollectionRow {
+  game: GameRecord
+  /** Usernames owning the game (empty when nobody owns it any more) */
+  owners: string[]
+  /** Date (YYYY-MM-DD) of the latest recorded play */
+  lastPlayedAt?: string
+}
+
+export type CollectionSortKey = 'name' | 'weight' | 'rating' | 'time' | 'owners' | 'lastPlayed'
+
+export interface CollectionSort {
+  key: CollectionSortKey
+  direction: 'asc' | 'desc'
+}
+
+export interface CollectionQuery {
+  /** Matched against the game name, case-insensitive */
+  search: string
+  /** Only games this user owns; `null` for any owner, '' for unowned games */
+  owner: string | null
+  facets: WizardFilters['facets']
+}
+
+export const DEFAULT_COLLECTION_SORT: CollectionSort = { key: 'name', direction: 'asc' }
+
+export function buildCollectionRows(
+  games: GameRecord[],
+  owners: Record<number, string[]>,
+  lastPlayed: Record<number, string>,
+): CollectionRow[] {
+  return games.map((game) => ({
+    game,
+    owners: owners[game.bggId] ?? [],
+    lastPlayedAt: lastPlayed[game.bggId],
+  }))
+}
+
+export function filterCollectionRows(rows: CollectionRow[], query: CollectionQuery): CollectionRow[] {
+  const search = query.search.trim().toLowerCase()
+  return rows.filter((row) => {
+    if (search && !row.game.name.toLowerCase().includes(search)) return false
+    if (query.owner === '' && row.owners.length > 0) return false
+    if (query.owner && !row.owners.includes(query.owner)) return false
+    return matchesFacetFilters(row.game, query.facets)
+  })
+}
+
+function getSortValue(row: CollectionRow, key: CollectionSortKey): string | number | undefined {
+  switch (key) {
+    case 'name':
+      return row.game.name
+    case 'weight':
+      return row.game.weight
+    case 'rating':
+      return row.game.averageRating
+    case 'time':
+      return row.game.playingTimeMinutes ?? row.game.maxPlayTimeMinutes ?? row.game.minPlayTimeMinutes
+    case 'owners':
+      return row.owners.length
+    case 'lastPlayed':
+      return row.lastPlayedAt
+  }
+}
+
+/**
+ * Sort rows by a column. Games missing the value go last in either
+ * direction; ties fall back to the name.
+ */
+export function sortCollectionRows(rows: CollectionRow[], sort: CollectionSort): CollectionRow[] {
+  const sign = sort.direction === 'asc' ? 1 : -1
+  return [...rows].sort((a, b) => {
+    const av = getSortValue(a, sort.key)
+    const bv = getSortValue(b, sort.key)
+    if (av === undefined || bv === undefined) {
+      if (av !== bv) return av === undefined ? 1 : -1
+    } else if (av !== bv) {
+      const diff = typeof av === 'string' ? av.localeCompare(bv as string) : av - (bv as number)
+      if (diff !== 0) return sign * diff
+    }
+    return a.game.name.localeCompare(b.game.name)
+  })
+}
@@ -0,0 +1,22 @@
+import { db } from '../../db/db'
+import type { OwnedExpansionRecord } from '../../db/types'
+
+export async function getOwnedExpansions(): Promise<OwnedExpansionRecord[]> {
+  return db.ownedExpansions.toArray()
+}
+
+export async function getOwnedExpansionsForGame(baseGameId: number): Promise<OwnedExpansionRecord[]> {
+  return db.ownedExpansions.where('baseGameId').equals(baseGameId).toArray()
+}
+
+export async function addOwnedExpansion(
+  expansion: Omit<OwnedExpansionRecord, 'addedAt'>,
+): Promise<OwnedExpansionRecord> {
+  const record: OwnedExpansionRecord = { ...expansion, addedAt: new Date().toISOString() }
+  await db.ownedExpansions.put(record)
+  return record
+}
+
+export async function removeOwnedExpansion(expansionId: number): Promise<void> {
+  await db.ownedExpansions.delete(expansionId)
+}
@@ -17,12 +17,15 @@ export async function upsertGame(game: BggThingDetails): Promise<GameRecord> {
     minPlayers: game.minPlayers,
     maxPlayers: game.maxPlayers,
     bestWith: game.bestWith,
+    playerCountPoll: game.playerCountPoll,
     playingTimeMinutes: game.playingTimeMinutes,
     minPlayTimeMinutes: game.minPlayTimeMinutes,
     maxPlayTimeMinutes: game.maxPlayTimeMinutes,
     minAge: game.minAge,
     mechanics: game.mechanics,
     categories: game.categories,
+    designers: game.designers,
+    expansions: game.expansions,
     description: game.description,
     averageRating: game.averageRating,
     weight: game.weight,
@@ -45,12 +48,15 @@ export async function upsertGames(
     minPlayers: game.minPlayers,
     maxPlayers: game.maxPlayers,
     bestWith: game.bestWith,
+    playerCountPoll: game.playerCountPoll,
     playingTimeMinutes: game.playingTimeMinutes,
     minPlayTimeMinutes: game.minPlayTimeMinutes,
     maxPlayTimeMinutes: game.maxPlayTimeMinutes,
     minAge: game.minAge,
     mechanics: game.mechanics,
     categories: game.categories,
+    designers: game.designers,
+    expansions: game.expansions,
     description: game.description,
     averageRating: game.averageRating,
     weight: game.weight,
@@ -85,6 +91,44 @@ export async function updateGame(game: GameRecord): Promise<GameRecord> {
   return game
 }
 
+/**
+ * Apply the same field changes to several games at once.
+ */
+export async function updateGames(
+  bggIds: number[],
+  changes: Partial<Omit<GameRecord, 'bggId'>>,
+): Promise<void> {
+  await db.transaction('rw', db.games, async () => {
+    for (const bggId of bggIds) {
+      await db.games.update(bggId, changes)
+    }
+  })
+}
+
+/**
+ * Delete games along with their ownership, preferences, notes and owned
+ * expansions. Recorded plays are kept as history.
+ */
+export async function deleteGames(bggIds: number[]): Promise<void> {
+  if (bggIds.length === 0) return
+  await db.transaction(
+    'rw',
+    [db.games, db.userGames, db.userPreferences, db.gameNotes, db.ownedExpansions, db.gameTags, db.gameLists, db.loans],
+    async () => {
+      await db.userGames.where('bggId').anyOf(bggIds).delete()
+      await db.userPreferences.where('bggId').anyOf(bggIds).delete()
+      await db.gameNotes.where('bggId').anyOf(bggIds).delete()
+      await db.ownedExpansions.where('baseGameId').anyOf(bggIds).delete()
+      await db.gameTags.where('bggId').anyOf(bggIds).delete()
+      await db.loans.where('bggId').anyOf(bggIds).delete()
+      await db.gameLists.toCollection().modify((list) => {
+        list.bggIds = list.bggIds.filter((id) => !bggIds.includes(id))
+      })
+      await db.games.bulkDelete(bggIds)
+    },
+  )
+}
+
 function isCoopGame(mechanics?: string[]): boolean {
   if (!mechanics) return false
   return mechanics.some((m) => COOP_MECHANICS.includes(m))
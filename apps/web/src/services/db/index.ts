@@ -1,11 +1,13 @@
 // Games service
 export {
+  deleteGames,
   getAllGames,
   getGame,
   getGames,
   getStaleGames,
   queryGamesByFilters,
   updateGame,
+  updateGames,
   upsertGame,
   upsertGames,
 } from './gamesService'
@@ -20,13 +22,19 @@ export {
   getLocalUsers,
   getOrganizer,
   getUser,
+  renameUser,
   setUserAsOrganizer,
+  updateUserLastPlaysSync,
   updateUserLastPreferencesReviewedAt,
   updateUserLastSync,
   updateUserOwnedCount,
   upsertUser,
 } from './usersService'
 
+// Merge duplicate players
+export { mergeUsers, previewUserMerge, undoUserMerge } from './mergeUsersService'
+export type { UserMergePreview, UserMergeSnapshot } from './mergeUsersService'
+
 // User ID service
 export {
   extractSlugFromId,
@@ -45,6 +53,7 @@ export {
   getUserGames,
   getUserGamesWithDetails,
   getUserRating,
+  reassignGameOwner,
   removeGameFromUser,
   syncUserCollection,
   updateUserRating,
@@ -81,3 +90,48 @@ export {
   deleteGameNote,
   listGameNotes,
 } from './gameNotesService'
+
+// Tags and lists service
+export {
+  addGamesToList,
+  addTagToGames,
+  createGameList,
+  createTag,
+  deleteGameList,
+  deleteTag,
+  getGameLists,
+  getGameTagRecords,
+  getTagIdsForGame,
+  getTags,
+  removeGamesFromList,
+  removeTagFromGames,
+  setGameTags,
+} from './tagsService'
+
+// Game location and lending
+export {
+  getAllGameCopies,
+  getGameCopies,
+  getGameLocations,
+  getLoansForGame,
+  lendGame,
+  returnGame,
+  setGameLocation,
+} from './lendingService'
+
+// Plays service
+export {
+  addOwnedExpansion,
+  getOwnedExpansions,
+  getOwnedExpansionsForGame,
+  removeOwnedExpansion,
+} from './expansionsService'
+export {
+  deletePlay,
+  getLastPlayedDates,
+  getPlaysForGame,
+  getPlaysSince,
+  importPlays,
+  recordPlay,
+} from './playsService'
+export type { PlayInput } from './playsService'
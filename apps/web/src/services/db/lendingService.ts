@@ -0,0 +1,78 @@
+/**
+ * Where each copy of a game lives and who has borrowed it.
+ *
+ * The current location and borrower sit on the owner's userGames record so
+ * filters can read them directly; every loan is also kept in `loans` as the
+ * game's lending history.
+ */
+import { db } from '../../db/db'
+import type { LoanRecord, UserGameRecord } from '../../db/types'
+
+async function getCopy(username: string, bggId: number): Promise<UserGameRecord> {
+  const copy = await db.userGames.where('[username+bggId]').equals([username, bggId]).first()
+  if (!copy) throw new Error(`${username} does not own this game`)
+  return copy
+}
+
+/** Every owner's copy of every game */
+export async function getAllGameCopies(): Promise<UserGameRecord[]> {
+  return db.userGames.toArray()
+}
+
+/** Every owner's copy of a game */
+export async function getGameCopies(bggId: number): Promise<UserGameRecord[]> {
+  return db.userGames.where('bggId').equals(bggId).toArray()
+}
+
+/** Distinct locations games are kept at, alphabetically */
+export async function getGameLocations(): Promise<string[]> {
+  const locations = new Set<string>()
+  await db.userGames.each((record) => {
+    if (record.location) locations.add(record.location)
+  })
+  return [...locations].sort((a, b) => a.localeCompare(b))
+}
+
+export async function setGameLocation(username: string, bggId: number, location: string | null): Promise<void> {
+  const copy = await getCopy(username, bggId)
+  await db.userGames.update(copy.id!, { location: location?.trim() || undefined })
+}
+
+/**
+ * Lend an owner's copy to someone. Lending a copy that is already out
+ * returns it first, so the history stays one open loan per copy.
+ */
+export async function lendGame(username: string, bggId: number, borrower: string): Promise<void> {
+  const name = borrower.trim()
+  if (!name) throw new Error('Borrower cannot be empty')
+
+  await db.transaction('rw', [db.userGames, db.loans], async () => {
+    const copy = await getCopy(username, bggId)
+    const now = new Date().toISOString()
+    await closeOpenLoans(username, bggId, now)
+    await db.loans.add({ bggId, username, borrower: name, lentAt: now })
+    await db.userGames.update(copy.id!, { lentTo: name, lentSince: now })
+  })
+}
+
+export async function returnGame(username: string, bggId: number): Promise<void> {
+  await db.transaction('rw', [db.userGames, db.loans], async () => {
+    const copy = await getCopy(username, bggId)
+    await closeOpenLoans(username, bggId, new Date().toISOString())
+    await db.userGames.update(copy.id!, { lentTo: undefined, lentSince: undefined })
+  })
+}
+
+async function closeOpenLoans(username: string, bggId: number, returnedAt: string): Promise<void> {
+  await db.loans
+    .where('bggId')
+    .equals(bggId)
+    .and((loan) => loan.username === username && !loan.returnedAt)
+    .modify({ returnedAt })
+}
+
+/** Every loan of a game, newest first */
+export async function getLoansForGame(bggId: number): Promise<LoanRecord[]> {
+  const loans = await db.loans.where('bggId').equals(bggId).toArray()
+  return loans.sort((a, b) => b.lentAt.localeCompare(a.lentAt))
+}
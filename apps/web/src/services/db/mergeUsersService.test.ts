@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { clearAllData, db } from '../../db/db'
+import { mergeUsers, previewUserMerge, undoUserMerge } from './mergeUsersService'
+
+const older = '2024-01-01T00:00:00.000Z'
+const newer = '2024-02-01T00:00:00.000Z'
+
+async function seed() {
+  await db.users.bulkAdd([
+    { username: 'alex-a1b2', internalId: 'alex-a1b2', displayName: 'Alex', isBggUser: false, isOrganizer: true },
+    { username: 'alex_bgg', internalId: 'alex_bgg', isBggUser: true, lastSyncAt: older },
+    { username: 'sam-c3d4', internalId: 'sam-c3d4', displayName: 'Sam', isBggUser: false },
+  ])
+  await db.userGames.bulkAdd([
+    { username: 'alex-a1b2', bggId: 1, source: 'manual', addedAt: older },
+    { username: 'alex_bgg', bggId: 1, rating: 8, source: 'bgg', addedAt: older },
+    { username: 'alex_bgg', bggId: 2, rating: 7, source: 'bgg', addedAt: older },
+  ])
+  await db.userPreferences.bulkAdd([
+    { username: 'alex-a1b2', bggId: 1, rank: 1, isTopPick: false, isDisliked: false, updatedAt: older },
+    { username: 'alex-a1b2', bggId: 3, rank: 2, isTopPick: false, isDisliked: false, updatedAt: newer },
+    { username: 'alex_bgg', bggId: 1, isTopPick: true, isDisliked: false, updatedAt: newer },
+    { username: 'alex_bgg', bggId: 3, isTopPick: false, isDisliked: true, updatedAt: older },
+    { username: 'alex_bgg', bggId: 2, rank: 1, isTopPick: false, isDisliked: false, updatedAt: older },
+  ])
+  await db.savedNights.add({
+    createdAt: older,
+    data: {
+      name: 'Night',
+      usernames: ['alex_bgg', 'sam-c3d4'],
+      gameIds: [1],
+      filters: {},
+      pick: { bggId: 1, name: 'One', score: 1 },
+      alternatives: [],
+      pickSupport: { alex_bgg: 1, 'sam-c3d4': 0.5 },
+      pickTopPickedBy: ['alex_bgg'],
+    },
+  })
+  await db.plays.add({ playedAt: '2024-01-05', bggId: 1, players: ['alex_bgg', 'sam-c3d4'], winner: 'alex_bgg', createdAt: older })
+  await db.loans.add({ bggId: 2, username: 'alex_bgg', borrower: 'Sam', lentAt: older })
+}
+
+describe('mergeUsersService', () => {
+  beforeEach(async () => {
+    await clearAllData()
+    await seed()
+  })
+
+  it('previews what the merge will do without writing', async () => {
+    const preview = await previewUserMerge('alex_bgg', 'alex-a1b2')
+
+    expect(preview).toMatchObject({ gamesMoved: 1, gamesShared: 1, preferencesMoved: 1, savedNights: 1, plays: 1, bggUsername: 'alex_bgg' })
+    expect(preview.preferenceConflicts).toEqual([
+      { bggId: 1, kept: 'source' },
+      { bggId: 3, kept: 'target' },
+    ])
+    expect(await db.userGames.where('username').equals('alex_bgg').count()).toBe(2)
+  })
+
+  it('merges games, preferences, history and the BGG link', async () => {
+    await mergeUsers('alex_bgg', 'alex-a1b2')
+
+    const games = await db.userGames.where('username').equals('alex-a1b2').sortBy('bggId')
+    expect(games.map((g) => [g.bggId, g.rating])).toEqual([[1, 8], [2, 7]])
+    expect(await db.userGames.where('username').equals('alex_bgg').count()).toBe(0)
+
+    const prefs = await db.userPreferences.where('username').equals('alex-a1b2').sortBy('bggId')
+    expect(prefs.map((p) => ({ bggId: p.bggId, rank: p.rank, isTopPick: p.isTopPick, isDisliked: p.isDisliked }))).toEqual([
+      { bggId: 1, rank: undefined, isTopPick: true, isDisliked: false },
+      { bggId: 2, rank: 1, isTopPick: false, isDisliked: false },
+      { bggId: 3, rank: 2, isTopPick: false, isDisliked: false },
+    ])
+
+    const [night] = await db.savedNights.toArray()
+    expect(night.data.usernames).toEqual(['alex-a1b2', 'sam-c3d4'])
+    expect(night.data.pickSupport).toEqual({ 'sam-c3d4': 0.5, 'alex-a1b2': 1 })
+    expect(night.data.pickTopPickedBy).toEqual(['alex-a1b2'])
+    const [play] = await db.plays.toArray()
+    expect(play.players).toEqual(['alex-a1b2', 'sam-c3d4'])
+    expect(play.winner).toBe('alex-a1b2')
+    const [loan] = await db.loans.toArray()
+    expect(loan.username).toBe('alex-a1b2')
+
+    expect(await db.users.get('alex-a1b2')).toMatchObject({ bggUsername: 'alex_bgg', lastSyncAt: older, isOrganizer: true })
+    expect(await db.users.get('alex_bgg')).toMatchObject({ isDeleted: true })
+  })
+
+  it('undoes a merge', async () => {
+    const before = {
+      userGames: await db.userGames.toArray(),
+      userPreferences: await db.userPreferences.toArray(),
+      savedNights: await db.savedNights.toArray(),
+      plays: await db.plays.toArray(),
+      loans: await db.loans.toArray(),
+      users: await db.users.toArray(),
+    }
+
+    await undoUserMerge(await mergeUsers('alex_bgg', 'alex-a1b2'))
+
+    const byId = <T extends { id?: number }>(list: T[]) => [...list].sort((a, b) => a.id! - b.id!)
+    expect(byId(await db.userGames.toArray())).toEqual(byId(before.userGames))
+    expect(byId(await db.userPreferences.toArray())).toEqual(byId(before.userPreferences))
+    expect(await db.savedNights.toArray()).toEqual(before.savedNights)
+    expect(await db.plays.toArray()).toEqual(before.plays)
+    expect(await db.loans.toArray()).toEqual(before.loans)
+    expect(await db.users.toArray()).toEqual(before.users)
+  })
+
+  it('refuses to merge a player into themselves', async () => {
+    await expect(mergeUsers('alex-a1b2', 'alex-a1b2')).rejects.toThrow('themselves')
+  })
+})
@@ -0,0 +1,237 @@
+/**
+ * Merge two player records that are the same person (e.g. "alex" added
+ * locally and "alex_bgg" imported from BGG).
+ *
+ * The duplicate (source) is folded into the player that stays (target):
+ * owned games and preferences move across, saved nights, plays and loans
+ * are rewritten to the target's username, and a BGG link carries over. Where
+ * both have a preference for the same game, the most recently updated one
+ * wins. Everything runs in one transaction, and the records as they were
+ * before are returned so the merge can be undone.
+ */
+import { db } from '../../db'
+import type {
+  LoanRecord,
+  PlayRecord,
+  SavedNightData,
+  SavedNightRecord,
+  UserGameRecord,
+  UserPreferenceRecord,
+  UserRecord,
+} from '../../db/types'
+
+/** Everything a merge touches, as it was before the merge */
+export interface UserMergeSnapshot {
+  source: UserRecord
+  target: UserRecord
+  userGames: UserGameRecord[]
+  userPreferences: UserPreferenceRecord[]
+  savedNights: SavedNightRecord[]
+  plays: PlayRecord[]
+  loans: LoanRecord[]
+}
+
+export interface UserMergePreview {
+  /** Games only the duplicate owns, moving to the target */
+  gamesMoved: number
+  /** Games both own; the target's copy is kept */
+  gamesShared: number
+  /** Preferences only the duplicate has */
+  preferencesMoved: number
+  /** Games both have a preference for, and whose version is kept */
+  preferenceConflicts: Array<{ bggId: number; kept: 'source' | 'target' }>
+  savedNights: number
+  plays: number
+  /** BGG account the target ends up linked to */
+  bggUsername?: string
+}
+
+interface UserMergePlan {
+  users: UserRecord[]
+  userGames: { put: UserGameRecord[]; deleteIds: number[] }
+  userPreferences: { put: UserPreferenceRecord[]; deleteIds: number[] }
+  savedNights: SavedNightRecord[]
+  plays: PlayRecord[]
+  loans: LoanRecord[]
+}
+
+function renameUnique(usernames: string[], from: string, to: string): string[] {
+  return [...new Set(usernames.map((u) => (u === from ? to : u)))]
+}
+
+function renameKey<T>(record: Record<string, T> | undefined, from: string, to: string): Record<string, T> | undefined {
+  if (!record || !(from in record)) return record
+  const { [from]: value, ...rest } = record
+  return to in rest ? rest : { ...rest, [to]: value }
+}
+
+function renameInNight(data: SavedNightData, from: string, to: string): SavedNightData {
+  return {
+    ...data,
+    usernames: renameUnique(data.usernames, from, to),
+    organizerUsername: data.organizerUsername === from ? to : data.organizerUsername,
+    voterWeights: renameKey(data.voterWeights, from, to),
+    pickSupport: renameKey(data.pickSupport, from, to),
+    pickTopPickedBy: data.pickTopPickedBy && renameUnique(data.pickTopPickedBy, from, to),
+  }
+}
+
+function mergeUserRecords(source: UserRecord, target: UserRecord): UserRecord[] {
+  const sourceBgg = source.bggUsername ?? (source.isBggUser ? source.username : undefined)
+  const takesBgg = !target.bggUsername && !target.isBggUser && sourceBgg !== undefined
+  return [
+    { ...source, isDeleted: true, isOrganizer: false, isLocalOwner: false },
+    {
+      ...target,
+      bggUsername: takesBgg ? sourceBgg : target.bggUsername,
+      lastSyncAt: takesBgg ? source.lastSyncAt ?? target.lastSyncAt : target.lastSyncAt,
+      isOrganizer: target.isOrganizer || source.isOrganizer,
+      isLocalOwner: target.isLocalOwner || source.isLocalOwner,
+    },
+  ]
+}
+
+/**
+ * Work out the merge from a snapshot without writing anything.
+ */
+function planUserMerge(snapshot: UserMergeSnapshot): { plan: UserMergePlan; preview: UserMergePreview } {
+  const { source, target } = snapshot
+  const from = source.username
+  const to = target.username
+
+  // Owned games: the target's copy wins, borrowing the duplicate's rating if it has none
+  const targetGames = new Map(snapshot.userGames.filter((g) => g.username === to).map((g) => [g.bggId, g]))
+  const gamesPut: UserGameRecord[] = []
+  const gamesDeleted: number[] = []
+  let gamesMoved = 0
+  let gamesShared = 0
+  for (const game of snapshot.userGames.filter((g) => g.username === from)) {
+    const existing = targetGames.get(game.bggId)
+    if (!existing) {
+      gamesPut.push({ ...game, username: to })
+      gamesMoved++
+      continue
+    }
+    gamesShared++
+    if (existing.rating === undefined && game.rating !== undefined) {
+      gamesPut.push({ ...existing, rating: game.rating })
+    }
+    gamesDeleted.push(game.id!)
+  }
+
+  // Preferences: on overlap the most recently updated version wins
+  const finalPrefs = new Map(snapshot.userPreferences.filter((p) => p.username === to).map((p) => [p.bggId, p]))
+  const prefsDeleted: number[] = []
+  const preferenceConflicts: UserMergePreview['preferenceConflicts'] = []
+  let preferencesMoved = 0
+  for (const pref of snapshot.userPreferences.filter((p) => p.username === from)) {
+    const existing = finalPrefs.get(pref.bggId)
+    if (!existing) {
+      finalPrefs.set(pref.bggId, { ...pref, username: to })
+      preferencesMoved++
+      continue
+    }
+    const sourceWins = pref.updatedAt > existing.updatedAt
+    preferenceConflicts.push({ bggId: pref.bggId, kept: sourceWins ? 'source' : 'target' })
+    if (sourceWins) finalPrefs.set(pref.bggId, { ...pref, id: existing.id, username: to })
+    prefsDeleted.push(pref.id!)
+  }
+
+  // Two rankings interleave by rank, so renumber to keep ranks unique
+  const ranked = [...finalPrefs.values()]
+    .filter((p) => p.rank !== undefined)
+    .sort((a, b) => a.rank! - b.rank! || b.updatedAt.localeCompare(a.updatedAt))
+  ranked.forEach((p, index) => finalPrefs.set(p.bggId, { ...p, rank: index + 1 }))
+
+  const savedNights = snapshot.savedNights.map((night) => ({ ...night, data: renameInNight(night.data, from, to) }))
+  const plays = snapshot.plays.map((play) => ({
+    ...play,
+    players: renameUnique(play.players, from, to),
+    winner: play.winner === from ? to : play.winner,
+  }))
+  const loans = snapshot.loans.map((loan) => ({ ...loan, username: to }))
+  const users = mergeUserRecords(source, target)
+
+  return {
+    plan: {
+      users,
+      userGames: { put: gamesPut, deleteIds: gamesDeleted },
+      userPreferences: { put: [...finalPrefs.values()], deleteIds: prefsDeleted },
+      savedNights,
+      plays,
+      loans,
+    },
+    preview: {
+      gamesMoved,
+      gamesShared,
+      preferencesMoved,
+      preferenceConflicts,
+      savedNights: savedNights.length,
+      plays: plays.length,
+      bggUsername: users[1].bggUsername ?? (users[1].isBggUser ? users[1].username : undefined),
+    },
+  }
+}
+
+async function readMergeSnapshot(sourceUsername: string, targetUsername: string): Promise<UserMergeSnapshot> {
+  if (sourceUsername === targetUsername) {
+    throw new Error('Cannot merge a player into themselves')
+  }
+  const [source, target] = await Promise.all([db.users.get(sourceUsername), db.users.get(targetUsername)])
+  if (!source || !target || source.isDeleted || target.isDeleted) {
+    throw new Error('Player not found')
+  }
+
+  const usernames = [sourceUsername, targetUsername]
+  const [userGames, userPreferences, savedNights, plays, loans] = await Promise.all([
+    db.userGames.where('username').anyOf(usernames).toArray(),
+    db.userPreferences.where('username').anyOf(usernames).toArray(),
+    db.savedNights.filter((n) => n.data.usernames.includes(sourceUsername) || n.data.organizerUsername === sourceUsername).toArray(),
+    db.plays.filter((p) => p.players.includes(sourceUsername) || p.winner === sourceUsername).toArray(),
+    db.loans.where('username').equals(sourceUsername).toArray(),
+  ])
+  return { source, target, userGames, userPreferences, savedNights, plays, loans }
+}
+
+export async function previewUserMerge(sourceUsername: string, targetUsername: string): Promise<UserMergePreview> {
+  return planUserMerge(await readMergeSnapshot(sourceUsername, targetUsername)).preview
+}
+
+/**
+ * Merge `sourceUsername` into `targetUsername`. Returns the snapshot to pass
+ * to `undoUserMerge`.
+ */
+export async function mergeUsers(sourceUsername: string, targetUsername: string): Promise<UserMergeSnapshot> {
+  return db.transaction('rw', [db.users, db.userGames, db.userPreferences, db.savedNights, db.plays, db.loans], async () => {
+    const snapshot = await readMergeSnapshot(sourceUsername, targetUsername)
+    const { plan } = planUserMerge(snapshot)
+
+    await db.userGames.bulkDelete(plan.userGames.deleteIds)
+    await db.userGames.bulkPut(plan.userGames.put)
+    await db.userPreferences.bulkDelete(plan.userPreferences.deleteIds)
+    await db.userPreferences.bulkPut(plan.userPreferences.put)
+    await db.savedNights.bulkPut(plan.savedNights)
+    await db.plays.bulkPut(plan.plays)
+    await db.loans.bulkPut(plan.loans)
+    await db.users.bulkPut(plan.users)
+
+    return snapshot
+  })
+}
+
+/**
+ * Put both players back exactly as they were before `mergeUsers`.
+ */
+export async function undoUserMerge(snapshot: UserMergeSnapshot): Promise<void> {
+  const usernames = [snapshot.source.username, snapshot.target.username]
+  await db.transaction('rw', [db.users, db.userGames, db.userPreferences, db.savedNights, db.plays, db.loans], async () => {
+    await db.userGames.where('username').anyOf(usernames).delete()
+    await db.userGames.bulkPut(snapshot.userGames)
+    await db.userPreferences.where('username').anyOf(usernames).delete()
+    await db.userPreferences.bulkPut(snapshot.userPreferences)
+    await db.savedNights.bulkPut(snapshot.savedNights)
+    await db.plays.bulkPut(snapshot.plays)
+    await db.loans.bulkPut(snapshot.loans)
+    await db.users.bulkPut([snapshot.source, snapshot.target])
+  })
+}
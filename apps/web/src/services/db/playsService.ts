@@ -0,0 +1,78 @@
+import { db } from '../../db/db'
+import type { PlayRecord } from '../../db/types'
+
+export type PlayInput = Omit<PlayRecord, 'id' | 'createdAt'>
+
+export async function recordPlay(input: PlayInput): Promise<PlayRecord> {
+  if (input.players.length === 0) {
+    throw new Error('A play needs at least one player')
+  }
+  if (input.winner && !input.players.includes(input.winner)) {
+    throw new Error('Winner must be one of the players')
+  }
+
+  const play: PlayRecord = {
+    ...input,
+    notes: input.notes?.trim() || undefined,
+    createdAt: new Date().toISOString(),
+  }
+
+  const id = await db.plays.add(play)
+  return { ...play, id }
+}
+
+/**
+ * Store plays imported from an external log. Plays carrying a `bggPlayId`
+ * that is already stored replace the earlier copy instead of duplicating it.
+ */
+export async function importPlays(
+  plays: Array<Omit<PlayRecord, 'id'>>,
+): Promise<{ added: number; updated: number }> {
+  let added = 0
+  let updated = 0
+
+  await db.transaction('rw', db.plays, async () => {
+    for (const play of plays) {
+      const existing = play.bggPlayId !== undefined
+        ? await db.plays.where('bggPlayId').equals(play.bggPlayId).first()
+        : undefined
+      if (existing?.id !== undefined) {
+        await db.plays.put({ ...play, id: existing.id, createdAt: existing.createdAt })
+        updated++
+      } else {
+        await db.plays.add(play)
+        added++
+      }
+    }
+  })
+
+  return { added, updated }
+}
+
+/**
+ * Plays on or after `sinceDate` (YYYY-MM-DD), newest first.
+ */
+export async function getPlaysSince(sinceDate: string): Promise<PlayRecord[]> {
+  return db.plays.where('playedAt').aboveOrEqual(sinceDate).reverse().sortBy('playedAt')
+}
+
+export async function getPlaysForGame(bggId: number): Promise<PlayRecord[]> {
+  return db.plays.where('bggId').equals(bggId).reverse().sortBy('playedAt')
+}
+
+/**
+ * Date of the latest play of each game, keyed by bggId.
+ */
+export async function getLastPlayedDates(): Promise<Record<number, string>> {
+  const lastPlayed: Record<number, string> = {}
+  await db.plays.each((play) => {
+    if (!lastPlayed[play.bggId] || play.playedAt > lastPlayed[play.bggId]) {
+      lastPlayed[play.bggId] = play.playedAt
+    }
+  })
+  return lastPlayed
+}
+
+export async function deletePlay(id: number): Promise<void> {
+  await db.plays.delete(id)
+}
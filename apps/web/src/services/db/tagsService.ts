@@ -0,0 +1,141 @@
+/**
+ * User-defined tags and named game lists.
+ *
+ * Tags group games by theme ("party", "2-player gems") and can be used as a
+ * wizard filter; lists are hand-picked sets of games that can fill a
+ * session in one click.
+ */
+import { db } from '../../db/db'
+import type { GameListRecord, GameTagRecord, TagRecord } from '../../db/types'
+
+function cleanName(name: string, what: string): string {
+  const trimmed = name.trim().replace(/\s+/g, ' ')
+  if (!trimmed) {
+    throw new Error(`${what} name cannot be empty`)
+  }
+  return trimmed
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Tags
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function getTags(): Promise<TagRecord[]> {
+  return db.tags.orderBy('name').toArray()
+}
+
+export async function getGameTagRecords(): Promise<GameTagRecord[]> {
+  return db.gameTags.toArray()
+}
+
+export async function getTagIdsForGame(bggId: number): Promise<number[]> {
+  const records = await db.gameTags.where('bggId').equals(bggId).toArray()
+  return records.map((r) => r.tagId)
+}
+
+/**
+ * Create a tag, or return the existing one when a tag with the same name
+ * (ignoring case) already exists.
+ */
+export async function createTag(name: string): Promise<TagRecord> {
+  const cleaned = cleanName(name, 'Tag')
+  return db.transaction('rw', db.tags, async () => {
+    const existing = await db.tags.filter((t) => t.name.toLowerCase() === cleaned.toLowerCase()).first()
+    if (existing) return existing
+
+    const tag: TagRecord = { name: cleaned, createdAt: new Date().toISOString() }
+    const id = await db.tags.add(tag)
+    return { ...tag, id }
+  })
+}
+
+export async function deleteTag(tagId: number): Promise<void> {
+  await db.transaction('rw', [db.tags, db.gameTags], async () => {
+    await db.gameTags.where('tagId').equals(tagId).delete()
+    await db.tags.delete(tagId)
+  })
+}
+
+/**
+ * Replace the tags on one game.
+ */
+export async function setGameTags(bggId: number, tagIds: number[]): Promise<void> {
+  await db.transaction('rw', db.gameTags, async () => {
+    await db.gameTags.where('bggId').equals(bggId).delete()
+    await db.gameTags.bulkAdd([...new Set(tagIds)].map((tagId) => ({ tagId, bggId })))
+  })
+}
+
+/**
+ * Tag several games at once. Games already carrying the tag are left alone.
+ */
+export async function addTagToGames(tagId: number, bggIds: number[]): Promise<void> {
+  await db.transaction('rw', db.gameTags, async () => {
+    const tagged = new Set(
+      (await db.gameTags.where('tagId').equals(tagId).toArray()).map((r) => r.bggId),
+    )
+    const toAdd = [...new Set(bggIds)].filter((bggId) => !tagged.has(bggId))
+    await db.gameTags.bulkAdd(toAdd.map((bggId) => ({ tagId, bggId })))
+  })
+}
+
+export async function removeTagFromGames(tagId: number, bggIds: number[]): Promise<void> {
+  await db.gameTags
+    .where('tagId')
+    .equals(tagId)
+    .and((r) => bggIds.includes(r.bggId))
+    .delete()
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Lists
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function getGameLists(): Promise<GameListRecord[]> {
+  return db.gameLists.orderBy('name').toArray()
+}
+
+export async function createGameList(name: string, bggIds: number[] = []): Promise<GameListRecord> {
+  const cleaned = cleanName(name, 'List')
+  return db.transaction('rw', db.gameLists, async () => {
+    const existing = await db.gameLists.filter((l) => l.name.toLowerCase() === cleaned.toLowerCase()).first()
+    if (existing) {
+      throw new Error(`A list called "${existing.name}" already exists`)
+    }
+
+    const now = new Date().toISOString()
+    const list: GameListRecord = { name: cleaned, bggIds: [...new Set(bggIds)], createdAt: now, updatedAt: now }
+    const id = await db.gameLists.add(list)
+    return { ...list, id }
+  })
+}
+
+/**
+ * Add games to a list, keeping the order they were added in.
+ */
+export async function addGamesToList(listId: number, bggIds: number[]): Promise<void> {
+  await db.transaction('rw', db.gameLists, async () => {
+    const list = await db.gameLists.get(listId)
+    if (!list) throw new Error('List not found')
+    await db.gameLists.update(listId, {
+      bggIds: [...new Set([...list.bggIds, ...bggIds])],
+      updatedAt: new Date().toISOString(),
+    })
+  })
+}
+
+export async function removeGamesFromList(listId: number, bggIds: number[]): Promise<void> {
+  await db.transaction('rw', db.gameLists, async () => {
+    const list = await db.gameLists.get(listId)
+    if (!list) throw new Error('List not found')
+    const removed = new Set(bggIds)
+    await db.gameLists.update(listId, {
+      bggIds: list.bggIds.filter((id) => !removed.has(id)),
+      updatedAt: new Date().toISOString(),
+    })
+  })
+}
+
+export async function deleteGameList(listId: number): Promise<void> {
+  await db.gameLists.delete(listId)
+}
@@ -0,0 +1,31 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { clearAllData, db } from '../../db/db'
+import { reassignGameOwner } from './userGamesService'
+
+const lentSince = '2024-01-01T00:00:00.000Z'
+
+describe('reassignGameOwner', () => {
+  beforeEach(async () => {
+    await clearAllData()
+    await db.userGames.add({
+      username: 'alex',
+      bggId: 1,
+      rating: 8,
+      source: 'manual',
+      addedAt: lentSince,
+      location: "Alex's place",
+      lentTo: 'Sam',
+      lentSince,
+    })
+    await db.loans.add({ bggId: 1, username: 'alex', borrower: 'Sam', lentAt: lentSince })
+  })
+
+  it('carries the whereabouts and open loan over to the new owner', async () => {
+    await reassignGameOwner([1], 'alex', 'jo')
+
+    const copies = await db.userGames.where('bggId').equals(1).toArray()
+    expect(copies).toHaveLength(1)
+    expect(copies[0]).toMatchObject({ username: 'jo', rating: 8, location: "Alex's place", lentTo: 'Sam', lentSince })
+    expect(await db.loans.toArray()).toEqual([expect.objectContaining({ username: 'jo', borrower: 'Sam' })])
+  })
+})
@@ -9,12 +9,15 @@ export async function syncUserCollection(
   const now = new Date().toISOString()
 
   await db.transaction('rw', db.userGames, async () => {
-    // Remove existing BGG-synced games for this user
-    await db.userGames
+    // Remove existing BGG-synced games for this user, remembering where each copy is
+    const previous = db.userGames
       .where('username')
       .equals(username)
       .and((record) => record.source === 'bgg')
-      .delete()
+    const whereabouts = new Map(
+      (await previous.toArray()).map((r) => [r.bggId, { location: r.location, lentTo: r.lentTo, lentSince: r.lentSince }]),
+    )
+    await previous.delete()
 
     // Add new collection
     const records: UserGameRecord[] = collection.map((item) => ({
@@ -23,6 +26,7 @@ export async function syncUserCollection(
       rating: item.userRating,
       source: 'bgg' as const,
       addedAt: now,
+      ...whereabouts.get(item.bggId),
     }))
 
     await db.userGames.bulkAdd(records)
@@ -74,6 +78,52 @@ export async function removeGameFromUser(
     .delete()
 }
 
+/**
+ * Move games to another owner. With `fromUsername` only that owner's copies
+ * move; with `null` every current owner is replaced. The new owner keeps any
+ * rating the previous owner had given, unless they already owned it. The
+ * moved copy's location and current loan come along, as does its loan history.
+ */
+export async function reassignGameOwner(
+  bggIds: number[],
+  fromUsername: string | null,
+  toUsername: string,
+): Promise<void> {
+  await db.transaction('rw', [db.userGames, db.loans], async () => {
+    for (const bggId of bggIds) {
+      const records = await db.userGames.where('bggId').equals(bggId).toArray()
+      const moving = records.filter((r) => r.username !== toUsername && (fromUsername === null || r.username === fromUsername))
+      if (fromUsername !== null && moving.length === 0) continue
+
+      const target = records.find((r) => r.username === toUsername)
+      const carried = moving.find((r) => r.lentTo) ?? moving.find((r) => r.location)
+      if (!target) {
+        const copy = await addGameToUser(toUsername, bggId, moving.find((r) => r.rating !== undefined)?.rating)
+        if (carried) {
+          await db.userGames.update(copy.id!, { location: carried.location, lentTo: carried.lentTo, lentSince: carried.lentSince })
+        }
+      } else if (carried && !target.lentTo) {
+        await db.userGames.update(target.id!, {
+          location: target.location ?? carried.location,
+          lentTo: carried.lentTo,
+          lentSince: carried.lentSince,
+        })
+      }
+
+      const movingOwners = new Set(moving.map((r) => r.username))
+      await db.loans
+        .where('bggId')
+        .equals(bggId)
+        .and((loan) => movingOwners.has(loan.username))
+        .modify({ username: toUsername })
+
+      for (const record of moving) {
+        await removeGameFromUser(record.username, bggId)
+      }
+    }
+  })
+}
+
 export async function getUserGames(
   username: string,
 ): Promise<UserGameRecord[]> {
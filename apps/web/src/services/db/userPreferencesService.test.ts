@@ -0,0 +1,43 @@
+import { beforeEach, describe, expect, it } from 'vitest'
+import { clearAllData, db } from '../../db/db'
+import { setUserPreferenceRanks, updateGamePreference } from './userPreferencesService'
+
+const older = '2024-01-01T00:00:00.000Z'
+
+describe('setUserPreferenceRanks', () => {
+  beforeEach(async () => {
+    await clearAllData()
+    await db.userPreferences.bulkAdd([
+      { username: 'alex', bggId: 1, rank: 1, isTopPick: false, isDisliked: false, wantsToLearn: true, updatedAt: older },
+      { username: 'alex', bggId: 2, tier: 'A', isTopPick: false, isDisliked: false, knowsRules: true, willingToTeach: true, updatedAt: older },
+    ])
+  })
+
+  it('keeps learn/teach flags on re-ranked games and clears their tier', async () => {
+    await setUserPreferenceRanks('alex', [2, 1])
+
+    const prefs = await db.userPreferences.where('username').equals('alex').sortBy('bggId')
+    expect(prefs[0]).toMatchObject({ bggId: 1, rank: 2, wantsToLearn: true })
+    expect(prefs[1]).toMatchObject({ bggId: 2, rank: 1, knowsRules: true, willingToTeach: true })
+    expect(prefs[1].tier).toBeUndefined()
+  })
+})
+
+describe('updateGamePreference', () => {
+  beforeEach(async () => {
+    await clearAllData()
+  })
+
+  it('keeps when a game was disliked through later edits and clears it on un-dislike', async () => {
+    await updateGamePreference('alex', 1, { isDisliked: true })
+    const { dislikedAt } = (await db.userPreferences.where('username').equals('alex').first())!
+    expect(dislikedAt).toBeDefined()
+
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    await updateGamePreference('alex', 1, { wantsToLearn: true })
+    expect((await db.userPreferences.where('username').equals('alex').first())?.dislikedAt).toBe(dislikedAt)
+
+    await updateGamePreference('alex', 1, { isDisliked: false })
+    expect((await db.userPreferences.where('username').equals('alex').first())?.dislikedAt).toBeUndefined()
+  })
+})
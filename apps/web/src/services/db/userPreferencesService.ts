@@ -1,15 +1,21 @@
 import { db } from '../../db'
-import type { UserPreferenceRecord } from '../../db/types'
+import type { PreferenceTier, UserPreferenceRecord } from '../../db/types'
+import { getDislikedAt, normalizeLearningFlags, normalizePreferenceUpdate } from '../preferences/preferenceRules'
 
 export interface UserPreferenceInput {
   bggId: number
   rank?: number
+  tier?: PreferenceTier
   isTopPick?: boolean
   isDisliked?: boolean
+  knowsRules?: boolean
+  wantsToLearn?: boolean
+  willingToTeach?: boolean
 }
 
 function normalizePreferenceInput(input: UserPreferenceInput): Required<Pick<UserPreferenceInput, 'bggId'>> & {
   rank?: number
+  tier?: PreferenceTier
   isTopPick: boolean
   isDisliked: boolean
 } {
@@ -20,6 +26,7 @@ function normalizePreferenceInput(input: UserPreferenceInput): Required<Pick<Use
   // - Disliked implies not top-pick and no rank
   // - Top-pick implies no rank
   // - Rank implies not disliked and not top-pick
+  // - Tier applies only when nothing above is set
   if (isDisliked) {
     return { bggId: input.bggId, isDisliked: true, isTopPick: false }
   }
@@ -32,6 +39,10 @@ function normalizePreferenceInput(input: UserPreferenceInput): Required<Pick<Use
     return { bggId: input.bggId, rank: input.rank, isDisliked: false, isTopPick: false }
   }
 
+  if (input.tier !== undefined) {
+    return { bggId: input.bggId, tier: input.tier, isDisliked: false, isTopPick: false }
+  }
+
   return { bggId: input.bggId, isDisliked: false, isTopPick: false }
 }
 
@@ -58,7 +69,9 @@ export async function saveUserPreferences(
   const now = new Date().toISOString()
 
   await db.transaction('rw', db.userPreferences, async () => {
-    // Clear existing preferences for this user
+    // Clear existing preferences for this user (keeping when each dislike was set)
+    const existing = await db.userPreferences.where('username').equals(username).toArray()
+    const existingById = new Map(existing.map((p) => [p.bggId, p]))
     await db.userPreferences.where('username').equals(username).delete()
 
     // Add new preferences
@@ -68,8 +81,11 @@ export async function saveUserPreferences(
         username,
         bggId: normalized.bggId,
         rank: normalized.rank,
+        tier: normalized.tier,
         isTopPick: normalized.isTopPick,
         isDisliked: normalized.isDisliked,
+        dislikedAt: getDislikedAt(existingById.get(normalized.bggId), normalized.isDisliked, now),
+        ...normalizeLearningFlags(undefined, pref),
         updatedAt: now,
       }
     })
@@ -90,20 +106,19 @@ export async function updateGamePreference(
     .equals([username, bggId])
     .first()
 
-  const merged: UserPreferenceInput = {
-    bggId,
-    rank: update.rank ?? existing?.rank,
-    isTopPick: update.isTopPick ?? existing?.isTopPick,
-    isDisliked: update.isDisliked ?? existing?.isDisliked,
-  }
-
-  const normalized = normalizePreferenceInput(merged)
+  // Same rules as the in-memory state so explicit updates win over stored flags
+  const normalized = normalizePreferenceUpdate(existing, update)
 
   if (existing?.id) {
     await db.userPreferences.update(existing.id, {
       rank: normalized.rank,
+      tier: normalized.tier,
       isTopPick: normalized.isTopPick,
       isDisliked: normalized.isDisliked,
+      dislikedAt: getDislikedAt(existing, normalized.isDisliked, now),
+      knowsRules: normalized.knowsRules,
+      wantsToLearn: normalized.wantsToLearn,
+      willingToTeach: normalized.willingToTeach,
       updatedAt: now,
     })
   } else {
@@ -111,8 +126,13 @@ export async function updateGamePreference(
       username,
       bggId,
       rank: normalized.rank,
+      tier: normalized.tier,
       isTopPick: normalized.isTopPick,
       isDisliked: normalized.isDisliked,
+      dislikedAt: getDislikedAt(undefined, normalized.isDisliked, now),
+      knowsRules: normalized.knowsRules,
+      wantsToLearn: normalized.wantsToLearn,
+      willingToTeach: normalized.willingToTeach,
       updatedAt: now,
     })
   }
@@ -185,16 +205,20 @@ export async function setUserPreferenceRanks(
       }
     }
 
-    // Apply new ranks (ranking implies not top-pick and not disliked)
+    // Apply new ranks (ranking implies not top-pick, not disliked and no tier;
+    // learn/teach flags are kept)
     orderedBggIds.forEach((bggId, index) => {
       const prev = existingById.get(bggId)
       updates.push({
+        ...prev,
         id: prev?.id,
         username,
         bggId,
         rank: index + 1,
+        tier: undefined,
         isTopPick: false,
         isDisliked: false,
+        dislikedAt: undefined,
         updatedAt: now,
       })
     })
@@ -99,6 +99,12 @@ export async function updateUserLastSync(username: string): Promise<void> {
   })
 }
 
+export async function updateUserLastPlaysSync(username: string): Promise<void> {
+  await db.users.update(username, {
+    lastPlaysSyncAt: new Date().toISOString(),
+  })
+}
+
 export async function updateUserOwnedCount(
   username: string,
   ownedCount: number,
@@ -119,3 +125,11 @@ export async function deleteUser(username: string): Promise<void> {
     await db.users.update(username, { isDeleted: true, isOrganizer: false })
   })
 }
+
+export async function renameUser(username: string, displayName: string): Promise<void> {
+  const sanitizedDisplayName = displayName.trim()
+  if (!sanitizedDisplayName) {
+    throw new Error('Name cannot be empty')
+  }
+  await db.users.update(username, { displayName: sanitizedDisplayName })
+}
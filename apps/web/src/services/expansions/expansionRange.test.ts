@@ -0,0 +1,51 @@
+import type { GameRecord, OwnedExpansionRecord } from '../../db/types'
+import {
+  getEffectivePlayerRange,
+  getExpansionsForPlayerCount,
+  groupOwnedExpansions,
+  supportsPlayerCount,
+} from './expansionRange'
+
+const game = (overrides: Partial<GameRecord>): GameRecord => ({
+  bggId: 1,
+  name: 'Catan',
+  lastFetchedAt: '2026-01-01T00:00:00Z',
+  ...overrides,
+})
+
+const expansion = (overrides: Partial<OwnedExpansionRecord>): OwnedExpansionRecord => ({
+  expansionId: 100,
+  baseGameId: 1,
+  name: 'Expansion',
+  addedAt: '2026-01-01T00:00:00Z',
+  ...overrides,
+})
+
+describe('expansionRange', () => {
+  const base = game({ minPlayers: 3, maxPlayers: 4 })
+  const fiveSix = expansion({ expansionId: 101, name: '5-6 Player Extension', minPlayers: 5, maxPlayers: 6 })
+  const unknown = expansion({ expansionId: 102, name: 'Scenario Pack' })
+
+  it('groups owned expansions by base game', () => {
+    const grouped = groupOwnedExpansions([fiveSix, expansion({ expansionId: 200, baseGameId: 2 })])
+    expect(Object.keys(grouped)).toEqual(['1', '2'])
+    expect(grouped[1]).toEqual([fiveSix])
+  })
+
+  it('widens the range only with expansions that extend it', () => {
+    const range = getEffectivePlayerRange(base, [fiveSix, unknown])
+    expect(range).toMatchObject({ minPlayers: 3, maxPlayers: 6 })
+    expect(range.expandedBy.map((e) => e.expansionId)).toEqual([101])
+  })
+
+  it('tells base support apart from expansion support', () => {
+    expect(supportsPlayerCount(base, 4, [fiveSix])).toBe('base')
+    expect(supportsPlayerCount(base, 6, [fiveSix])).toBe('expansions')
+    expect(supportsPlayerCount(base, 6, [unknown])).toBeNull()
+    expect(supportsPlayerCount(base, 2, [fiveSix])).toBeNull()
+  })
+
+  it('names the expansions that reach a player count', () => {
+    expect(getExpansionsForPlayerCount(base, 6, [fiveSix, unknown]).map((e) => e.name)).toEqual(['5-6 Player Extension'])
+  })
+})
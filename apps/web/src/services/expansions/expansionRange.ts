@@ -0,0 +1,74 @@
+/**
+ * Player-count ranges for a base game plus the expansions the group owns.
+ */
+import type { GameRecord, OwnedExpansionRecord } from '../../db/types'
+
+/** Owned expansions keyed by base game bggId */
+export type OwnedExpansionsByGame = Record<number, OwnedExpansionRecord[]>
+
+export interface EffectivePlayerRange {
+  minPlayers?: number
+  maxPlayers?: number
+  /** Owned expansions that widen the base game's range */
+  expandedBy: OwnedExpansionRecord[]
+}
+
+export function groupOwnedExpansions(records: OwnedExpansionRecord[]): OwnedExpansionsByGame {
+  const byGame: OwnedExpansionsByGame = {}
+  for (const record of records) {
+    ;(byGame[record.baseGameId] ||= []).push(record)
+  }
+  return byGame
+}
+
+export function getEffectivePlayerRange(
+  game: GameRecord,
+  ownedExpansions: OwnedExpansionRecord[] = [],
+): EffectivePlayerRange {
+  let { minPlayers, maxPlayers } = game
+  const expandedBy: OwnedExpansionRecord[] = []
+
+  for (const expansion of ownedExpansions) {
+    let widens = false
+    if (expansion.minPlayers !== undefined && (minPlayers === undefined || expansion.minPlayers < minPlayers)) {
+      minPlayers = expansion.minPlayers
+      widens = true
+    }
+    if (expansion.maxPlayers !== undefined && (maxPlayers === undefined || expansion.maxPlayers > maxPlayers)) {
+      maxPlayers = expansion.maxPlayers
+      widens = true
+    }
+    if (widens) expandedBy.push(expansion)
+  }
+
+  return { minPlayers, maxPlayers, expandedBy }
+}
+
+/**
+ * Whether the game supports `playerCount` on its own (`'base'`), only with
+ * owned expansions (`'expansions'`), or not at all (`null`). Unknown bounds
+ * are treated as open.
+ */
+export function supportsPlayerCount(
+  game: GameRecord,
+  playerCount: number,
+  ownedExpansions: OwnedExpansionRecord[] = [],
+): 'base' | 'expansions' | null {
+  const fits = (min?: number, max?: number) => playerCount >= (min ?? 1) && playerCount <= (max ?? 99)
+  if (fits(game.minPlayers, game.maxPlayers)) return 'base'
+  const range = getEffectivePlayerRange(game, ownedExpansions)
+  return fits(range.minPlayers, range.maxPlayers) ? 'expansions' : null
+}
+
+/** Owned expansions whose own range reaches `playerCount` */
+export function getExpansionsForPlayerCount(
+  game: GameRecord,
+  playerCount: number,
+  ownedExpansions: OwnedExpansionRecord[] = [],
+): OwnedExpansionRecord[] {
+  return ownedExpansions.filter(
+    (e) =>
+      playerCount >= (e.minPlayers ?? game.minPlayers ?? 1) &&
+      playerCount <= (e.maxPlayers ?? game.maxPlayers ?? 99),
+  )
+}
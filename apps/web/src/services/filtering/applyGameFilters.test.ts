@@ -101,4 +101,63 @@ describe('applyGameFilters', () => {
 
     expect(filtered.map((g) => g.bggId)).toEqual([1])
   })
+
+  it('applies mechanic/category include and exclude facets', () => {
+    const games = [
+      makeGame({ bggId: 1, mechanics: ['Deck, Bag, and Pool Building'], categories: ['Fantasy'] }),
+      makeGame({ bggId: 2, mechanics: ['Tile Placement'], categories: ['Fantasy'] }),
+      makeGame({ bggId: 3, mechanics: ['Tile Placement'], categories: ['Economic'] }),
+      makeGame({ bggId: 4 }), // no details loaded
+    ]
+
+    const filtered = applyGameFilters(
+      games,
+      {
+        ...baseFilters,
+        facets: {
+          mechanics: { include: [], exclude: ['Deck, Bag, and Pool Building'] },
+          categories: { include: ['Fantasy'], exclude: [] },
+        },
+      },
+      {},
+    )
+
+    expect(filtered.map((g) => g.bggId)).toEqual([2])
+  })
+
+  it('counts owned expansions towards the player range', () => {
+    const games = [makeGame({ bggId: 1, minPlayers: 2, maxPlayers: 4 }), makeGame({ bggId: 2, minPlayers: 2, maxPlayers: 4 })]
+    const ownedExpansions = {
+      1: [{ expansionId: 10, baseGameId: 1, name: '5-6 Player', minPlayers: 5, maxPlayers: 6, addedAt: '2026-01-01T00:00:00Z' }],
+    }
+
+    const filtered = applyGameFilters(games, { ...baseFilters, playerCount: 6 }, {}, ownedExpansions)
+
+    expect(filtered.map((g) => g.bggId)).toEqual([1])
+  })
+
+  it('keeps games carrying any selected tag', () => {
+    const games = [makeGame({ bggId: 1 }), makeGame({ bggId: 2 }), makeGame({ bggId: 3 })]
+    const gameTags = { 1: [10], 2: [20, 30] }
+
+    const filtered = applyGameFilters(games, { ...baseFilters, tagIds: [20, 40] }, {}, {}, gameTags)
+
+    expect(filtered.map((g) => g.bggId)).toEqual([2])
+    expect(applyGameFilters(games, { ...baseFilters, tagIds: [] }, {}, {}, gameTags)).toHaveLength(3)
+  })
+
+  it('drops games lent out or kept away from tonight\'s location', () => {
+    const games = [makeGame({ bggId: 1 }), makeGame({ bggId: 2 }), makeGame({ bggId: 3 })]
+    const addedAt = '2026-01-01T00:00:00.000Z'
+    const gameCopies = {
+      1: [{ username: 'alex', bggId: 1, source: 'bgg' as const, addedAt, location: 'Home' }],
+      2: [{ username: 'alex', bggId: 2, source: 'bgg' as const, addedAt, location: 'Home', lentTo: 'Sam' }],
+      3: [{ username: 'sam', bggId: 3, source: 'bgg' as const, addedAt, location: 'Cabin' }],
+    }
+
+    const filtered = applyGameFilters(games, { ...baseFilters, availableAt: 'Home' }, {}, {}, {}, gameCopies)
+
+    expect(filtered.map((g) => g.bggId)).toEqual([1])
+    expect(applyGameFilters(games, { ...baseFilters, availableAt: null }, {}, {}, {}, gameCopies)).toHaveLength(3)
+  })
 })
@@ -1,5 +1,10 @@
 import type { GameRecord } from '../../db/types'
 import type { WizardFilters } from '../../store/wizardTypes'
+import { matchesFacetFilters } from './gameFacets'
+import { matchesPlayerCountFit } from './playerCountFit'
+import { supportsPlayerCount, type OwnedExpansionsByGame } from '../expansions/expansionRange'
+import { matchesTagFilter, type GameTagsByGame } from '../tags/gameTags'
+import { matchesAvailabilityFilter, type GameCopiesByGame } from '../lending/gameAvailability'
 
 const COOP_MECHANICS = ['Cooperative Game', 'Solo / Solitaire Game', 'Team-Based Game']
 
@@ -8,89 +13,101 @@ function isCoopGame(mechanics?: string[]): boolean {
   return mechanics.some((m) => COOP_MECHANICS.includes(m))
 }
 
-function bestWithMatchesPlayerCount(bestWith: string, playerCount: number): boolean {
-  const normalized = bestWith
-    .replace(/best\s*with/gi, '')
-    .replace(/players?/gi, '')
-    .replace(/\s+/g, ' ')
-    .trim()
+export type FilterPredicate =
+  | 'playerCount'
+  | 'bestWith'
+  | 'recommendedAt'
+  | 'time'
+  | 'mode'
+  | 'age'
+  | 'complexity'
+  | 'rating'
+  | 'facets'
+  | 'tags'
+  | 'availability'
+  | 'lowRated'
+
+type UserRatings = Record<string, Record<number, number | undefined>>
+
+/**
+ * Every filter predicate the game fails (empty = the game passes).
+ */
+export function getRejectedPredicates(
+  game: GameRecord,
+  filters: WizardFilters,
+  userRatings: UserRatings,
+  ownedExpansions: OwnedExpansionsByGame = {},
+  gameTags: GameTagsByGame = {},
+  gameCopies: GameCopiesByGame = {},
+): FilterPredicate[] {
+  const rejected: FilterPredicate[] = []
+
+  // Player count (base game plus owned expansions)
+  if (!supportsPlayerCount(game, filters.playerCount, ownedExpansions[game.bggId])) rejected.push('playerCount')
+
+  // Player-count poll refinement
+  if (filters.requireBestWithPlayerCount) {
+    if (!matchesPlayerCountFit(game, 'best', filters.playerCount)) rejected.push('bestWith')
+  } else if (filters.requireRecommendedPlayerCount) {
+    if (!matchesPlayerCountFit(game, 'recommended', filters.playerCount)) rejected.push('recommendedAt')
+  }
+
+  // Time range
+  const time = game.playingTimeMinutes
+  if (time !== undefined) {
+    if (time < filters.timeRange.min || time > filters.timeRange.max) rejected.push('time')
+  }
+
+  // Mode
+  if (filters.mode !== 'any') {
+    const coop = isCoopGame(game.mechanics)
+    if ((filters.mode === 'coop' && !coop) || (filters.mode === 'competitive' && coop)) rejected.push('mode')
+  }
 
-  if (!normalized) return false
+  // Age range (allow unknown)
+  if (game.minAge !== undefined) {
+    if (game.minAge < filters.ageRange.min || game.minAge > filters.ageRange.max) rejected.push('age')
+  }
+
+  // Complexity range (allow unknown)
+  if (game.weight !== undefined) {
+    if (game.weight < filters.complexityRange.min || game.weight > filters.complexityRange.max) rejected.push('complexity')
+  }
+
+  // Rating range (allow unknown)
+  if (game.averageRating !== undefined) {
+    if (game.averageRating < filters.ratingRange.min || game.averageRating > filters.ratingRange.max) rejected.push('rating')
+  }
 
-  const parts = normalized.split(',').map((p) => p.trim()).filter(Boolean)
-  const chunks = parts.length ? parts : [normalized]
+  // Mechanic / category / designer facets
+  if (!matchesFacetFilters(game, filters.facets)) rejected.push('facets')
 
-  for (const chunk of chunks) {
-    const hasRange = chunk.includes('-') || chunk.includes('–')
-    const nums = chunk.match(/\d+/g)?.map((n) => Number(n)).filter((n) => Number.isFinite(n)) ?? []
-    if (!nums.length) continue
+  // User tags
+  if (!matchesTagFilter(game.bggId, filters.tagIds, gameTags)) rejected.push('tags')
 
-    if (hasRange && nums.length >= 2) {
-      const min = Math.min(nums[0], nums[1])
-      const max = Math.max(nums[0], nums[1])
-      if (playerCount >= min && playerCount <= max) return true
-      continue
-    }
+  // Lent out or kept somewhere other than tonight's location
+  if (!matchesAvailabilityFilter(game.bggId, filters.availableAt, gameCopies)) rejected.push('availability')
 
-    if (nums.includes(playerCount)) return true
+  // Low rated exclusion (by any player)
+  if (filters.excludeLowRatedThreshold !== null) {
+    const threshold = filters.excludeLowRatedThreshold
+    const ratedLow = Object.keys(userRatings).some((username) => {
+      const rating = userRatings[username][game.bggId]
+      return rating !== undefined && rating < threshold
+    })
+    if (ratedLow) rejected.push('lowRated')
   }
 
-  return false
+  return rejected
 }
 
 export function applyGameFilters(
   games: GameRecord[],
   filters: WizardFilters,
-  userRatings: Record<string, Record<number, number | undefined>>,
+  userRatings: UserRatings,
+  ownedExpansions: OwnedExpansionsByGame = {},
+  gameTags: GameTagsByGame = {},
+  gameCopies: GameCopiesByGame = {},
 ): GameRecord[] {
-  return games.filter((game) => {
-    // Player count
-    const minPlayers = game.minPlayers ?? 1
-    const maxPlayers = game.maxPlayers ?? 99
-    if (filters.playerCount < minPlayers || filters.playerCount > maxPlayers) return false
-
-    // Best-with refinement
-    if (filters.requireBestWithPlayerCount) {
-      if (!game.bestWith) return false
-      if (!bestWithMatchesPlayerCount(game.bestWith, filters.playerCount)) return false
-    }
-
-    // Time range
-    const time = game.playingTimeMinutes
-    if (time !== undefined) {
-      if (time < filters.timeRange.min || time > filters.timeRange.max) return false
-    }
-
-    // Mode
-    if (filters.mode !== 'any') {
-      const coop = isCoopGame(game.mechanics)
-      if (filters.mode === 'coop' && !coop) return false
-      if (filters.mode === 'competitive' && coop) return false
-    }
-
-    // Age range (allow unknown)
-    if (game.minAge !== undefined) {
-      if (game.minAge < filters.ageRange.min || game.minAge > filters.ageRange.max) return false
-    }
-
-    // Complexity range (allow unknown)
-    if (game.weight !== undefined) {
-      if (game.weight < filters.complexityRange.min || game.weight > filters.complexityRange.max) return false
-    }
-
-    // Rating range (allow unknown)
-    if (game.averageRating !== undefined) {
-      if (game.averageRating < filters.ratingRange.min || game.averageRating > filters.ratingRange.max) return false
-    }
-
-    // Low rated exclusion (by any player)
-    if (filters.excludeLowRatedThreshold !== null) {
-      for (const username of Object.keys(userRatings)) {
-        const rating = userRatings[username][game.bggId]
-        if (rating !== undefined && rating < filters.excludeLowRatedThreshold) return false
-      }
-    }
-
-    return true
-  })
+  return games.filter((game) => getRejectedPredicates(game, filters, userRatings, ownedExpansions, gameTags, gameCopies).length === 0)
 }
@@ -0,0 +1,83 @@
+import type { GameRecord } from '../../db/types'
+import type { WizardFilters } from '../../store/wizardTypes'
+import { explainGameFilters, suggestFilterRelaxations } from './explainGameFilters'
+
+function makeGame(overrides: Partial<GameRecord>): GameRecord {
+  return {
+    bggId: overrides.bggId ?? 1,
+    name: overrides.name ?? 'Game',
+    lastFetchedAt: '2026-01-01T00:00:00Z',
+    ...overrides,
+  }
+}
+
+const baseFilters: WizardFilters = {
+  playerCount: 4,
+  timeRange: { min: 0, max: 60 },
+  mode: 'any',
+  requireBestWithPlayerCount: false,
+  excludeLowRatedThreshold: null,
+  ageRange: { min: 0, max: 21 },
+  complexityRange: { min: 0, max: 2.5 },
+  ratingRange: { min: 0, max: 10 },
+}
+
+describe('explainGameFilters', () => {
+  it('lists every predicate that rejected each excluded game', () => {
+    const games = [
+      makeGame({ bggId: 1, playingTimeMinutes: 45 }),
+      makeGame({ bggId: 2, playingTimeMinutes: 120, weight: 3.8 }),
+      makeGame({ bggId: 3, maxPlayers: 2 }),
+    ]
+
+    const exclusions = explainGameFilters(games, baseFilters, {})
+
+    expect(exclusions.map((e) => [e.game.bggId, e.predicates])).toEqual([
+      [2, ['time', 'complexity']],
+      [3, ['playerCount']],
+    ])
+  })
+
+  it('reports games rated low by a player', () => {
+    const exclusions = explainGameFilters(
+      [makeGame({ bggId: 1 })],
+      { ...baseFilters, excludeLowRatedThreshold: 6 },
+      { alice: { 1: 4 } },
+    )
+
+    expect(exclusions[0].predicates).toEqual(['lowRated'])
+  })
+})
+
+describe('suggestFilterRelaxations', () => {
+  it('suggests the smallest widening first by games regained', () => {
+    const games = [
+      makeGame({ bggId: 1, playingTimeMinutes: 75 }),
+      makeGame({ bggId: 2, playingTimeMinutes: 75 }),
+      makeGame({ bggId: 3, playingTimeMinutes: 180 }),
+      makeGame({ bggId: 4, weight: 2.7 }),
+    ]
+
+    const suggestions = suggestFilterRelaxations(games, baseFilters, {})
+
+    expect(suggestions.map((s) => [s.label, s.gained])).toEqual([
+      ['Allow up to 75 min', 2],
+      ['Complexity 0.0–3.0', 1],
+    ])
+    expect(suggestions[0].filters.timeRange).toEqual({ min: 0, max: 75 })
+  })
+
+  it('lowers the low-rated threshold just enough', () => {
+    const suggestions = suggestFilterRelaxations(
+      [makeGame({ bggId: 1 }), makeGame({ bggId: 2 })],
+      { ...baseFilters, excludeLowRatedThreshold: 7 },
+      { alice: { 1: 5.5, 2: 3 }, bob: { 1: 8 } },
+    )
+
+    expect(suggestions[0]).toMatchObject({ label: 'Only exclude games rated below 5.5', gained: 1 })
+  })
+
+  it('never suggests changing the player count', () => {
+    expect(suggestFilterRelaxations([makeGame({ maxPlayers: 2 })], baseFilters, {})).toEqual([])
+  })
+})
@@ -0,0 +1,225 @@
+/**
+ * Companion to applyGameFilters: explains why games were filtered out and
+ * suggests the smallest filter changes that bring games back.
+ */
+import type { GameRecord } from '../../db/types'
+import type { WizardFilters } from '../../store/wizardTypes'
+import { applyGameFilters, getRejectedPredicates, type FilterPredicate } from './applyGameFilters'
+import { GAME_FACETS } from './gameFacets'
+import type { OwnedExpansionsByGame } from '../expansions/expansionRange'
+import type { GameTagsByGame } from '../tags/gameTags'
+import type { GameCopiesByGame } from '../lending/gameAvailability'
+
+type UserRatings = Record<string, Record<number, number | undefined>>
+
+export const FILTER_PREDICATE_LABELS: Record<FilterPredicate, string> = {
+  playerCount: 'Player count',
+  bestWith: 'Not best with this count',
+  recommendedAt: 'Not recommended at this count',
+  time: 'Playing time',
+  mode: 'Game mode',
+  age: 'Minimum age',
+  complexity: 'Complexity',
+  rating: 'BGG rating',
+  facets: 'Mechanics / categories',
+  tags: 'Tags',
+  availability: 'Not available tonight',
+  lowRated: 'Rated low by a player',
+}
+
+export interface FilterExclusion {
+  game: GameRecord
+  predicates: FilterPredicate[]
+}
+
+export interface RelaxSuggestion {
+  predicate: FilterPredicate
+  /** Short description of the change, e.g. "Allow up to 90 min" */
+  label: string
+  filters: WizardFilters
+  /** Games the change brings back */
+  gained: number
+}
+
+export function explainGameFilters(
+  games: GameRecord[],
+  filters: WizardFilters,
+  userRatings: UserRatings,
+  ownedExpansions: OwnedExpansionsByGame = {},
+  gameTags: GameTagsByGame = {},
+  gameCopies: GameCopiesByGame = {},
+): FilterExclusion[] {
+  return games
+    .map((game) => ({ game, predicates: getRejectedPredicates(game, filters, userRatings, ownedExpansions, gameTags, gameCopies) }))
+    .filter((e) => e.predicates.length > 0)
+}
+
+// Sliders move in half steps, so round relaxed bounds outward to match
+const floorHalf = (n: number) => Math.floor(n * 2) / 2
+const ceilHalf = (n: number) => Math.ceil(n * 2) / 2
+
+/**
+ * Widen a range just enough to take in the nearest value outside it, on
+ * whichever side is closer.
+ */
+function widenRange(
+  range: { min: number; max: number },
+  values: Array<number | undefined>,
+  round: (n: number, side: 'min' | 'max') => number = (n) => n,
+): { min: number; max: number } | null {
+  const outside = values.filter((v): v is number => v !== undefined)
+  const above = outside.filter((v) => v > range.max)
+  const below = outside.filter((v) => v < range.min)
+  const nextAbove = above.length > 0 ? Math.min(...above) : undefined
+  const nextBelow = below.length > 0 ? Math.max(...below) : undefined
+
+  const widenMax = nextAbove !== undefined && (nextBelow === undefined || nextAbove - range.max <= range.min - nextBelow)
+  if (widenMax) return { ...range, max: round(nextAbove, 'max') }
+  if (nextBelow !== undefined) return { ...range, min: round(nextBelow, 'min') }
+  return null
+}
+
+const roundHalf = (n: number, side: 'min' | 'max') => (side === 'max' ? ceilHalf(n) : floorHalf(n))
+
+function candidateChanges(
+  exclusions: FilterExclusion[],
+  filters: WizardFilters,
+  userRatings: UserRatings,
+): Array<Omit<RelaxSuggestion, 'gained'>> {
+  const rejectedBy = (predicate: FilterPredicate) =>
+    exclusions.filter((e) => e.predicates.includes(predicate)).map((e) => e.game)
+  const candidates: Array<Omit<RelaxSuggestion, 'gained'>> = []
+
+  // Player count is who showed up tonight, so it is never suggested.
+
+  if (filters.requireBestWithPlayerCount && rejectedBy('bestWith').length > 0) {
+    candidates.push({
+      predicate: 'bestWith',
+      label: `Include games not “best with ${filters.playerCount}”`,
+      // Stepping down from "best" lands on "recommended", the next strictest fit
+      filters: { ...filters, requireBestWithPlayerCount: false, requireRecommendedPlayerCount: true },
+    })
+  }
+
+  if (filters.requireRecommendedPlayerCount && rejectedBy('recommendedAt').length > 0) {
+    candidates.push({
+      predicate: 'recommendedAt',
+      label: `Include games not recommended at ${filters.playerCount}`,
+      filters: { ...filters, requireRecommendedPlayerCount: false },
+    })
+  }
+
+  const timeRange = widenRange(filters.timeRange, rejectedBy('time').map((g) => g.playingTimeMinutes))
+  if (timeRange) {
+    candidates.push({
+      predicate: 'time',
+      label: timeRange.max !== filters.timeRange.max ? `Allow up to ${timeRange.max} min` : `Allow from ${timeRange.min} min`,
+      filters: { ...filters, timeRange },
+    })
+  }
+
+  if (filters.mode !== 'any' && rejectedBy('mode').length > 0) {
+    candidates.push({ predicate: 'mode', label: 'Allow any game mode', filters: { ...filters, mode: 'any' } })
+  }
+
+  const ageRange = widenRange(filters.ageRange, rejectedBy('age').map((g) => g.minAge))
+  if (ageRange) {
+    candidates.push({
+      predicate: 'age',
+      label: `Minimum age ${ageRange.min}–${ageRange.max}`,
+      filters: { ...filters, ageRange },
+    })
+  }
+
+  const complexityRange = widenRange(filters.complexityRange, rejectedBy('complexity').map((g) => g.weight), roundHalf)
+  if (complexityRange) {
+    candidates.push({
+      predicate: 'complexity',
+      label: `Complexity ${complexityRange.min.toFixed(1)}–${complexityRange.max.toFixed(1)}`,
+      filters: { ...filters, complexityRange },
+    })
+  }
+
+  const ratingRange = widenRange(filters.ratingRange, rejectedBy('rating').map((g) => g.averageRating), roundHalf)
+  if (ratingRange) {
+    candidates.push({
+      predicate: 'rating',
+      label: `BGG rating ${ratingRange.min.toFixed(1)}–${ratingRange.max.toFixed(1)}`,
+      filters: { ...filters, ratingRange },
+    })
+  }
+
+  for (const { facet, label } of GAME_FACETS) {
+    const facetFilter = filters.facets?.[facet]
+    if (!facetFilter || rejectedBy('facets').length === 0) continue
+    for (const value of facetFilter.exclude) {
+      candidates.push({
+        predicate: 'facets',
+        label: `Stop hiding “${value}”`,
+        filters: {
+          ...filters,
+          facets: { ...filters.facets, [facet]: { ...facetFilter, exclude: facetFilter.exclude.filter((v) => v !== value) } },
+        },
+      })
+    }
+    if (facetFilter.include.length > 0) {
+      candidates.push({
+        predicate: 'facets',
+        label: `Any ${label.toLowerCase()}`,
+        filters: { ...filters, facets: { ...filters.facets, [facet]: { ...facetFilter, include: [] } } },
+      })
+    }
+  }
+
+  if (filters.tagIds?.length && rejectedBy('tags').length > 0) {
+    candidates.push({ predicate: 'tags', label: 'Any tag', filters: { ...filters, tagIds: [] } })
+  }
+
+  if (filters.availableAt && rejectedBy('availability').length > 0) {
+    candidates.push({
+      predicate: 'availability',
+      label: 'Include lent-out and elsewhere games',
+      filters: { ...filters, availableAt: null },
+    })
+  }
+
+  const threshold = filters.excludeLowRatedThreshold
+  const lowRated = rejectedBy('lowRated')
+  if (threshold !== null && lowRated.length > 0) {
+    // A game comes back once the threshold drops to its lowest player rating
+    const lowestRatings = lowRated.map((g) =>
+      Math.min(...Object.values(userRatings).map((r) => r[g.bggId] ?? Infinity)),
+    )
+    const next = floorHalf(Math.max(...lowestRatings))
+    candidates.push({
+      predicate: 'lowRated',
+      label: next > 0 ? `Only exclude games rated below ${next}` : 'Stop excluding low-rated games',
+      filters: { ...filters, excludeLowRatedThreshold: next > 0 ? next : null },
+    })
+  }
+
+  return candidates
+}
+
+/**
+ * The single-filter changes that bring the most games back, best first.
+ */
+export function suggestFilterRelaxations(
+  games: GameRecord[],
+  filters: WizardFilters,
+  userRatings: UserRatings,
+  ownedExpansions: OwnedExpansionsByGame = {},
+  gameTags: GameTagsByGame = {},
+  gameCopies: GameCopiesByGame = {},
+  maxSuggestions = 3,
+): RelaxSuggestion[] {
+  const exclusions = explainGameFilters(games, filters, userRatings, ownedExpansions, gameTags, gameCopies)
+  if (exclusions.length === 0) return []
+
+  const currentCount = games.length - exclusions.length
+  return candidateChanges(exclusions, filters, userRatings)
+    .map((c) => ({ ...c, gained: applyGameFilters(games, c.filters, userRatings, ownedExpansions, gameTags, gameCopies).length - currentCount }))
+    .filter((s) => s.gained > 0)
+    .sort((a, b) => b.gained - a.gained)
+    .slice(0, maxSuggestions)
+}
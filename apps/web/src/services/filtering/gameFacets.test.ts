@@ -0,0 +1,27 @@
+import { testGame } from '../../test/recommendationTestUtils'
+import { getFacetCounts, hasActiveFacets } from './gameFacets'
+
+describe('getFacetCounts', () => {
+  it('counts each value once per game, most common first', () => {
+    const games = [
+      testGame(1, { designers: ['Uwe Rosenberg'] }),
+      testGame(2, { designers: ['Uwe Rosenberg', 'Uwe Rosenberg'] }),
+      testGame(3, { designers: ['Bruno Cathala', 'Ludovic Maublanc'] }),
+      testGame(4),
+    ]
+
+    expect(getFacetCounts(games, 'designers')).toEqual([
+      { value: 'Uwe Rosenberg', count: 2 },
+      { value: 'Bruno Cathala', count: 1 },
+      { value: 'Ludovic Maublanc', count: 1 },
+    ])
+  })
+})
+
+describe('hasActiveFacets', () => {
+  it('ignores empty facet filters', () => {
+    expect(hasActiveFacets(undefined)).toBe(false)
+    expect(hasActiveFacets({ mechanics: { include: [], exclude: [] } })).toBe(false)
+    expect(hasActiveFacets({ designers: { include: [], exclude: ['Uwe Rosenberg'] } })).toBe(true)
+  })
+})
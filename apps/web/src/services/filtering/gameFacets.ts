@@ -0,0 +1,57 @@
+/**
+ * Include/exclude facets over the list fields on GameRecord
+ * (mechanics, categories, designers).
+ */
+import type { GameRecord } from '../../db/types'
+import type { FacetFilter, GameFacet, WizardFilters } from '../../store/wizardTypes'
+
+export const GAME_FACETS: Array<{ facet: GameFacet; label: string }> = [
+  { facet: 'mechanics', label: 'Mechanics' },
+  { facet: 'categories', label: 'Categories' },
+  { facet: 'designers', label: 'Designers' },
+]
+
+export const EMPTY_FACET_FILTER: FacetFilter = { include: [], exclude: [] }
+
+export interface FacetCount {
+  value: string
+  count: number
+}
+
+/**
+ * How many games carry each value of a facet, most common first.
+ */
+export function getFacetCounts(games: GameRecord[], facet: GameFacet): FacetCount[] {
+  const counts = new Map<string, number>()
+  for (const game of games) {
+    for (const value of new Set(game[facet] ?? [])) {
+      counts.set(value, (counts.get(value) ?? 0) + 1)
+    }
+  }
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+}
+
+export function hasActiveFacets(facets: WizardFilters['facets']): boolean {
+  if (!facets) return false
+  return Object.values(facets).some((f) => f && (f.include.length > 0 || f.exclude.length > 0))
+}
+
+/**
+ * Whether a game passes every facet filter. Games missing a facet field fail
+ * an include filter (we can't tell they match) but pass an exclude filter.
+ */
+export function matchesFacetFilters(game: GameRecord, facets: WizardFilters['facets']): boolean {
+  if (!facets) return true
+
+  for (const { facet } of GAME_FACETS) {
+    const filter = facets[facet]
+    if (!filter) continue
+    const values = game[facet] ?? []
+    if (filter.exclude.some((v) => values.includes(v))) return false
+    if (filter.include.length > 0 && !filter.include.some((v) => values.includes(v))) return false
+  }
+
+  return true
+}
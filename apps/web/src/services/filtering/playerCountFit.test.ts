@@ -0,0 +1,49 @@
+import type { GameRecord, PlayerCountVotes } from '../../db/types'
+import {
+  getPlayerCountFitAdjustment,
+  getPlayerCountFitness,
+  matchesPlayerCountFit,
+} from './playerCountFit'
+
+const votes = (numPlayers: number, best: number, recommended: number, notRecommended: number): PlayerCountVotes => ({
+  numPlayers,
+  best,
+  recommended,
+  notRecommended,
+})
+
+const game = (overrides: Partial<GameRecord>): GameRecord => ({
+  bggId: 1,
+  name: 'Game',
+  lastFetchedAt: '2026-01-01T00:00:00Z',
+  ...overrides,
+})
+
+describe('playerCountFit', () => {
+  const polled = game({
+    playerCountPoll: [votes(2, 5, 40, 55), votes(3, 30, 60, 10), votes(4, 80, 15, 5), votes(5, 1, 1, 0)],
+  })
+
+  it('reads best and recommended from the poll', () => {
+    expect(matchesPlayerCountFit(polled, 'best', 4)).toBe(true)
+    expect(matchesPlayerCountFit(polled, 'best', 3)).toBe(false)
+    expect(matchesPlayerCountFit(polled, 'recommended', 3)).toBe(true)
+    expect(matchesPlayerCountFit(polled, 'recommended', 2)).toBe(false)
+    expect(matchesPlayerCountFit(polled, 'any', 2)).toBe(true)
+  })
+
+  it('falls back to the bestWith string without enough votes', () => {
+    expect(matchesPlayerCountFit(game({ bestWith: '3-5' }), 'recommended', 4)).toBe(true)
+    expect(matchesPlayerCountFit(game({ bestWith: '2' }), 'best', 4)).toBe(false)
+    // Two votes at 5 are too few to trust
+    expect(matchesPlayerCountFit(polled, 'best', 5)).toBe(false)
+  })
+
+  it('weights Best fully and Recommended half', () => {
+    expect(getPlayerCountFitness(polled, 4)).toBeCloseTo(0.875)
+    expect(getPlayerCountFitness(polled, 6)).toBeUndefined()
+    expect(getPlayerCountFitAdjustment(polled, 4)).toBeCloseTo(0.75)
+    expect(getPlayerCountFitAdjustment(polled, 2)).toBeCloseTo(-0.5)
+    expect(getPlayerCountFitAdjustment(game({}), 4)).toBe(0)
+  })
+})
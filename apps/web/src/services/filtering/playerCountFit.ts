@@ -0,0 +1,109 @@
+/**
+ * Player-count suitability from BGG's suggested_numplayers poll.
+ *
+ * Games fetched before the full poll was stored only carry the collapsed
+ * `bestWith` string; those fall back to parsing it.
+ */
+import type { GameRecord, PlayerCountVotes } from '../../db/types'
+import type { WizardFilters } from '../../store/wizardTypes'
+
+export type PlayerCountFit = 'any' | 'recommended' | 'best'
+
+/** Fewer votes than this are too noisy to score */
+export const MIN_POLL_VOTES = 3
+
+export function bestWithMatchesPlayerCount(bestWith: string, playerCount: number): boolean {
+  const normalized = bestWith
+    .replace(/best\s*with/gi, '')
+    .replace(/players?/gi, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+
+  if (!normalized) return false
+
+  const parts = normalized.split(',').map((p) => p.trim()).filter(Boolean)
+  const chunks = parts.length ? parts : [normalized]
+
+  for (const chunk of chunks) {
+    const hasRange = chunk.includes('-') || chunk.includes('–')
+    const nums = chunk.match(/\d+/g)?.map((n) => Number(n)).filter((n) => Number.isFinite(n)) ?? []
+    if (!nums.length) continue
+
+    if (hasRange && nums.length >= 2) {
+      const min = Math.min(nums[0], nums[1])
+      const max = Math.max(nums[0], nums[1])
+      if (playerCount >= min && playerCount <= max) return true
+      continue
+    }
+
+    if (nums.includes(playerCount)) return true
+  }
+
+  return false
+}
+
+/** The fit the filters ask for; "best" wins if both flags are set */
+export function getPlayerCountFit(filters: WizardFilters): PlayerCountFit {
+  if (filters.requireBestWithPlayerCount) return 'best'
+  if (filters.requireRecommendedPlayerCount) return 'recommended'
+  return 'any'
+}
+
+function getVotes(game: GameRecord, playerCount: number): PlayerCountVotes | undefined {
+  const votes = game.playerCountPoll?.find((v) => v.numPlayers === playerCount)
+  if (!votes) return undefined
+  const total = votes.best + votes.recommended + votes.notRecommended
+  return total >= MIN_POLL_VOTES ? votes : undefined
+}
+
+/**
+ * Whether the game meets the requested fit at this player count. Follows
+ * BGG's own reading of the poll: "best" when Best has the most votes,
+ * "recommended" when Best + Recommended outvote Not Recommended.
+ */
+export function matchesPlayerCountFit(game: GameRecord, fit: PlayerCountFit, playerCount: number): boolean {
+  if (fit === 'any') return true
+
+  const votes = getVotes(game, playerCount)
+  if (!votes) {
+    // Without poll data only a matching "best with" counts
+    return !!game.bestWith && bestWithMatchesPlayerCount(game.bestWith, playerCount)
+  }
+
+  if (fit === 'best') {
+    return votes.best > 0 && votes.best >= votes.recommended && votes.best >= votes.notRecommended
+  }
+  return votes.best + votes.recommended > votes.notRecommended
+}
+
+/**
+ * Vote-weighted fitness in [0, 1]: Best counts fully, Recommended half,
+ * Not Recommended nothing. Undefined without enough poll votes.
+ */
+export function getPlayerCountFitness(game: GameRecord, playerCount: number): number | undefined {
+  const votes = getVotes(game, playerCount)
+  if (!votes) return undefined
+  const total = votes.best + votes.recommended + votes.notRecommended
+  return (votes.best + votes.recommended * 0.5) / total
+}
+
+/** Score adjustment at fitness 0 or 1 (zero at an even 0.5) */
+export const PLAYER_COUNT_FIT_WEIGHT = 1
+
+/**
+ * Score adjustment from the poll: positive when voters call the game good at
+ * this count, negative when they don't, zero without poll data.
+ */
+export function getPlayerCountFitAdjustment(game: GameRecord, playerCount: number): number {
+  const fitness = getPlayerCountFitness(game, playerCount)
+  if (fitness === undefined) return 0
+  return (fitness - 0.5) * 2 * PLAYER_COUNT_FIT_WEIGHT
+}
+
+export function describePlayerCountFit(game: GameRecord, playerCount: number): string | undefined {
+  const fitness = getPlayerCountFitness(game, playerCount)
+  if (fitness === undefined) return undefined
+  if (fitness >= 0.7) return `👥 Great at ${playerCount}`
+  if (fitness <= 0.3) return `👥 Weak at ${playerCount}`
+  return undefined
+}
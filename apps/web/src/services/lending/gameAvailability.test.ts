@@ -0,0 +1,43 @@
+import type { UserGameRecord } from '../../db/types'
+import { getHostLocation, getKnownLocations, groupGameCopies, matchesAvailabilityFilter } from './gameAvailability'
+
+function copy(overrides: Partial<UserGameRecord>): UserGameRecord {
+  return { username: 'alice', bggId: 10, source: 'bgg', addedAt: '2026-01-01T00:00:00.000Z', ...overrides }
+}
+
+describe('gameAvailability', () => {
+  const gameCopies = groupGameCopies([
+    copy({ bggId: 10, location: 'Home' }),
+    copy({ bggId: 10, username: 'bob', location: 'Cabin' }),
+    copy({ bggId: 20, location: 'Home', lentTo: 'Carol' }),
+    copy({ bggId: 30, location: 'Cabin' }),
+    copy({ bggId: 40 }),
+  ])
+
+  it('groups copies by game', () => {
+    expect(gameCopies[10].map((c) => c.username)).toEqual(['alice', 'bob'])
+  })
+
+  it('passes games with a copy at the location that is not lent out', () => {
+    expect(matchesAvailabilityFilter(10, 'home', gameCopies)).toBe(true)
+    expect(matchesAvailabilityFilter(20, 'Home', gameCopies)).toBe(false)
+    expect(matchesAvailabilityFilter(30, 'Home', gameCopies)).toBe(false)
+  })
+
+  it('passes copies with no location and games with no copies', () => {
+    expect(matchesAvailabilityFilter(40, 'Home', gameCopies)).toBe(true)
+    expect(matchesAvailabilityFilter(50, 'Home', gameCopies)).toBe(true)
+  })
+
+  it('passes every game when no location is set', () => {
+    expect(matchesAvailabilityFilter(20, null, gameCopies)).toBe(true)
+    expect(matchesAvailabilityFilter(30, undefined, gameCopies)).toBe(true)
+  })
+
+  it('picks the location holding most of the host games', () => {
+    expect(getHostLocation('alice', gameCopies)).toBe('Home')
+    expect(getHostLocation('bob', gameCopies)).toBe('Cabin')
+    expect(getHostLocation('dave', gameCopies)).toBeNull()
+    expect(getKnownLocations(gameCopies)).toEqual(['Cabin', 'Home'])
+  })
+})
@@ -0,0 +1,66 @@
+/**
+ * Where each owner's copy of a game is tonight: grouping the copy records and
+ * the "available tonight" filter.
+ */
+import type { UserGameRecord } from '../../db/types'
+
+/** Every owner's copy keyed by game bggId */
+export type GameCopiesByGame = Record<number, UserGameRecord[]>
+
+export function groupGameCopies(records: UserGameRecord[]): GameCopiesByGame {
+  const byGame: GameCopiesByGame = {}
+  for (const record of records) {
+    ;(byGame[record.bggId] ||= []).push(record)
+  }
+  return byGame
+}
+
+/** A copy that is not lent out and is kept at the location (or nowhere recorded) */
+export function isCopyAvailableAt(copy: UserGameRecord, location: string): boolean {
+  if (copy.lentTo) return false
+  return !copy.location || copy.location.toLowerCase() === location.toLowerCase()
+}
+
+/**
+ * Whether at least one copy of a game can be played at the location tonight.
+ * No location means the filter is off; games without any recorded copy pass.
+ */
+export function matchesAvailabilityFilter(
+  bggId: number,
+  location: string | null | undefined,
+  gameCopies: GameCopiesByGame,
+): boolean {
+  if (!location) return true
+  const copies = gameCopies[bggId] ?? []
+  return copies.length === 0 || copies.some((copy) => isCopyAvailableAt(copy, location))
+}
+
+/**
+ * The host's home: where most of the organizer's games are kept, or null when
+ * none of their copies has a location.
+ */
+export function getHostLocation(username: string | null | undefined, gameCopies: GameCopiesByGame): string | null {
+  if (!username) return null
+  const counts = new Map<string, number>()
+  for (const copies of Object.values(gameCopies)) {
+    for (const copy of copies) {
+      if (copy.username === username && copy.location) counts.set(copy.location, (counts.get(copy.location) ?? 0) + 1)
+    }
+  }
+  let best: string | null = null
+  for (const [location, count] of counts) {
+    if (best === null || count > counts.get(best)!) best = location
+  }
+  return best
+}
+
+/** Distinct locations across all copies, alphabetically */
+export function getKnownLocations(gameCopies: GameCopiesByGame): string[] {
+  const locations = new Set<string>()
+  for (const copies of Object.values(gameCopies)) {
+    for (const copy of copies) {
+      if (copy.location) locations.add(copy.location)
+    }
+  }
+  return [...locations].sort((a, b) => a.localeCompare(b))
+}
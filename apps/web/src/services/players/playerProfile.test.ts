@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import type { SavedNightRecord, UserPreferenceRecord, UserRecord } from '../../db/types'
+import { buildPlayerProfile, findPossibleDuplicates } from './playerProfile'
+
+const now = '2024-01-01T00:00:00.000Z'
+
+function pref(bggId: number, extra: Partial<UserPreferenceRecord> = {}): UserPreferenceRecord {
+  return { username: 'alex', bggId, isTopPick: false, isDisliked: false, updatedAt: now, ...extra }
+}
+
+function night(id: number, createdAt: string, usernames: string[], pickId: number, pickTopPickedBy?: string[]): SavedNightRecord {
+  return {
+    id,
+    createdAt,
+    data: {
+      name: `Night ${id}`,
+      usernames,
+      gameIds: [pickId],
+      filters: {},
+      pick: { bggId: pickId, name: `Game ${pickId}`, score: 1 },
+      alternatives: [],
+      pickTopPickedBy,
+    },
+  }
+}
+
+describe('buildPlayerProfile', () => {
+  it('sorts rankings and splits out top picks and dislikes', () => {
+    const profile = buildPlayerProfile(
+      'alex',
+      [pref(1, { rank: 2 }), pref(2, { rank: 1, isTopPick: true }), pref(3, { isDisliked: true })],
+      [],
+    )
+    expect(profile.rankings.map((p) => p.bggId)).toEqual([2, 1])
+    expect(profile.topPickIds).toEqual([2])
+    expect(profile.dislikedIds).toEqual([3])
+  })
+
+  it('lists attended nights newest first and counts top pick wins', () => {
+    const profile = buildPlayerProfile('alex', [], [
+      night(1, '2024-01-01T00:00:00.000Z', ['alex', 'sam'], 2, ['alex']),
+      night(2, '2024-02-01T00:00:00.000Z', ['alex'], 5, []),
+      night(3, '2024-03-01T00:00:00.000Z', ['sam'], 2, ['sam']),
+    ])
+    expect(profile.nights.map((n) => n.id)).toEqual([2, 1])
+    expect(profile.nights.map((n) => n.topPickWon)).toEqual([false, true])
+    expect(profile.topPickWins).toBe(1)
+  })
+
+  it('judges top pick wins by that night\'s top picks, not the current ones', () => {
+    const profile = buildPlayerProfile('alex', [pref(2, { isTopPick: true }), pref(3)], [
+      night(1, '2024-01-01T00:00:00.000Z', ['alex'], 2, []),
+      night(2, '2024-02-01T00:00:00.000Z', ['alex'], 3, ['alex']),
+      night(3, '2024-03-01T00:00:00.000Z', ['alex'], 2),
+    ])
+    expect(profile.nights.map((n) => [n.id, n.topPickWon])).toEqual([[3, false], [2, true], [1, false]])
+    expect(profile.topPickWins).toBe(1)
+  })
+})
+
+describe('findPossibleDuplicates', () => {
+  const users: UserRecord[] = [
+    { username: 'alex-a1b2', internalId: 'alex-a1b2', displayName: 'Alex', isBggUser: false },
+    { username: 'alex', internalId: 'alex-x9y8', isBggUser: true },
+    { username: 'alex-c3d4', internalId: 'alex-c3d4', displayName: 'Alexandra', isBggUser: false },
+    { username: 'sam-e5f6', internalId: 'sam-e5f6', displayName: 'Sam', isBggUser: false },
+    { username: 'alex-gone', internalId: 'alex-gone', displayName: 'Alex', isBggUser: false, isDeleted: true },
+  ]
+
+  it('matches the same name or base slug, skipping deleted players', () => {
+    expect(findPossibleDuplicates(users[0], users).map((u) => u.username)).toEqual(['alex', 'alex-c3d4'])
+    expect(findPossibleDuplicates(users[3], users)).toEqual([])
+  })
+})
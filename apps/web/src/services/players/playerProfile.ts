@@ -0,0 +1,71 @@
+/**
+ * A player's profile: their current preferences and the saved game nights
+ * they attended.
+ */
+import type { SavedNightRecord, UserPreferenceRecord, UserRecord } from '../../db/types'
+import { isSameBaseUser, normalizeToSlug } from '../db/userIdService'
+
+export interface PlayerNight {
+  id?: number
+  name: string
+  createdAt: string
+  pick: { bggId: number; name: string }
+  /** The pick was one of the player's top picks that night (unknown on nights saved before this was recorded) */
+  topPickWon: boolean
+}
+
+export interface PlayerProfileStats {
+  /** Ranked games, best first */
+  rankings: UserPreferenceRecord[]
+  topPickIds: number[]
+  dislikedIds: number[]
+  /** Saved nights the player was at, newest first */
+  nights: PlayerNight[]
+  topPickWins: number
+}
+
+export function buildPlayerProfile(
+  username: string,
+  preferences: UserPreferenceRecord[],
+  savedNights: SavedNightRecord[],
+): PlayerProfileStats {
+  const rankings = preferences
+    .filter((p) => p.rank !== undefined)
+    .sort((a, b) => (a.rank ?? 0) - (b.rank ?? 0))
+  const topPickIds = preferences.filter((p) => p.isTopPick).map((p) => p.bggId)
+  const dislikedIds = preferences.filter((p) => p.isDisliked).map((p) => p.bggId)
+
+  const nights = savedNights
+    .filter((night) => night.data.usernames.includes(username))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map((night) => ({
+      id: night.id,
+      name: night.data.name,
+      createdAt: night.createdAt,
+      pick: { bggId: night.data.pick.bggId, name: night.data.pick.name },
+      topPickWon: night.data.pickTopPickedBy?.includes(username) ?? false,
+    }))
+
+  return {
+    rankings,
+    topPickIds,
+    dislikedIds,
+    nights,
+    topPickWins: nights.filter((n) => n.topPickWon).length,
+  }
+}
+
+/**
+ * Other players who may be the same person: the same name once slugged, or
+ * an internal ID with the same base slug.
+ */
+export function findPossibleDuplicates(user: UserRecord, users: UserRecord[]): UserRecord[] {
+  const slug = normalizeToSlug(user.displayName ?? user.username)
+  return users.filter(
+    (other) =>
+      other.username !== user.username &&
+      !other.isDeleted &&
+      (normalizeToSlug(other.displayName ?? other.username) === slug ||
+        isSameBaseUser(other.internalId, user.internalId)),
+  )
+}
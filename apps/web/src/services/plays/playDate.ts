@@ -0,0 +1,15 @@
+/**
+ * Play dates are stored as local calendar dates (YYYY-MM-DD), matching the
+ * date-only values BGG uses for logged plays.
+ */
+export function toPlayDate(date: Date): string {
+  const pad2 = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`
+}
+
+/** Play date `days` before `from` (defaults to today) */
+export function playDateDaysAgo(days: number, from: Date = new Date()): string {
+  const d = new Date(from)
+  d.setDate(d.getDate() - days)
+  return toPlayDate(d)
+}
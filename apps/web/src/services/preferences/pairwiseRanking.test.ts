@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest'
+import {
+  answerComparison,
+  createPairwiseState,
+  getNextComparison,
+  getPairwiseProgress,
+  isPairwiseComplete,
+  skipCandidate,
+  type PairwiseState,
+} from './pairwiseRanking'
+
+/** Answer every question according to `truth` (best first) */
+function runWith(state: PairwiseState, truth: number[], maxQuestions = Infinity): PairwiseState {
+  let current = state
+  let asked = 0
+  for (let next = getNextComparison(current); next && asked < maxQuestions; next = getNextComparison(current)) {
+    current = answerComparison(current, truth.indexOf(next.candidate) < truth.indexOf(next.opponent))
+    asked++
+  }
+  return current
+}
+
+describe('pairwiseRanking', () => {
+  it('sorts unranked games from the answers', () => {
+    const truth = [5, 3, 8, 1, 7, 2]
+    const result = runWith(createPairwiseState([], [1, 2, 3, 5, 7, 8]), truth)
+
+    expect(isPairwiseComplete(result)).toBe(true)
+    expect(result.sorted).toEqual(truth)
+    // Binary insertion needs far fewer questions than every pair (15)
+    expect(result.answered).toBeLessThanOrEqual(10)
+  })
+
+  it('inserts new games into an existing ranking', () => {
+    const result = runWith(createPairwiseState([10, 20, 30], [25, 5]), [5, 10, 20, 25, 30])
+    expect(result.sorted).toEqual([5, 10, 20, 25, 30])
+  })
+
+  it('can stop early with the rest left unplaced', () => {
+    const state = runWith(createPairwiseState([], [1, 2, 3, 4]), [4, 3, 2, 1], 1)
+
+    expect(state.sorted).toEqual([2, 1])
+    expect(state.pending).toEqual([3, 4])
+    expect(getPairwiseProgress(state, 4)).toMatchObject({ placed: 2, total: 4, fraction: 0.5 })
+    expect(getPairwiseProgress(state, 4).remainingQuestions).toBeGreaterThan(0)
+  })
+
+  it('skips a game without placing it', () => {
+    const state = skipCandidate(createPairwiseState([1], [2, 3]))
+
+    expect(state.pending).toEqual([3])
+    expect(getNextComparison(state)).toEqual({ candidate: 3, opponent: 1 })
+  })
+})
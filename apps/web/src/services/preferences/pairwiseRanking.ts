@@ -0,0 +1,98 @@
+/**
+ * "This or that" ranking by pairwise comparisons.
+ *
+ * Binary insertion sort driven by the player's answers: games already ranked
+ * are trusted as a sorted list, and each unranked game is placed into it by
+ * asking "this or that?" against the middle of the remaining window, so a
+ * game costs about log2(n) questions. The state is immutable and can be
+ * stopped at any point — everything placed so far becomes the ranking and
+ * the games not yet asked about stay neutral.
+ */
+
+export interface PairwiseState {
+  /** Ranked so far, best first */
+  sorted: number[]
+  /** Games still to place; the first one is being compared */
+  pending: number[]
+  /** Binary-search window in `sorted` for the current game */
+  low: number
+  high: number
+  /** Questions answered so far */
+  answered: number
+}
+
+export interface PairwiseComparison {
+  /** Game being placed */
+  candidate: number
+  /** Already-ranked game it is compared against */
+  opponent: number
+}
+
+export interface PairwiseProgress {
+  placed: number
+  total: number
+  /** 0-1 share of games placed */
+  fraction: number
+  /** Worst-case questions left to place every pending game */
+  remainingQuestions: number
+}
+
+/** Start from the player's current order and the games they have not ranked yet. */
+export function createPairwiseState(rankedIds: number[], unrankedIds: number[]): PairwiseState {
+  return settle({ sorted: [...rankedIds], pending: [...unrankedIds], low: 0, high: rankedIds.length, answered: 0 })
+}
+
+export function getNextComparison(state: PairwiseState): PairwiseComparison | null {
+  if (state.pending.length === 0) return null
+  return { candidate: state.pending[0], opponent: state.sorted[midpoint(state)] }
+}
+
+/** Record the answer to the current comparison. */
+export function answerComparison(state: PairwiseState, prefersCandidate: boolean): PairwiseState {
+  if (state.pending.length === 0) return state
+  const mid = midpoint(state)
+  return settle({
+    ...state,
+    low: prefersCandidate ? state.low : mid + 1,
+    high: prefersCandidate ? mid : state.high,
+    answered: state.answered + 1,
+  })
+}
+
+/** Leave the current game neutral and move on. */
+export function skipCandidate(state: PairwiseState): PairwiseState {
+  return settle({ ...state, pending: state.pending.slice(1), low: 0, high: state.sorted.length })
+}
+
+export function isPairwiseComplete(state: PairwiseState): boolean {
+  return state.pending.length === 0
+}
+
+export function getPairwiseProgress(state: PairwiseState, totalGames: number): PairwiseProgress {
+  const placed = state.sorted.length
+  let remainingQuestions = Math.ceil(Math.log2(state.high - state.low + 1))
+  for (let i = 1; i < state.pending.length; i++) {
+    remainingQuestions += Math.ceil(Math.log2(placed + i + 1))
+  }
+  return {
+    placed,
+    total: totalGames,
+    fraction: totalGames > 0 ? placed / totalGames : 1,
+    remainingQuestions: state.pending.length > 0 ? remainingQuestions : 0,
+  }
+}
+
+function midpoint(state: PairwiseState): number {
+  return Math.floor((state.low + state.high) / 2)
+}
+
+/** Insert the current game once its window has closed (or the list is empty). */
+function settle(state: PairwiseState): PairwiseState {
+  let next = state
+  while (next.pending.length > 0 && next.low >= next.high) {
+    const [candidate, ...rest] = next.pending
+    const sorted = [...next.sorted.slice(0, next.low), candidate, ...next.sorted.slice(next.low)]
+    next = { ...next, sorted, pending: rest, low: 0, high: sorted.length }
+  }
+  return next
+}
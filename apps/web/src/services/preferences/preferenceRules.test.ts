@@ -41,3 +41,57 @@ describe('preferenceRules.normalizePreferenceUpdate', () => {
     })
   })
 })
+
+describe('preferenceRules tiers', () => {
+  it('tier clears rank, top-pick and dislike', () => {
+    expect(normalizePreferenceUpdate({ rank: 2, isTopPick: false, isDisliked: false }, { tier: 'A' })).toEqual({
+      rank: undefined,
+      tier: 'A',
+      isTopPick: false,
+      isDisliked: false,
+    })
+  })
+
+  it('rank and top-pick clear an existing tier', () => {
+    expect(normalizePreferenceUpdate({ tier: 'S', isTopPick: false, isDisliked: false }, { rank: 1 }).tier).toBeUndefined()
+    expect(normalizePreferenceUpdate({ tier: 'S', isTopPick: false, isDisliked: false }, { isTopPick: true }).tier).toBeUndefined()
+  })
+
+  it('keeps an existing tier when un-disliking is not involved', () => {
+    expect(normalizePreferenceUpdate({ tier: 'B', isTopPick: false, isDisliked: false }, { isTopPick: false })).toEqual({
+      rank: undefined,
+      tier: 'B',
+      isTopPick: false,
+      isDisliked: false,
+    })
+  })
+})
+
+describe('preferenceRules learning flags', () => {
+  const neutral = { isTopPick: false, isDisliked: false }
+
+  it('willing to teach implies knowing the rules and clears wanting to learn', () => {
+    expect(normalizePreferenceUpdate({ ...neutral, wantsToLearn: true }, { willingToTeach: true })).toMatchObject({
+      knowsRules: true,
+      wantsToLearn: false,
+      willingToTeach: true,
+    })
+  })
+
+  it('wanting to learn clears knowing the rules and teaching', () => {
+    expect(normalizePreferenceUpdate({ ...neutral, knowsRules: true, willingToTeach: true }, { wantsToLearn: true })).toMatchObject({
+      knowsRules: false,
+      wantsToLearn: true,
+      willingToTeach: false,
+    })
+  })
+
+  it('not knowing the rules clears teaching', () => {
+    expect(normalizePreferenceUpdate({ ...neutral, knowsRules: true, willingToTeach: true }, { knowsRules: false }).willingToTeach).toBe(false)
+  })
+
+  it('keeps flags through ranking updates and the ranking through flag updates', () => {
+    expect(normalizePreferenceUpdate({ ...neutral, wantsToLearn: true }, { rank: 2 })).toMatchObject({ rank: 2, wantsToLearn: true })
+    expect(normalizePreferenceUpdate({ ...neutral, tier: 'A' }, { knowsRules: true })).toMatchObject({ tier: 'A', knowsRules: true })
+  })
+})
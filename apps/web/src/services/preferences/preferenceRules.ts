@@ -1,38 +1,99 @@
-import type { UserPreferenceRecord } from '../../db/types'
+import type { PreferenceTier, UserPreferenceRecord } from '../../db/types'
 
 export type PreferenceUpdate = {
   rank?: number
+  tier?: PreferenceTier
   isTopPick?: boolean
   isDisliked?: boolean
+  knowsRules?: boolean
+  wantsToLearn?: boolean
+  willingToTeach?: boolean
 }
 
+export type LearningFlags = Pick<UserPreferenceRecord, 'knowsRules' | 'wantsToLearn' | 'willingToTeach'>
+
+export type LearningFlag = keyof LearningFlags
+
+type RankingFields = Pick<UserPreferenceRecord, 'rank' | 'tier' | 'isTopPick' | 'isDisliked'>
+
+export type NormalizedPreference = RankingFields & LearningFlags
+
 export function normalizePreferenceUpdate(
-  existing: Pick<UserPreferenceRecord, 'rank' | 'isTopPick' | 'isDisliked'> | undefined,
+  existing: NormalizedPreference | undefined,
   update: PreferenceUpdate,
-): Pick<UserPreferenceRecord, 'rank' | 'isTopPick' | 'isDisliked'> {
+): NormalizedPreference {
+  return { ...normalizeRanking(existing, update), ...normalizeLearningFlags(existing, update) }
+}
+
+/**
+ * When a dislike was first set: kept while it stands (older records fall back
+ * to their `updatedAt`), stamped `now` when it turns on, cleared when it
+ * turns off. Other edits to the preference never move it.
+ */
+export function getDislikedAt(
+  existing: Pick<UserPreferenceRecord, 'isDisliked' | 'dislikedAt' | 'updatedAt'> | undefined,
+  isDisliked: boolean,
+  now: string,
+): string | undefined {
+  if (!isDisliked) return undefined
+  if (existing?.isDisliked) return existing.dislikedAt ?? existing.updatedAt
+  return now
+}
+
+/**
+ * Learning flags are independent of the ranking. Explicit updates win and the
+ * rest is kept consistent:
+ * - Willing to teach => knows the rules, does not want to learn
+ * - Wants to learn => does not know the rules, not willing to teach
+ * - Does not know the rules => not willing to teach
+ */
+export function normalizeLearningFlags(
+  existing: LearningFlags | undefined,
+  update: PreferenceUpdate,
+): LearningFlags {
+  if (update.willingToTeach === true) return { knowsRules: true, wantsToLearn: false, willingToTeach: true }
+  if (update.wantsToLearn === true) return { knowsRules: false, wantsToLearn: true, willingToTeach: false }
+  if (update.knowsRules === true) return { knowsRules: true, wantsToLearn: false, willingToTeach: existing?.willingToTeach }
+  if (update.knowsRules === false) return { knowsRules: false, wantsToLearn: existing?.wantsToLearn, willingToTeach: false }
+
+  return {
+    knowsRules: existing?.knowsRules,
+    wantsToLearn: update.wantsToLearn ?? existing?.wantsToLearn,
+    willingToTeach: update.willingToTeach ?? existing?.willingToTeach,
+  }
+}
+
+function normalizeRanking(existing: RankingFields | undefined, update: PreferenceUpdate): RankingFields {
   // Exclusivity rules (explicit updates win over existing state):
-  // - Disliked => clears top-pick and rank
-  // - Top-pick => clears rank
-  // - Rank set => clears disliked and top-pick
+  // - Disliked => clears top-pick, rank and tier
+  // - Top-pick => clears rank and tier
+  // - Rank set => clears disliked, top-pick and tier
+  // - Tier set => clears disliked, top-pick and rank
 
   if (update.isDisliked === true) {
-    return { rank: undefined, isTopPick: false, isDisliked: true }
+    return { rank: undefined, tier: undefined, isTopPick: false, isDisliked: true }
   }
 
   if (update.isTopPick === true) {
-    return { rank: undefined, isTopPick: true, isDisliked: false }
+    return { rank: undefined, tier: undefined, isTopPick: true, isDisliked: false }
   }
 
   if (update.rank !== undefined) {
-    return { rank: update.rank, isTopPick: false, isDisliked: false }
+    return { rank: update.rank, tier: undefined, isTopPick: false, isDisliked: false }
+  }
+
+  if (update.tier !== undefined) {
+    return { rank: undefined, tier: update.tier, isTopPick: false, isDisliked: false }
   }
 
-  const nextRank = update.rank ?? existing?.rank
+  const nextRank = existing?.rank
+  const nextTier = existing?.tier
   const nextTopPick = update.isTopPick ?? existing?.isTopPick ?? false
   const nextDisliked = update.isDisliked ?? existing?.isDisliked ?? false
 
-  if (nextDisliked) return { rank: undefined, isTopPick: false, isDisliked: true }
-  if (nextTopPick) return { rank: undefined, isTopPick: true, isDisliked: false }
-  if (nextRank !== undefined) return { rank: nextRank, isTopPick: false, isDisliked: false }
-  return { rank: undefined, isTopPick: false, isDisliked: false }
+  if (nextDisliked) return { rank: undefined, tier: undefined, isTopPick: false, isDisliked: true }
+  if (nextTopPick) return { rank: undefined, tier: undefined, isTopPick: true, isDisliked: false }
+  if (nextRank !== undefined) return { rank: nextRank, tier: undefined, isTopPick: false, isDisliked: false }
+  if (nextTier !== undefined) return { rank: undefined, tier: nextTier, isTopPick: false, isDisliked: false }
+  return { rank: undefined, tier: undefined, isTopPick: false, isDisliked: false }
 }
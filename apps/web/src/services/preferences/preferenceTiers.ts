@@ -0,0 +1,40 @@
+/**
+ * S/A/B/C preference tiers.
+ *
+ * Tiers are an alternative to a strict rank: games in the same tier are tied.
+ * They order after a player's ranked games and top picks, so a player who
+ * only uses tiers reads top picks first, then S down to C.
+ */
+import type { PreferenceTier, UserPreferenceRecord } from '../../db/types'
+
+/** All tiers, best first */
+export const PREFERENCE_TIERS: readonly PreferenceTier[] = ['S', 'A', 'B', 'C']
+
+export const TIER_DESCRIPTIONS: Record<PreferenceTier, string> = {
+  S: 'Must play',
+  A: 'Really want to',
+  B: 'Happy to',
+  C: 'If others want to',
+}
+
+/** Tiers counted as an approval in approval voting */
+export const APPROVAL_TIERS: readonly PreferenceTier[] = ['S', 'A']
+
+export function isPreferenceTier(value: unknown): value is PreferenceTier {
+  return typeof value === 'string' && (PREFERENCE_TIERS as readonly string[]).includes(value)
+}
+
+/** 0-based tier position (S = 0) */
+export function getTierIndex(tier: PreferenceTier): number {
+  return PREFERENCE_TIERS.indexOf(tier)
+}
+
+/**
+ * Sort key for a player's preference: ranks first, then unranked top picks,
+ * then tiers. Only tiered preferences can share a key.
+ */
+export function getPreferenceSortKey(pref: Pick<UserPreferenceRecord, 'rank' | 'tier'>): number {
+  if (pref.rank !== undefined) return pref.rank
+  if (pref.tier !== undefined) return 1000 + getTierIndex(pref.tier)
+  return 999
+}
@@ -0,0 +1,29 @@
+import { buildSwipePreferences, getLovedOrder, type SwipeVerdict } from './swipePreferences'
+
+const verdicts = new Map<number, SwipeVerdict>([
+  [1, 'love'],
+  [2, 'nope'],
+  [3, 'love'],
+  [4, 'fine'],
+  [5, 'love'],
+])
+
+describe('swipePreferences', () => {
+  it('keeps swipe order for loves and appends loves missing from a custom order', () => {
+    expect(getLovedOrder(verdicts)).toEqual([1, 3, 5])
+    expect(getLovedOrder(verdicts, [5, 2, 99])).toEqual([5, 1, 3])
+  })
+
+  it('maps loves to top picks then ranks, fine to neutral and nope to disliked', () => {
+    const prefs = buildSwipePreferences(verdicts, { lovedOrder: [3], topPicksLimit: 2 })
+
+    // Top picks carry no rank, as in every other input mode
+    expect(prefs).toEqual([
+      { bggId: 3, rank: undefined, isTopPick: true, isDisliked: false },
+      { bggId: 1, rank: undefined, isTopPick: true, isDisliked: false },
+      { bggId: 5, rank: 1, isTopPick: false, isDisliked: false },
+      { bggId: 2, rank: undefined, isTopPick: false, isDisliked: true },
+      { bggId: 4, rank: undefined, isTopPick: false, isDisliked: false },
+    ])
+  })
+})
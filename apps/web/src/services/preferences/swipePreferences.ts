@@ -0,0 +1,48 @@
+/**
+ * Swipe-card quick preferences (guest mode).
+ *
+ * Each game gets a verdict: love, fine or nope. Loves are taken in the order
+ * they were swiped, or the order the guest chose afterwards: the first few
+ * become top picks and the rest are ranked from 1. Fine games stay in the
+ * neutral band and nopes are disliked. Every record goes through
+ * normalizePreferenceUpdate so the usual exclusivity rules hold.
+ */
+import { normalizePreferenceUpdate, type NormalizedPreference } from './preferenceRules'
+
+export type SwipeVerdict = 'love' | 'fine' | 'nope'
+
+export type SwipePreference = { bggId: number } & NormalizedPreference
+
+/**
+ * Loved game ids in swipe order, optionally re-ordered by the guest.
+ * Ids in `order` that are not loves are ignored; loves missing from it keep
+ * their swipe order after the ordered ones.
+ */
+export function getLovedOrder(verdicts: Map<number, SwipeVerdict>, order: number[] = []): number[] {
+  const loves = [...verdicts].filter(([, v]) => v === 'love').map(([bggId]) => bggId)
+  const loveSet = new Set(loves)
+  const ordered = order.filter((bggId) => loveSet.has(bggId))
+  const orderedSet = new Set(ordered)
+  return [...ordered, ...loves.filter((bggId) => !orderedSet.has(bggId))]
+}
+
+/**
+ * Turn swipe verdicts into preference records.
+ */
+export function buildSwipePreferences(
+  verdicts: Map<number, SwipeVerdict>,
+  options: { lovedOrder?: number[]; topPicksLimit: number },
+): SwipePreference[] {
+  const loved = getLovedOrder(verdicts, options.lovedOrder)
+  const result: SwipePreference[] = loved.map((bggId, index) =>
+    index < options.topPicksLimit
+      ? { bggId, ...normalizePreferenceUpdate(undefined, { isTopPick: true }) }
+      : { bggId, ...normalizePreferenceUpdate(undefined, { rank: index - options.topPicksLimit + 1 }) },
+  )
+
+  for (const [bggId, verdict] of verdicts) {
+    if (verdict === 'nope') result.push({ bggId, ...normalizePreferenceUpdate(undefined, { isDisliked: true }) })
+    else if (verdict === 'fine') result.push({ bggId, ...normalizePreferenceUpdate(undefined, {}) })
+  }
+  return result
+}
@@ -309,6 +309,51 @@ describe('computeRecommendation - promoted pick', () => {
   })
 })
 
+// ─────────────────────────────────────────────────────────────────────────────
+// Ties
+// ─────────────────────────────────────────────────────────────────────────────
+describe('computeRecommendation - ties', () => {
+  // alice and bob swap their first two games, so 1 and 2 score the same
+  const preferences: Record<string, UserPreferenceRecord[]> = {
+    alice: [
+      { username: 'alice', bggId: 1, rank: 1, isTopPick: false, isDisliked: false, updatedAt: '' },
+      { username: 'alice', bggId: 2, rank: 2, isTopPick: false, isDisliked: false, updatedAt: '' },
+      { username: 'alice', bggId: 3, rank: 3, isTopPick: false, isDisliked: false, updatedAt: '' },
+    ],
+    bob: [
+      { username: 'bob', bggId: 2, rank: 1, isTopPick: false, isDisliked: false, updatedAt: '' },
+      { username: 'bob', bggId: 1, rank: 2, isTopPick: false, isDisliked: false, updatedAt: '' },
+      { username: 'bob', bggId: 3, rank: 3, isTopPick: false, isDisliked: false, updatedAt: '' },
+    ],
+  }
+
+  it('flags games level with the top score', () => {
+    const result = computeRecommendation({ games, preferences, filters: defaultFilters, users, promotedPickBggId: null })
+
+    expect(result.tie).toEqual({ bggIds: [1, 2], exact: true, epsilon: 0.1 })
+  })
+
+  it('keeps flagging the tie after a game is promoted', () => {
+    const result = computeRecommendation({ games, preferences, filters: defaultFilters, users, promotedPickBggId: 2 })
+
+    expect(result.topPick?.game.bggId).toBe(2)
+    expect(result.tie?.bggIds).toEqual([1, 2])
+  })
+
+  it('widens to near-ties with a larger margin', () => {
+    // Game 2 leads game 1 by a third of a point
+    const nearTie: Record<string, UserPreferenceRecord[]> = {
+      alice: [1, 2, 3, 4].map((bggId, i) => ({ username: 'alice', bggId, rank: i + 1, isTopPick: false, isDisliked: false, updatedAt: '' })),
+      bob: [2, 3, 1, 4].map((bggId, i) => ({ username: 'bob', bggId, rank: i + 1, isTopPick: false, isDisliked: false, updatedAt: '' })),
+    }
+
+    expect(computeRecommendation({ games, preferences: nearTie, filters: defaultFilters, users, promotedPickBggId: null }).tie).toBeNull()
+    expect(
+      computeRecommendation({ games, preferences: nearTie, filters: defaultFilters, users, promotedPickBggId: null, tieEpsilon: 0.5 }).tie,
+    ).toEqual({ bggIds: [2, 1], exact: false, epsilon: 0.5 })
+  })
+})
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Match Reasons
 // ─────────────────────────────────────────────────────────────────────────────
@@ -322,6 +367,16 @@ describe('getMatchReasons', () => {
     expect(reasons).toContain('✓ 4 players')
   })
 
+  it('names owned expansions that make the player count fit', () => {
+    const game = baseGame(1, 'Catan', { minPlayers: 3, maxPlayers: 4 })
+    const owned = [{ expansionId: 10, baseGameId: 1, name: '5-6 Player Extension', minPlayers: 5, maxPlayers: 6, addedAt: '2026-01-01T00:00:00Z' }]
+
+    const reasons = getMatchReasons(game, { ...defaultFilters, playerCount: 6 }, owned)
+
+    expect(reasons).toContain('🧩 6 players with 5-6 Player Extension')
+    expect(reasons).not.toContain('✓ 6 players')
+  })
+
   it('categorizes play time', () => {
     expect(getMatchReasons(baseGame(1, 'A', { playingTimeMinutes: 20 }), defaultFilters))
       .toContain('Quick game')
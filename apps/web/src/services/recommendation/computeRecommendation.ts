@@ -1,18 +1,40 @@
 /**
- * Recommendation computation using Normalized Borda Count scoring.
+ * Recommendation computation with pluggable voting methods.
  * 
  * This pure function computes game recommendations based on user preferences.
- * It handles veto (dislike) logic, top-pick bonuses, and ranking scores.
+ * It handles veto (dislike) logic and delegates scoring to the selected
+ * voting method (see `./methods`).
  * 
  * ## Scoring Algorithm
  * 
- * 1. **Veto check**: Any user marking a game as "disliked" removes it from consideration
- * 2. **Normalized Borda count**: Each user's contribution is normalized to 0-1 scale:
- *    - Rank 1 = 1.0 points, last rank = 0.0 points
- *    - Formula: (m - 1 - index) / (m - 1) where m = number of ranked games
- *    - This ensures all users contribute equally regardless of how many games they rank
- * 3. **Top-pick bonus**: Games marked as top picks get +0.5 bonus points (50% of max)
- * 4. **Tie-breaking**: Games with equal scores maintain their relative order
+ * 1. **Veto check**: A user marking a game as "disliked" removes it from
+ *    consideration, subject to the host's veto policy (see `./vetoPolicy`):
+ *    with a per-player budget only a player's earliest dislikes remove games,
+ *    and soft vetoes cost a point per player instead
+ * 2. **Voting method**: The remaining games are scored by one of:
+ *    - `borda` (default): Normalized Borda count with a top-pick bonus
+ *    - `schulze`: Condorcet/beatpath wins from pairwise matchups
+ *    - `approval`: Number of players approving the game (top picks + top ranks)
+ *    - `kemeny`: Position in the Kemeny-Young consensus ranking
+ *    Voter weights (per-night weights and the fairness rotation, see
+ *    `./voterWeights`) scale each player's say in any method.
+ * 3. **Recency penalty**: Games played on an earlier night within
+ *    `recencyPenaltyDays` lose part of their score (see `./recencyPenalty`)
+ * 4. **Player-count fit**: Games with BGG poll votes at the current player
+ *    count gain or lose up to one point (see `../filtering/playerCountFit`)
+ * 5. **Teach-aware** (optional): Heavy games nobody present can teach lose a
+ *    point; games players want to learn gain up to one (see `./teachability`)
+ *    Steps 4 and 5 and soft vetoes are worth Borda points (one point is one
+ *    player's full vote); Schulze and Kemeny score by place, so there they
+ *    only reorder games the method ranks equally (see `scaleOrdinalAdjustment`)
+ * 6. **Tie-breaking**: Games with equal scores maintain their relative order;
+ *    games within `tieEpsilon` of the best score are flagged as a tie so the
+ *    group can settle it with a runoff (see `./runoff`)
+ * 7. **Breakdown**: Each scored game carries per-player contributions and a
+ *    consensus metric (see `./scoreBreakdown`)
+ * 
+ * The method used is echoed back on the result so saved nights can be
+ * reproduced with the same rules.
  * 
  * ## Usage
  * 
@@ -23,17 +45,27 @@
  *   filters,
  *   users,
  *   promotedPickBggId: null,
+ *   method: 'schulze',
  * })
  * ```
  */
-import type { GameRecord, UserPreferenceRecord } from '../../db/types'
-import type { WizardFilters } from '../../store/wizardTypes'
+import type { GameRecord, OwnedExpansionRecord, UserPreferenceRecord } from '../../db/types'
+import type { RecommendationMethod, VetoPolicy, WizardFilters } from '../../store/wizardTypes'
 import type { RecommendationResult, VetoedGame } from '../../hooks/wizard/types'
 import { isCoopGame } from '../filtering/filterConstants'
+import { describePlayerCountFit, getPlayerCountFitAdjustment } from '../filtering/playerCountFit'
+import {
+  getExpansionsForPlayerCount,
+  supportsPlayerCount,
+  type OwnedExpansionsByGame,
+} from '../expansions/expansionRange'
 import { promotePickInSortedGames } from './promotePick'
-
-/** Bonus points for games marked as top picks (0.5 = 50% of max normalized score) */
-const TOP_PICK_BONUS = 0.5
+import { getVotingMethod, type VoterWeights } from './methods'
+import { buildScoreBreakdowns } from './scoreBreakdown'
+import { describeRecentPlay, getRecencyPenalties, type RecentPlay } from './recencyPenalty'
+import { getTeachAdjustment } from './teachability'
+import { describeSoftVeto, SOFT_VETO_PENALTY, splitVetoes } from './vetoPolicy'
+import { DEFAULT_TIE_EPSILON, findTopTie } from './runoff'
 
 /** Number of alternative games to include in results */
 const MAX_ALTERNATIVES = 5
@@ -49,36 +81,79 @@ export interface ComputeRecommendationInput {
   users: { username: string }[]
   /** Optional: override top pick with this game's bggId */
   promotedPickBggId: number | null
+  /** Voting method used to score games (defaults to Borda) */
+  method?: RecommendationMethod
+  /** Per-player vote multipliers (missing players count 1) */
+  voterWeights?: VoterWeights
+  /** Play history used for the recently-played penalty */
+  recentPlays?: RecentPlay[]
+  /** Penalty window in days (0 or omitted disables the penalty) */
+  recencyPenaltyDays?: number
+  /** How dislikes count (defaults to every dislike removing the game) */
+  vetoPolicy?: VetoPolicy
+  /** Apply the learn/teach adjustments from players' flags */
+  teachAware?: boolean
+  /** Score margin within which the top games count as tied (defaults to 0.1) */
+  tieEpsilon?: number
+  /** Reference time for the penalty (defaults to now) */
+  now?: Date
+  /** Owned expansions keyed by base game (for match reasons) */
+  ownedExpansions?: OwnedExpansionsByGame
+  /** Number of alternatives returned (defaults to 5) */
+  maxAlternatives?: number
 }
 
 /**
- * Compute game recommendations using Borda count with veto logic.
+ * Compute game recommendations using the selected voting method with veto logic.
  */
 export function computeRecommendation(input: ComputeRecommendationInput): RecommendationResult {
   const { games, preferences, filters, users, promotedPickBggId } = input
+  const votingMethod = getVotingMethod(input.method)
+  const method = votingMethod.id
 
   // Early return for empty inputs
   if (games.length === 0 || users.length === 0) {
-    return { topPick: null, alternatives: [], vetoed: [] }
+    return { topPick: null, alternatives: [], vetoed: [], method }
   }
 
-  // Step 1: Identify vetoed games (disliked by any user)
-  const { vetoedGames, eligibleGames } = separateVetoedGames(games, preferences)
+  // Step 1: Identify vetoed games (hard dislikes under the veto policy)
+  const vetoes = splitVetoes(games, preferences, input.vetoPolicy)
+  const { vetoedGames, eligibleGames } = separateVetoedGames(games, vetoes.hard)
 
   if (eligibleGames.length === 0) {
-    return { topPick: null, alternatives: [], vetoed: vetoedGames }
+    return { topPick: null, alternatives: [], vetoed: vetoedGames, method }
   }
 
-  // Step 2: Calculate Borda scores
-  const scores = calculateBordaScores(eligibleGames, preferences)
+  // Step 2: Score eligible games with the selected voting method
+  const voterWeights = input.voterWeights && Object.keys(input.voterWeights).length > 0 ? input.voterWeights : undefined
+  const scores = votingMethod.score(eligibleGames, preferences, voterWeights)
+  const usernames = users.map((u) => u.username)
+  const breakdowns = buildScoreBreakdowns(eligibleGames, preferences, usernames, voterWeights)
+  const penalties = getRecencyPenalties(input.recentPlays ?? [], input.recencyPenaltyDays ?? 0, input.now)
 
-  // Step 3: Sort by score and add match reasons
+  // Step 3: Apply recency penalty, player-count fit, teach and soft-veto adjustments, sort by score and add match reasons
   const sortedGames = eligibleGames
-    .map((game) => ({
-      game,
-      score: scores[game.bggId] ?? 0,
-      matchReasons: getMatchReasons(game, filters),
-    }))
+    .map((game) => {
+      const penalty = penalties[game.bggId]
+      const baseScore = scores[game.bggId] ?? 0
+      const penalizedScore = penalty ? baseScore * penalty.factor : baseScore
+      const teach = input.teachAware ? getTeachAdjustment(game, preferences, usernames) : undefined
+      const softVetoes = vetoes.soft[game.bggId] ?? []
+      const rawAdjustment =
+        getPlayerCountFitAdjustment(game, filters.playerCount) + (teach?.adjustment ?? 0) - softVetoes.length * SOFT_VETO_PENALTY
+      const adjustment = votingMethod.scaleAdjustment ? votingMethod.scaleAdjustment(rawAdjustment) : rawAdjustment
+      const matchReasons = [
+        ...(softVetoes.length ? [describeSoftVeto(softVetoes)] : []),
+        ...getMatchReasons(game, filters, input.ownedExpansions?.[game.bggId]),
+        ...(teach?.reasons ?? []),
+      ]
+      return {
+        game,
+        score: penalty || adjustment ? Math.round((penalizedScore + adjustment) * 100) / 100 : baseScore,
+        matchReasons: penalty ? [describeRecentPlay(penalty.daysAgo), ...matchReasons] : matchReasons,
+        breakdown: breakdowns[game.bggId],
+      }
+    })
     .sort((a, b) => b.score - a.score)
 
   // Step 4: Handle promoted pick override
@@ -86,8 +161,11 @@ export function computeRecommendation(input: ComputeRecommendationInput): Recomm
 
   return {
     topPick: finalSortedGames[0] ?? null,
-    alternatives: finalSortedGames.slice(1, MAX_ALTERNATIVES + 1),
+    alternatives: finalSortedGames.slice(1, (input.maxAlternatives ?? MAX_ALTERNATIVES) + 1),
     vetoed: vetoedGames,
+    method,
+    voterWeights,
+    tie: findTopTie(sortedGames, input.tieEpsilon ?? DEFAULT_TIE_EPSILON),
   }
 }
 
@@ -96,21 +174,8 @@ export function computeRecommendation(input: ComputeRecommendationInput): Recomm
  */
 function separateVetoedGames(
   games: GameRecord[],
-  preferences: Record<string, UserPreferenceRecord[]>,
+  vetoedByGame: Record<number, string[]>,
 ): { vetoedGames: VetoedGame[]; eligibleGames: GameRecord[] } {
-  const eligibleIds = new Set(games.map((g) => g.bggId))
-  const vetoedByGame: Record<number, string[]> = {}
-
-  // Find all games vetoed by any user
-  for (const username of Object.keys(preferences)) {
-    const userPrefs = preferences[username] ?? []
-    for (const pref of userPrefs) {
-      if (!pref.isDisliked) continue
-      if (!eligibleIds.has(pref.bggId)) continue
-      ;(vetoedByGame[pref.bggId] ||= []).push(username)
-    }
-  }
-
   const vetoedIds = new Set(Object.keys(vetoedByGame).map((k) => Number(k)))
 
   const vetoedGames = games
@@ -122,59 +187,14 @@ function separateVetoedGames(
   return { vetoedGames, eligibleGames }
 }
 
-/**
- * Calculate Normalized Borda count scores for eligible games.
- * Each user's contribution is normalized to 0-1 scale so all users
- * have equal influence regardless of how many games they rank.
- */
-function calculateBordaScores(
-  games: GameRecord[],
-  preferences: Record<string, UserPreferenceRecord[]>,
-): Record<number, number> {
-  const scores: Record<number, number> = {}
-
-  // Initialize all scores to 0
-  for (const game of games) {
-    scores[game.bggId] = 0
-  }
-
-  // Calculate scores from each user's preferences
-  for (const username of Object.keys(preferences)) {
-    const userPrefs = preferences[username] ?? []
-
-    // Get ranked preferences for eligible games
-    const rankedPrefs = userPrefs
-      .filter((p) => scores[p.bggId] !== undefined)
-      .filter((p) => p.rank !== undefined || p.isTopPick)
-      .sort((a, b) => (a.rank ?? 999) - (b.rank ?? 999))
-
-    const m = rankedPrefs.length
-
-    // Apply Normalized Borda count:
-    // - Rank 1 gets 1.0, last rank gets 0.0
-    // - Formula: (m - 1 - index) / (m - 1)
-    // - When m = 1, the single ranked game gets 1.0 points
-    rankedPrefs.forEach((pref, index) => {
-      if (scores[pref.bggId] !== undefined) {
-        // Normalized score: 1.0 for rank 1, 0.0 for last rank
-        const normalizedScore = m > 1 ? (m - 1 - index) / (m - 1) : 1.0
-        scores[pref.bggId] += normalizedScore
-
-        // Bonus for top picks (0.5 = 50% of max normalized score)
-        if (pref.isTopPick) {
-          scores[pref.bggId] += TOP_PICK_BONUS
-        }
-      }
-    })
-  }
-
-  return scores
-}
-
 /**
  * Generate human-readable match reasons for a game.
  */
-export function getMatchReasons(game: GameRecord, filters: WizardFilters): string[] {
+export function getMatchReasons(
+  game: GameRecord,
+  filters: WizardFilters,
+  ownedExpansions: OwnedExpansionRecord[] = [],
+): string[] {
   const reasons: string[] = []
 
   // Player count match
@@ -184,6 +204,16 @@ export function getMatchReasons(game: GameRecord, filters: WizardFilters): strin
     }
   }
 
+  // Player count reached only through owned expansions
+  if (supportsPlayerCount(game, filters.playerCount, ownedExpansions) === 'expansions') {
+    const names = getExpansionsForPlayerCount(game, filters.playerCount, ownedExpansions).map((e) => e.name)
+    reasons.push(names.length ? `🧩 ${filters.playerCount} players with ${names.join(', ')}` : `🧩 ${filters.playerCount} players with expansions`)
+  }
+
+  // Player-count poll
+  const fitReason = describePlayerCountFit(game, filters.playerCount)
+  if (fitReason) reasons.push(fitReason)
+
   // Play time category
   if (game.playingTimeMinutes) {
     if (game.playingTimeMinutes <= 30) {
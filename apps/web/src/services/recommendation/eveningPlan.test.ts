@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest'
+import type { GameRecord, UserPreferenceRecord } from '../../db/types'
+import type { ScoredGame } from '../../hooks/wizard/types'
+import { planEvening, toSavedPlan } from './eveningPlan'
+
+const scored = (bggId: number, name: string, score: number, overrides: Partial<GameRecord> = {}): ScoredGame => ({
+  game: { bggId, name, lastFetchedAt: '2026-01-10T10:00:00Z', ...overrides },
+  score,
+  matchReasons: [],
+})
+
+/** One player ranking the games in the order given */
+const rankedBy = (...bggIds: number[]): Record<string, UserPreferenceRecord[]> => ({
+  alex: bggIds.map((bggId, i) => ({ username: 'alex', bggId, rank: i + 1, isTopPick: false, isDisliked: false, updatedAt: '2026-01-10T10:00:00Z' })),
+})
+
+describe('planEvening', () => {
+  const brass = scored(1, 'Brass', 5, { playingTimeMinutes: 120, weight: 3.9 })
+  const azul = scored(2, 'Azul', 4, { playingTimeMinutes: 45, weight: 1.8 })
+  const skull = scored(3, 'Skull', 2.5, { playingTimeMinutes: 30, weight: 1.1 })
+  const cascadia = scored(4, 'Cascadia', 3.5, { playingTimeMinutes: 45, weight: 1.9 })
+  const preferences = rankedBy(1, 2, 3, 4, 5, 6)
+
+  it('picks the highest-scoring set that fits the budget', () => {
+    const plan = planEvening([brass, azul, skull], { budgetMinutes: 150, preferences })
+
+    expect(plan.games.map((g) => g.game.name)).toEqual(['Brass', 'Skull'])
+    expect(plan.totalMinutes).toBe(150)
+    expect(plan.totalScore).toBe(7.5)
+  })
+
+  it('prefers several shorter games when they add up to more', () => {
+    const plan = planEvening([brass, azul, skull, cascadia], { budgetMinutes: 120, preferences })
+
+    expect(plan.games.map((g) => g.game.name)).toEqual(['Azul', 'Cascadia', 'Skull'])
+    expect(plan.games.map((g) => g.startMinute)).toEqual([0, 45, 90])
+  })
+
+  it('orders heaviest first when asked', () => {
+    const plan = planEvening([brass, azul, skull, cascadia], { budgetMinutes: 120, heavyFirst: true, preferences })
+
+    expect(plan.games.map((g) => g.game.name)).toEqual(['Cascadia', 'Azul', 'Skull'])
+  })
+
+  it('skips games without a playing time or that nobody wants', () => {
+    const plan = planEvening([scored(5, 'Unknown', 9), scored(7, 'Unranked', 1, { playingTimeMinutes: 20 }), skull], {
+      budgetMinutes: 60,
+      preferences,
+    })
+
+    expect(plan.games.map((g) => g.game.name)).toEqual(['Skull'])
+  })
+
+  it('plans a wanted game whose method score is zero', () => {
+    // Kemeny and Schulze score the last eligible game 0
+    const plan = planEvening([scored(1, 'Brass', 2, { playingTimeMinutes: 120 }), scored(3, 'Skull', 0, { playingTimeMinutes: 30 })], {
+      budgetMinutes: 150,
+      preferences: rankedBy(1, 3),
+    })
+
+    expect(plan.games.map((g) => g.game.name)).toEqual(['Brass', 'Skull'])
+    expect(plan.totalScore).toBe(2)
+  })
+
+  it('does not favour many short games when one is scored below zero', () => {
+    const plan = planEvening(
+      [
+        scored(1, 'Brass', 5, { playingTimeMinutes: 60 }),
+        scored(2, 'Azul', 2, { playingTimeMinutes: 20 }),
+        scored(3, 'Skull', 2, { playingTimeMinutes: 20 }),
+        scored(4, 'Vetoed', -3, { playingTimeMinutes: 20 }),
+      ],
+      { budgetMinutes: 60, preferences: rankedBy(1, 2, 3, 4) },
+    )
+
+    expect(plan.games.map((g) => g.game.name)).toEqual(['Brass'])
+  })
+
+  it('converts to the saved-night shape', () => {
+    const saved = toSavedPlan(planEvening([brass], { budgetMinutes: 120, preferences }))
+    expect(saved).toEqual({
+      budgetMinutes: 120,
+      heavyFirst: false,
+      games: [{ bggId: 1, name: 'Brass', score: 5, playingTimeMinutes: 120 }],
+    })
+  })
+})
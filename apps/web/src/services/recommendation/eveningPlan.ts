@@ -0,0 +1,120 @@
+/**
+ * Evening planner: fill a time budget with several games.
+ *
+ * Picks the set of scored games whose playing times fit the budget and whose
+ * summed scores are highest (0/1 knapsack over minutes, no repeats), then
+ * orders them either best-first or heaviest-first so the brain burner is
+ * played while everyone is fresh. Games without a playing time, or that
+ * nobody ranked, tiered or top-picked, are never planned. Whether a game is
+ * wanted is read from the preferences rather than the score, because Kemeny
+ * and Schulze give the last eligible game a score of zero.
+ */
+import type { SavedNightData, UserPreferenceRecord } from '../../db/types'
+import type { ScoredGame } from '../../hooks/wizard/types'
+
+/** Budget options offered to the host, in minutes */
+export const PLAN_BUDGET_OPTIONS = [90, 120, 150, 180, 240, 300] as const
+export const DEFAULT_PLAN_BUDGET_MINUTES = 150
+
+export interface PlannedGame extends ScoredGame {
+  playingTimeMinutes: number
+  /** Minutes into the evening the game starts */
+  startMinute: number
+}
+
+export interface EveningPlan {
+  budgetMinutes: number
+  heavyFirst: boolean
+  games: PlannedGame[]
+  totalMinutes: number
+  totalScore: number
+}
+
+export interface EveningPlanOptions {
+  budgetMinutes: number
+  /** Order by BGG weight (heaviest first) instead of by score */
+  heavyFirst?: boolean
+  /** Each player's preferences, to skip games nobody wants */
+  preferences: Record<string, UserPreferenceRecord[]>
+}
+
+/** Knapsack value floor, so a wanted game scored zero still beats leaving time empty */
+const MIN_PLAN_VALUE = 0.001
+
+/**
+ * Knapsack value of one game. Scores at or below zero (Kemeny, Schulze, soft
+ * vetoes, no-teacher penalty) only fill otherwise empty time.
+ */
+function getPlanValue(score: number): number {
+  return Math.max(score, 0) + MIN_PLAN_VALUE
+}
+
+function getWantedGameIds(preferences: Record<string, UserPreferenceRecord[]>): Set<number> {
+  const wanted = new Set<number>()
+  for (const prefs of Object.values(preferences)) {
+    for (const p of prefs) {
+      if (!p.isDisliked && (p.isTopPick || p.rank !== undefined || p.tier !== undefined)) wanted.add(p.bggId)
+    }
+  }
+  return wanted
+}
+
+/**
+ * Build the best-scoring ordered plan that fits the budget.
+ */
+export function planEvening(scoredGames: ScoredGame[], options: EveningPlanOptions): EveningPlan {
+  const { budgetMinutes, heavyFirst = false, preferences } = options
+  const budget = Math.max(0, Math.floor(budgetMinutes))
+  const wanted = getWantedGameIds(preferences)
+  const items = scoredGames.filter(
+    (s) => wanted.has(s.game.bggId) && (s.game.playingTimeMinutes ?? 0) > 0 && (s.game.playingTimeMinutes ?? 0) <= budget,
+  )
+  // best[t] = highest score using at most t minutes; chosen[t] = item indexes used
+  const best = new Array<number>(budget + 1).fill(0)
+  const chosen: number[][] = Array.from({ length: budget + 1 }, () => [])
+  items.forEach((item, i) => {
+    const minutes = item.game.playingTimeMinutes ?? 0
+    for (let t = budget; t >= minutes; t--) {
+      const candidate = best[t - minutes] + getPlanValue(item.score)
+      if (candidate > best[t] + 1e-9) {
+        best[t] = candidate
+        chosen[t] = [...chosen[t - minutes], i]
+      }
+    }
+  })
+
+  const selected = chosen[budget].map((i) => items[i])
+  const ordered = heavyFirst
+    ? [...selected].sort((a, b) => (b.game.weight ?? 0) - (a.game.weight ?? 0) || b.score - a.score)
+    : [...selected].sort((a, b) => b.score - a.score)
+
+  let elapsed = 0
+  const games = ordered.map((s) => {
+    const playingTimeMinutes = s.game.playingTimeMinutes ?? 0
+    const planned = { ...s, playingTimeMinutes, startMinute: elapsed }
+    elapsed += playingTimeMinutes
+    return planned
+  })
+
+  return {
+    budgetMinutes: budget,
+    heavyFirst,
+    games,
+    totalMinutes: elapsed,
+    totalScore: Math.round(games.reduce((sum, g) => sum + g.score, 0) * 100) / 100,
+  }
+}
+
+/** Shape stored on a saved night */
+export function toSavedPlan(plan: EveningPlan): NonNullable<SavedNightData['plan']> {
+  return {
+    budgetMinutes: plan.budgetMinutes,
+    heavyFirst: plan.heavyFirst,
+    games: plan.games.map((g) => ({
+      bggId: g.game.bggId,
+      name: g.game.name,
+      score: g.score,
+      playingTimeMinutes: g.playingTimeMinutes,
+    })),
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Tests for the live leaderboard.
+ */
+import { describe, it, expect } from 'vitest'
+import { buildLiveLeaderboard } from './liveLeaderboard'
+import type { UserPreferenceRecord } from '../../db/types'
+import { testGame, testPref } from '../../test/recommendationTestUtils'
+import type { RecommendationResult } from '../../hooks/wizard/types'
+
+const scored = (bggId: number, score: number) => ({ game: testGame(bggId), score, matchReasons: [] })
+
+const result = (scores: number[], method: RecommendationResult['method'] = 'borda'): RecommendationResult => ({
+  topPick: scored(1, scores[0]),
+  alternatives: scores.slice(1).map((s, i) => scored(i + 2, s)),
+  vetoed: [],
+  method,
+})
+
+const rankedBy = (username: string): UserPreferenceRecord[] => [testPref(username, 1, { rank: 1 })]
+
+describe('buildLiveLeaderboard', () => {
+  const preferences = { alice: rankedBy('alice'), bob: rankedBy('bob') }
+
+  it('lists the top three and who still has to rank', () => {
+    const board = buildLiveLeaderboard({
+      result: result([3, 2, 1, 0.5]),
+      usernames: ['alice', 'bob', 'carol'],
+      preferences: { ...preferences, carol: [{ ...rankedBy('carol')[0], rank: undefined, isDisliked: true }] },
+    })
+
+    expect(board.entries.map((e) => e.game.bggId)).toEqual([1, 2, 3])
+    expect(board.pendingPlayers).toEqual(['carol'])
+  })
+
+  it('calls the leader once pending players cannot close the gap', () => {
+    const args = { usernames: ['alice', 'bob', 'carol'], preferences, vetoPolicy: { mode: 'soft', maxVetoes: 2 } as const }
+
+    expect(buildLiveLeaderboard({ ...args, result: result([3, 1.6]) }).leaderClinched).toBe(false)
+    expect(buildLiveLeaderboard({ ...args, result: result([3, 0.4]) }).leaderClinched).toBe(true)
+    expect(buildLiveLeaderboard({ ...args, result: result([3, 0.4]), voterWeights: { carol: 2 } }).leaderClinched).toBe(false)
+    expect(buildLiveLeaderboard({ ...args, result: result([3, 0.9], 'approval') }).leaderClinched).toBe(true)
+    expect(buildLiveLeaderboard({ ...args, result: result([3, 0.4]), teachAware: true }).leaderClinched).toBe(false)
+  })
+
+  it('never calls a leader a pending player could still hard-veto', () => {
+    const args = { usernames: ['alice', 'bob', 'carol'], preferences, result: result([9, 0]) }
+
+    expect(buildLiveLeaderboard(args).leaderClinched).toBe(false)
+    expect(buildLiveLeaderboard({ ...args, vetoPolicy: { mode: 'limited', maxVetoes: 1 } }).leaderClinched).toBe(false)
+  })
+
+  it('only counts rankings from tonight and calls nothing once everyone ranked', () => {
+    const args = { usernames: ['alice', 'bob'], preferences, result: result([9, 0]), vetoPolicy: { mode: 'soft', maxVetoes: 2 } as const }
+
+    expect(buildLiveLeaderboard(args).leaderClinched).toBe(false)
+
+    const board = buildLiveLeaderboard({ ...args, rankingSince: '2026-01-11T00:00:00Z' })
+    expect(board.pendingPlayers).toEqual(['alice', 'bob'])
+    expect(board.leaderClinched).toBe(true)
+  })
+
+  it('never calls a leader early under Schulze or Kemeny', () => {
+    const board = buildLiveLeaderboard({ result: result([9, 0], 'schulze'), usernames: ['alice', 'bob'], preferences })
+
+    expect(board.pendingPlayers).toEqual([])
+    expect(board.leaderClinched).toBe(false)
+  })
+})
@@ -0,0 +1,87 @@
+/**
+ * Live leaderboard shown while players rank.
+ *
+ * Lists the current leaders from a regular recommendation and works out
+ * whether the leader can still be caught on points by the players who
+ * haven't ranked anything tonight (preferences kept from earlier nights
+ * don't count). Under Borda a player adds at most 1 point
+ * plus the top-pick bonus to any game, under approval at most 1 (both times
+ * their voter weight), so a lead larger than that total is safe. Schulze and
+ * Kemeny aren't additive, so no leader is called early there. While a
+ * pending player could still hard-veto the leader (the default policy and
+ * limited budgets) no leader is called either; under soft vetoes each
+ * pending player can also cost the leader the soft-veto penalty. With
+ * teach-aware scoring on, pending players' learn/teach flags can add the
+ * learn bonus and the no-teacher penalty on top. Players who already ranked
+ * changing their minds aren't accounted for, and with nobody pending there is
+ * nothing left to call.
+ */
+import type { GameRecord, UserPreferenceRecord } from '../../db/types'
+import type { RecommendationMethod, VetoPolicy } from '../../store/wizardTypes'
+import type { RecommendationResult } from '../../hooks/wizard/types'
+import { getVoterWeight, TOP_PICK_BONUS, type VoterWeights } from './methods'
+import { DEFAULT_VETO_POLICY, SOFT_VETO_PENALTY } from './vetoPolicy'
+import { NO_TEACHER_PENALTY, WANT_TO_LEARN_BONUS } from './teachability'
+
+/** Games listed on the leaderboard */
+export const LEADERBOARD_SIZE = 3
+
+/** Wait for a pause in ranking before recomputing */
+export const LEADERBOARD_DEBOUNCE_MS = 400
+
+export interface LiveLeaderboard {
+  entries: Array<{ game: GameRecord; score: number }>
+  /** Players who haven't ranked, tiered or top-picked anything tonight */
+  pendingPlayers: string[]
+  /** The leader stays ahead whatever the pending players rank or veto */
+  leaderClinched: boolean
+}
+
+/**
+ * Most points one player (at weight 1) can add to a single game, or null
+ * when the method isn't a sum of per-player points.
+ */
+export function getMaxPointsPerPlayer(method: RecommendationMethod): number | null {
+  if (method === 'borda') return 1 + TOP_PICK_BONUS
+  if (method === 'approval') return 1
+  return null
+}
+
+/**
+ * Whether the player ranked, tiered or top-picked a game, counting only
+ * preferences updated at or after `since` (ISO time) when given.
+ */
+export function hasExpressedPreference(prefs: UserPreferenceRecord[] | undefined, since?: string): boolean {
+  return (prefs ?? []).some(
+    (p) => (p.rank !== undefined || p.tier !== undefined || p.isTopPick) && (since === undefined || p.updatedAt >= since),
+  )
+}
+
+export function buildLiveLeaderboard(args: {
+  result: RecommendationResult
+  usernames: string[]
+  preferences: Record<string, UserPreferenceRecord[]>
+  voterWeights?: VoterWeights
+  vetoPolicy?: VetoPolicy
+  teachAware?: boolean
+  /** When tonight's ranking started (ISO time); older preferences don't count */
+  rankingSince?: string
+}): LiveLeaderboard {
+  const { result, usernames, preferences, voterWeights, vetoPolicy = DEFAULT_VETO_POLICY, teachAware = false, rankingSince } = args
+  const ranked = [result.topPick, ...result.alternatives].filter((g) => g !== null)
+  const entries = ranked.slice(0, LEADERBOARD_SIZE).map(({ game, score }) => ({ game, score }))
+  const pendingPlayers = usernames.filter((u) => !hasExpressedPreference(preferences[u], rankingSince))
+
+  const maxPoints = getMaxPointsPerPlayer(result.method)
+  const leader = entries[0]
+  const pendingCanHardVeto = pendingPlayers.length > 0 && vetoPolicy.mode !== 'soft'
+  let leaderClinched = false
+  if (leader && maxPoints !== null && pendingPlayers.length > 0 && !pendingCanHardVeto) {
+    const runnerUp = entries[1]?.score
+    const teachSwing = teachAware ? WANT_TO_LEARN_BONUS + NO_TEACHER_PENALTY : 0
+    const swing = pendingPlayers.reduce((sum, u) => sum + getVoterWeight(voterWeights, u) * maxPoints + SOFT_VETO_PENALTY, teachSwing)
+    leaderClinched = runnerUp === undefined || leader.score - runnerUp > swing
+  }
+
+  return { entries, pendingPlayers, leaderClinched }
+}
@@ -0,0 +1,50 @@
+/**
+ * Approval voting.
+ *
+ * Each player approves their top picks, every game ranked at or above
+ * `APPROVAL_RANK_CUTOFF` and every game in an approval tier (S or A).
+ * A game's score is the number of players who approve it (weighted players
+ * count as their weight).
+ */
+import type { GameRecord, UserPreferenceRecord } from '../../../db/types'
+import { APPROVAL_TIERS } from '../../preferences/preferenceTiers'
+import { getVoterWeight, type VoterWeights, type VotingMethod } from './types'
+
+/** Games ranked 1..cutoff count as approved */
+export const APPROVAL_RANK_CUTOFF = 3
+
+export function calculateApprovalScores(
+  games: GameRecord[],
+  preferences: Record<string, UserPreferenceRecord[]>,
+  weights?: VoterWeights,
+): Record<number, number> {
+  const scores: Record<number, number> = {}
+  for (const game of games) {
+    scores[game.bggId] = 0
+  }
+
+  for (const username of Object.keys(preferences)) {
+    const approved = new Set<number>()
+    for (const pref of preferences[username] ?? []) {
+      if (scores[pref.bggId] === undefined || pref.isDisliked) continue
+      const approvedRank = pref.rank !== undefined && pref.rank <= APPROVAL_RANK_CUTOFF
+      const approvedTier = pref.tier !== undefined && APPROVAL_TIERS.includes(pref.tier)
+      if (pref.isTopPick || approvedRank || approvedTier) {
+        approved.add(pref.bggId)
+      }
+    }
+    const weight = getVoterWeight(weights, username)
+    for (const bggId of approved) {
+      scores[bggId] += weight
+    }
+  }
+
+  return scores
+}
+
+export const approvalMethod: VotingMethod = {
+  id: 'approval',
+  label: 'Approval',
+  description: `Each player approves their top picks, top ${APPROVAL_RANK_CUTOFF} ranked games and S/A tiers; most approvals wins.`,
+  score: calculateApprovalScores,
+}
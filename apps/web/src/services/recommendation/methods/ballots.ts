@@ -0,0 +1,73 @@
+/**
+ * Ballot helpers shared by the ordinal voting methods (Schulze, Kemeny-Young).
+ *
+ * A ballot orders a player's games into levels (0 = most preferred):
+ * top picks share level 0, ranked games follow in rank order, tiers
+ * (S..C, each tier one shared level) come next, and unranked (neutral)
+ * games are tied below everything the player ranked. A ballot's weight is
+ * the player's voter weight.
+ */
+import type { GameRecord, UserPreferenceRecord } from '../../../db/types'
+import { getPreferenceSortKey } from '../../preferences/preferenceTiers'
+import { getVoterWeight, type VoterWeights } from './types'
+
+export interface Ballot {
+  username: string
+  /** bggId -> preference level (lower is better). Neutral games are absent. */
+  levels: Map<number, number>
+  /** How much this ballot counts in pairwise tallies */
+  weight: number
+}
+
+export function buildBallots(
+  games: GameRecord[],
+  preferences: Record<string, UserPreferenceRecord[]>,
+  weights?: VoterWeights,
+): Ballot[] {
+  const eligibleIds = new Set(games.map((g) => g.bggId))
+  const ballots: Ballot[] = []
+
+  for (const username of Object.keys(preferences)) {
+    const userPrefs = (preferences[username] ?? []).filter(
+      (p) => eligibleIds.has(p.bggId) && !p.isDisliked,
+    )
+
+    const levels = new Map<number, number>()
+    for (const pref of userPrefs) {
+      if (pref.isTopPick) levels.set(pref.bggId, 0)
+    }
+
+    // Distinct ranks, then tiers, become consecutive levels after the top picks.
+    const ordered = userPrefs.filter((p) => !p.isTopPick && (p.rank !== undefined || p.tier !== undefined))
+    const distinctKeys = [...new Set(ordered.map(getPreferenceSortKey))].sort((a, b) => a - b)
+    const levelByKey = new Map(distinctKeys.map((key, index) => [key, index + 1]))
+
+    for (const pref of ordered) {
+      levels.set(pref.bggId, levelByKey.get(getPreferenceSortKey(pref)) as number)
+    }
+
+    if (levels.size > 0) ballots.push({ username, levels, weight: getVoterWeight(weights, username) })
+  }
+
+  return ballots
+}
+
+/**
+ * Pairwise preference matrix: `matrix[i][j]` is the (weighted) number of
+ * ballots that prefer `games[i]` over `games[j]`.
+ */
+export function buildPairwiseMatrix(games: GameRecord[], ballots: Ballot[]): number[][] {
+  const n = games.length
+  const matrix = Array.from({ length: n }, () => new Array<number>(n).fill(0))
+
+  for (const ballot of ballots) {
+    const levels = games.map((g) => ballot.levels.get(g.bggId) ?? Number.POSITIVE_INFINITY)
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        if (i !== j && levels[i] < levels[j]) matrix[i][j] += ballot.weight
+      }
+    }
+  }
+
+  return matrix
+}
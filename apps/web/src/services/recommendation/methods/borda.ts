@@ -0,0 +1,100 @@
+/**
+ * Normalized Borda count.
+ *
+ * Each user's contribution is normalized to a 0-1 scale so all users
+ * have equal influence regardless of how many games they rank:
+ * - Rank 1 = 1.0 points, last rank = 0.0 points
+ * - Formula: (m - 1 - index) / (m - 1) where m = number of ranked games
+ * - Games marked as top picks get +0.5 bonus points (50% of max)
+ * - Games in the same tier are tied and share the average of the positions they span
+ * - Voter weights multiply a player's points (a weight of 2 counts double)
+ */
+import type { GameRecord, UserPreferenceRecord } from '../../../db/types'
+import { getPreferenceSortKey } from '../../preferences/preferenceTiers'
+import { getVoterWeight, type VoterWeights, type VotingMethod } from './types'
+
+/** Bonus points for games marked as top picks (0.5 = 50% of max normalized score) */
+export const TOP_PICK_BONUS = 0.5
+
+export interface BordaPosition {
+  pref: UserPreferenceRecord
+  /** 0-based position in the player's ranking (first position of its tie group) */
+  index: number
+  /** Normalized position points (1.0 for first, 0.0 for last) */
+  points: number
+  /** Top-pick bonus earned on top of the position points */
+  bonus: number
+}
+
+/**
+ * Order one player's ranked and top-picked games and assign normalized points.
+ * Top picks without a rank sort after ranked games, tiers after both.
+ */
+export function getBordaPositions(
+  userPrefs: UserPreferenceRecord[],
+  isEligible: (bggId: number) => boolean,
+): BordaPosition[] {
+  const rankedPrefs = userPrefs
+    .filter((p) => isEligible(p.bggId))
+    .filter((p) => p.rank !== undefined || p.isTopPick || p.tier !== undefined)
+    .sort((a, b) => getPreferenceSortKey(a) - getPreferenceSortKey(b))
+
+  const m = rankedPrefs.length
+
+  // Apply Normalized Borda count:
+  // - Rank 1 gets 1.0, last rank gets 0.0
+  // - Formula: (m - 1 - index) / (m - 1)
+  // - When m = 1, the single ranked game gets 1.0 points
+  const pointsAt = (index: number) => (m > 1 ? (m - 1 - index) / (m - 1) : 1.0)
+
+  const positions: BordaPosition[] = []
+  let start = 0
+  while (start < m) {
+    // A tie group is a run of games in the same tier; everything else stands alone
+    const tier = rankedPrefs[start].tier
+    let end = start + 1
+    while (tier !== undefined && end < m && rankedPrefs[end].tier === tier) end++
+
+    const points = (pointsAt(start) + pointsAt(end - 1)) / 2
+    for (let i = start; i < end; i++) {
+      const pref = rankedPrefs[i]
+      positions.push({ pref, index: start, points, bonus: pref.isTopPick ? TOP_PICK_BONUS : 0 })
+    }
+    start = end
+  }
+  return positions
+}
+
+/**
+ * Calculate Normalized Borda count scores for eligible games.
+ */
+export function calculateBordaScores(
+  games: GameRecord[],
+  preferences: Record<string, UserPreferenceRecord[]>,
+  weights?: VoterWeights,
+): Record<number, number> {
+  const scores: Record<number, number> = {}
+
+  // Initialize all scores to 0
+  for (const game of games) {
+    scores[game.bggId] = 0
+  }
+
+  // Calculate scores from each user's preferences
+  for (const username of Object.keys(preferences)) {
+    const weight = getVoterWeight(weights, username)
+    const positions = getBordaPositions(preferences[username] ?? [], (bggId) => scores[bggId] !== undefined)
+    for (const { pref, points, bonus } of positions) {
+      scores[pref.bggId] += (points + bonus) * weight
+    }
+  }
+
+  return scores
+}
+
+export const bordaMethod: VotingMethod = {
+  id: 'borda',
+  label: 'Borda count',
+  description: 'Points for every ranking position, plus a bonus for top picks.',
+  score: calculateBordaScores,
+}
@@ -0,0 +1,30 @@
+import type { RecommendationMethod } from '../../../store/wizardTypes'
+import type { VotingMethod } from './types'
+import { bordaMethod } from './borda'
+import { schulzeMethod } from './schulze'
+import { approvalMethod } from './approval'
+import { kemenyMethod } from './kemeny'
+
+export type { VotingMethod, VoterWeights } from './types'
+export { getVoterWeight } from './types'
+export { TOP_PICK_BONUS, getBordaPositions } from './borda'
+export type { BordaPosition } from './borda'
+export { APPROVAL_RANK_CUTOFF } from './approval'
+
+export const DEFAULT_RECOMMENDATION_METHOD: RecommendationMethod = 'borda'
+
+/** All voting methods, in the order they are offered to the host */
+export const VOTING_METHODS: Record<RecommendationMethod, VotingMethod> = {
+  borda: bordaMethod,
+  schulze: schulzeMethod,
+  approval: approvalMethod,
+  kemeny: kemenyMethod,
+}
+
+export function isRecommendationMethod(value: unknown): value is RecommendationMethod {
+  return typeof value === 'string' && Object.hasOwn(VOTING_METHODS, value)
+}
+
+export function getVotingMethod(method: RecommendationMethod | undefined): VotingMethod {
+  return (method && VOTING_METHODS[method]) || VOTING_METHODS[DEFAULT_RECOMMENDATION_METHOD]
+}
@@ -0,0 +1,115 @@
+/**
+ * Kemeny-Young consensus ranking.
+ *
+ * Finds the ordering of games that agrees with the most pairwise player
+ * preferences. Small candidate sets are searched exhaustively; larger ones
+ * use a Copeland-seeded local search (single-game moves) because the exact
+ * problem is NP-hard. Scores are consensus positions: first place gets n - 1.
+ */
+import type { GameRecord, UserPreferenceRecord } from '../../../db/types'
+import { scaleOrdinalAdjustment, type VoterWeights, type VotingMethod } from './types'
+import { buildBallots, buildPairwiseMatrix } from './ballots'
+
+/** Largest candidate set searched exhaustively (7! = 5040 orderings) */
+const EXACT_SEARCH_LIMIT = 7
+
+function exactConsensusOrder(d: number[][]): number[] {
+  const n = d.length
+  let best: number[] = []
+  let bestScore = -1
+
+  const prefix: number[] = []
+  const used = new Array<boolean>(n).fill(false)
+
+  const visit = (score: number) => {
+    if (prefix.length === n) {
+      // Strictly greater keeps the earliest ordering on ties (input order).
+      if (score > bestScore) {
+        bestScore = score
+        best = [...prefix]
+      }
+      return
+    }
+    for (let c = 0; c < n; c++) {
+      if (used[c]) continue
+      let gained = 0
+      for (const placed of prefix) gained += d[placed][c]
+      used[c] = true
+      prefix.push(c)
+      visit(score + gained)
+      prefix.pop()
+      used[c] = false
+    }
+  }
+
+  visit(0)
+  return best
+}
+
+function approximateConsensusOrder(d: number[][]): number[] {
+  const n = d.length
+  const net = d.map((row, i) => row.reduce((sum, v, j) => sum + v - d[j][i], 0))
+  const order = [...Array(n).keys()].sort((a, b) => net[b] - net[a])
+
+  let improved = true
+  while (improved) {
+    improved = false
+    for (let i = 0; i < n && !improved; i++) {
+      const e = order[i]
+      let bestGain = 0
+      let bestTarget = i
+
+      // Moving later: e drops below each game it passes.
+      let gain = 0
+      for (let t = i + 1; t < n; t++) {
+        gain += d[order[t]][e] - d[e][order[t]]
+        if (gain > bestGain) {
+          bestGain = gain
+          bestTarget = t
+        }
+      }
+
+      // Moving earlier: e rises above each game it passes.
+      gain = 0
+      for (let t = i - 1; t >= 0; t--) {
+        gain += d[e][order[t]] - d[order[t]][e]
+        if (gain > bestGain) {
+          bestGain = gain
+          bestTarget = t
+        }
+      }
+
+      if (bestTarget !== i) {
+        order.splice(i, 1)
+        order.splice(bestTarget, 0, e)
+        improved = true
+      }
+    }
+  }
+
+  return order
+}
+
+export function calculateKemenyScores(
+  games: GameRecord[],
+  preferences: Record<string, UserPreferenceRecord[]>,
+  weights?: VoterWeights,
+): Record<number, number> {
+  const n = games.length
+  const d = buildPairwiseMatrix(games, buildBallots(games, preferences, weights))
+  const order = n <= EXACT_SEARCH_LIMIT ? exactConsensusOrder(d) : approximateConsensusOrder(d)
+
+  const scores: Record<number, number> = {}
+  order.forEach((gameIndex, position) => {
+    scores[games[gameIndex].bggId] = n - 1 - position
+  })
+  return scores
+}
+
+export const kemenyMethod: VotingMethod = {
+  id: 'kemeny',
+  label: 'Kemeny-Young',
+  description: 'Consensus ranking that agrees with the most head-to-head player preferences.',
+  score: calculateKemenyScores,
+  scaleAdjustment: scaleOrdinalAdjustment,
+}
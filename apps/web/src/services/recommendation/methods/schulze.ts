@@ -0,0 +1,56 @@
+/**
+ * Schulze (beatpath) Condorcet method.
+ *
+ * Builds the pairwise preference matrix, computes the strongest path
+ * between every pair of games, and scores each game by how many other
+ * games it beats along those paths. A Condorcet winner always scores n - 1.
+ */
+import type { GameRecord, UserPreferenceRecord } from '../../../db/types'
+import { scaleOrdinalAdjustment, type VoterWeights, type VotingMethod } from './types'
+import { buildBallots, buildPairwiseMatrix } from './ballots'
+
+export function calculateSchulzeScores(
+  games: GameRecord[],
+  preferences: Record<string, UserPreferenceRecord[]>,
+  weights?: VoterWeights,
+): Record<number, number> {
+  const n = games.length
+  const d = buildPairwiseMatrix(games, buildBallots(games, preferences, weights))
+
+  // Strongest path strengths (widest path, Floyd–Warshall variant)
+  const p = Array.from({ length: n }, () => new Array<number>(n).fill(0))
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      if (i !== j && d[i][j] > d[j][i]) p[i][j] = d[i][j]
+    }
+  }
+
+  for (let k = 0; k < n; k++) {
+    for (let i = 0; i < n; i++) {
+      if (i === k) continue
+      for (let j = 0; j < n; j++) {
+        if (j === i || j === k) continue
+        p[i][j] = Math.max(p[i][j], Math.min(p[i][k], p[k][j]))
+      }
+    }
+  }
+
+  const scores: Record<number, number> = {}
+  games.forEach((game, i) => {
+    let wins = 0
+    for (let j = 0; j < n; j++) {
+      if (i !== j && p[i][j] > p[j][i]) wins += 1
+    }
+    scores[game.bggId] = wins
+  })
+
+  return scores
+}
+
+export const schulzeMethod: VotingMethod = {
+  id: 'schulze',
+  label: 'Schulze',
+  description: 'Head-to-head (Condorcet) winner: the game that beats the others in pairwise matchups.',
+  score: calculateSchulzeScores,
+  scaleAdjustment: scaleOrdinalAdjustment,
+}
@@ -0,0 +1,46 @@
+import type { GameRecord, UserPreferenceRecord } from '../../../db/types'
+import type { RecommendationMethod } from '../../../store/wizardTypes'
+
+/**
+ * Strategy interface for a voting method.
+ *
+ * A method receives the eligible (non-vetoed) games plus every player's
+ * preferences and returns a score per game. Higher scores rank first.
+ * Optional voter weights scale each player's say (missing players count 1).
+ */
+export interface VotingMethod {
+  id: RecommendationMethod
+  /** Short name shown in the UI */
+  label: string
+  /** One-line explanation of how the method decides */
+  description: string
+  score: (
+    games: GameRecord[],
+    preferences: Record<string, UserPreferenceRecord[]>,
+    weights?: VoterWeights,
+  ) => Record<number, number>
+  /**
+   * Convert a score adjustment given in Borda points (one point = one
+   * player's full vote) into this method's units. Omitted when the method
+   * already scores in votes.
+   */
+  scaleAdjustment?: (adjustment: number) => number
+}
+
+/** Per-player vote multiplier keyed by username (1 = normal) */
+export type VoterWeights = Record<string, number>
+
+/**
+ * Adjustment scale for methods that score by place (Schulze wins, Kemeny
+ * positions), where one point is a whole place. Any adjustment is squashed
+ * into (-0.5, 0.5) so it can reorder games the method ranks equally but
+ * never overturn its order.
+ */
+export function scaleOrdinalAdjustment(adjustment: number): number {
+  return adjustment / (1 + Math.abs(adjustment)) / 2
+}
+
+export function getVoterWeight(weights: VoterWeights | undefined, username: string): number {
+  const weight = weights?.[username]
+  return weight !== undefined && Number.isFinite(weight) && weight >= 0 ? weight : 1
+}
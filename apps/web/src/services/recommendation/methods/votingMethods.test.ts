@@ -0,0 +1,199 @@
+/**
+ * Tests for the pluggable voting methods (Schulze, approval, Kemeny-Young).
+ */
+import { describe, it, expect } from 'vitest'
+import type { PreferenceTier } from '../../../db/types'
+import { testGame, testPref } from '../../../test/recommendationTestUtils'
+import type { WizardFilters } from '../../../store/wizardTypes'
+import { computeRecommendation } from '../computeRecommendation'
+import { calculateSchulzeScores } from './schulze'
+import { calculateApprovalScores } from './approval'
+import { calculateKemenyScores } from './kemeny'
+import { calculateBordaScores, getBordaPositions } from './borda'
+import { getVotingMethod, isRecommendationMethod } from './index'
+import { scaleOrdinalAdjustment } from './types'
+
+/** Builds a ballot where the listed games are ranked 1..n */
+const ranked = (username: string, order: number[]) => order.map((bggId, i) => testPref(username, bggId, { rank: i + 1 }))
+
+const filters: WizardFilters = {
+  playerCount: 3,
+  timeRange: { min: 0, max: 300 },
+  mode: 'any',
+  requireBestWithPlayerCount: false,
+  excludeLowRatedThreshold: null,
+  ageRange: { min: 0, max: 21 },
+  complexityRange: { min: 1, max: 5 },
+  ratingRange: { min: 0, max: 10 },
+}
+
+describe('calculateSchulzeScores', () => {
+  it('gives the Condorcet winner the maximum score', () => {
+    const games = [testGame(1), testGame(2), testGame(3)]
+    // Game 2 is everyone's second choice but beats both others head-to-head.
+    const preferences = {
+      alice: ranked('alice', [1, 2, 3]),
+      bob: ranked('bob', [3, 2, 1]),
+      carol: ranked('carol', [2, 1, 3]),
+    }
+
+    const scores = calculateSchulzeScores(games, preferences)
+
+    expect(scores[2]).toBe(2)
+    expect(scores[2]).toBeGreaterThan(scores[1])
+    expect(scores[2]).toBeGreaterThan(scores[3])
+  })
+
+  it('treats top picks as preferred over ranked and unranked games', () => {
+    const games = [testGame(1), testGame(2)]
+    const preferences = {
+      alice: [testPref('alice', 1, { rank: 1 }), testPref('alice', 2, { isTopPick: true })],
+      bob: [testPref('bob', 2, { rank: 1 })],
+    }
+
+    const scores = calculateSchulzeScores(games, preferences)
+
+    expect(scores[2]).toBe(1)
+    expect(scores[1]).toBe(0)
+  })
+})
+
+describe('calculateApprovalScores', () => {
+  it('counts top picks and ranks within the cutoff as approvals', () => {
+    const games = [testGame(1), testGame(2), testGame(3), testGame(4)]
+    const preferences = {
+      alice: [...ranked('alice', [1, 2, 3, 4]), testPref('alice', 5, { isTopPick: true })],
+      bob: [testPref('bob', 4, { isTopPick: true }), testPref('bob', 1, { isDisliked: true })],
+    }
+
+    const scores = calculateApprovalScores(games, preferences)
+
+    expect(scores).toEqual({ 1: 1, 2: 1, 3: 1, 4: 1 })
+  })
+})
+
+describe('preference tiers', () => {
+  const tiered = (username: string, tiers: Record<number, PreferenceTier>) =>
+    Object.entries(tiers).map(([bggId, tier]) => testPref(username, Number(bggId), { tier }))
+
+  it('gives games in the same tier the average Borda points of their span', () => {
+    const positions = getBordaPositions(tiered('alice', { 1: 'S', 2: 'A', 3: 'A', 4: 'C' }), () => true)
+
+    expect(positions.map((p) => [p.pref.bggId, p.index, p.points])).toEqual([
+      [1, 0, 1],
+      [2, 1, 0.5],
+      [3, 1, 0.5],
+      [4, 3, 0],
+    ])
+    expect(calculateBordaScores([testGame(1), testGame(2), testGame(3)], { alice: tiered('alice', { 1: 'A', 2: 'A', 3: 'B' }) }))
+      .toEqual({ 1: 0.75, 2: 0.75, 3: 0 })
+  })
+
+  it('treats tied games as neither preferred over the other in head-to-head methods', () => {
+    const games = [testGame(1), testGame(2), testGame(3)]
+    const preferences = {
+      alice: tiered('alice', { 1: 'S', 2: 'S', 3: 'B' }),
+      bob: tiered('bob', { 2: 'A', 1: 'B', 3: 'B' }),
+    }
+
+    const schulze = calculateSchulzeScores(games, preferences)
+
+    expect(schulze[2]).toBe(2)
+    expect(schulze[3]).toBe(0)
+  })
+
+  it('approves S and A tiers', () => {
+    const scores = calculateApprovalScores([testGame(1), testGame(2), testGame(3)], {
+      alice: tiered('alice', { 1: 'S', 2: 'A', 3: 'B' }),
+    })
+
+    expect(scores).toEqual({ 1: 1, 2: 1, 3: 0 })
+  })
+})
+
+describe('calculateKemenyScores', () => {
+  it('orders games by pairwise agreement for small sets', () => {
+    const games = [testGame(1), testGame(2), testGame(3)]
+    const preferences = {
+      alice: ranked('alice', [3, 1, 2]),
+      bob: ranked('bob', [3, 2, 1]),
+      carol: ranked('carol', [1, 3, 2]),
+    }
+
+    const scores = calculateKemenyScores(games, preferences)
+
+    expect(scores).toEqual({ 3: 2, 1: 1, 2: 0 })
+  })
+
+  it('falls back to local search for larger sets and keeps a unanimous order', () => {
+    const ids = [1, 2, 3, 4, 5, 6, 7, 8, 9]
+    const games = ids.map((bggId) => testGame(bggId))
+    const order = [9, 8, 7, 6, 5, 4, 3, 2, 1]
+    const preferences = {
+      alice: ranked('alice', order),
+      bob: ranked('bob', order),
+    }
+
+    const scores = calculateKemenyScores(games, preferences)
+
+    order.forEach((bggId, position) => {
+      expect(scores[bggId]).toBe(ids.length - 1 - position)
+    })
+  })
+})
+
+describe('score adjustments under place-based methods', () => {
+  // Unanimous 1 > 2 > 3; game 2 is great at three players, game 1 is weak
+  const poll = (best: number, notRecommended: number) => ({
+    playerCountPoll: [{ numPlayers: 3, best, recommended: 0, notRecommended }],
+  })
+  const games = [testGame(1, poll(0, 10)), testGame(2, poll(10, 0)), testGame(3)]
+  const preferences = {
+    alice: ranked('alice', [1, 2, 3]),
+    bob: ranked('bob', [1, 2, 3]),
+  }
+  const recommend = (method: 'schulze' | 'kemeny') =>
+    computeRecommendation({ games, preferences, filters, users: [{ username: 'alice' }, { username: 'bob' }], promotedPickBggId: null, method })
+
+  it.each(['schulze', 'kemeny'] as const)('keeps the clear %s winner despite the player-count fit', (method) => {
+    const result = recommend(method)
+
+    expect(result.topPick?.game.bggId).toBe(1)
+    expect(result.alternatives.map((g) => g.game.bggId)).toEqual([2, 3])
+    expect(result.topPick!.score - result.alternatives[0].score).toBeGreaterThan(0)
+  })
+
+  it('squashes adjustments to under half a place', () => {
+    expect(scaleOrdinalAdjustment(1)).toBe(0.25)
+    expect(scaleOrdinalAdjustment(-3)).toBeGreaterThan(-0.5)
+  })
+})
+
+describe('method selection', () => {
+  it('validates method ids', () => {
+    expect(isRecommendationMethod('schulze')).toBe(true)
+    expect(isRecommendationMethod('toString')).toBe(false)
+    expect(isRecommendationMethod(undefined)).toBe(false)
+  })
+
+  it('falls back to Borda for unknown methods', () => {
+    expect(getVotingMethod(undefined).id).toBe('borda')
+  })
+
+  it('echoes the method on the recommendation result', () => {
+    const games = [testGame(1), testGame(2), testGame(3)]
+    const preferences = {
+      alice: ranked('alice', [1, 2, 3]),
+      bob: ranked('bob', [3, 2, 1]),
+      carol: ranked('carol', [2, 1, 3]),
+    }
+    const users = [{ username: 'alice' }, { username: 'bob' }, { username: 'carol' }]
+
+    const borda = computeRecommendation({ games, preferences, filters, users, promotedPickBggId: null })
+    const schulze = computeRecommendation({ games, preferences, filters, users, promotedPickBggId: null, method: 'schulze' })
+
+    expect(borda.method).toBe('borda')
+    expect(schulze.method).toBe('schulze')
+    expect(schulze.topPick?.game.bggId).toBe(2)
+  })
+})
@@ -0,0 +1,94 @@
+/**
+ * Tests for the recently-played penalty.
+ */
+import { describe, it, expect } from 'vitest'
+import { testGame, testPref } from '../../test/recommendationTestUtils'
+import type { WizardFilters } from '../../store/wizardTypes'
+import { getRecencyPenalties, RECENCY_PENALTY_MAX } from './recencyPenalty'
+import { computeRecommendation } from './computeRecommendation'
+
+// Local noon avoids any timezone edge around midnight
+const now = new Date(2026, 0, 15, 12, 0, 0)
+
+describe('getRecencyPenalties', () => {
+  it('is strongest for yesterday and fades across the window', () => {
+    const penalties = getRecencyPenalties(
+      [
+        { bggId: 1, playedAt: '2026-01-14' },
+        { bggId: 2, playedAt: '2026-01-08' },
+      ],
+      14,
+      now,
+    )
+
+    expect(penalties[1]).toEqual({ daysAgo: 1, factor: 1 - RECENCY_PENALTY_MAX })
+    expect(penalties[2].daysAgo).toBe(7)
+    expect(penalties[2].factor).toBeGreaterThan(penalties[1].factor)
+    expect(penalties[2].factor).toBeLessThan(1)
+  })
+
+  it('ignores plays from today, outside the window, or when disabled', () => {
+    const plays = [
+      { bggId: 1, playedAt: '2026-01-15' },
+      { bggId: 2, playedAt: '2025-12-01' },
+      { bggId: 3, playedAt: '2026-01-14' },
+    ]
+
+    expect(Object.keys(getRecencyPenalties(plays, 14, now))).toEqual(['3'])
+    expect(getRecencyPenalties(plays, 0, now)).toEqual({})
+  })
+
+  it('uses the most recent play of a game', () => {
+    const penalties = getRecencyPenalties(
+      [
+        { bggId: 1, playedAt: '2026-01-05' },
+        { bggId: 1, playedAt: '2026-01-13' },
+      ],
+      14,
+      now,
+    )
+
+    expect(penalties[1].daysAgo).toBe(2)
+  })
+})
+
+describe('computeRecommendation recency penalty', () => {
+  const filters: WizardFilters = {
+    playerCount: 2,
+    timeRange: { min: 0, max: 300 },
+    mode: 'any',
+    requireBestWithPlayerCount: false,
+    excludeLowRatedThreshold: null,
+    ageRange: { min: 0, max: 21 },
+    complexityRange: { min: 1, max: 5 },
+    ratingRange: { min: 0, max: 10 },
+  }
+  const input = {
+    games: [testGame(1), testGame(2), testGame(3), testGame(4)],
+    preferences: {
+      alice: [1, 2, 3, 4].map((bggId) => testPref('alice', bggId, { rank: bggId })),
+      bob: [1, 2, 3, 4].map((bggId) => testPref('bob', bggId, { rank: bggId })),
+    },
+    filters,
+    users: [{ username: 'alice' }, { username: 'bob' }],
+    promotedPickBggId: null,
+    recentPlays: [{ bggId: 1, playedAt: '2026-01-14' }],
+    now,
+  }
+
+  it('demotes a game played last night', () => {
+    const result = computeRecommendation({ ...input, recencyPenaltyDays: 14 })
+
+    expect(result.topPick?.game.bggId).toBe(2)
+    const penalized = result.alternatives.find((a) => a.game.bggId === 1)
+    expect(penalized?.score).toBe(1)
+    expect(penalized?.matchReasons[0]).toBe('🕒 Played yesterday')
+  })
+
+  it('leaves scores alone when the penalty is off', () => {
+    const result = computeRecommendation({ ...input, recencyPenaltyDays: 0 })
+
+    expect(result.topPick?.game.bggId).toBe(1)
+    expect(result.topPick?.score).toBe(2)
+  })
+})
@@ -0,0 +1,76 @@
+/**
+ * "Recently played" penalty.
+ *
+ * Games played on an earlier night within the penalty window lose part of
+ * their score, so the same game doesn't win week after week. The penalty is
+ * strongest for yesterday's play and fades linearly to nothing at the end of
+ * the window. Plays from today are ignored so logging tonight's game doesn't
+ * reshuffle tonight's result.
+ */
+import type { PlayRecord } from '../../db/types'
+
+/** Share of the score removed for a game played yesterday */
+export const RECENCY_PENALTY_MAX = 0.5
+
+/** Penalty windows offered to the host, in days (0 disables the penalty) */
+export const RECENCY_PENALTY_DAY_OPTIONS = [0, 7, 14, 28] as const
+
+export const DEFAULT_RECENCY_PENALTY_DAYS = 14
+
+/** Longest window offered; play history older than this is never needed */
+export const MAX_RECENCY_PENALTY_DAYS = 28
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type RecentPlay = Pick<PlayRecord, 'bggId' | 'playedAt'>
+
+export interface RecencyPenalty {
+  /** Whole days since the most recent play */
+  daysAgo: number
+  /** Multiplier applied to the score (between 1 - RECENCY_PENALTY_MAX and 1) */
+  factor: number
+}
+
+/** Calendar day index of the local date */
+function localDayNumber(date: Date): number {
+  return Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS
+}
+
+/** Calendar day index of a YYYY-MM-DD date */
+function playDayNumber(playedAt: string): number {
+  return Date.parse(`${playedAt.slice(0, 10)}T00:00:00Z`) / DAY_MS
+}
+
+/**
+ * Penalty per game for plays inside the window, keyed by bggId.
+ */
+export function getRecencyPenalties(
+  plays: RecentPlay[],
+  windowDays: number,
+  now: Date = new Date(),
+): Record<number, RecencyPenalty> {
+  const penalties: Record<number, RecencyPenalty> = {}
+  if (windowDays <= 0) return penalties
+
+  const today = localDayNumber(now)
+  for (const play of plays) {
+    const playedDay = playDayNumber(play.playedAt)
+    if (!Number.isFinite(playedDay)) continue
+
+    const daysAgo = today - playedDay
+    if (daysAgo < 1 || daysAgo > windowDays) continue
+
+    const existing = penalties[play.bggId]
+    if (existing && existing.daysAgo <= daysAgo) continue
+
+    penalties[play.bggId] = {
+      daysAgo,
+      factor: 1 - RECENCY_PENALTY_MAX * (1 - (daysAgo - 1) / windowDays),
+    }
+  }
+  return penalties
+}
+
+export function describeRecentPlay(daysAgo: number): string {
+  return daysAgo === 1 ? '🕒 Played yesterday' : `🕒 Played ${daysAgo} days ago`
+}
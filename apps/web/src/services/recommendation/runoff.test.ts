@@ -0,0 +1,48 @@
+/**
+ * Tests for tie detection and the runoff tally.
+ */
+import { describe, it, expect } from 'vitest'
+import { findTopTie, tallyRunoff } from './runoff'
+
+const scored = (...scores: number[]) => scores.map((score, i) => ({ game: { bggId: i + 1 }, score }))
+
+describe('findTopTie', () => {
+  it('flags exact ties at the top', () => {
+    expect(findTopTie(scored(2, 2, 1), 0)).toEqual({ bggIds: [1, 2], exact: true, epsilon: 0 })
+  })
+
+  it('flags near-ties within the margin', () => {
+    expect(findTopTie(scored(2, 1.9, 1.75, 1), 0.25)).toEqual({ bggIds: [1, 2, 3], exact: false, epsilon: 0.25 })
+    expect(findTopTie(scored(2, 1.9), 0)).toBeNull()
+  })
+
+  it('ignores float noise and lone games', () => {
+    expect(findTopTie(scored(0.1 + 0.2, 0.3), 0)?.exact).toBe(true)
+    expect(findTopTie(scored(2), 0.5)).toBeNull()
+  })
+})
+
+describe('tallyRunoff', () => {
+  it('ranks the tied games by Borda points', () => {
+    const result = tallyRunoff([1, 2, 3], [
+      { voter: 'alice', ranking: [3, 1, 2] },
+      { voter: 'bob', ranking: [3, 2] },
+      { voter: 'carol', ranking: [1] },
+    ])
+
+    expect(result).toEqual({ winnerBggId: 3, points: { 1: 3, 2: 1, 3: 4 }, stillTied: false })
+  })
+
+  it('keeps the original order when the runoff ties again', () => {
+    expect(tallyRunoff([1, 2], [
+      { voter: 'alice', ranking: [2, 1] },
+      { voter: 'bob', ranking: [1, 2] },
+    ])).toMatchObject({ winnerBggId: 1, stillTied: true })
+    expect(tallyRunoff([1, 2], [])).toMatchObject({ winnerBggId: 1, stillTied: true })
+  })
+
+  it('ignores games off the ballot and repeats', () => {
+    expect(tallyRunoff([1, 2], [{ voter: 'alice', ranking: [9, 2, 2] }])?.points).toEqual({ 1: 0, 2: 1 })
+    expect(tallyRunoff([], [])).toBeNull()
+  })
+})
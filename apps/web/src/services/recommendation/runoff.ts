@@ -0,0 +1,73 @@
+/**
+ * Tie detection and runoff.
+ *
+ * Scores are sorted stably, so a tie at the top used to be settled by
+ * whichever game happened to come first. `findTopTie` flags the games within
+ * `epsilon` points of the best score (an exact tie when all are equal), and
+ * `tallyRunoff` settles it with a quick Borda count over only those games,
+ * ranked again by the players present.
+ */
+import type { RecommendationTie } from '../../hooks/wizard/types'
+
+/** Margins (in score points) the host can treat as a tie; 0 = exact ties only */
+export const TIE_EPSILON_OPTIONS = [0, 0.1, 0.25, 0.5] as const
+
+export const DEFAULT_TIE_EPSILON = 0.1
+
+/** Float noise ignored when comparing scores */
+const SCORE_TOLERANCE = 1e-9
+
+/** One voter's ranking of the runoff games, best first */
+export interface RunoffBallot {
+  voter: string
+  ranking: number[]
+}
+
+export interface RunoffResult {
+  winnerBggId: number
+  /** Borda points per game */
+  points: Record<number, number>
+  /** Still level on points after the runoff (settled by the original order) */
+  stillTied: boolean
+}
+
+export function isTieEpsilon(value: unknown): value is number {
+  return typeof value === 'number' && (TIE_EPSILON_OPTIONS as readonly number[]).includes(value)
+}
+
+/**
+ * Games tied with the best score (`games` sorted best first), or null when
+ * the best game stands alone.
+ */
+export function findTopTie(games: Array<{ game: { bggId: number }; score: number }>, epsilon: number): RecommendationTie | null {
+  if (games.length < 2) return null
+  const best = games[0].score
+  const tied = games.filter((g) => best - g.score <= epsilon + SCORE_TOLERANCE)
+  if (tied.length < 2) return null
+  return {
+    bggIds: tied.map((g) => g.game.bggId),
+    exact: tied.every((g) => Math.abs(best - g.score) <= SCORE_TOLERANCE),
+    epsilon,
+  }
+}
+
+/**
+ * Borda count over the tied games: on each ballot the first game earns n-1
+ * points, the next n-2, and so on; games left off a ballot earn nothing.
+ * Level games keep their order in `bggIds`.
+ */
+export function tallyRunoff(bggIds: number[], ballots: RunoffBallot[]): RunoffResult | null {
+  if (bggIds.length === 0) return null
+  const points: Record<number, number> = Object.fromEntries(bggIds.map((id) => [id, 0]))
+
+  for (const ballot of ballots) {
+    const ranking = ballot.ranking.filter((id, i) => id in points && ballot.ranking.indexOf(id) === i)
+    ranking.forEach((id, position) => {
+      points[id] += bggIds.length - 1 - position
+    })
+  }
+
+  const best = Math.max(...bggIds.map((id) => points[id]))
+  const leaders = bggIds.filter((id) => points[id] === best)
+  return { winnerBggId: leaders[0], points, stillTied: leaders.length > 1 }
+}
@@ -0,0 +1,101 @@
+/**
+ * Tests for per-player score breakdowns and the consensus metric.
+ */
+import { describe, it, expect } from 'vitest'
+import { testGame, testPref } from '../../test/recommendationTestUtils'
+import { buildScoreBreakdowns, calculateConsensus, getConsensusLevel } from './scoreBreakdown'
+import { computeRecommendation } from './computeRecommendation'
+import type { WizardFilters } from '../../store/wizardTypes'
+
+describe('buildScoreBreakdowns', () => {
+  const games = [testGame(1), testGame(2), testGame(3)]
+
+  it('reports Borda points, bonus and position for each player', () => {
+    const preferences = {
+      alice: [testPref('alice', 1, { rank: 1 }), testPref('alice', 2, { rank: 2 }), testPref('alice', 3, { rank: 3 })],
+      bob: [testPref('bob', 2, { isTopPick: true })],
+    }
+
+    const breakdowns = buildScoreBreakdowns(games, preferences, ['alice', 'bob'])
+    const game2 = breakdowns[2].contributions
+
+    expect(game2.find((c) => c.username === 'alice')).toMatchObject({
+      rankPosition: 2,
+      rankedCount: 3,
+      bordaPoints: 0.5,
+      topPickBonus: 0,
+      isNeutral: false,
+    })
+    expect(game2.find((c) => c.username === 'bob')).toMatchObject({
+      rankPosition: 1,
+      rankedCount: 1,
+      isTopPick: true,
+      bordaPoints: 1,
+      topPickBonus: 0.5,
+    })
+  })
+
+  it('marks players who did not rank a game as neutral', () => {
+    const preferences = { alice: [testPref('alice', 1, { rank: 1 })] }
+
+    const breakdowns = buildScoreBreakdowns(games, preferences, ['alice', 'carol'])
+
+    expect(breakdowns[3].contributions.every((c) => c.isNeutral)).toBe(true)
+    expect(breakdowns[1].contributions.find((c) => c.username === 'carol')).toMatchObject({
+      isNeutral: true,
+      bordaPoints: 0,
+      rankPosition: undefined,
+    })
+  })
+})
+
+describe('calculateConsensus', () => {
+  const contribution = (bordaPoints: number, topPickBonus = 0) => ({
+    username: 'x',
+    rankedCount: 1,
+    isTopPick: topPickBonus > 0,
+    bordaPoints,
+    topPickBonus,
+    isNeutral: bordaPoints === 0 && topPickBonus === 0,
+  })
+
+  it('is full agreement when everyone feels the same', () => {
+    expect(calculateConsensus([contribution(1, 0.5), contribution(1, 0.5)])).toBe(1)
+    expect(calculateConsensus([contribution(1)])).toBe(1)
+  })
+
+  it('is zero when players are split between love and indifference', () => {
+    const consensus = calculateConsensus([contribution(1, 0.5), contribution(0)])
+    expect(consensus).toBe(0)
+    expect(getConsensusLevel(consensus)).toBe('polarizing')
+  })
+})
+
+describe('computeRecommendation breakdown', () => {
+  it('attaches a breakdown to scored games', () => {
+    const filters: WizardFilters = {
+      playerCount: 2,
+      timeRange: { min: 0, max: 300 },
+      mode: 'any',
+      requireBestWithPlayerCount: false,
+      excludeLowRatedThreshold: null,
+      ageRange: { min: 0, max: 21 },
+      complexityRange: { min: 1, max: 5 },
+      ratingRange: { min: 0, max: 10 },
+    }
+
+    const result = computeRecommendation({
+      games: [testGame(1), testGame(2)],
+      preferences: {
+        alice: [testPref('alice', 1, { rank: 1 }), testPref('alice', 2, { rank: 2 })],
+        bob: [testPref('bob', 1, { rank: 1 }), testPref('bob', 2, { rank: 2 })],
+      },
+      filters,
+      users: [{ username: 'alice' }, { username: 'bob' }],
+      promotedPickBggId: null,
+    })
+
+    expect(result.topPick?.breakdown?.contributions.map((c) => c.username)).toEqual(['alice', 'bob'])
+    expect(result.topPick?.breakdown?.consensusLevel).toBe('strong')
+  })
+})
@@ -0,0 +1,86 @@
+/**
+ * "Why this pick" explanation for recommended games.
+ *
+ * Breaks a game's appeal down per player (normalized Borda points, top-pick
+ * bonus, ranking position, or neutral) and measures how much the group
+ * agrees about it. The breakdown always uses Borda points so it reads the
+ * same regardless of the voting method that ordered the results. Voter
+ * weights are reported alongside the points; consensus ignores them.
+ */
+import type { GameRecord, UserPreferenceRecord } from '../../db/types'
+import type { ConsensusLevel, PlayerScoreContribution, ScoreBreakdown } from '../../hooks/wizard/types'
+import { getBordaPositions, getVoterWeight, TOP_PICK_BONUS, type VoterWeights } from './methods'
+
+/** Consensus at or above this is reported as strong agreement */
+const STRONG_CONSENSUS = 0.75
+/** Consensus below this is reported as polarizing */
+const POLARIZING_CONSENSUS = 0.45
+
+/**
+ * Build per-player contributions for every eligible game.
+ */
+export function buildScoreBreakdowns(
+  games: GameRecord[],
+  preferences: Record<string, UserPreferenceRecord[]>,
+  usernames: string[],
+  weights?: VoterWeights,
+): Record<number, ScoreBreakdown> {
+  const eligibleIds = new Set(games.map((g) => g.bggId))
+  const contributionsByGame: Record<number, PlayerScoreContribution[]> = {}
+  for (const game of games) {
+    contributionsByGame[game.bggId] = []
+  }
+
+  for (const username of usernames) {
+    const positions = getBordaPositions(preferences[username] ?? [], (bggId) => eligibleIds.has(bggId))
+    const byGame = new Map(positions.map((p) => [p.pref.bggId, p]))
+    const weight = getVoterWeight(weights, username)
+
+    for (const game of games) {
+      const position = byGame.get(game.bggId)
+      contributionsByGame[game.bggId].push({
+        username,
+        rankPosition: position ? position.index + 1 : undefined,
+        tier: position?.pref.tier,
+        rankedCount: positions.length,
+        isTopPick: position?.pref.isTopPick ?? false,
+        bordaPoints: position?.points ?? 0,
+        topPickBonus: position?.bonus ?? 0,
+        isNeutral: !position,
+        weight: weight !== 1 ? weight : undefined,
+      })
+    }
+  }
+
+  const breakdowns: Record<number, ScoreBreakdown> = {}
+  for (const game of games) {
+    const contributions = contributionsByGame[game.bggId]
+    const consensus = calculateConsensus(contributions)
+    breakdowns[game.bggId] = { contributions, consensus, consensusLevel: getConsensusLevel(consensus) }
+  }
+  return breakdowns
+}
+
+/**
+ * Agreement between players on a 0-1 scale.
+ * Each player's enthusiasm is their share of the maximum points (neutral = 0);
+ * the spread of those values is mapped so identical enthusiasm gives 1 and an
+ * even split between "love it" and "indifferent" gives 0.
+ */
+export function calculateConsensus(contributions: PlayerScoreContribution[]): number {
+  if (contributions.length < 2) return 1
+
+  const maxPoints = 1 + TOP_PICK_BONUS
+  const enthusiasm = contributions.map((c) => (c.bordaPoints + c.topPickBonus) / maxPoints)
+  const mean = enthusiasm.reduce((sum, e) => sum + e, 0) / enthusiasm.length
+  const variance = enthusiasm.reduce((sum, e) => sum + (e - mean) ** 2, 0) / enthusiasm.length
+
+  // Standard deviation of values in [0, 1] is at most 0.5.
+  return Math.max(0, Math.min(1, 1 - 2 * Math.sqrt(variance)))
+}
+
+export function getConsensusLevel(consensus: number): ConsensusLevel {
+  if (consensus >= STRONG_CONSENSUS) return 'strong'
+  if (consensus < POLARIZING_CONSENSUS) return 'polarizing'
+  return 'mixed'
+}
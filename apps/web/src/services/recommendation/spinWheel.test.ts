@@ -0,0 +1,65 @@
+/**
+ * Tests for the spin-the-wheel pick.
+ */
+import { describe, it, expect } from 'vitest'
+import {
+  createSeededRandom,
+  getSpinCandidates,
+  getSpinProbabilities,
+  spinWheel,
+  toSavedSpin,
+} from './spinWheel'
+
+const games = [
+  { bggId: 3, score: 1 },
+  { bggId: 1, score: 3 },
+  { bggId: 2, score: 2 },
+  { bggId: 4, score: 0.5 },
+]
+
+describe('spinWheel', () => {
+  it('takes the best scores regardless of display order', () => {
+    expect(getSpinCandidates(games, 3).map((c) => c.bggId)).toEqual([1, 2, 3])
+    expect(getSpinCandidates([...games].reverse(), 3)).toEqual(getSpinCandidates(games, 3))
+  })
+
+  it('weights slices by score or equally', () => {
+    const candidates = getSpinCandidates(games, 3)
+
+    expect(getSpinProbabilities(candidates, 'score')).toEqual([0.5, 2 / 6, 1 / 6])
+    expect(getSpinProbabilities(candidates, 'uniform')).toEqual([1 / 3, 1 / 3, 1 / 3])
+    expect(getSpinProbabilities([{ bggId: 1, score: -1 }, { bggId: 2, score: 0 }], 'score')).toEqual([0.5, 0.5])
+  })
+
+  it('replays the same game for the same seed', () => {
+    const candidates = getSpinCandidates(games, 3)
+    const first = spinWheel(candidates, 'score', 1234)
+
+    expect(spinWheel(candidates, 'score', 1234)).toEqual(first)
+    expect(candidates.map((c) => c.bggId)).toContain(first?.bggId)
+    expect(spinWheel([], 'score', 1)).toBeNull()
+  })
+
+  it('lands roughly in proportion to the slices', () => {
+    const candidates = getSpinCandidates(games, 2)
+    const wins = Array.from({ length: 600 }, (_, seed) => spinWheel(candidates, 'score', seed)?.bggId)
+
+    expect(wins.filter((id) => id === 1).length / wins.length).toBeCloseTo(0.6, 1)
+  })
+
+  it('produces numbers in [0, 1) from a seed', () => {
+    const next = createSeededRandom(42)
+    const values = Array.from({ length: 100 }, next)
+
+    expect(values.every((v) => v >= 0 && v < 1)).toBe(true)
+    expect(createSeededRandom(42)()).toBe(values[0])
+  })
+
+  it('saves the spin only when it chose the saved pick', () => {
+    const spin = spinWheel(getSpinCandidates(games, 3), 'uniform', 7)!
+
+    expect(toSavedSpin(spin, spin.bggId).spin).toEqual({ seed: 7, weighting: 'uniform', candidates: spin.candidates })
+    expect(toSavedSpin(spin, 999).spin).toBeUndefined()
+    expect(toSavedSpin(null, 1).spin).toBeUndefined()
+  })
+})
@@ -0,0 +1,99 @@
+/**
+ * "Spin the wheel" among the top candidates.
+ *
+ * When the top scores are close the group can let chance decide. The wheel
+ * holds the N best-scored games, with slices proportional to score or all
+ * equal. Draws come from a seeded generator, so a saved night's seed replays
+ * to the same game. Candidates are ordered by score (then bggId) before the
+ * draw, so promoting a game afterwards doesn't change what a seed picks.
+ */
+import type { SavedNightData } from '../../db/types'
+
+export type SpinWeighting = 'score' | 'uniform'
+
+export interface SpinCandidate {
+  bggId: number
+  score: number
+}
+
+export type SpinResult = NonNullable<SavedNightData['spin']> & {
+  /** The game the wheel landed on */
+  bggId: number
+}
+
+/** Wheel sizes offered to the host */
+export const SPIN_CANDIDATE_OPTIONS = [2, 3, 5] as const
+
+export const DEFAULT_SPIN_CANDIDATES = 3
+
+/** Seeds are kept short so they can be read out and typed back in */
+export const MAX_SPIN_SEED = 1_000_000
+
+export function newSpinSeed(): number {
+  return Math.floor(Math.random() * MAX_SPIN_SEED)
+}
+
+/**
+ * Deterministic generator of numbers in [0, 1) (mulberry32).
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * The wheel's games: the `count` best scores, best first.
+ */
+export function getSpinCandidates(games: SpinCandidate[], count: number): SpinCandidate[] {
+  return [...games]
+    .sort((a, b) => b.score - a.score || a.bggId - b.bggId)
+    .slice(0, count)
+    .map(({ bggId, score }) => ({ bggId, score }))
+}
+
+/**
+ * Chance of each candidate. Score weighting ignores negative scores and
+ * falls back to equal slices when no candidate scores above zero.
+ */
+export function getSpinProbabilities(candidates: SpinCandidate[], weighting: SpinWeighting): number[] {
+  const weights = candidates.map((c) => (weighting === 'score' ? Math.max(c.score, 0) : 1))
+  const total = weights.reduce((sum, w) => sum + w, 0)
+  if (total === 0) return candidates.map(() => 1 / candidates.length)
+  return weights.map((w) => w / total)
+}
+
+/**
+ * Spin the wheel over the candidates (already chosen by `getSpinCandidates`).
+ * Returns null when there is nothing to spin.
+ */
+export function spinWheel(candidates: SpinCandidate[], weighting: SpinWeighting, seed: number): SpinResult | null {
+  if (candidates.length === 0) return null
+  const probabilities = getSpinProbabilities(candidates, weighting)
+  const draw = createSeededRandom(seed)()
+
+  let cumulative = 0
+  let index = candidates.length - 1
+  for (let i = 0; i < probabilities.length; i++) {
+    cumulative += probabilities[i]
+    if (draw < cumulative) {
+      index = i
+      break
+    }
+  }
+
+  return { seed, weighting, candidates, bggId: candidates[index].bggId }
+}
+
+/**
+ * Saved-night field for the spin, kept only if the wheel chose the saved pick.
+ */
+export function toSavedSpin(spin: SpinResult | null | undefined, pickBggId: number): Pick<SavedNightData, 'spin'> {
+  if (!spin || spin.bggId !== pickBggId) return { spin: undefined }
+  return { spin: { seed: spin.seed, weighting: spin.weighting, candidates: spin.candidates } }
+}
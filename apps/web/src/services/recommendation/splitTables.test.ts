@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest'
+import type { GameRecord, UserPreferenceRecord } from '../../db/types'
+import type { WizardFilters } from '../../store/wizardTypes'
+import { computeSplitTables, getSplitTableCandidates } from './splitTables'
+import { SOFT_VETO_PENALTY } from './vetoPolicy'
+
+const game = (bggId: number, name: string, overrides: Partial<GameRecord> = {}): GameRecord => ({
+  bggId,
+  name,
+  minPlayers: 2,
+  maxPlayers: 4,
+  playingTimeMinutes: 60,
+  lastFetchedAt: '2026-01-10T10:00:00Z',
+  ...overrides,
+})
+
+const pref = (username: string, bggId: number, rank?: number, extra: Partial<UserPreferenceRecord> = {}): UserPreferenceRecord => ({
+  username,
+  bggId,
+  rank,
+  isTopPick: false,
+  isDisliked: false,
+  updatedAt: '2026-01-10T10:00:00Z',
+  ...extra,
+})
+
+const filters: WizardFilters = {
+  playerCount: 6,
+  timeRange: { min: 0, max: 300 },
+  mode: 'any',
+  requireBestWithPlayerCount: false,
+  excludeLowRatedThreshold: null,
+  ageRange: { min: 0, max: 21 },
+  complexityRange: { min: 1, max: 5 },
+  ratingRange: { min: 0, max: 10 },
+}
+
+const tableOf = (result: ReturnType<typeof computeSplitTables>, username: string) =>
+  result?.tables.find((t) => t.players.includes(username))
+
+describe('splitTables', () => {
+  const azul = game(1, 'Azul')
+  const brass = game(2, 'Brass')
+  const usernames = ['ann', 'ben', 'cat', 'dan']
+  // ann + cat love Azul, ben + dan love Brass
+  const preferences = {
+    ann: [pref('ann', 1, 1), pref('ann', 2, 2)],
+    ben: [pref('ben', 2, 1), pref('ben', 1, 2)],
+    cat: [pref('cat', 1, 1), pref('cat', 2, 2)],
+    dan: [pref('dan', 2, 1), pref('dan', 1, 2)],
+  }
+
+  it('groups players with the game they prefer', () => {
+    const result = computeSplitTables({ games: [azul, brass], preferences, usernames, tableCount: 2, gameOwners: {} })
+
+    expect(tableOf(result, 'ann')?.players.sort()).toEqual(['ann', 'cat'])
+    expect(tableOf(result, 'ann')?.pick?.game.name).toBe('Azul')
+    expect(tableOf(result, 'ben')?.pick?.game.name).toBe('Brass')
+    expect(result?.totalSatisfaction).toBe(4)
+  })
+
+  it('seats an owner at the table that plays their game', () => {
+    const result = computeSplitTables({
+      games: [azul, brass],
+      preferences,
+      usernames,
+      tableCount: 2,
+      gameOwners: { 1: ['ben'], 2: ['ann'] },
+    })
+
+    const azulTable = result?.tables.find((t) => t.pick?.game.bggId === 1)
+    expect(azulTable?.players).toContain('ben')
+    expect(azulTable?.pick?.broughtBy).toBe('ben')
+    expect(result?.tables.find((t) => t.pick?.game.bggId === 2)?.players).toContain('ann')
+  })
+
+  it('skips games a table member disliked or that do not fit the table size', () => {
+    const result = computeSplitTables({
+      games: [azul, brass, game(3, 'Duel', { minPlayers: 2, maxPlayers: 2 })],
+      preferences: { ...preferences, cat: [pref('cat', 1, undefined, { isDisliked: true }), pref('cat', 2, 1)] },
+      usernames: [...usernames, 'eve'],
+      tableCount: 2,
+      gameOwners: {},
+    })
+
+    const catTable = tableOf(result, 'cat')
+    expect(catTable?.pick?.game.name).not.toBe('Azul')
+    expect(result?.tables.every((t) => t.pick !== null)).toBe(true)
+    expect(result?.tables.map((t) => t.players.length).sort()).toEqual([2, 3])
+  })
+
+  it('keeps soft-vetoed games playable at a penalty', () => {
+    const catVetoesBoth = { ...preferences, cat: [pref('cat', 1, undefined, { isDisliked: true }), pref('cat', 2, undefined, { isDisliked: true })] }
+    const input = { games: [azul, brass], preferences: catVetoesBoth, usernames, tableCount: 2, gameOwners: {} }
+
+    expect(tableOf(computeSplitTables(input), 'cat')?.pick).toBeNull()
+
+    const result = computeSplitTables({ ...input, vetoPolicy: { mode: 'soft', maxVetoes: 2 } })
+    const catTable = tableOf(result, 'cat')
+    const others = catTable?.players.filter((u) => u !== 'cat') ?? []
+    expect(catTable?.pick).not.toBeNull()
+    expect(catTable?.pick?.satisfaction).toBe(others.length - SOFT_VETO_PENALTY)
+  })
+
+  it('weights each player\'s satisfaction by their voter weight', () => {
+    const result = computeSplitTables({
+      games: [azul, brass],
+      preferences,
+      usernames,
+      tableCount: 2,
+      gameOwners: {},
+      voterWeights: { ann: 2 },
+    })
+
+    expect(tableOf(result, 'ann')?.pick?.satisfaction).toBe(3)
+    expect(result?.totalSatisfaction).toBe(5)
+  })
+
+  it('needs at least two players per table', () => {
+    expect(computeSplitTables({ games: [azul], preferences, usernames: ['ann', 'ben', 'cat'], tableCount: 2, gameOwners: {} }))
+      .toBeNull()
+  })
+
+  it('ignores the whole-group player count when choosing candidates', () => {
+    const candidates = getSplitTableCandidates([azul, game(4, 'Long', { playingTimeMinutes: 400 })], filters, {})
+    expect(candidates.map((g) => g.name)).toEqual(['Azul'])
+  })
+})
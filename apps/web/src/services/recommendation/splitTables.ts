@@ -0,0 +1,237 @@
+/**
+ * Split-table recommendations for groups too large for one game.
+ *
+ * Partitions the players into 2–3 tables and picks a different game for each
+ * table so the group's total satisfaction is as high as possible:
+ *
+ * - A player's satisfaction with a game is their normalized Borda points plus
+ *   the top-pick bonus (the same numbers the score breakdown shows), times
+ *   their voter weight, so an unweighted player contributes at most 1.5 no
+ *   matter which table they sit at.
+ * - A game is only playable at a table when the table size fits its player
+ *   range (owned expansions included), nobody at the table hard-vetoed it
+ *   under the host's veto policy, and one of its known owners sits at that
+ *   table to bring it. Soft vetoes at the table cost a point each instead.
+ * - Each game is picked for at most one table.
+ *
+ * The search is a deterministic local search (move one player or swap two
+ * between tables) from a couple of balanced starting partitions, which is
+ * plenty for the session maximum of 12 players.
+ */
+import type { GameRecord, UserPreferenceRecord } from '../../db/types'
+import type { VetoPolicy, WizardFilters } from '../../store/wizardTypes'
+import { getRejectedPredicates, type FilterPredicate } from '../filtering/applyGameFilters'
+import { supportsPlayerCount, type OwnedExpansionsByGame } from '../expansions/expansionRange'
+import type { GameTagsByGame } from '../tags/gameTags'
+import type { GameCopiesByGame } from '../lending/gameAvailability'
+import { getBordaPositions, getVoterWeight, type VoterWeights } from './methods'
+import { SOFT_VETO_PENALTY, splitVetoes } from './vetoPolicy'
+
+/** Smallest table worth splitting off */
+export const MIN_TABLE_SIZE = 2
+/** Table counts the host can choose from */
+export const SPLIT_TABLE_COUNTS = [2, 3] as const
+
+/** Best-scoring games per table tried when choosing distinct games */
+const CANDIDATES_PER_TABLE = 4
+const MAX_SEARCH_ROUNDS = 200
+/** Keeps tables without a playable game behind any table with one */
+const MISSING_PICK_PENALTY = 1000
+
+/** Filters that depend on the whole group's size; tables are checked separately */
+const PLAYER_COUNT_PREDICATES = new Set<FilterPredicate>(['playerCount', 'bestWith', 'recommendedAt'])
+
+export interface TablePick {
+  game: GameRecord
+  /** Summed satisfaction of the table's players */
+  satisfaction: number
+  /** Owner at the table who brings the game, when owners are known */
+  broughtBy?: string
+}
+
+export interface SplitTable {
+  players: string[]
+  pick: TablePick | null
+}
+
+export interface SplitTablesResult {
+  tables: SplitTable[]
+  totalSatisfaction: number
+}
+
+export interface SplitTablesInput {
+  /** Candidate games (see `getSplitTableCandidates`) */
+  games: GameRecord[]
+  preferences: Record<string, UserPreferenceRecord[]>
+  usernames: string[]
+  tableCount: number
+  /** bggId -> usernames who own the game */
+  gameOwners: Record<number, string[]>
+  ownedExpansions?: OwnedExpansionsByGame
+  /** Per-player vote multipliers (missing players count 1) */
+  voterWeights?: VoterWeights
+  /** Which dislikes remove a game and which only cost it points */
+  vetoPolicy?: VetoPolicy
+}
+
+/**
+ * Session games that pass every filter except the ones tied to the whole
+ * group's player count.
+ */
+export function getSplitTableCandidates(
+  games: GameRecord[],
+  filters: WizardFilters,
+  userRatings: Record<string, Record<number, number | undefined>>,
+  ownedExpansions: OwnedExpansionsByGame = {},
+  gameTags: GameTagsByGame = {},
+  gameCopies: GameCopiesByGame = {},
+): GameRecord[] {
+  return games.filter((game) =>
+    getRejectedPredicates(game, filters, userRatings, ownedExpansions, gameTags, gameCopies).every((p) => PLAYER_COUNT_PREDICATES.has(p)),
+  )
+}
+
+/**
+ * Split the players into `tableCount` tables with one pick each, or null when
+ * there are too few players for that many tables.
+ */
+export function computeSplitTables(input: SplitTablesInput): SplitTablesResult | null {
+  const { games, preferences, usernames, tableCount, gameOwners, ownedExpansions = {}, voterWeights, vetoPolicy } = input
+  if (tableCount < 2 || usernames.length < tableCount * MIN_TABLE_SIZE) return null
+
+  const eligibleIds = new Set(games.map((g) => g.bggId))
+  const satisfaction = new Map<string, Map<number, number>>()
+  const vetoes = splitVetoes(games, preferences, vetoPolicy)
+  for (const username of usernames) {
+    const prefs = preferences[username] ?? []
+    const positions = getBordaPositions(prefs, (bggId) => eligibleIds.has(bggId))
+    const weight = getVoterWeight(voterWeights, username)
+    satisfaction.set(username, new Map(positions.map((p) => [p.pref.bggId, weight * (p.points + p.bonus)])))
+  }
+
+  const scoreTable = (players: string[], game: GameRecord): TablePick | null => {
+    if (!supportsPlayerCount(game, players.length, ownedExpansions[game.bggId])) return null
+    if (players.some((u) => vetoes.hard[game.bggId]?.includes(u))) return null
+    const owners = gameOwners[game.bggId] ?? []
+    const broughtBy = owners.find((o) => players.includes(o))
+    if (owners.length > 0 && !broughtBy) return null
+    const softVetoes = players.filter((u) => vetoes.soft[game.bggId]?.includes(u)).length
+    const total = players.reduce((sum, u) => sum + (satisfaction.get(u)?.get(game.bggId) ?? 0), 0) - softVetoes * SOFT_VETO_PENALTY
+    return { game, satisfaction: total, broughtBy }
+  }
+
+  const evaluate = (partition: string[][]) => pickDistinctGames(partition, games, scoreTable)
+
+  let best: Evaluated | null = null
+  for (const seed of startingPartitions(usernames, tableCount)) {
+    const result = improve(seed, evaluate)
+    if (!best || result.value > best.value) best = result
+  }
+  if (!best) return null
+
+  const tables = best.partition.map((players, i) => ({ players, pick: best.picks[i] }))
+  const totalSatisfaction = tables.reduce((sum, t) => sum + (t.pick?.satisfaction ?? 0), 0)
+  return { tables, totalSatisfaction: Math.round(totalSatisfaction * 100) / 100 }
+}
+
+interface Evaluated {
+  partition: string[][]
+  picks: Array<TablePick | null>
+  value: number
+}
+
+/** Snake and block distributions of the player list */
+function startingPartitions(usernames: string[], tableCount: number): string[][][] {
+  const snake = Array.from({ length: tableCount }, () => [] as string[])
+  usernames.forEach((u, i) => {
+    const round = Math.floor(i / tableCount)
+    const slot = i % tableCount
+    snake[round % 2 === 0 ? slot : tableCount - 1 - slot].push(u)
+  })
+
+  const blockSize = Math.ceil(usernames.length / tableCount)
+  const blocks = Array.from({ length: tableCount }, (_, t) => usernames.slice(t * blockSize, (t + 1) * blockSize))
+
+  return blocks.every((b) => b.length >= MIN_TABLE_SIZE) ? [snake, blocks] : [snake]
+}
+
+/** Repeatedly apply the first improving move or swap until none is left */
+function improve(seed: string[][], evaluate: (partition: string[][]) => Evaluated): Evaluated {
+  let current = evaluate(seed)
+
+  for (let round = 0; round < MAX_SEARCH_ROUNDS; round++) {
+    const next = neighbours(current.partition).map(evaluate).find((candidate) => candidate.value > current.value + 1e-9)
+    if (!next) break
+    current = next
+  }
+  return current
+}
+
+function neighbours(partition: string[][]): string[][][] {
+  const result: string[][][] = []
+  for (let from = 0; from < partition.length; from++) {
+    for (let to = 0; to < partition.length; to++) {
+      if (from === to) continue
+      for (const player of partition[from]) {
+        // Move one player
+        if (partition[from].length > MIN_TABLE_SIZE) {
+          result.push(partition.map((table, i) => {
+            if (i === from) return table.filter((u) => u !== player)
+            if (i === to) return [...table, player]
+            return table
+          }))
+        }
+        // Swap with each player at a later table
+        if (to > from) {
+          for (const other of partition[to]) {
+            result.push(partition.map((table, i) => {
+              if (i === from) return table.map((u) => (u === player ? other : u))
+              if (i === to) return table.map((u) => (u === other ? player : u))
+              return table
+            }))
+          }
+        }
+      }
+    }
+  }
+  return result
+}
+
+/** Best combination of distinct games across tables */
+function pickDistinctGames(
+  partition: string[][],
+  games: GameRecord[],
+  scoreTable: (players: string[], game: GameRecord) => TablePick | null,
+): Evaluated {
+  const candidates = partition.map((players) =>
+    games
+      .map((game) => scoreTable(players, game))
+      .filter((pick): pick is TablePick => pick !== null)
+      .sort((a, b) => b.satisfaction - a.satisfaction)
+      .slice(0, CANDIDATES_PER_TABLE),
+  )
+
+  let bestPicks: Array<TablePick | null> = partition.map(() => null)
+  let bestValue = -Infinity
+  const chosen: Array<TablePick | null> = []
+
+  const search = (table: number) => {
+    if (table === partition.length) {
+      const value = chosen.reduce((sum, pick) => sum + (pick ? pick.satisfaction : -MISSING_PICK_PENALTY), 0)
+      if (value > bestValue) {
+        bestValue = value
+        bestPicks = [...chosen]
+      }
+      return
+    }
+    const options = candidates[table].filter((pick) => !chosen.some((c) => c?.game.bggId === pick.game.bggId))
+    for (const pick of options.length ? options : [null]) {
+      chosen.push(pick)
+      search(table + 1)
+      chosen.pop()
+    }
+  }
+  search(0)
+
+  return { partition, picks: bestPicks, value: bestValue }
+}
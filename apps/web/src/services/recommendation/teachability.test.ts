@@ -0,0 +1,88 @@
+/**
+ * Tests for teach-aware scoring.
+ */
+import { describe, it, expect } from 'vitest'
+import { testGame, testPref } from '../../test/recommendationTestUtils'
+import type { WizardFilters } from '../../store/wizardTypes'
+import { getTeachAdjustment, NO_TEACHER_PENALTY, WANT_TO_LEARN_BONUS } from './teachability'
+import { computeRecommendation } from './computeRecommendation'
+
+describe('getTeachAdjustment', () => {
+  const usernames = ['alice', 'bob']
+
+  it('penalizes a heavy game nobody present can teach', () => {
+    const result = getTeachAdjustment(testGame(1, { weight: 3.8 }), { alice: [testPref('alice', 1, { knowsRules: true })] }, usernames)
+
+    expect(result.adjustment).toBe(-NO_TEACHER_PENALTY)
+    expect(result.reasons).toEqual(['⚠️ Heavy, nobody can teach'])
+  })
+
+  it('does not penalize light games or games everyone knows', () => {
+    expect(getTeachAdjustment(testGame(1, { weight: 2.2 }), {}, usernames).adjustment).toBe(0)
+
+    const everyoneKnows = {
+      alice: [testPref('alice', 1, { knowsRules: true })],
+      bob: [testPref('bob', 1, { knowsRules: true })],
+    }
+    expect(getTeachAdjustment(testGame(1, { weight: 4 }), everyoneKnows, usernames)).toEqual({ adjustment: 0, reasons: [] })
+  })
+
+  it('names the teachers and adds a bonus for learners', () => {
+    const result = getTeachAdjustment(
+      testGame(1, { weight: 4 }),
+      {
+        alice: [testPref('alice', 1, { knowsRules: true, willingToTeach: true })],
+        bob: [testPref('bob', 1, { wantsToLearn: true })],
+      },
+      usernames,
+    )
+
+    expect(result.adjustment).toBe(WANT_TO_LEARN_BONUS / 2)
+    expect(result.reasons).toEqual(['🎓 alice can teach', '📚 1 player wants to learn'])
+  })
+
+  it('ignores flags of players who are not present', () => {
+    const result = getTeachAdjustment(testGame(1, { weight: 4 }), { carol: [testPref('carol', 1, { willingToTeach: true })] }, usernames)
+
+    expect(result.adjustment).toBe(-NO_TEACHER_PENALTY)
+  })
+})
+
+describe('computeRecommendation teach-aware scoring', () => {
+  const filters: WizardFilters = {
+    playerCount: 2,
+    timeRange: { min: 0, max: 300 },
+    mode: 'any',
+    requireBestWithPlayerCount: false,
+    excludeLowRatedThreshold: null,
+    ageRange: { min: 0, max: 21 },
+    complexityRange: { min: 1, max: 5 },
+    ratingRange: { min: 0, max: 10 },
+  }
+  const input = {
+    games: [testGame(1, { weight: 4.2 }), testGame(2, { weight: 2 }), testGame(3, { weight: 1.5 })],
+    preferences: {
+      alice: [testPref('alice', 1, { rank: 1 }), testPref('alice', 2, { rank: 2 }), testPref('alice', 3, { rank: 3 })],
+      bob: [testPref('bob', 1, { rank: 1 }), testPref('bob', 2, { rank: 2, wantsToLearn: true }), testPref('bob', 3, { rank: 3 })],
+    },
+    filters,
+    users: [{ username: 'alice' }, { username: 'bob' }],
+    promotedPickBggId: null,
+  }
+
+  it('demotes a heavy game without a teacher and favors one to learn when enabled', () => {
+    const result = computeRecommendation({ ...input, teachAware: true })
+
+    expect(result.topPick?.game.bggId).toBe(2)
+    expect(result.topPick?.matchReasons).toContain('📚 1 player wants to learn')
+    expect(result.alternatives[0].score).toBe(1)
+    expect(result.alternatives[0].matchReasons).toContain('⚠️ Heavy, nobody can teach')
+  })
+
+  it('leaves scores alone when disabled', () => {
+    const result = computeRecommendation(input)
+
+    expect(result.topPick?.game.bggId).toBe(1)
+    expect(result.topPick?.score).toBe(2)
+  })
+})
@@ -0,0 +1,69 @@
+/**
+ * Teach-aware scoring.
+ *
+ * Players can flag a game as "knows the rules", "wants to learn" or "willing
+ * to teach". When the host turns teach-aware scoring on, a heavy game that
+ * someone present doesn't know loses a point if nobody present will teach
+ * it, and games the group wants to learn gain up to a point, scaled by the
+ * share of present players asking to learn.
+ */
+import type { GameRecord, UserPreferenceRecord } from '../../db/types'
+
+/** BGG weight above which a game needs someone to teach it */
+export const HEAVY_GAME_WEIGHT = 3
+
+/** Score removed from a heavy game nobody present can teach */
+export const NO_TEACHER_PENALTY = 1
+
+/** Score added when every present player wants to learn the game */
+export const WANT_TO_LEARN_BONUS = 1
+
+export interface TeachAdjustment {
+  /** Additive score adjustment (0 when nothing applies) */
+  adjustment: number
+  /** Match reasons explaining the adjustment */
+  reasons: string[]
+}
+
+export function isHeavyGame(game: Pick<GameRecord, 'weight'>): boolean {
+  return (game.weight ?? 0) > HEAVY_GAME_WEIGHT
+}
+
+/**
+ * Adjustment for one game from the flags of the players present.
+ */
+export function getTeachAdjustment(
+  game: GameRecord,
+  preferences: Record<string, UserPreferenceRecord[]>,
+  usernames: string[],
+): TeachAdjustment {
+  if (usernames.length === 0) return { adjustment: 0, reasons: [] }
+
+  const teachers: string[] = []
+  let learners = 0
+  let everyoneKnows = true
+
+  for (const username of usernames) {
+    const pref = preferences[username]?.find((p) => p.bggId === game.bggId)
+    if (pref?.willingToTeach) teachers.push(username)
+    if (pref?.wantsToLearn) learners++
+    if (!pref?.knowsRules && !pref?.willingToTeach) everyoneKnows = false
+  }
+
+  let adjustment = 0
+  const reasons: string[] = []
+
+  if (teachers.length > 0 && !everyoneKnows) {
+    reasons.push(`🎓 ${teachers.join(', ')} can teach`)
+  } else if (teachers.length === 0 && !everyoneKnows && isHeavyGame(game)) {
+    adjustment -= NO_TEACHER_PENALTY
+    reasons.push('⚠️ Heavy, nobody can teach')
+  }
+
+  if (learners > 0) {
+    adjustment += (learners / usernames.length) * WANT_TO_LEARN_BONUS
+    reasons.push(learners === 1 ? '📚 1 player wants to learn' : `📚 ${learners} players want to learn`)
+  }
+
+  return { adjustment: Math.round(adjustment * 100) / 100, reasons }
+}
@@ -0,0 +1,92 @@
+/**
+ * Tests for the veto policy.
+ */
+import { describe, it, expect } from 'vitest'
+import { testGame, testPref } from '../../test/recommendationTestUtils'
+import type { WizardFilters } from '../../store/wizardTypes'
+import { DEFAULT_VETO_POLICY, getVetoLimit, normalizeVetoPolicy, SOFT_VETO_PENALTY, splitVetoes } from './vetoPolicy'
+import { computeRecommendation } from './computeRecommendation'
+
+const dislike = (username: string, bggId: number, day: number) =>
+  testPref(username, bggId, { isDisliked: true, updatedAt: `2026-01-${String(day).padStart(2, '0')}T10:00:00Z` })
+
+describe('splitVetoes', () => {
+  const games = [testGame(1), testGame(2), testGame(3)]
+  const preferences = { alice: [dislike('alice', 3, 12), dislike('alice', 1, 10), dislike('alice', 2, 11)] }
+
+  it('treats every dislike as hard by default', () => {
+    expect(splitVetoes(games, preferences)).toEqual({ hard: { 1: ['alice'], 2: ['alice'], 3: ['alice'] }, soft: {} })
+  })
+
+  it('keeps only the earliest dislikes hard under a budget', () => {
+    expect(splitVetoes(games, preferences, { mode: 'limited', maxVetoes: 2 })).toEqual({
+      hard: { 1: ['alice'], 2: ['alice'] },
+      soft: { 3: ['alice'] },
+    })
+  })
+
+  it('orders budgeted dislikes by when they were set, not last edited', () => {
+    const edited = { alice: [{ ...dislike('alice', 1, 20), dislikedAt: '2026-01-10T10:00:00Z' }, dislike('alice', 2, 11), dislike('alice', 3, 12)] }
+
+    expect(splitVetoes(games, edited, { mode: 'limited', maxVetoes: 1 }).hard).toEqual({ 1: ['alice'] })
+  })
+
+  it('makes every dislike soft in soft mode and ignores games not in play', () => {
+    expect(splitVetoes([testGame(1)], preferences, { mode: 'soft', maxVetoes: 2 })).toEqual({ hard: {}, soft: { 1: ['alice'] } })
+  })
+})
+
+describe('normalizeVetoPolicy', () => {
+  it('falls back to the default for unknown values', () => {
+    expect(normalizeVetoPolicy(null)).toEqual(DEFAULT_VETO_POLICY)
+    expect(normalizeVetoPolicy({ mode: 'strict', maxVetoes: -1 })).toEqual(DEFAULT_VETO_POLICY)
+    expect(normalizeVetoPolicy({ mode: 'limited', maxVetoes: 3 })).toEqual({ mode: 'limited', maxVetoes: 3 })
+  })
+
+  it('only limits dislikes in limited mode', () => {
+    expect(getVetoLimit({ mode: 'limited', maxVetoes: 3 })).toBe(3)
+    expect(getVetoLimit({ mode: 'soft', maxVetoes: 3 })).toBeNull()
+    expect(getVetoLimit(undefined)).toBeNull()
+  })
+})
+
+describe('computeRecommendation veto policy', () => {
+  const filters: WizardFilters = {
+    playerCount: 2,
+    timeRange: { min: 0, max: 300 },
+    mode: 'any',
+    requireBestWithPlayerCount: false,
+    excludeLowRatedThreshold: null,
+    ageRange: { min: 0, max: 21 },
+    complexityRange: { min: 1, max: 5 },
+    ratingRange: { min: 0, max: 10 },
+  }
+  const input = {
+    games: [testGame(1), testGame(2), testGame(3)],
+    preferences: {
+      alice: [testPref('alice', 1, { rank: 1 }), testPref('alice', 2, { rank: 2 }), testPref('alice', 3, { rank: 3 })],
+      bob: [dislike('bob', 1, 10), testPref('bob', 2, { rank: 1 }), testPref('bob', 3, { rank: 2 })],
+    },
+    filters,
+    users: [{ username: 'alice' }, { username: 'bob' }],
+    promotedPickBggId: null,
+  }
+
+  it('removes disliked games by default', () => {
+    const result = computeRecommendation(input)
+
+    expect(result.vetoed.map((v) => v.game.bggId)).toEqual([1])
+    expect(result.topPick?.game.bggId).toBe(2)
+  })
+
+  it('keeps soft-vetoed games with a penalty and a reason', () => {
+    const soft = computeRecommendation({ ...input, vetoPolicy: { mode: 'soft', maxVetoes: 2 } })
+    const unlimited = computeRecommendation({ ...input, preferences: { ...input.preferences, bob: input.preferences.bob.slice(1) } })
+    const softGame = [soft.topPick, ...soft.alternatives].find((g) => g?.game.bggId === 1)
+    const plainGame = [unlimited.topPick, ...unlimited.alternatives].find((g) => g?.game.bggId === 1)
+
+    expect(soft.vetoed).toEqual([])
+    expect(softGame?.matchReasons[0]).toBe('👎 Vetoed by bob (soft)')
+    expect(softGame?.score).toBe(Math.round(((plainGame?.score ?? 0) - SOFT_VETO_PENALTY) * 100) / 100)
+  })
+})
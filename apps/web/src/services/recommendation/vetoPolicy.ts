@@ -0,0 +1,80 @@
+/**
+ * Veto policy.
+ *
+ * By default any dislike removes a game outright, which lets one player
+ * block half the shelf. The host can instead give every player a budget of
+ * hard vetoes (their earliest dislikes count; any beyond the budget act as
+ * soft vetoes) or make every dislike soft: the game stays in the running
+ * but loses a point per player who dislikes it.
+ */
+import type { GameRecord, UserPreferenceRecord } from '../../db/types'
+import type { VetoMode, VetoPolicy } from '../../store/wizardTypes'
+
+export const VETO_MODES: readonly VetoMode[] = ['unlimited', 'limited', 'soft']
+
+/** Hard-veto budgets offered to the host */
+export const VETO_LIMIT_OPTIONS = [1, 2, 3, 5] as const
+
+export const DEFAULT_VETO_POLICY: VetoPolicy = { mode: 'unlimited', maxVetoes: 2 }
+
+/** Score removed per player with a soft veto on the game */
+export const SOFT_VETO_PENALTY = 1
+
+export function isVetoMode(value: unknown): value is VetoMode {
+  return typeof value === 'string' && (VETO_MODES as readonly string[]).includes(value)
+}
+
+/**
+ * Validate a stored or received policy, falling back to the default.
+ */
+export function normalizeVetoPolicy(value: unknown): VetoPolicy {
+  if (!value || typeof value !== 'object') return DEFAULT_VETO_POLICY
+  const { mode, maxVetoes } = value as Partial<VetoPolicy>
+  return {
+    mode: isVetoMode(mode) ? mode : DEFAULT_VETO_POLICY.mode,
+    maxVetoes: typeof maxVetoes === 'number' && Number.isInteger(maxVetoes) && maxVetoes > 0 ? maxVetoes : DEFAULT_VETO_POLICY.maxVetoes,
+  }
+}
+
+/**
+ * Dislikes each player may mark, or null when there is no limit.
+ */
+export function getVetoLimit(policy: VetoPolicy | undefined): number | null {
+  return policy?.mode === 'limited' ? policy.maxVetoes : null
+}
+
+export interface VetoSplit {
+  /** Players whose dislike removes the game, keyed by bggId */
+  hard: Record<number, string[]>
+  /** Players whose dislike only costs the game points, keyed by bggId */
+  soft: Record<number, string[]>
+}
+
+/**
+ * Sort players' dislikes of the given games into hard and soft vetoes.
+ */
+export function splitVetoes(
+  games: GameRecord[],
+  preferences: Record<string, UserPreferenceRecord[]>,
+  policy: VetoPolicy = DEFAULT_VETO_POLICY,
+): VetoSplit {
+  const gameIds = new Set(games.map((g) => g.bggId))
+  const split: VetoSplit = { hard: {}, soft: {} }
+
+  for (const [username, prefs] of Object.entries(preferences)) {
+    const dislikes = (prefs ?? [])
+      .filter((p) => p.isDisliked && gameIds.has(p.bggId))
+      .sort((a, b) => (a.dislikedAt ?? a.updatedAt).localeCompare(b.dislikedAt ?? b.updatedAt) || a.bggId - b.bggId)
+
+    dislikes.forEach((pref, index) => {
+      const isHard = policy.mode === 'unlimited' || (policy.mode === 'limited' && index < policy.maxVetoes)
+      ;((isHard ? split.hard : split.soft)[pref.bggId] ||= []).push(username)
+    })
+  }
+
+  return split
+}
+
+export function describeSoftVeto(usernames: string[]): string {
+  return `👎 Vetoed by ${usernames.join(', ')} (soft)`
+}
@@ -0,0 +1,112 @@
+/**
+ * Tests for voter weights and the fairness rotation.
+ */
+import { describe, it, expect } from 'vitest'
+import type { SavedNightRecord } from '../../db/types'
+import { testGame, testPref } from '../../test/recommendationTestUtils'
+import type { RecommendationMethod, WizardFilters } from '../../store/wizardTypes'
+import {
+  combineVoterWeights,
+  FAIRNESS_LOOKBACK_NIGHTS,
+  formatVoterWeight,
+  getFairnessBoosts,
+  getPickSupport,
+  toSavedVoterWeights,
+} from './voterWeights'
+import { computeRecommendation } from './computeRecommendation'
+
+const night = (createdAt: string, pickSupport?: Record<string, number>): SavedNightRecord => ({
+  createdAt,
+  data: {
+    name: 'Night',
+    usernames: Object.keys(pickSupport ?? {}),
+    gameIds: [],
+    filters: {},
+    pick: { bggId: 1, name: 'Game', score: 1 },
+    alternatives: [],
+    pickSupport,
+  },
+})
+
+describe('getFairnessBoosts', () => {
+  it('boosts players by their average shortfall on recent nights', () => {
+    const boosts = getFairnessBoosts([
+      night('2026-01-01T20:00:00Z', { alice: 1, bob: 0 }),
+      night('2026-01-08T20:00:00Z', { alice: 1, bob: 0.5 }),
+    ])
+
+    expect(boosts).toEqual({ alice: 1, bob: 1.75 })
+  })
+
+  it('only reads the most recent nights and skips nights without support', () => {
+    const old = Array.from({ length: FAIRNESS_LOOKBACK_NIGHTS }, (_, i) => night(`2025-01-0${i + 1}T20:00:00Z`, { bob: 0 }))
+    const recent = Array.from({ length: FAIRNESS_LOOKBACK_NIGHTS }, (_, i) => night(`2026-01-0${i + 1}T20:00:00Z`, { bob: 1 }))
+
+    expect(getFairnessBoosts([...old, ...recent, night('2026-02-01T20:00:00Z')])).toEqual({ bob: 1 })
+  })
+})
+
+describe('combineVoterWeights', () => {
+  it('multiplies host weights by fairness boosts and drops players at 1', () => {
+    expect(combineVoterWeights({ alice: 2, bob: 0.5 }, { bob: 2, carol: 1.25 })).toEqual({ alice: 2, carol: 1.25 })
+    expect(combineVoterWeights({ alice: 1 })).toEqual({})
+  })
+
+  it('formats weights compactly', () => {
+    expect(formatVoterWeight(2)).toBe('×2')
+    expect(formatVoterWeight(1.5)).toBe('×1.5')
+    expect(formatVoterWeight(1.25)).toBe('×1.25')
+  })
+})
+
+describe('computeRecommendation voter weights', () => {
+  const filters: WizardFilters = {
+    playerCount: 3,
+    timeRange: { min: 0, max: 300 },
+    mode: 'any',
+    requireBestWithPlayerCount: false,
+    excludeLowRatedThreshold: null,
+    ageRange: { min: 0, max: 21 },
+    complexityRange: { min: 1, max: 5 },
+    ratingRange: { min: 0, max: 10 },
+  }
+  // Alice and Bob prefer game 1; Carol prefers game 2
+  const input = {
+    games: [testGame(1), testGame(2)],
+    preferences: {
+      alice: [testPref('alice', 1, { rank: 1 }), testPref('alice', 2, { rank: 2 })],
+      bob: [testPref('bob', 1, { rank: 1 }), testPref('bob', 2, { rank: 2 })],
+      carol: [testPref('carol', 2, { rank: 1 }), testPref('carol', 1, { rank: 2 })],
+    },
+    filters,
+    users: [{ username: 'alice' }, { username: 'bob' }, { username: 'carol' }],
+    promotedPickBggId: null,
+  }
+
+  it.each<RecommendationMethod>(['borda', 'schulze', 'approval', 'kemeny'])('lets a heavier voter swing %s', (method) => {
+    expect(computeRecommendation({ ...input, method }).topPick?.game.bggId).toBe(1)
+    expect(computeRecommendation({ ...input, method, voterWeights: { carol: 3 } }).topPick?.game.bggId).toBe(method === 'approval' ? 1 : 2)
+  })
+
+  it('echoes the weights and shows them in the breakdown', () => {
+    const result = computeRecommendation({ ...input, voterWeights: { carol: 3 } })
+    const carol = result.topPick?.breakdown?.contributions.find((c) => c.username === 'carol')
+
+    expect(result.voterWeights).toEqual({ carol: 3 })
+    expect(carol?.weight).toBe(3)
+    expect(result.topPick?.breakdown?.contributions.find((c) => c.username === 'alice')?.weight).toBeUndefined()
+  })
+
+  it('records weights and pick support for saved nights', () => {
+    const alice = [testPref('alice', 1, { rank: 1, isTopPick: true }), testPref('alice', 2, { rank: 2 })]
+    const result = computeRecommendation({ ...input, preferences: { ...input.preferences, alice } })
+    const saved = toSavedVoterWeights(result.voterWeights, true, result.topPick?.breakdown)
+
+    expect(saved.voterWeights).toBeUndefined()
+    expect(saved.fairnessRotation).toBe(true)
+    expect(saved.pickSupport).toEqual(getPickSupport(result.topPick?.breakdown))
+    expect(saved.pickSupport).toMatchObject({ alice: expect.any(Number), carol: 0 })
+    expect(result.topPick?.game.bggId).toBe(1)
+    expect(saved.pickTopPickedBy).toEqual(['alice'])
+  })
+})
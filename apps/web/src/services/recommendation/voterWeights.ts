@@ -0,0 +1,93 @@
+/**
+ * Voter weights and the fairness rotation.
+ *
+ * The host can give a player more say for one night (the birthday person
+ * counts double). With the fairness rotation on, players whose preferences
+ * lost on recent saved nights get a boost on top: each saved night records
+ * how keen every player was on the pick, and the boost grows with a
+ * player's average shortfall over their last few nights.
+ */
+import type { SavedNightData, SavedNightRecord } from '../../db/types'
+import type { ScoreBreakdown } from '../../hooks/wizard/types'
+import { TOP_PICK_BONUS, type VoterWeights } from './methods'
+
+/** Per-night weights offered to the host */
+export const VOTER_WEIGHT_OPTIONS = [0.5, 1, 1.5, 2] as const
+
+/** Saved nights per player considered by the fairness rotation */
+export const FAIRNESS_LOOKBACK_NIGHTS = 5
+
+/** Boost for a player who got nothing they wanted on every recent night */
+export const FAIRNESS_MAX_BOOST = 1
+
+/**
+ * How keen each player was on a game, 0 (neutral) to 1 (first choice and
+ * top pick), read from its score breakdown.
+ */
+export function getPickSupport(breakdown: ScoreBreakdown | undefined): Record<string, number> {
+  const support: Record<string, number> = {}
+  for (const c of breakdown?.contributions ?? []) {
+    support[c.username] = Math.round(((c.bordaPoints + c.topPickBonus) / (1 + TOP_PICK_BONUS)) * 100) / 100
+  }
+  return support
+}
+
+/**
+ * Fairness multiplier per player from saved-night history. Only nights
+ * saved with pick support count; players without such nights get no entry.
+ */
+export function getFairnessBoosts(nights: SavedNightRecord[]): VoterWeights {
+  const shortfalls: Record<string, number[]> = {}
+  const newestFirst = [...nights].sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+
+  for (const night of newestFirst) {
+    const support = night.data.pickSupport
+    if (!support) continue
+    for (const [username, value] of Object.entries(support)) {
+      const list = (shortfalls[username] ||= [])
+      if (list.length < FAIRNESS_LOOKBACK_NIGHTS) list.push(1 - value)
+    }
+  }
+
+  const boosts: VoterWeights = {}
+  for (const [username, list] of Object.entries(shortfalls)) {
+    const mean = list.reduce((sum, v) => sum + v, 0) / list.length
+    boosts[username] = Math.round((1 + FAIRNESS_MAX_BOOST * mean) * 100) / 100
+  }
+  return boosts
+}
+
+/**
+ * Weights used for scoring: the host's weight times the fairness boost.
+ * Players at 1 are left out.
+ */
+export function combineVoterWeights(manual: VoterWeights, boosts: VoterWeights = {}): VoterWeights {
+  const combined: VoterWeights = {}
+  for (const username of new Set([...Object.keys(manual), ...Object.keys(boosts)])) {
+    const weight = Math.round((manual[username] ?? 1) * (boosts[username] ?? 1) * 100) / 100
+    if (weight !== 1) combined[username] = weight
+  }
+  return combined
+}
+
+export function formatVoterWeight(weight: number): string {
+  return `×${weight.toFixed(2).replace(/\.?0+$/, '')}`
+}
+
+/**
+ * Saved-night fields recording the weights behind a pick, how keen each
+ * player was on it (the input to future fairness boosts) and who had it as a
+ * top pick.
+ */
+export function toSavedVoterWeights(
+  voterWeights: VoterWeights | undefined,
+  fairnessRotation: boolean,
+  pickBreakdown: ScoreBreakdown | undefined,
+): Pick<SavedNightData, 'voterWeights' | 'fairnessRotation' | 'pickSupport' | 'pickTopPickedBy'> {
+  return {
+    voterWeights: voterWeights && Object.keys(voterWeights).length > 0 ? voterWeights : undefined,
+    fairnessRotation: fairnessRotation || undefined,
+    pickSupport: pickBreakdown ? getPickSupport(pickBreakdown) : undefined,
+    pickTopPickedBy: pickBreakdown?.contributions.filter((c) => c.isTopPick).map((c) => c.username),
+  }
+}
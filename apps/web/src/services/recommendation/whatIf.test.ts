@@ -0,0 +1,80 @@
+/**
+ * Tests for the "what if" attendance simulator.
+ */
+import { describe, it, expect } from 'vitest'
+import { getSubsets, simulateWhatIf, type WhatIfInput } from './whatIf'
+import type { GameRecord, UserPreferenceRecord } from '../../db/types'
+import { DEFAULT_FILTERS } from '../filtering/filterConstants'
+
+const game = (bggId: number, name: string, minPlayers: number, maxPlayers: number): GameRecord => ({
+  bggId,
+  name,
+  minPlayers,
+  maxPlayers,
+  playingTimeMinutes: 60,
+  lastFetchedAt: '2026-01-10T10:00:00Z',
+})
+
+const ranked = (username: string, ...bggIds: number[]): UserPreferenceRecord[] =>
+  bggIds.map((bggId, i) => ({ username, bggId, rank: i + 1, isTopPick: false, isDisliked: false, updatedAt: '' }))
+
+// Azul seats at most 3; Catan 2-6
+const input: WhatIfInput = {
+  sessionGames: [game(1, 'Azul', 2, 3), game(2, 'Catan', 2, 6)],
+  filters: { ...DEFAULT_FILTERS, playerCount: 3 },
+  usernames: ['alice', 'bob', 'carol'],
+  optionalUsernames: ['dave'],
+  preferences: {
+    alice: ranked('alice', 1),
+    bob: ranked('bob', 1),
+    carol: ranked('carol', 2, 1),
+    dave: ranked('dave', 2),
+  },
+  userRatings: {},
+}
+
+const scenario = (result: ReturnType<typeof simulateWhatIf>, absent: string[], added: string[] = []) =>
+  result.scenarios.find((s) => s.absent.join() === absent.join() && s.added.join() === added.join())
+
+describe('simulateWhatIf', () => {
+  it('lists subsets smallest first', () => {
+    expect(getSubsets(['a', 'b', 'c'], 2)).toEqual([['a'], ['b'], ['c'], ['a', 'b'], ['a', 'c'], ['b', 'c']])
+    expect(getSubsets(['a'], 0)).toEqual([])
+  })
+
+  it('simulates every absent subset (someone always stays) and each optional player', () => {
+    const result = simulateWhatIf(input)
+
+    expect(result.baseline?.game.name).toBe('Azul')
+    expect(result.scenarios).toHaveLength(7)
+    expect(scenario(result, ['carol'])).toMatchObject({ playerCount: 2, changesPick: false })
+    // Nothing seats carol alone
+    expect(scenario(result, ['alice', 'bob'])).toMatchObject({ playerCount: 1, topPick: null, changesPick: true })
+  })
+
+  it('filters games again for the scenario player count', () => {
+    const withDave = scenario(simulateWhatIf(input), [], ['dave'])
+
+    expect(withDave).toMatchObject({ playerCount: 4, changesPick: true })
+    expect(withDave?.topPick?.game.name).toBe('Catan')
+  })
+
+  it('only counts ratings of players present', () => {
+    const lowRated = simulateWhatIf({
+      ...input,
+      filters: { ...input.filters, excludeLowRatedThreshold: 5 },
+      userRatings: { carol: { 1: 3 } },
+    })
+
+    expect(lowRated.baseline?.game.name).toBe('Catan')
+    expect(scenario(lowRated, ['carol'])?.topPick?.game.name).toBe('Azul')
+  })
+
+  it('caps how many players are missing at once', () => {
+    expect(simulateWhatIf({ ...input, optionalUsernames: [], maxAbsent: 1 }).scenarios.map((s) => s.absent)).toEqual([
+      ['alice'],
+      ['bob'],
+      ['carol'],
+    ])
+  })
+})
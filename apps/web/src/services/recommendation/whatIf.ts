@@ -0,0 +1,134 @@
+/**
+ * "What if" simulator for uncertain attendance.
+ *
+ * Before the night it's often unclear who will show up. The simulator reruns
+ * the whole pipeline for alternative line-ups: every combination of up to
+ * `maxAbsent` missing players, plus each optional player joining on their
+ * own. Each scenario gets its own player count, so the games are filtered
+ * again with `applyGameFilters` (absent players' ratings no longer count for
+ * the low-rated filter) before `computeRecommendation` scores them.
+ */
+import type { GameRecord, UserPreferenceRecord } from '../../db/types'
+import type { WizardFilters } from '../../store/wizardTypes'
+import type { ScoredGame } from '../../hooks/wizard/types'
+import { applyGameFilters } from '../filtering/applyGameFilters'
+import type { OwnedExpansionsByGame } from '../expansions/expansionRange'
+import type { GameTagsByGame } from '../tags/gameTags'
+import type { GameCopiesByGame } from '../lending/gameAvailability'
+import { computeRecommendation, type ComputeRecommendationInput } from './computeRecommendation'
+
+/** Most players missing at once in a scenario (keeps large groups quick) */
+export const DEFAULT_MAX_ABSENT = 3
+
+export interface WhatIfScenario {
+  /** Tonight's players missing in this scenario */
+  absent: string[]
+  /** Optional player joining in this scenario */
+  added: string[]
+  playerCount: number
+  topPick: ScoredGame | null
+  /** Top pick differs from the full line-up's */
+  changesPick: boolean
+}
+
+export interface WhatIfResult {
+  baseline: ScoredGame | null
+  scenarios: WhatIfScenario[]
+}
+
+export interface WhatIfInput
+  extends Pick<
+    ComputeRecommendationInput,
+    'method' | 'voterWeights' | 'recentPlays' | 'recencyPenaltyDays' | 'vetoPolicy' | 'teachAware' | 'now'
+  > {
+  /** Session games before filtering */
+  sessionGames: GameRecord[]
+  filters: WizardFilters
+  /** Tonight's players */
+  usernames: string[]
+  /** Players who might join */
+  optionalUsernames: string[]
+  /** Preferences of tonight's and optional players */
+  preferences: Record<string, UserPreferenceRecord[]>
+  /** Ratings of tonight's and optional players */
+  userRatings: Record<string, Record<number, number | undefined>>
+  ownedExpansions?: OwnedExpansionsByGame
+  gameTags?: GameTagsByGame
+  gameCopies?: GameCopiesByGame
+  maxAbsent?: number
+}
+
+/**
+ * Subsets of `items` with 1..maxSize members, smallest first.
+ */
+export function getSubsets<T>(items: T[], maxSize: number): T[][] {
+  const subsets: T[][] = []
+  const build = (start: number, current: T[], size: number) => {
+    if (current.length === size) {
+      subsets.push([...current])
+      return
+    }
+    for (let i = start; i < items.length; i++) {
+      current.push(items[i])
+      build(i + 1, current, size)
+      current.pop()
+    }
+  }
+  for (let size = 1; size <= Math.min(maxSize, items.length); size++) build(0, [], size)
+  return subsets
+}
+
+function pick<T>(record: Record<string, T>, keys: string[]): Record<string, T> {
+  return Object.fromEntries(keys.filter((k) => k in record).map((k) => [k, record[k]]))
+}
+
+/**
+ * Top pick for tonight's line-up and for every simulated one.
+ * At least one player always stays.
+ */
+export function simulateWhatIf(input: WhatIfInput): WhatIfResult {
+  const { usernames, optionalUsernames, filters } = input
+  const optional = optionalUsernames.filter((u) => !usernames.includes(u))
+
+  const run = (absent: string[], added: string[]) => {
+    const players = [...usernames.filter((u) => !absent.includes(u)), ...added]
+    const playerCount = Math.max(1, filters.playerCount - absent.length + added.length)
+    const scenarioFilters = { ...filters, playerCount }
+    const games = applyGameFilters(
+      input.sessionGames,
+      scenarioFilters,
+      pick(input.userRatings, players),
+      input.ownedExpansions,
+      input.gameTags,
+      input.gameCopies,
+    )
+    const { topPick } = computeRecommendation({
+      games,
+      preferences: pick(input.preferences, players),
+      filters: scenarioFilters,
+      users: players.map((username) => ({ username })),
+      promotedPickBggId: null,
+      method: input.method,
+      voterWeights: input.voterWeights && pick(input.voterWeights, players),
+      recentPlays: input.recentPlays,
+      recencyPenaltyDays: input.recencyPenaltyDays,
+      vetoPolicy: input.vetoPolicy,
+      teachAware: input.teachAware,
+      now: input.now,
+      ownedExpansions: input.ownedExpansions,
+      maxAlternatives: 0,
+    })
+    return { absent, added, playerCount, topPick }
+  }
+
+  const baseline = run([], []).topPick
+  const lineups = [
+    ...getSubsets(usernames, Math.min(input.maxAbsent ?? DEFAULT_MAX_ABSENT, usernames.length - 1)).map((absent) => run(absent, [])),
+    ...optional.map((username) => run([], [username])),
+  ]
+
+  return {
+    baseline,
+    scenarios: lineups.map((s) => ({ ...s, changesPick: s.topPick?.game.bggId !== baseline?.game.bggId })),
+  }
+}
@@ -39,6 +39,7 @@ export async function importSharedPreferencesToGuest(
       username: GUEST_USERNAME,
       bggId: pref.bggId,
       rank: pref.rank ?? undefined,
+      tier: pref.tier ?? undefined,
       isTopPick: pref.isTopPick ?? false,
       isDisliked: pref.isDisliked ?? false,
       updatedAt: now,
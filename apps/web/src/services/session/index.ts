@@ -17,6 +17,9 @@ export {
   getReadyParticipantPreferences,
   markParticipantReady,
   setSessionSelectedGame,
+  setSessionRunoff,
+  setSessionVetoPolicy,
+  submitRunoffBallot,
   closeSession,
   deleteSession,
 } from './sessionService';
@@ -41,4 +44,5 @@ export type {
   ParticipantPreferencesInfo,
   SessionResultInfo,
   CloseSessionResult,
+  SessionRunoffInfo,
 } from './types';
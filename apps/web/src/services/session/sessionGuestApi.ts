@@ -80,3 +80,16 @@ export async function submitGuestPreferences(
 
   return { preferencesCount: result.preferencesCount }
 }
+
+export async function submitRunoffBallot(
+  sessionId: string,
+  runoffStartedAt: string,
+  ranking: number[],
+): Promise<{ ballotCount: number }> {
+  const result = await callFunction<
+    { sessionId: string; runoffStartedAt: string; ranking: number[] },
+    { ok: boolean; ballotCount: number }
+  >('submitRunoffBallot', { sessionId, runoffStartedAt, ranking })
+
+  return { ballotCount: result.ballotCount }
+}
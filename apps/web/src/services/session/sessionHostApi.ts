@@ -1,4 +1,5 @@
 import { callFunction, callFunctionNoRetry } from '../firebase'
+import type { VetoPolicy } from '../../store/wizardTypes'
 import type {
   CloseSessionResult,
   CreateSessionOptions,
@@ -24,6 +25,7 @@ export async function createSession(options: CreateSessionOptions): Promise<Crea
       hostDisplayName: string
       shareMode?: 'quick' | 'detailed'
       showOtherParticipantsPicks?: boolean
+      vetoPolicy?: VetoPolicy
       gameIds: string[]
       games: SessionGameData[]
       namedParticipants?: NamedParticipantData[]
@@ -41,6 +43,7 @@ export async function createSession(options: CreateSessionOptions): Promise<Crea
     hostDisplayName: options.hostDisplayName,
     shareMode: options.shareMode,
     showOtherParticipantsPicks: options.showOtherParticipantsPicks,
+    vetoPolicy: options.vetoPolicy,
     gameIds: options.games.map((g) => g.gameId),
     games: options.games,
     namedParticipants: options.namedParticipants,
@@ -118,6 +121,23 @@ export async function setSessionSelectedGame(
   return { sessionId: response.sessionId, status: response.status, selectedAt: new Date(response.selectedAt) }
 }
 
+export async function setSessionRunoff(
+  sessionId: string,
+  games: Array<{ bggId: number; name: string }> | null,
+): Promise<void> {
+  await callFunction<
+    { sessionId: string; games: Array<{ bggId: number; name: string }> | null },
+    { ok: boolean; sessionId: string; isOpen: boolean }
+  >('setSessionRunoff', { sessionId, games })
+}
+
+export async function setSessionVetoPolicy(sessionId: string, vetoPolicy: VetoPolicy): Promise<void> {
+  await callFunction<
+    { sessionId: string; vetoPolicy: VetoPolicy },
+    { ok: boolean; sessionId: string; vetoPolicy: VetoPolicy }
+  >('setSessionVetoPolicy', { sessionId, vetoPolicy })
+}
+
 export async function closeSession(
   sessionId: string,
   result?: CloseSessionResult,
@@ -5,6 +5,7 @@ export {
   getSessionGames,
   getSharedPreferences,
   submitGuestPreferences,
+  submitRunoffBallot,
 } from './sessionGuestApi'
 export {
   createSession,
@@ -14,6 +15,8 @@ export {
   getAllGuestPreferences,
   getReadyParticipantPreferences,
   setSessionSelectedGame,
+  setSessionRunoff,
+  setSessionVetoPolicy,
   closeSession,
   deleteSession,
 } from './sessionHostApi'
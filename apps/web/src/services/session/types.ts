@@ -4,6 +4,9 @@
  * Types for session creation and management.
  */
 
+import type { PreferenceTier } from '../../db/types';
+import type { VetoPolicy } from '../../store/wizardTypes';
+
 /**
  * Game data for session creation (from Dexie).
  */
@@ -44,6 +47,8 @@ export interface CreateSessionOptions {
   shareMode?: 'quick' | 'detailed';
   /** Detailed share only: whether guests can see the Other Participants' Picks panel */
   showOtherParticipantsPicks?: boolean;
+  /** Host's veto policy (guests' dislikes are checked against it) */
+  vetoPolicy?: VetoPolicy;
   /** Games to include in the session */
   games: SessionGameData[];
   /** Named participants with optional shared preferences */
@@ -197,6 +202,8 @@ export interface SharedGamePreference {
   bggId: number;
   /** Preference rank (1 = highest, null = no rank) */
   rank?: number | null;
+  /** Preference tier used instead of a rank (ties allowed, null = none) */
+  tier?: PreferenceTier | null;
   /** Whether this is a top pick */
   isTopPick?: boolean;
   /** Whether this is disliked */
@@ -239,3 +246,15 @@ export interface ParticipantPreferencesInfo {
 
 // Alias used when closing sessions (host-selected pick payload)
 export type CloseSessionResult = SessionResultInfo;
+
+/**
+ * Runoff between tied games, pushed to guests by the host.
+ */
+export interface SessionRunoffInfo {
+  /** When the host opened this runoff (ISO string); identifies it when voting */
+  startedAt: string
+  /** Tied games on the ballot */
+  games: Array<{ bggId: number; name: string }>;
+  /** Ballots received so far (rankings best first) */
+  ballots: Array<{ participantId: string; displayName: string; ranking: number[] }>;
+}
@@ -1,9 +1,11 @@
-import type { WizardFilters } from '../../store/wizardTypes'
+import type { PreferenceTier } from '../../db/types'
+import type { RecommendationMethod, WizardFilters } from '../../store/wizardTypes'
 import type { SessionWizardState } from './wizardStateStorage'
 
 type PreferenceLike = {
   bggId: number
   rank?: number | null
+  tier?: PreferenceTier
   isTopPick: boolean
   isDisliked: boolean
 }
@@ -15,8 +17,9 @@ export function buildSessionWizardStateSnapshot(args: {
   filters: WizardFilters
   preferences: Record<string, PreferenceLike[]>
   activeStep: number
+  recommendationMethod?: RecommendationMethod
 }): SessionWizardState {
-  const { users, sessionGameIds, excludedBggIds, filters, preferences, activeStep } = args
+  const { users, sessionGameIds, excludedBggIds, filters, preferences, activeStep, recommendationMethod } = args
 
   return {
     usernames: users.map((u) => u.username),
@@ -31,12 +34,14 @@ export function buildSessionWizardStateSnapshot(args: {
           // Preserve undefined ranks. JSON.stringify omits undefined fields,
           // which is what we want for neutral (unranked) preferences.
           rank: p.rank ?? undefined,
+          tier: p.tier,
           isTopPick: p.isTopPick,
           isDisliked: p.isDisliked,
         })),
       ])
     ),
     activeStep,
+    recommendationMethod,
     savedAt: new Date().toISOString(),
   }
 }
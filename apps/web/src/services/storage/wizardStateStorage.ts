@@ -1,5 +1,11 @@
 import { db } from '../../db'
-import type { SessionWizardStateRecord, WizardStateRecord } from '../../db/types'
+import type { PreferenceTier, SessionWizardStateRecord, WizardStateRecord } from '../../db/types'
+import type { RecommendationMethod, VetoPolicy, WizardFilters } from '../../store/wizardTypes'
+import type { LearningFlags } from '../preferences/preferenceRules'
+import { DEFAULT_RECOMMENDATION_METHOD, isRecommendationMethod } from '../recommendation/methods'
+import { DEFAULT_RECENCY_PENALTY_DAYS, MAX_RECENCY_PENALTY_DAYS } from '../recommendation/recencyPenalty'
+import { normalizeVetoPolicy } from '../recommendation/vetoPolicy'
+import { DEFAULT_TIE_EPSILON, isTieEpsilon } from '../recommendation/runoff'
 
 export async function loadWizardState<T>(): Promise<T | null> {
   const record = await db.wizardState.get('singleton')
@@ -108,6 +114,85 @@ export function clearPersistedActiveStep(): void {
   localStorage.removeItem('wizardActiveStep')
 }
 
+/**
+ * Get the host's persisted voting method from localStorage.
+ * Falls back to the default method if missing or unknown.
+ */
+export function getPersistedRecommendationMethod(): RecommendationMethod {
+  const stored = localStorage.getItem('wizardRecommendationMethod')
+  return isRecommendationMethod(stored) ? stored : DEFAULT_RECOMMENDATION_METHOD
+}
+
+/**
+ * Persist the host's voting method to localStorage.
+ */
+export function setPersistedRecommendationMethod(method: RecommendationMethod): void {
+  localStorage.setItem('wizardRecommendationMethod', method)
+}
+
+/**
+ * Get the host's recently-played penalty window (days, 0 = off).
+ */
+export function getPersistedRecencyPenaltyDays(): number {
+  const stored = localStorage.getItem('wizardRecencyPenaltyDays')
+  const days = stored === null ? Number.NaN : Number(stored)
+  return Number.isInteger(days) && days >= 0 && days <= MAX_RECENCY_PENALTY_DAYS ? days : DEFAULT_RECENCY_PENALTY_DAYS
+}
+
+export function setPersistedRecencyPenaltyDays(days: number): void {
+  localStorage.setItem('wizardRecencyPenaltyDays', String(days))
+}
+
+/**
+ * Get whether the host turned on teach-aware scoring (off by default).
+ */
+export function getPersistedTeachAware(): boolean {
+  return localStorage.getItem('wizardTeachAware') === 'true'
+}
+
+export function setPersistedTeachAware(enabled: boolean): void {
+  localStorage.setItem('wizardTeachAware', String(enabled))
+}
+
+/**
+ * Get the host's veto policy (unlimited hard vetoes by default).
+ */
+export function getPersistedVetoPolicy(): VetoPolicy {
+  try {
+    return normalizeVetoPolicy(JSON.parse(localStorage.getItem('wizardVetoPolicy') ?? 'null'))
+  } catch {
+    return normalizeVetoPolicy(null)
+  }
+}
+
+export function setPersistedVetoPolicy(policy: VetoPolicy): void {
+  localStorage.setItem('wizardVetoPolicy', JSON.stringify(policy))
+}
+
+/**
+ * Get the score margin within which the top games count as tied.
+ */
+export function getPersistedTieEpsilon(): number {
+  const stored = localStorage.getItem('wizardTieEpsilon')
+  const epsilon = stored === null ? Number.NaN : Number(stored)
+  return isTieEpsilon(epsilon) ? epsilon : DEFAULT_TIE_EPSILON
+}
+
+export function setPersistedTieEpsilon(epsilon: number): void {
+  localStorage.setItem('wizardTieEpsilon', String(epsilon))
+}
+
+/**
+ * Get whether the host turned on the fairness rotation (off by default).
+ */
+export function getPersistedFairnessRotation(): boolean {
+  return localStorage.getItem('wizardFairnessRotation') === 'true'
+}
+
+export function setPersistedFairnessRotation(enabled: boolean): void {
+  localStorage.setItem('wizardFairnessRotation', String(enabled))
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // Session-Specific Wizard State Storage (REQ-108)
 // Stores wizard state (users, filters, preferences) per-session to enable
@@ -163,25 +248,19 @@ export interface SessionWizardState {
   /** Games excluded from this session */
   excludedBggIds: number[]
   /** Filter settings for this session */
-  filters: {
-    playerCount: number
-    timeRange: { min: number; max: number }
-    mode: 'coop' | 'competitive' | 'any'
-    requireBestWithPlayerCount: boolean
-    excludeLowRatedThreshold: number | null
-    ageRange: { min: number; max: number }
-    complexityRange: { min: number; max: number }
-    ratingRange: { min: number; max: number }
-  }
+  filters: WizardFilters
   /** User preferences for this session */
   preferences: Record<string, Array<{
     bggId: number
     rank?: number
+    tier?: PreferenceTier
     isTopPick: boolean
     isDisliked: boolean
-  }>>
+  } & LearningFlags>>
   /** Active wizard step */
   activeStep: number
+  /** Voting method chosen for this session (older snapshots omit it) */
+  recommendationMethod?: RecommendationMethod
   /** Timestamp when state was saved */
   savedAt: string
 }
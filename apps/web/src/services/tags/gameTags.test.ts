@@ -0,0 +1,30 @@
+import { getTagCounts, getTaggedGameIds, groupGameTags, matchesTagFilter } from './gameTags'
+
+describe('gameTags', () => {
+  const gameTags = groupGameTags([
+    { tagId: 1, bggId: 10 },
+    { tagId: 2, bggId: 10 },
+    { tagId: 2, bggId: 20 },
+  ])
+
+  it('groups tag ids by game', () => {
+    expect(gameTags).toEqual({ 10: [1, 2], 20: [2] })
+  })
+
+  it('passes games carrying any selected tag', () => {
+    expect(matchesTagFilter(10, [1], gameTags)).toBe(true)
+    expect(matchesTagFilter(20, [1, 2], gameTags)).toBe(true)
+    expect(matchesTagFilter(20, [1], gameTags)).toBe(false)
+    expect(matchesTagFilter(30, [1], gameTags)).toBe(false)
+  })
+
+  it('passes every game when no tags are selected', () => {
+    expect(matchesTagFilter(30, [], gameTags)).toBe(true)
+    expect(matchesTagFilter(30, undefined, gameTags)).toBe(true)
+  })
+
+  it('finds tagged games and counts tags among a set of games', () => {
+    expect(getTaggedGameIds(2, [30, 20, 10], gameTags)).toEqual([20, 10])
+    expect(getTagCounts([10, 20, 30], gameTags)).toEqual(new Map([[1, 1], [2, 2]]))
+  })
+})
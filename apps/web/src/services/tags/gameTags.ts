@@ -0,0 +1,45 @@
+/**
+ * User-defined tags on games: grouping the join records and the tag filter.
+ */
+import type { GameTagRecord } from '../../db/types'
+
+/** Tag ids keyed by game bggId */
+export type GameTagsByGame = Record<number, number[]>
+
+export function groupGameTags(records: GameTagRecord[]): GameTagsByGame {
+  const byGame: GameTagsByGame = {}
+  for (const record of records) {
+    ;(byGame[record.bggId] ||= []).push(record.tagId)
+  }
+  return byGame
+}
+
+/**
+ * Whether a game carries at least one of the selected tags. No selected tags
+ * means every game passes.
+ */
+export function matchesTagFilter(bggId: number, tagIds: number[] | undefined, gameTags: GameTagsByGame): boolean {
+  if (!tagIds?.length) return true
+  const tags = gameTags[bggId] ?? []
+  return tagIds.some((id) => tags.includes(id))
+}
+
+/**
+ * The ids in `bggIds` whose game carries a tag, in the same order.
+ */
+export function getTaggedGameIds(tagId: number, bggIds: number[], gameTags: GameTagsByGame): number[] {
+  return bggIds.filter((bggId) => gameTags[bggId]?.includes(tagId))
+}
+
+/**
+ * How many of the given games carry each tag.
+ */
+export function getTagCounts(bggIds: number[], gameTags: GameTagsByGame): Map<number, number> {
+  const counts = new Map<number, number>()
+  for (const bggId of bggIds) {
+    for (const tagId of new Set(gameTags[bggId] ?? [])) {
+      counts.set(tagId, (counts.get(tagId) ?? 0) + 1)
+    }
+  }
+  return counts
+}
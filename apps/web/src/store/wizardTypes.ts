@@ -1,5 +1,15 @@
 export type GameMode = 'coop' | 'competitive' | 'any'
 
+/** GameRecord list fields that can be filtered value by value. */
+export type GameFacet = 'mechanics' | 'categories' | 'designers'
+
+export interface FacetFilter {
+  /** Keep only games with at least one of these values (empty = any) */
+  include: string[]
+  /** Hide games with any of these values */
+  exclude: string[]
+}
+
 export interface WizardFilters {
   playerCount: number
   timeRange: { min: number; max: number }
@@ -8,6 +18,9 @@ export interface WizardFilters {
   /** Only show games explicitly marked as “best with” the selected player count. */
   requireBestWithPlayerCount: boolean
 
+  /** Only show games the BGG poll recommends at the selected player count (older snapshots omit it) */
+  requireRecommendedPlayerCount?: boolean
+
   /** Exclude games rated below this by any player (null = off) */
   excludeLowRatedThreshold: number | null
 
@@ -19,4 +32,25 @@ export interface WizardFilters {
 
   /** BGG average rating (0–10) */
   ratingRange: { min: number; max: number }
+
+  /** Include/exclude mechanics, categories and designers (older snapshots omit it) */
+  facets?: Partial<Record<GameFacet, FacetFilter>>
+
+  /** Keep only games carrying at least one of these user tags (empty = any; older snapshots omit it) */
+  tagIds?: number[]
+
+  /** Keep only games with a copy at this location that is not lent out (null = off; older snapshots omit it) */
+  availableAt?: string | null
+}
+
+/** Voting method used to turn player preferences into a recommendation. */
+export type RecommendationMethod = 'borda' | 'schulze' | 'approval' | 'kemeny'
+
+/** How players' dislikes (vetoes) affect the recommendation. */
+export type VetoMode = 'unlimited' | 'limited' | 'soft'
+
+export interface VetoPolicy {
+  mode: VetoMode
+  /** Hard vetoes each player may use when `mode` is 'limited' */
+  maxVetoes: number
 }
@@ -0,0 +1,13 @@
+import type { GameRecord, UserPreferenceRecord } from '../db/types'
+
+const FETCHED_AT = '2026-01-10T10:00:00Z'
+
+/** A 2–4 player game named after its id */
+export function testGame(bggId: number, overrides: Partial<GameRecord> = {}): GameRecord {
+  return { bggId, name: `Game ${bggId}`, minPlayers: 2, maxPlayers: 4, lastFetchedAt: FETCHED_AT, ...overrides }
+}
+
+/** A neutral preference (no rank, tier, top pick or dislike) unless overridden */
+export function testPref(username: string, bggId: number, overrides: Partial<UserPreferenceRecord> = {}): UserPreferenceRecord {
+  return { username, bggId, isTopPick: false, isDisliked: false, updatedAt: FETCHED_AT, ...overrides }
+}
@@ -41,6 +41,12 @@ export {
   getReadyParticipantPreferences,
 } from './session/index.js';
 
+// Runoff between tied top games
+export { setSessionRunoff, submitRunoffBallot } from './session/index.js';
+
+// Host's veto policy, editable while the session is open
+export { setSessionVetoPolicy } from './session/index.js';
+
 /**
  * Health check endpoint for testing emulator connectivity.
  */
@@ -16,7 +16,9 @@ import type {
   SessionMember,
   SharedGame,
   SharedPreference,
+  VetoPolicy,
 } from './types.js';
+import { parseVetoPolicy } from './vetoPolicy.js';
 
 /**
  * Default session TTL in hours.
@@ -105,6 +107,14 @@ export const createSession = onCall(async (request) => {
     );
   }
 
+  // Validate veto policy (optional; older clients don't send one)
+  let vetoPolicy: VetoPolicy | null;
+  try {
+    vetoPolicy = parseVetoPolicy(req.vetoPolicy);
+  } catch (err) {
+    throw new HttpsError('invalid-argument', err instanceof Error ? err.message : 'Invalid vetoPolicy');
+  }
+
   // 4. Prepare timestamps
   const now = Timestamp.now();
   const expiresAt = Timestamp.fromMillis(
@@ -209,6 +219,7 @@ export const createSession = onCall(async (request) => {
     expiresAt,
     shareMode,
     showOtherParticipantsPicks,
+    ...(vetoPolicy ? { vetoPolicy } : {}),
   };
   batch.set(sessionRef, session);
 
@@ -24,5 +24,12 @@ export { deleteSession } from './deleteSession.js';
 export { setSessionSelectedGame } from './setSessionSelectedGame.js';
 export { getReadyParticipantPreferences } from './getReadyParticipantPreferences.js';
 
+// Runoff between tied top games
+export { setSessionRunoff } from './setSessionRunoff.js';
+export { submitRunoffBallot } from './submitRunoffBallot.js';
+
+// Host's veto policy, editable while the session is open
+export { setSessionVetoPolicy } from './setSessionVetoPolicy.js';
+
 export * from './types.js';
 
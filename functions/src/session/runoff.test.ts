@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { parseRunoffGames, parseRunoffRanking } from './runoff.js';
+
+const runoff = { games: [{ bggId: 1, name: 'Azul' }, { bggId: 2, name: 'Catan' }] };
+
+describe('parseRunoffGames', () => {
+  it('accepts tied games and treats a missing list as clearing the runoff', () => {
+    expect(parseRunoffGames(null)).toBeNull();
+    expect(parseRunoffGames([{ bggId: 1, name: ' Azul ' }, { bggId: 2 }])).toEqual([
+      { bggId: 1, name: 'Azul' },
+      { bggId: 2, name: 'Game 2' },
+    ]);
+  });
+
+  it('rejects single games, bad ids and repeats', () => {
+    expect(() => parseRunoffGames([{ bggId: 1 }])).toThrow(/between 2/);
+    expect(() => parseRunoffGames([{ bggId: 1 }, { bggId: -2 }])).toThrow(/bggId/);
+    expect(() => parseRunoffGames([{ bggId: 1 }, { bggId: 1 }])).toThrow(/repeat/);
+  });
+});
+
+describe('parseRunoffRanking', () => {
+  it('accepts full and partial rankings of the runoff games', () => {
+    expect(parseRunoffRanking([2, 1], runoff)).toEqual([2, 1]);
+    expect(parseRunoffRanking([2], runoff)).toEqual([2]);
+  });
+
+  it('rejects empty ballots, other games and repeats', () => {
+    expect(() => parseRunoffRanking([], runoff)).toThrow(/at least one/);
+    expect(() => parseRunoffRanking([3], runoff)).toThrow(/runoff ballot/);
+    expect(() => parseRunoffRanking([1, 1], runoff)).toThrow(/repeat/);
+  });
+});
@@ -0,0 +1,44 @@
+import type { SessionRunoff } from './types.js';
+
+/** Most games a runoff ballot can hold */
+export const MAX_RUNOFF_GAMES = 10;
+
+/**
+ * Validate the tied games sent by the host. Returns null when the request
+ * clears the runoff.
+ */
+export function parseRunoffGames(value: unknown): SessionRunoff['games'] | null {
+  if (value === undefined || value === null) return null;
+  if (!Array.isArray(value) || value.length < 2 || value.length > MAX_RUNOFF_GAMES) {
+    throw new Error(`games must list between 2 and ${MAX_RUNOFF_GAMES} tied games`);
+  }
+  const games = value.map((g) => {
+    const { bggId, name } = (g ?? {}) as { bggId?: unknown; name?: unknown };
+    if (typeof bggId !== 'number' || !Number.isInteger(bggId) || bggId <= 0) {
+      throw new Error('each game needs a positive bggId');
+    }
+    return { bggId, name: typeof name === 'string' && name.trim() ? name.trim() : `Game ${bggId}` };
+  });
+  if (new Set(games.map((g) => g.bggId)).size !== games.length) {
+    throw new Error('games must not repeat');
+  }
+  return games;
+}
+
+/**
+ * Validate a ballot against the open runoff: a best-first list of distinct
+ * runoff games (games left out count as tied last).
+ */
+export function parseRunoffRanking(value: unknown, runoff: Pick<SessionRunoff, 'games'>): number[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error('ranking must list at least one game');
+  }
+  const allowed = new Set(runoff.games.map((g) => g.bggId));
+  if (value.some((id) => !allowed.has(id as number))) {
+    throw new Error('ranking may only contain games on the runoff ballot');
+  }
+  if (new Set(value).size !== value.length) {
+    throw new Error('ranking must not repeat games');
+  }
+  return value as number[];
+}
@@ -0,0 +1,89 @@
+/**
+ * Set Session Runoff Cloud Function
+ *
+ * Pushes a runoff ballot to guests when the host's top games are tied, or
+ * clears it once the host has decided. Guests see the ballot via realtime
+ * listeners on the session doc and answer with submitRunoffBallot.
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getFirestore, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import type { Session, SessionRunoff } from './types.js';
+import { parseRunoffGames } from './runoff.js';
+
+export interface SetSessionRunoffRequest {
+  sessionId: string;
+  /** Tied games to put on the ballot; null clears the runoff */
+  games: Array<{ bggId: number; name: string }> | null;
+}
+
+export interface SetSessionRunoffResponse {
+  ok: true;
+  sessionId: string;
+  isOpen: boolean;
+}
+
+/**
+ * Open (or clear) a runoff on an open session.
+ * Only the host (creator) can set it; opening a new runoff discards old ballots.
+ */
+export const setSessionRunoff = onCall(async (request) => {
+  const { data, auth } = request;
+  const req = data as SetSessionRunoffRequest;
+
+  if (!auth?.uid) {
+    throw new HttpsError('unauthenticated', 'Must be signed in to start a runoff');
+  }
+
+  if (!req.sessionId?.trim()) {
+    throw new HttpsError('invalid-argument', 'sessionId is required');
+  }
+
+  let games: SessionRunoff['games'] | null;
+  try {
+    games = parseRunoffGames(req.games);
+  } catch (err) {
+    throw new HttpsError('invalid-argument', err instanceof Error ? err.message : 'Invalid games');
+  }
+
+  const callerUid = auth.uid;
+  const db = getFirestore();
+  const sessionId = req.sessionId.trim();
+
+  const sessionRef = db.collection('sessions').doc(sessionId);
+  const sessionDoc = await sessionRef.get();
+
+  if (!sessionDoc.exists) {
+    throw new HttpsError('not-found', 'Session not found');
+  }
+
+  const session = sessionDoc.data() as Session;
+
+  if (session.createdByUid !== callerUid) {
+    throw new HttpsError('permission-denied', 'Only the host can start a runoff');
+  }
+
+  if (session.expiresAt.toMillis() < Date.now()) {
+    throw new HttpsError('failed-precondition', 'Session has expired');
+  }
+
+  if (games && session.status !== 'open') {
+    throw new HttpsError('failed-precondition', 'Cannot start a runoff on a non-open session');
+  }
+
+  const runoff: SessionRunoff | null = games
+    ? { games, startedAt: Timestamp.now(), ballots: {} }
+    : null;
+
+  await sessionRef.update({ runoff: runoff ?? FieldValue.delete() });
+
+  console.log(
+    `[setSessionRunoff] Host ${callerUid} ${runoff ? `opened a runoff of ${runoff.games.length} games` : 'cleared the runoff'} for session ${sessionId}`
+  );
+
+  return {
+    ok: true,
+    sessionId,
+    isOpen: Boolean(runoff),
+  } satisfies SetSessionRunoffResponse;
+});
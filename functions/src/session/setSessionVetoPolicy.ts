@@ -0,0 +1,85 @@
+/**
+ * Set Session Veto Policy Cloud Function
+ *
+ * Updates the host's veto policy on an open session. The host can change the
+ * policy on the Result step after the session was created; guests read it via
+ * realtime listeners and submitGuestPreferences enforces the new budget.
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getFirestore } from 'firebase-admin/firestore';
+import type { Session, VetoPolicy } from './types.js';
+import { parseVetoPolicy } from './vetoPolicy.js';
+
+export interface SetSessionVetoPolicyRequest {
+  sessionId: string;
+  vetoPolicy: VetoPolicy;
+}
+
+export interface SetSessionVetoPolicyResponse {
+  ok: true;
+  sessionId: string;
+  vetoPolicy: VetoPolicy;
+}
+
+/**
+ * Replace the veto policy of an open session.
+ * Only the host (creator) can change it.
+ */
+export const setSessionVetoPolicy = onCall(async (request) => {
+  const { data, auth } = request;
+  const req = data as SetSessionVetoPolicyRequest;
+
+  if (!auth?.uid) {
+    throw new HttpsError('unauthenticated', 'Must be signed in to change the veto policy');
+  }
+
+  if (!req.sessionId?.trim()) {
+    throw new HttpsError('invalid-argument', 'sessionId is required');
+  }
+
+  let vetoPolicy: VetoPolicy | null;
+  try {
+    vetoPolicy = parseVetoPolicy(req.vetoPolicy);
+  } catch (err) {
+    throw new HttpsError('invalid-argument', err instanceof Error ? err.message : 'Invalid vetoPolicy');
+  }
+  if (!vetoPolicy) {
+    throw new HttpsError('invalid-argument', 'vetoPolicy is required');
+  }
+
+  const callerUid = auth.uid;
+  const db = getFirestore();
+  const sessionId = req.sessionId.trim();
+
+  const sessionRef = db.collection('sessions').doc(sessionId);
+  const sessionDoc = await sessionRef.get();
+
+  if (!sessionDoc.exists) {
+    throw new HttpsError('not-found', 'Session not found');
+  }
+
+  const session = sessionDoc.data() as Session;
+
+  if (session.createdByUid !== callerUid) {
+    throw new HttpsError('permission-denied', 'Only the host can change the veto policy');
+  }
+
+  if (session.expiresAt.toMillis() < Date.now()) {
+    throw new HttpsError('failed-precondition', 'Session has expired');
+  }
+
+  if (session.status !== 'open') {
+    throw new HttpsError('failed-precondition', 'Cannot change the veto policy of a non-open session');
+  }
+
+  await sessionRef.update({ vetoPolicy });
+
+  console.log(`[setSessionVetoPolicy] Host ${callerUid} set the veto policy of session ${sessionId} to ${vetoPolicy.mode}`);
+
+  return {
+    ok: true,
+    sessionId,
+    vetoPolicy,
+  } satisfies SetSessionVetoPolicyResponse;
+});
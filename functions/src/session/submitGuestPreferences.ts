@@ -14,6 +14,8 @@ import type {
   SharedGamePreference,
   SharedPreference,
 } from './types.js';
+import { isPreferenceTier } from './types.js';
+import { checkVetoLimit } from './vetoPolicy.js';
 
 /**
  * Submit guest (or host) preferences.
@@ -85,10 +87,18 @@ export const submitGuestPreferences = onCall(async (request) => {
     .map((p) => ({
       bggId: p.bggId,
       rank: typeof p.rank === 'number' ? p.rank : null,
+      // Tiers replace ranks, so a ranked preference never keeps one
+      tier: typeof p.rank !== 'number' && isPreferenceTier(p.tier) ? p.tier : null,
       isTopPick: Boolean(p.isTopPick),
       isDisliked: Boolean(p.isDisliked),
     }));
 
+  // Enforce the host's veto budget (soft and unlimited policies accept any number)
+  const vetoError = checkVetoLimit(session.vetoPolicy, validPreferences);
+  if (vetoError) {
+    throw new HttpsError('invalid-argument', vetoError);
+  }
+
   // 6. Save preferences to Firestore
   const batch = db.batch();
   
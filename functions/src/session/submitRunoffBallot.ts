@@ -0,0 +1,104 @@
+/**
+ * Submit Runoff Ballot Cloud Function
+ *
+ * Records a participant's ranking of the tied games on the session's open
+ * runoff. Resubmitting replaces the earlier ballot. Ballots name the runoff
+ * they were cast on and are rejected once the host has replaced or cleared it.
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import type { RunoffBallot, Session } from './types.js';
+import { parseRunoffRanking } from './runoff.js';
+
+export interface SubmitRunoffBallotRequest {
+  sessionId: string;
+  /** Runoff games, best first */
+  ranking: number[];
+  /** `startedAt` of the runoff the ballot was cast on (ISO string) */
+  runoffStartedAt: string;
+}
+
+export interface SubmitRunoffBallotResponse {
+  ok: true;
+  ballotCount: number;
+}
+
+/**
+ * Submit a runoff ballot as a session member.
+ */
+export const submitRunoffBallot = onCall(async (request) => {
+  const { auth, data } = request;
+  const req = data as SubmitRunoffBallotRequest;
+
+  if (!auth?.uid) {
+    throw new HttpsError('unauthenticated', 'Must be authenticated');
+  }
+
+  if (!req.sessionId?.trim()) {
+    throw new HttpsError('invalid-argument', 'sessionId is required');
+  }
+
+  if (typeof req.runoffStartedAt !== 'string' || !req.runoffStartedAt) {
+    throw new HttpsError('invalid-argument', 'runoffStartedAt is required');
+  }
+
+  const db = getFirestore();
+  const uid = auth.uid;
+  const sessionId = req.sessionId.trim();
+
+  const sessionRef = db.collection('sessions').doc(sessionId);
+  const memberRef = sessionRef.collection('members').doc(uid);
+
+  // Read, validate and write in one transaction so a late ballot can't
+  // recreate a cleared runoff or land on a newer one
+  const ballotCount = await db.runTransaction(async (transaction) => {
+    const sessionDoc = await transaction.get(sessionRef);
+
+    if (!sessionDoc.exists) {
+      throw new HttpsError('not-found', 'Session not found');
+    }
+
+    const session = sessionDoc.data() as Session;
+
+    if (session.status !== 'open' || session.expiresAt.toMillis() < Date.now()) {
+      throw new HttpsError('failed-precondition', 'Session is not open');
+    }
+
+    if (!session.runoff) {
+      throw new HttpsError('failed-precondition', 'No runoff is open');
+    }
+
+    if (session.runoff.startedAt.toDate().toISOString() !== req.runoffStartedAt) {
+      throw new HttpsError('failed-precondition', 'This runoff has been replaced; vote on the current one');
+    }
+
+    let ranking: number[];
+    try {
+      ranking = parseRunoffRanking(req.ranking, session.runoff);
+    } catch (err) {
+      throw new HttpsError('invalid-argument', err instanceof Error ? err.message : 'Invalid ranking');
+    }
+
+    const memberDoc = await transaction.get(memberRef);
+    if (!memberDoc.exists) {
+      throw new HttpsError('permission-denied', 'Not a member of this session');
+    }
+
+    const member = memberDoc.data();
+    const ballotKey: string = member?.participantId || uid;
+    const ballot: RunoffBallot = {
+      displayName: member?.displayName || 'Guest',
+      ranking,
+      submittedAt: Timestamp.now(),
+    };
+
+    transaction.update(sessionRef, { [`runoff.ballots.${ballotKey}`]: ballot });
+
+    return Object.keys({ ...session.runoff.ballots, [ballotKey]: ballot }).length;
+  });
+
+  console.log(`[submitRunoffBallot] User ${uid} voted in the runoff for session ${sessionId}`);
+
+  return { ok: true, ballotCount } satisfies SubmitRunoffBallotResponse;
+});
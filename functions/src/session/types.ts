@@ -72,16 +72,52 @@ export interface Session {
   shareMode: 'quick' | 'detailed';
   /** Detailed share only: whether guests can see Other Participants' Picks */
   showOtherParticipantsPicks?: boolean;
+  /** Host's veto policy (missing on older sessions = unlimited) */
+  vetoPolicy?: VetoPolicy;
   /** When the session was closed */
   closedAt?: Timestamp;
   /** Tonight's Pick selected game (does NOT close the session) */
   selectedGame?: SessionResult;
   /** When the pick was selected */
   selectedAt?: Timestamp;
+  /** Runoff between tied games, open while the host collects ballots */
+  runoff?: SessionRunoff | null;
   /** Tonight's Pick result (set when session is closed) */
   result?: SessionResult;
 }
 
+/**
+ * How players' dislikes count: every dislike vetoes (unlimited), each player
+ * gets `maxVetoes` hard vetoes (limited), or dislikes only lower a game's
+ * score (soft).
+ */
+export interface VetoPolicy {
+  mode: 'unlimited' | 'limited' | 'soft';
+  /** Hard vetoes per player; required when mode is 'limited' */
+  maxVetoes?: number;
+}
+
+/**
+ * Runoff ballot the host pushes to guests when the top games tie.
+ * Only the tied games are on the ballot.
+ */
+export interface SessionRunoff {
+  games: Array<{ bggId: number; name: string }>;
+  startedAt: Timestamp;
+  /** Ballots keyed by participantId */
+  ballots: Record<string, RunoffBallot>;
+}
+
+/**
+ * One participant's ranking of the runoff games, best first.
+ * Games left out count as tied last.
+ */
+export interface RunoffBallot {
+  displayName: string;
+  ranking: number[];
+  submittedAt: Timestamp;
+}
+
 /**
  * Tonight's Pick result stored when session is closed.
  */
@@ -174,6 +210,15 @@ export interface SharedPreference {
   sharedByUid: string;
 }
 
+/** Preference tier, best first; games in the same tier are tied */
+export type PreferenceTier = 'S' | 'A' | 'B' | 'C';
+
+export const PREFERENCE_TIERS: readonly PreferenceTier[] = ['S', 'A', 'B', 'C'];
+
+export function isPreferenceTier(value: unknown): value is PreferenceTier {
+  return typeof value === 'string' && (PREFERENCE_TIERS as readonly string[]).includes(value);
+}
+
 /**
  * Individual game preference within SharedPreference.
  */
@@ -182,6 +227,8 @@ export interface SharedGamePreference {
   bggId: number;
   /** Preference rank (1 = highest, null = no rank) */
   rank?: number | null;
+  /** Preference tier used instead of a rank (ties allowed, null = none) */
+  tier?: PreferenceTier | null;
   /** Whether this is a top pick */
   isTopPick?: boolean;
   /** Whether this is disliked */
@@ -212,6 +259,8 @@ export interface CreateSessionRequest {
   shareMode?: 'quick' | 'detailed';
   /** Detailed share only: whether guests can see Other Participants' Picks */
   showOtherParticipantsPicks?: boolean;
+  /** Host's veto policy, checked when guests submit preferences */
+  vetoPolicy?: VetoPolicy;
   /** BGG game IDs to include in the session */
   gameIds: string[];
   /** Game data for each game (to upload if missing) */
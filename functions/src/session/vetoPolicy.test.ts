@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { checkVetoLimit, parseVetoPolicy } from './vetoPolicy.js';
+
+const dislike = (bggId: number) => ({ bggId, isDisliked: true });
+
+describe('parseVetoPolicy', () => {
+  it('accepts valid policies and treats a missing one as none', () => {
+    expect(parseVetoPolicy(undefined)).toBeNull();
+    expect(parseVetoPolicy({ mode: 'limited', maxVetoes: 2 })).toEqual({ mode: 'limited', maxVetoes: 2 });
+  });
+
+  it('only requires a budget for limited policies', () => {
+    expect(parseVetoPolicy({ mode: 'unlimited' })).toEqual({ mode: 'unlimited' });
+    expect(parseVetoPolicy({ mode: 'soft' })).toEqual({ mode: 'soft' });
+    expect(() => parseVetoPolicy({ mode: 'limited' })).toThrow(/maxVetoes/);
+  });
+
+  it('rejects unknown modes and bad budgets', () => {
+    expect(() => parseVetoPolicy({ mode: 'strict', maxVetoes: 2 })).toThrow(/mode/);
+    expect(() => parseVetoPolicy({ mode: 'limited', maxVetoes: 0 })).toThrow(/maxVetoes/);
+    expect(() => parseVetoPolicy({ mode: 'limited', maxVetoes: 1.5 })).toThrow(/maxVetoes/);
+  });
+});
+
+describe('checkVetoLimit', () => {
+  it('only limits dislikes under a limited policy', () => {
+    const prefs = [dislike(1), dislike(2), { bggId: 3, rank: 1 }];
+
+    expect(checkVetoLimit(undefined, prefs)).toBeNull();
+    expect(checkVetoLimit({ mode: 'soft', maxVetoes: 1 }, prefs)).toBeNull();
+    expect(checkVetoLimit({ mode: 'limited', maxVetoes: 2 }, prefs)).toBeNull();
+    expect(checkVetoLimit({ mode: 'limited', maxVetoes: 1 }, prefs)).toMatch(/At most 1 disliked/);
+  });
+});
@@ -0,0 +1,39 @@
+import type { SharedGamePreference, VetoPolicy } from './types.js';
+
+const VETO_MODES: readonly VetoPolicy['mode'][] = ['unlimited', 'limited', 'soft'];
+
+/** Longest veto budget a host can set */
+export const MAX_VETO_LIMIT = 50;
+
+/**
+ * Validate a veto policy from a request. Returns null when none was sent.
+ */
+export function parseVetoPolicy(value: unknown): VetoPolicy | null {
+  if (value === undefined || value === null) return null;
+  const { mode, maxVetoes } = value as Partial<VetoPolicy>;
+  if (!VETO_MODES.includes(mode as VetoPolicy['mode'])) {
+    throw new Error('vetoPolicy.mode must be unlimited, limited or soft');
+  }
+  if (maxVetoes === undefined && mode !== 'limited') {
+    return { mode: mode as VetoPolicy['mode'] };
+  }
+  if (typeof maxVetoes !== 'number' || !Number.isInteger(maxVetoes) || maxVetoes < 1 || maxVetoes > MAX_VETO_LIMIT) {
+    throw new Error(`vetoPolicy.maxVetoes must be a whole number between 1 and ${MAX_VETO_LIMIT}`);
+  }
+  return { mode: mode as VetoPolicy['mode'], maxVetoes };
+}
+
+/**
+ * Error message when the preferences use more vetoes than the policy allows,
+ * otherwise null.
+ */
+export function checkVetoLimit(
+  policy: VetoPolicy | undefined,
+  preferences: SharedGamePreference[]
+): string | null {
+  if (policy?.mode !== 'limited' || policy.maxVetoes === undefined) return null;
+  const vetoes = preferences.filter((p) => p.isDisliked).length;
+  return vetoes > policy.maxVetoes
+    ? `At most ${policy.maxVetoes} disliked games allowed in this session (got ${vetoes})`
+    : null;
+}